@@ -0,0 +1,296 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import {
+  accountLabel,
+  type AccountSummary,
+} from "@/components/account-switcher";
+import type { BrandProfileSummary } from "@/components/brand-profile-picker";
+
+type AuthMethod = AccountSummary["authMethod"];
+
+interface AccountsPayload {
+  accounts: (AccountSummary & { scopes: string[]; createdAt: string })[];
+  authMethods: AuthMethod[];
+  encryptionConfigured: boolean;
+}
+
+interface SettingsForm {
+  label: string;
+  defaultProfileId: string;
+  requireApproval: boolean;
+}
+
+const METHOD_LABELS: Record<AuthMethod, string> = {
+  oauth1: "OAuth 1.0a",
+  oauth2: "OAuth 2.0 (PKCE)",
+};
+
+const toForm = (account: AccountSummary): SettingsForm => ({
+  label: account.settings.label ?? "",
+  defaultProfileId: account.settings.defaultProfileId ?? "",
+  requireApproval: account.settings.requireApproval,
+});
+
+const formsFor = (accounts: AccountSummary[]) =>
+  Object.fromEntries(accounts.map((account) => [account.id, toForm(account)]));
+
+const fetchAccounts = async () => {
+  const response = await fetch("/api/accounts");
+  if (!response.ok) {
+    throw new Error(await response.text());
+  }
+  return (await response.json()) as AccountsPayload;
+};
+
+const fetchProfiles = async () => {
+  const response = await fetch("/api/profiles");
+  if (!response.ok) {
+    return [];
+  }
+  const payload = (await response.json()) as {
+    profiles: BrandProfileSummary[];
+  };
+  return payload.profiles;
+};
+
+/** `?connected=` / `?error=` set by the OAuth callback redirect. */
+const callbackNotice = () => {
+  const query = new URLSearchParams(window.location.search);
+  const connected = query.get("connected");
+  return connected ? `Connected @${connected}.` : null;
+};
+
+const callbackError = () =>
+  new URLSearchParams(window.location.search).get("error");
+
+const inputClass =
+  "rounded-2xl border border-slate-700 bg-slate-950 px-4 py-3 text-base text-white outline-none transition focus:border-sky-500 focus:ring-2 focus:ring-sky-500/40";
+
+export default function AccountsPage() {
+  const [data, setData] = useState<AccountsPayload | null>(null);
+  const [profiles, setProfiles] = useState<BrandProfileSummary[]>([]);
+  const [forms, setForms] = useState<Record<string, SettingsForm>>({});
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = async () => {
+    const payload = await fetchAccounts();
+    setData(payload);
+    setForms(formsFor(payload.accounts));
+  };
+
+  useEffect(() => {
+    Promise.all([fetchAccounts(), fetchProfiles()])
+      .then(([payload, loadedProfiles]) => {
+        setData(payload);
+        setForms(formsFor(payload.accounts));
+        setProfiles(loadedProfiles);
+        setNotice(callbackNotice());
+        setError(callbackError());
+      })
+      .catch((err) =>
+        setError(err instanceof Error ? err.message : "Failed to load accounts")
+      );
+  }, []);
+
+  const update = (id: string, patch: Partial<SettingsForm>) =>
+    setForms((prev) => ({ ...prev, [id]: { ...prev[id], ...patch } }));
+
+  const save = async (id: string) => {
+    const form = forms[id];
+    setSavingId(id);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/accounts/${id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          label: form.label || undefined,
+          defaultProfileId: form.defaultProfileId || undefined,
+          requireApproval: form.requireApproval,
+        }),
+      });
+      if (!response.ok) {
+        throw new Error(await response.text());
+      }
+      await load();
+      setNotice("Settings saved.");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save settings");
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const disconnect = async (account: AccountSummary) => {
+    const response = await fetch(`/api/accounts/${account.id}`, {
+      method: "DELETE",
+    });
+    if (!response.ok) {
+      setError(await response.text());
+      return;
+    }
+    await load();
+    setNotice(`Disconnected @${account.handle}.`);
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-950 text-slate-100">
+      <div className="mx-auto flex w-full max-w-5xl flex-col gap-10 px-6 py-16">
+        <header className="flex flex-col gap-4">
+          <Link
+            href="/"
+            className="w-fit text-xs uppercase tracking-widest text-slate-400 hover:text-slate-200"
+          >
+            ← Back to studio
+          </Link>
+          <h1 className="text-4xl font-semibold text-white">
+            Connected accounts
+          </h1>
+          <p className="max-w-2xl text-base leading-relaxed text-slate-300">
+            Each account authorizes this app through Twitter&apos;s consent
+            screen. Tokens are encrypted at rest with the deployment&apos;s
+            master key, and every generation, draft and scheduled job can target
+            one account.
+          </p>
+        </header>
+
+        {notice && (
+          <div className="rounded-2xl border border-emerald-500/40 bg-emerald-500/10 px-4 py-3 text-sm text-emerald-200">
+            {notice}
+          </div>
+        )}
+        {error && (
+          <div className="rounded-2xl border border-red-500/40 bg-red-500/10 px-4 py-3 text-sm text-red-200">
+            {error}
+          </div>
+        )}
+
+        <section className="rounded-3xl border border-slate-800 bg-slate-900/50 p-8">
+          <h2 className="text-lg font-semibold text-white">Connect</h2>
+          {data && !data.encryptionConfigured && (
+            <p className="mt-2 text-sm text-amber-200">
+              Set <code>CREDENTIALS_MASTER_KEY</code> (32 bytes, base64) to
+              store account tokens.
+            </p>
+          )}
+          {data && data.authMethods.length === 0 && (
+            <p className="mt-2 text-sm text-slate-400">
+              Add <code>TWITTER_APP_KEY</code>/<code>TWITTER_APP_SECRET</code>{" "}
+              or <code>TWITTER_CLIENT_ID</code> to enable onboarding.
+            </p>
+          )}
+          <div className="mt-4 flex flex-wrap gap-3">
+            {data?.authMethods.map((method) => (
+              <a
+                key={method}
+                href={`/api/accounts/connect?method=${method}`}
+                className="rounded-2xl bg-sky-500 px-6 py-3 text-sm font-semibold uppercase tracking-wide text-slate-950 transition hover:bg-sky-400"
+              >
+                Connect with {METHOD_LABELS[method]}
+              </a>
+            ))}
+          </div>
+        </section>
+
+        <section className="flex flex-col gap-4">
+          {data?.accounts.length === 0 && (
+            <p className="text-sm text-slate-400">
+              No connected accounts yet. Requests without an account use the
+              TWITTER_* env credentials.
+            </p>
+          )}
+          {data?.accounts.map((account) => {
+            const form = forms[account.id] ?? toForm(account);
+            return (
+              <article
+                key={account.id}
+                className="rounded-3xl border border-slate-800 bg-slate-900/50 p-8"
+              >
+                <div className="flex flex-wrap items-center justify-between gap-4">
+                  <div>
+                    <h2 className="text-lg font-semibold text-white">
+                      {accountLabel(account)}
+                    </h2>
+                    <p className="text-xs text-slate-400">
+                      {METHOD_LABELS[account.authMethod]} · connected{" "}
+                      {new Date(account.createdAt).toLocaleDateString()}
+                      {account.scopes.length > 0 &&
+                        ` · ${account.scopes.join(", ")}`}
+                    </p>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => disconnect(account)}
+                    className="rounded-2xl border border-slate-700 px-3 py-1 text-xs uppercase tracking-wide text-slate-300 transition hover:border-red-400 hover:text-red-200"
+                  >
+                    Disconnect
+                  </button>
+                </div>
+                <div className="mt-6 grid gap-4 sm:grid-cols-2">
+                  <label className="flex flex-col gap-2 text-sm font-medium text-slate-200">
+                    Label
+                    <input
+                      value={form.label}
+                      onChange={(event) =>
+                        update(account.id, { label: event.target.value })
+                      }
+                      placeholder="e.g. Acme Corp"
+                      className={inputClass}
+                    />
+                  </label>
+                  <label className="flex flex-col gap-2 text-sm font-medium text-slate-200">
+                    Default brand profile
+                    <select
+                      value={form.defaultProfileId}
+                      onChange={(event) =>
+                        update(account.id, {
+                          defaultProfileId: event.target.value,
+                        })
+                      }
+                      className={inputClass}
+                    >
+                      <option value="">None</option>
+                      {profiles.map((profile) => (
+                        <option key={profile.id} value={profile.id}>
+                          {profile.name}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                </div>
+                <div className="mt-4 flex flex-wrap items-center justify-between gap-4">
+                  <label className="flex items-center gap-2 text-sm text-slate-300">
+                    <input
+                      type="checkbox"
+                      checked={form.requireApproval}
+                      onChange={(event) =>
+                        update(account.id, {
+                          requireApproval: event.target.checked,
+                        })
+                      }
+                      className="h-4 w-4 rounded border-slate-600 bg-slate-900 text-sky-500 focus:ring-sky-500"
+                    />
+                    Require draft approval before publishing
+                  </label>
+                  <button
+                    type="button"
+                    disabled={savingId === account.id}
+                    onClick={() => save(account.id)}
+                    className="rounded-2xl border border-slate-700 px-6 py-3 text-sm font-semibold uppercase tracking-wide text-slate-300 transition hover:border-sky-400 disabled:cursor-not-allowed disabled:opacity-60"
+                  >
+                    {savingId === account.id ? "Saving..." : "Save settings"}
+                  </button>
+                </div>
+              </article>
+            );
+          })}
+        </section>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,472 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+
+const ROLES = ["viewer", "writer", "publisher", "admin"] as const;
+
+type Role = (typeof ROLES)[number];
+type AuditOutcome = "ok" | "denied" | "failed";
+
+interface UserView {
+  id: string;
+  username: string;
+  role: Role;
+  disabled: boolean;
+  lastLoginAt?: string;
+}
+
+interface ApiKeyView {
+  id: string;
+  name: string;
+  role: Role;
+  prefix: string;
+  createdBy: string;
+  createdAt: string;
+  lastUsedAt?: string;
+  revokedAt?: string;
+}
+
+interface AuditEntry {
+  id: string;
+  at: string;
+  actor: { type: string; name: string; role: Role };
+  action: string;
+  outcome: AuditOutcome;
+  target?: string;
+  detail?: string;
+}
+
+const ROLE_HINTS: Record<Role, string> = {
+  viewer: "Read-only dashboards",
+  writer: "Generate drafts, plans, media",
+  publisher: "Post, schedule, approve",
+  admin: "Accounts, users, API keys",
+};
+
+const outcomeClass: Record<AuditOutcome, string> = {
+  ok: "text-emerald-300",
+  denied: "text-amber-300",
+  failed: "text-red-300",
+};
+
+const inputClass =
+  "rounded-2xl border border-slate-700 bg-slate-950 px-4 py-3 text-base text-white outline-none transition focus:border-sky-500 focus:ring-2 focus:ring-sky-500/40";
+
+const smallButton =
+  "rounded-2xl border border-slate-700 px-3 py-1 text-xs uppercase tracking-wide text-slate-300 transition hover:border-sky-400 disabled:opacity-50";
+
+const request = async <T,>(url: string, init?: RequestInit) => {
+  const response = await fetch(url, {
+    ...init,
+    headers: init?.body ? { "Content-Type": "application/json" } : undefined,
+  });
+  if (!response.ok) {
+    const payload = await response.json().catch(() => null);
+    throw new Error(payload?.error ?? `Request failed (${response.status})`);
+  }
+  return (response.status === 204 ? undefined : await response.json()) as T;
+};
+
+const fetchAudit = async (outcome: AuditOutcome | "") =>
+  (
+    await request<{ entries: AuditEntry[] }>(
+      outcome ? `/api/audit?outcome=${outcome}` : "/api/audit"
+    )
+  ).entries;
+
+const fetchAccess = (outcome: AuditOutcome | "") =>
+  Promise.all([
+    request<{ users: UserView[] }>("/api/users").then(
+      (payload) => payload.users
+    ),
+    request<{ apiKeys: ApiKeyView[] }>("/api/api-keys").then(
+      (payload) => payload.apiKeys
+    ),
+    fetchAudit(outcome),
+  ]);
+
+const formatTime = (value?: string) =>
+  value ? new Date(value).toLocaleString() : "never";
+
+export default function AdminPage() {
+  const [users, setUsers] = useState<UserView[]>([]);
+  const [apiKeys, setApiKeys] = useState<ApiKeyView[]>([]);
+  const [audit, setAudit] = useState<AuditEntry[]>([]);
+  const [outcome, setOutcome] = useState<AuditOutcome | "">("");
+  const [newUser, setNewUser] = useState({
+    username: "",
+    password: "",
+    role: "writer" as Role,
+  });
+  const [newKey, setNewKey] = useState({ name: "", role: "publisher" as Role });
+  const [createdKey, setCreatedKey] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const show = ([userList, keyList, entries]: Awaited<
+    ReturnType<typeof fetchAccess>
+  >) => {
+    setUsers(userList);
+    setApiKeys(keyList);
+    setAudit(entries);
+  };
+
+  const load = async () => show(await fetchAccess(outcome));
+
+  useEffect(() => {
+    fetchAccess("")
+      .then(show)
+      .catch((err) =>
+        setError(err instanceof Error ? err.message : "Failed to load")
+      );
+  }, []);
+
+  const run = async (action: () => Promise<unknown>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Request failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const createUser = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    run(async () => {
+      await request("/api/users", {
+        method: "POST",
+        body: JSON.stringify(newUser),
+      });
+      setNewUser({ username: "", password: "", role: "writer" });
+    });
+  };
+
+  const updateUser = (id: string, update: Record<string, unknown>) =>
+    run(() =>
+      request(`/api/users/${id}`, {
+        method: "PATCH",
+        body: JSON.stringify(update),
+      })
+    );
+
+  const resetPassword = (user: UserView) => {
+    const password = window.prompt(`New password for ${user.username}`);
+    if (password) {
+      updateUser(user.id, { password });
+    }
+  };
+
+  const createKey = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    run(async () => {
+      const payload = await request<{ key: string }>("/api/api-keys", {
+        method: "POST",
+        body: JSON.stringify(newKey),
+      });
+      setCreatedKey(payload.key);
+      setNewKey({ name: "", role: "publisher" });
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-950 text-slate-100">
+      <div className="mx-auto flex w-full max-w-5xl flex-col gap-10 px-6 py-16">
+        <header className="flex flex-col gap-4">
+          <Link
+            href="/"
+            className="w-fit text-xs uppercase tracking-widest text-slate-400 hover:text-slate-200"
+          >
+            ← Back to studio
+          </Link>
+          <h1 className="text-4xl font-semibold text-white">Access</h1>
+          <p className="max-w-2xl text-base leading-relaxed text-slate-300">
+            Users sign in to the dashboard; API keys let n8n and scripts call
+            the API. Every post, approval, schedule and credential change is
+            recorded in the audit trail below.
+          </p>
+        </header>
+
+        {error && (
+          <div className="rounded-2xl border border-red-500/40 bg-red-500/10 px-4 py-3 text-sm text-red-200">
+            {error}
+          </div>
+        )}
+
+        <section className="flex flex-col gap-6 rounded-3xl border border-slate-800 bg-slate-900/50 p-8">
+          <h2 className="text-lg font-semibold text-white">Users</h2>
+          <ul className="flex flex-col gap-3">
+            {users.map((user) => (
+              <li
+                key={user.id}
+                className="flex flex-wrap items-center justify-between gap-4 rounded-2xl border border-slate-800 bg-slate-950 px-4 py-3 text-sm text-slate-300"
+              >
+                <span>
+                  <span
+                    className={`font-semibold ${user.disabled ? "text-slate-500 line-through" : "text-white"}`}
+                  >
+                    {user.username}
+                  </span>{" "}
+                  · last sign-in {formatTime(user.lastLoginAt)}
+                </span>
+                <span className="flex flex-wrap items-center gap-2">
+                  <select
+                    value={user.role}
+                    disabled={busy}
+                    onChange={(event) =>
+                      updateUser(user.id, { role: event.target.value })
+                    }
+                    className="rounded-2xl border border-slate-700 bg-slate-950 px-3 py-1 text-xs uppercase tracking-wide text-slate-200"
+                  >
+                    {ROLES.map((role) => (
+                      <option key={role} value={role}>
+                        {role}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    type="button"
+                    disabled={busy}
+                    onClick={() => resetPassword(user)}
+                    className={smallButton}
+                  >
+                    Reset password
+                  </button>
+                  <button
+                    type="button"
+                    disabled={busy}
+                    onClick={() =>
+                      updateUser(user.id, { disabled: !user.disabled })
+                    }
+                    className={smallButton}
+                  >
+                    {user.disabled ? "Enable" : "Disable"}
+                  </button>
+                  <button
+                    type="button"
+                    disabled={busy}
+                    onClick={() =>
+                      run(() =>
+                        request(`/api/users/${user.id}`, { method: "DELETE" })
+                      )
+                    }
+                    className={`${smallButton} hover:border-red-400 hover:text-red-200`}
+                  >
+                    Delete
+                  </button>
+                </span>
+              </li>
+            ))}
+          </ul>
+          <form
+            className="grid gap-4 sm:grid-cols-[1fr_1fr_1fr_auto]"
+            onSubmit={createUser}
+          >
+            <input
+              required
+              placeholder="username"
+              value={newUser.username}
+              onChange={(event) =>
+                setNewUser({ ...newUser, username: event.target.value })
+              }
+              className={inputClass}
+            />
+            <input
+              required
+              type="password"
+              minLength={10}
+              placeholder="password (10+ characters)"
+              autoComplete="new-password"
+              value={newUser.password}
+              onChange={(event) =>
+                setNewUser({ ...newUser, password: event.target.value })
+              }
+              className={inputClass}
+            />
+            <select
+              value={newUser.role}
+              onChange={(event) =>
+                setNewUser({ ...newUser, role: event.target.value as Role })
+              }
+              className={inputClass}
+            >
+              {ROLES.map((role) => (
+                <option key={role} value={role}>
+                  {role} · {ROLE_HINTS[role]}
+                </option>
+              ))}
+            </select>
+            <button
+              type="submit"
+              disabled={busy}
+              className="rounded-2xl bg-sky-500 px-6 py-3 text-sm font-semibold uppercase tracking-wide text-slate-950 transition hover:bg-sky-400 disabled:cursor-not-allowed disabled:bg-slate-700 disabled:text-slate-300"
+            >
+              Add user
+            </button>
+          </form>
+        </section>
+
+        <section className="flex flex-col gap-6 rounded-3xl border border-slate-800 bg-slate-900/50 p-8">
+          <h2 className="text-lg font-semibold text-white">API keys</h2>
+          {createdKey && (
+            <div className="rounded-2xl border border-emerald-500/40 bg-emerald-500/10 px-4 py-3 text-sm text-emerald-100">
+              Copy this key now; it is not shown again. Send it as{" "}
+              <code>Authorization: Bearer &lt;key&gt;</code>.
+              <code className="mt-2 block break-all font-mono text-white">
+                {createdKey}
+              </code>
+            </div>
+          )}
+          <ul className="flex flex-col gap-3">
+            {apiKeys.length === 0 && (
+              <li className="text-sm text-slate-400">No API keys yet.</li>
+            )}
+            {apiKeys.map((key) => (
+              <li
+                key={key.id}
+                className="flex flex-wrap items-center justify-between gap-4 rounded-2xl border border-slate-800 bg-slate-950 px-4 py-3 text-sm text-slate-300"
+              >
+                <span>
+                  <span
+                    className={`font-semibold ${key.revokedAt ? "text-slate-500 line-through" : "text-white"}`}
+                  >
+                    {key.name}
+                  </span>{" "}
+                  · <code className="font-mono">{key.prefix}…</code> ·{" "}
+                  {key.role} · last used {formatTime(key.lastUsedAt)}
+                </span>
+                {key.revokedAt ? (
+                  <span className="text-xs uppercase tracking-wide text-slate-500">
+                    Revoked {formatTime(key.revokedAt)}
+                  </span>
+                ) : (
+                  <button
+                    type="button"
+                    disabled={busy}
+                    onClick={() =>
+                      run(() =>
+                        request(`/api/api-keys/${key.id}`, {
+                          method: "DELETE",
+                        })
+                      )
+                    }
+                    className={`${smallButton} hover:border-red-400 hover:text-red-200`}
+                  >
+                    Revoke
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+          <form
+            className="grid gap-4 sm:grid-cols-[2fr_1fr_auto]"
+            onSubmit={createKey}
+          >
+            <input
+              required
+              minLength={2}
+              placeholder="name, e.g. n8n production"
+              value={newKey.name}
+              onChange={(event) =>
+                setNewKey({ ...newKey, name: event.target.value })
+              }
+              className={inputClass}
+            />
+            <select
+              value={newKey.role}
+              onChange={(event) =>
+                setNewKey({ ...newKey, role: event.target.value as Role })
+              }
+              className={inputClass}
+            >
+              {ROLES.map((role) => (
+                <option key={role} value={role}>
+                  {role}
+                </option>
+              ))}
+            </select>
+            <button
+              type="submit"
+              disabled={busy}
+              className="rounded-2xl bg-sky-500 px-6 py-3 text-sm font-semibold uppercase tracking-wide text-slate-950 transition hover:bg-sky-400 disabled:cursor-not-allowed disabled:bg-slate-700 disabled:text-slate-300"
+            >
+              Create key
+            </button>
+          </form>
+        </section>
+
+        <section className="flex flex-col gap-6 rounded-3xl border border-slate-800 bg-slate-900/50 p-8">
+          <div className="flex items-center justify-between gap-4">
+            <h2 className="text-lg font-semibold text-white">Audit trail</h2>
+            <select
+              value={outcome}
+              onChange={(event) => {
+                const next = event.target.value as AuditOutcome | "";
+                setOutcome(next);
+                fetchAudit(next)
+                  .then(setAudit)
+                  .catch((err) =>
+                    setError(err instanceof Error ? err.message : "Failed")
+                  );
+              }}
+              className="rounded-2xl border border-slate-700 bg-slate-950 px-3 py-1 text-xs uppercase tracking-wide text-slate-200"
+            >
+              <option value="">All outcomes</option>
+              <option value="ok">OK</option>
+              <option value="denied">Denied</option>
+              <option value="failed">Failed</option>
+            </select>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-left text-sm text-slate-300">
+              <thead className="text-xs uppercase tracking-wide text-slate-500">
+                <tr>
+                  <th className="py-2 pr-4">When</th>
+                  <th className="py-2 pr-4">Who</th>
+                  <th className="py-2 pr-4">Action</th>
+                  <th className="py-2 pr-4">Outcome</th>
+                  <th className="py-2">Detail</th>
+                </tr>
+              </thead>
+              <tbody>
+                {audit.length === 0 && (
+                  <tr>
+                    <td colSpan={5} className="py-3 text-slate-400">
+                      Nothing recorded yet.
+                    </td>
+                  </tr>
+                )}
+                {audit.map((entry) => (
+                  <tr key={entry.id} className="border-t border-slate-800">
+                    <td className="py-2 pr-4 whitespace-nowrap">
+                      {formatTime(entry.at)}
+                    </td>
+                    <td className="py-2 pr-4">
+                      {entry.actor.name}{" "}
+                      <span className="text-xs text-slate-500">
+                        {entry.actor.type} · {entry.actor.role}
+                      </span>
+                    </td>
+                    <td className="py-2 pr-4 font-mono text-xs">
+                      {entry.action}
+                    </td>
+                    <td className={`py-2 pr-4 ${outcomeClass[entry.outcome]}`}>
+                      {entry.outcome}
+                    </td>
+                    <td className="py-2 break-all text-xs text-slate-400">
+                      {[entry.detail, entry.target].filter(Boolean).join(" · ")}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </section>
+      </div>
+    </div>
+  );
+}
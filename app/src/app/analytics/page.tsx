@@ -0,0 +1,366 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+
+interface MetricSnapshot {
+  at: string;
+  impressions: number;
+  likes: number;
+  reposts: number;
+  replies: number;
+  quotes: number;
+  bookmarks: number;
+}
+
+interface PostPerformance {
+  id: string;
+  kind: "tweet" | "thread" | "reply";
+  text: string;
+  topic: string;
+  niche: string;
+  tone: string;
+  hookStyle?: string;
+  hasImage: boolean;
+  publishedAt: string;
+  latest?: MetricSnapshot;
+  engagements: number;
+  engagementRate?: number;
+}
+
+interface Breakdown {
+  key: string;
+  posts: number;
+  impressions: number;
+  engagements: number;
+  engagementRate?: number;
+}
+
+interface Analytics {
+  posts: PostPerformance[];
+  topPerformers: PostPerformance[];
+  breakdowns: Record<"topic" | "tone" | "image" | "hookStyle", Breakdown[]>;
+}
+
+const BREAKDOWN_LABELS: Record<keyof Analytics["breakdowns"], string> = {
+  topic: "By topic",
+  tone: "By tone",
+  image: "Image attached",
+  hookStyle: "By hook style",
+};
+
+const fetchAnalytics = async () => {
+  const response = await fetch("/api/analytics");
+  if (!response.ok) {
+    throw new Error(await response.text());
+  }
+  return (await response.json()) as Analytics;
+};
+
+const fetchSnapshots = async (id: string) => {
+  const response = await fetch(`/api/analytics/${id}`);
+  if (!response.ok) {
+    throw new Error(await response.text());
+  }
+  const payload = (await response.json()) as {
+    post: { snapshots: MetricSnapshot[] };
+  };
+  return payload.post.snapshots;
+};
+
+const engagementsOf = (snapshot: MetricSnapshot) =>
+  snapshot.likes +
+  snapshot.reposts +
+  snapshot.replies +
+  snapshot.quotes +
+  snapshot.bookmarks;
+
+const percent = (rate?: number) =>
+  rate === undefined ? "–" : `${(rate * 100).toFixed(1)}%`;
+
+const tweetUrl = (id: string) => `https://twitter.com/i/web/status/${id}`;
+
+/** Impressions and engagements over time, each scaled to its own peak. */
+function MetricCurve({ snapshots }: { snapshots: MetricSnapshot[] }) {
+  if (snapshots.length < 2) {
+    return (
+      <p className="text-xs text-slate-400">
+        The curve appears after the second snapshot.
+      </p>
+    );
+  }
+
+  const width = 480;
+  const height = 120;
+  const first = Date.parse(snapshots[0].at);
+  const span = Date.parse(snapshots[snapshots.length - 1].at) - first || 1;
+  const points = (value: (snapshot: MetricSnapshot) => number) => {
+    const peak = Math.max(...snapshots.map(value), 1);
+    return snapshots
+      .map(
+        (snapshot) =>
+          `${(((Date.parse(snapshot.at) - first) / span) * width).toFixed(1)},${(
+            height -
+            (value(snapshot) / peak) * height
+          ).toFixed(1)}`
+      )
+      .join(" ");
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <svg
+        viewBox={`0 0 ${width} ${height}`}
+        className="h-32 w-full rounded-xl bg-slate-900"
+        preserveAspectRatio="none"
+      >
+        <polyline
+          points={points((snapshot) => snapshot.impressions)}
+          fill="none"
+          strokeWidth={2}
+          className="stroke-sky-400"
+        />
+        <polyline
+          points={points(engagementsOf)}
+          fill="none"
+          strokeWidth={2}
+          className="stroke-emerald-400"
+        />
+      </svg>
+      <p className="text-xs text-slate-400">
+        <span className="text-sky-300">Impressions</span> and{" "}
+        <span className="text-emerald-300">engagements</span> from{" "}
+        {new Date(first).toLocaleString()} over {snapshots.length} snapshots.
+      </p>
+    </div>
+  );
+}
+
+export default function AnalyticsPage() {
+  const [analytics, setAnalytics] = useState<Analytics | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [snapshots, setSnapshots] = useState<MetricSnapshot[]>([]);
+  const [collecting, setCollecting] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchAnalytics()
+      .then(setAnalytics)
+      .catch((err) =>
+        setError(
+          err instanceof Error ? err.message : "Failed to load analytics"
+        )
+      );
+  }, []);
+
+  useEffect(() => {
+    if (!expanded) {
+      return;
+    }
+    fetchSnapshots(expanded)
+      .then(setSnapshots)
+      .catch(() => setSnapshots([]));
+  }, [expanded]);
+
+  const collect = async () => {
+    setCollecting(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/analytics/collect", {
+        method: "POST",
+      });
+      if (!response.ok) {
+        throw new Error(await response.text());
+      }
+      const result = (await response.json()) as {
+        collected: number;
+        skipped: number;
+      };
+      setAnalytics(await fetchAnalytics());
+      setNotice(
+        `Collected ${result.collected} post(s)${result.skipped ? `, skipped ${result.skipped}` : ""}.`
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Collection failed");
+    } finally {
+      setCollecting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-950 text-slate-100">
+      <div className="mx-auto flex w-full max-w-5xl flex-col gap-10 px-6 py-16">
+        <header className="flex flex-col gap-4">
+          <Link
+            href="/"
+            className="w-fit text-xs uppercase tracking-widest text-slate-400 hover:text-slate-200"
+          >
+            ← Back to studio
+          </Link>
+          <h1 className="text-4xl font-semibold text-white">Analytics</h1>
+          <p className="max-w-2xl text-base leading-relaxed text-slate-300">
+            Public metrics for every tweet, thread and reply the app published,
+            snapshotted periodically so you can see how each post grows and
+            which topics, tones and hooks perform best.
+          </p>
+          <button
+            type="button"
+            onClick={collect}
+            disabled={collecting}
+            className="w-fit rounded-2xl bg-sky-500 px-6 py-3 text-sm font-semibold uppercase tracking-wide text-slate-950 transition hover:bg-sky-400 disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            {collecting ? "Collecting..." : "Collect now"}
+          </button>
+        </header>
+
+        {notice && (
+          <div className="rounded-2xl border border-emerald-500/40 bg-emerald-500/10 px-4 py-3 text-sm text-emerald-200">
+            {notice}
+          </div>
+        )}
+        {error && (
+          <div className="rounded-2xl border border-red-500/40 bg-red-500/10 px-4 py-3 text-sm text-red-200">
+            {error}
+          </div>
+        )}
+
+        <section className="rounded-3xl border border-slate-800 bg-slate-900/50 p-8">
+          <h2 className="text-lg font-semibold text-white">Top performers</h2>
+          {!analytics?.topPerformers.length ? (
+            <p className="mt-4 text-sm text-slate-400">
+              No metrics collected yet.
+            </p>
+          ) : (
+            <ol className="mt-4 flex flex-col gap-2">
+              {analytics.topPerformers.map((post) => (
+                <li
+                  key={post.id}
+                  className="rounded-2xl border border-slate-800 bg-slate-950 px-4 py-3 text-sm text-slate-300"
+                >
+                  <p className="whitespace-pre-line text-slate-100">
+                    {post.text}
+                  </p>
+                  <p className="mt-1 text-xs text-slate-400">
+                    {post.engagements} engagements ·{" "}
+                    {post.latest?.impressions ?? 0} impressions ·{" "}
+                    {percent(post.engagementRate)} · {post.topic}
+                  </p>
+                </li>
+              ))}
+            </ol>
+          )}
+        </section>
+
+        {analytics && analytics.posts.length > 0 && (
+          <section className="grid gap-4 sm:grid-cols-2">
+            {(
+              Object.keys(BREAKDOWN_LABELS) as (keyof Analytics["breakdowns"])[]
+            ).map((dimension) => (
+              <div
+                key={dimension}
+                className="rounded-3xl border border-slate-800 bg-slate-900/50 p-6"
+              >
+                <h2 className="text-sm font-semibold uppercase tracking-wide text-white">
+                  {BREAKDOWN_LABELS[dimension]}
+                </h2>
+                <table className="mt-3 w-full text-left text-xs text-slate-300">
+                  <thead className="text-slate-500">
+                    <tr>
+                      <th className="py-1 font-normal"></th>
+                      <th className="py-1 font-normal">Posts</th>
+                      <th className="py-1 font-normal">Avg. engagements</th>
+                      <th className="py-1 font-normal">Rate</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {analytics.breakdowns[dimension].map((group) => (
+                      <tr key={group.key} className="border-t border-slate-800">
+                        <td className="py-1 text-slate-100">{group.key}</td>
+                        <td className="py-1">{group.posts}</td>
+                        <td className="py-1">
+                          {(group.engagements / group.posts).toFixed(1)}
+                        </td>
+                        <td className="py-1">
+                          {percent(group.engagementRate)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ))}
+          </section>
+        )}
+
+        <section className="rounded-3xl border border-slate-800 bg-slate-900/50 p-8">
+          <h2 className="text-lg font-semibold text-white">Published posts</h2>
+          {!analytics?.posts.length ? (
+            <p className="mt-4 text-sm text-slate-400">
+              Nothing published yet.
+            </p>
+          ) : (
+            <ul className="mt-4 flex flex-col gap-2">
+              {analytics.posts.map((post) => (
+                <li
+                  key={post.id}
+                  className="rounded-2xl border border-slate-800 bg-slate-950 px-4 py-3 text-sm text-slate-300"
+                >
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setSnapshots([]);
+                      setExpanded((current) =>
+                        current === post.id ? null : post.id
+                      );
+                    }}
+                    className="flex w-full items-center justify-between gap-4 text-left"
+                  >
+                    <span className="truncate">
+                      <span className="font-semibold text-white">
+                        {new Date(post.publishedAt).toLocaleString()}
+                      </span>{" "}
+                      {post.kind} · {post.text}
+                    </span>
+                    <span className="shrink-0 text-xs text-slate-400">
+                      {post.latest
+                        ? `${post.engagements} eng. · ${post.latest.impressions} impr.`
+                        : "not collected"}
+                    </span>
+                  </button>
+                  {expanded === post.id && (
+                    <div className="mt-4 flex flex-col gap-3">
+                      <MetricCurve snapshots={snapshots} />
+                      {post.latest && (
+                        <p className="text-xs text-slate-400">
+                          {post.latest.likes} likes · {post.latest.reposts}{" "}
+                          reposts · {post.latest.replies} replies ·{" "}
+                          {post.latest.quotes} quotes · {post.latest.bookmarks}{" "}
+                          bookmarks
+                        </p>
+                      )}
+                      <p className="text-xs text-slate-400">
+                        {post.topic} · {post.niche} · {post.tone}
+                        {post.hookStyle && ` · ${post.hookStyle} hook`}
+                        {post.hasImage && " · image"}
+                      </p>
+                      <a
+                        href={tweetUrl(post.id)}
+                        target="_blank"
+                        rel="noreferrer"
+                        className="text-xs text-sky-300 underline"
+                      >
+                        View tweet
+                      </a>
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+}
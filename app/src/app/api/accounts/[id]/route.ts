@@ -0,0 +1,87 @@
+import { NextResponse } from "next/server";
+import {
+  accountSettingsSchema,
+  deleteAccount,
+  getAccount,
+  toAccountSummary,
+  updateAccountSettings,
+} from "@/server/accounts";
+import { recordAudit } from "@/server/audit";
+import { authorize } from "@/server/auth";
+import { getProfile } from "@/server/profiles";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function GET(request: Request, { params }: Params) {
+  const auth = await authorize(request, "viewer");
+  if (!auth.actor) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const { id } = await params;
+  const account = await getAccount(id);
+
+  if (!account) {
+    return NextResponse.json({ error: "Account not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({ account: toAccountSummary(account) });
+}
+
+export async function PUT(request: Request, { params }: Params) {
+  const auth = await authorize(request, "admin", "account.update");
+  if (!auth.actor) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const { id } = await params;
+  const body = await request.json().catch(() => ({}));
+  const parsed = accountSettingsSchema.safeParse(body);
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid payload", details: parsed.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  if (
+    parsed.data.defaultProfileId &&
+    !(await getProfile(parsed.data.defaultProfileId))
+  ) {
+    return NextResponse.json(
+      { error: "Default profile not found" },
+      { status: 400 }
+    );
+  }
+
+  const account = await updateAccountSettings(id, parsed.data);
+
+  if (!account) {
+    return NextResponse.json({ error: "Account not found" }, { status: 404 });
+  }
+
+  await recordAudit(auth.actor, "account.update", { target: id });
+
+  return NextResponse.json({ account: toAccountSummary(account) });
+}
+
+export async function DELETE(request: Request, { params }: Params) {
+  const auth = await authorize(request, "admin", "account.disconnect");
+  if (!auth.actor) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const { id } = await params;
+
+  if (!(await deleteAccount(id))) {
+    return NextResponse.json({ error: "Account not found" }, { status: 404 });
+  }
+
+  await recordAudit(auth.actor, "account.disconnect", { target: id });
+
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { completeAccountConnection } from "@/server/accounts";
+import { recordAudit } from "@/server/audit";
+import { authorize } from "@/server/auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** OAuth 1.0a and 2.0 callback; lands back on `/accounts` either way. */
+export async function GET(request: Request) {
+  const url = new URL(request.url);
+  const accountsPage = new URL("/accounts", url);
+  const auth = await authorize(request, "admin", "account.connect");
+
+  if (!auth.actor) {
+    accountsPage.searchParams.set("error", auth.error);
+    return NextResponse.redirect(accountsPage);
+  }
+
+  try {
+    const account = await completeAccountConnection(url.searchParams);
+    accountsPage.searchParams.set("connected", account.handle);
+    await recordAudit(auth.actor, "account.connect", {
+      target: account.id,
+      detail: `@${account.handle}`,
+    });
+  } catch (error) {
+    accountsPage.searchParams.set("error", (error as Error).message);
+    await recordAudit(auth.actor, "account.connect", {
+      outcome: "failed",
+      detail: (error as Error).message,
+    });
+  }
+
+  return NextResponse.redirect(accountsPage);
+}
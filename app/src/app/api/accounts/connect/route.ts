@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import {
+  startAccountConnection,
+  type AccountAuthMethod,
+} from "@/server/accounts";
+import { authorize } from "@/server/auth";
+import { hasMasterKey } from "@/server/secrets";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const methods: AccountAuthMethod[] = ["oauth1", "oauth2"];
+
+/** Redirects the browser to Twitter's consent screen. */
+export async function GET(request: Request) {
+  const url = new URL(request.url);
+  const method = url.searchParams.get("method") ?? "oauth2";
+  const accountsPage = new URL("/accounts", url);
+  const auth = await authorize(request, "admin", "account.connect");
+
+  if (!auth.actor) {
+    accountsPage.searchParams.set("error", auth.error);
+    return NextResponse.redirect(accountsPage);
+  }
+
+  if (!methods.includes(method as AccountAuthMethod)) {
+    return NextResponse.json(
+      { error: `Unknown auth method "${method}"` },
+      { status: 400 }
+    );
+  }
+
+  if (!hasMasterKey()) {
+    accountsPage.searchParams.set(
+      "error",
+      "Set CREDENTIALS_MASTER_KEY before connecting accounts."
+    );
+    return NextResponse.redirect(accountsPage);
+  }
+
+  const appUrl = (process.env.APP_URL ?? url.origin).replace(/\/$/, "");
+
+  try {
+    return NextResponse.redirect(
+      await startAccountConnection(
+        method as AccountAuthMethod,
+        `${appUrl}/api/accounts/callback`
+      )
+    );
+  } catch (error) {
+    accountsPage.searchParams.set("error", (error as Error).message);
+    return NextResponse.redirect(accountsPage);
+  }
+}
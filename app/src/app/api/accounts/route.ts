@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import {
+  availableAuthMethods,
+  listAccounts,
+  toAccountSummary,
+} from "@/server/accounts";
+import { authorize } from "@/server/auth";
+import { hasMasterKey } from "@/server/secrets";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const auth = await authorize(request, "viewer");
+  if (!auth.actor) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  return NextResponse.json({
+    accounts: (await listAccounts()).map(toAccountSummary),
+    authMethods: availableAuthMethods(),
+    encryptionConfigured: hasMasterKey(),
+  });
+}
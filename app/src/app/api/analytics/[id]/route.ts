@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { getPostMetrics } from "@/server/analytics";
+import { authorize } from "@/server/auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authorize(request, "viewer");
+  if (!auth.actor) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const { id } = await params;
+  const post = await getPostMetrics(id);
+
+  if (!post) {
+    return NextResponse.json({ error: "Post not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({ post });
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { collectMetrics } from "@/server/analytics";
+import { recordAudit } from "@/server/audit";
+import { authorize } from "@/server/auth";
+import type { RunLog } from "@/server/run-log";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** Snapshots every post still being tracked now instead of waiting for the collector. */
+export async function POST(request: Request) {
+  const auth = await authorize(request, "writer", "analytics.collect");
+  if (!auth.actor) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const log: RunLog = [];
+  const result = await collectMetrics(log, { force: true });
+  await recordAudit(auth.actor, "analytics.collect");
+
+  return NextResponse.json({ ...result, log });
+}
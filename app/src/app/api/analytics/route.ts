@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+import { getAnalytics } from "@/server/analytics";
+import { authorize } from "@/server/auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const auth = await authorize(request, "viewer");
+  if (!auth.actor) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const params = new URL(request.url).searchParams;
+
+  return NextResponse.json(
+    await getAnalytics({
+      accountId: params.get("accountId") ?? undefined,
+      profileId: params.get("profileId") ?? undefined,
+      niche: params.get("niche") ?? undefined,
+    })
+  );
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import { recordAudit } from "@/server/audit";
+import { authorize, revokeApiKey } from "@/server/auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** Revokes the key; it stays listed so the audit trail can still name it. */
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authorize(request, "admin", "apikey.revoke");
+  if (!auth.actor) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const { id } = await params;
+  const apiKey = await revokeApiKey(id);
+
+  if (!apiKey) {
+    return NextResponse.json({ error: "API key not found" }, { status: 404 });
+  }
+
+  await recordAudit(auth.actor, "apikey.revoke", {
+    target: id,
+    detail: apiKey.name,
+  });
+
+  return NextResponse.json({ apiKey });
+}
@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server";
+import { recordAudit } from "@/server/audit";
+import {
+  apiKeyInputSchema,
+  authorize,
+  createApiKey,
+  listApiKeys,
+} from "@/server/auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const auth = await authorize(request, "admin");
+  if (!auth.actor) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  return NextResponse.json({ apiKeys: await listApiKeys() });
+}
+
+/** The key is only ever shown in this response. */
+export async function POST(request: Request) {
+  const auth = await authorize(request, "admin", "apikey.create");
+  if (!auth.actor) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const parsed = apiKeyInputSchema.safeParse(body);
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid payload", details: parsed.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  const { key, apiKey } = await createApiKey(parsed.data, auth.actor);
+  await recordAudit(auth.actor, "apikey.create", {
+    target: apiKey.id,
+    detail: `${apiKey.name} as ${apiKey.role}`,
+  });
+
+  return NextResponse.json({ key, apiKey }, { status: 201 });
+}
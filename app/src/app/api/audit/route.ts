@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { listAudit, type AuditOutcome } from "@/server/audit";
+import { authorize } from "@/server/auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const outcomes: AuditOutcome[] = ["ok", "denied", "failed"];
+
+/** Newest first; `?action=` matches a prefix such as `tweet.`. */
+export async function GET(request: Request) {
+  const auth = await authorize(request, "admin");
+  if (!auth.actor) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const query = new URL(request.url).searchParams;
+  const outcome = query.get("outcome");
+  const limit = Number(query.get("limit") ?? 200);
+
+  if (outcome && !outcomes.includes(outcome as AuditOutcome)) {
+    return NextResponse.json(
+      { error: `Unknown outcome "${outcome}"` },
+      { status: 400 }
+    );
+  }
+
+  return NextResponse.json({
+    entries: await listAudit({
+      action: query.get("action") ?? undefined,
+      actorId: query.get("actorId") ?? undefined,
+      outcome: (outcome as AuditOutcome | null) ?? undefined,
+      limit: Number.isInteger(limit) && limit > 0 ? Math.min(limit, 1000) : 200,
+    }),
+  });
+}
@@ -0,0 +1,57 @@
+import { NextResponse } from "next/server";
+import { recordAudit } from "@/server/audit";
+import {
+  credentialsSchema,
+  login,
+  SESSION_COOKIE,
+  sessionTtlMs,
+} from "@/server/auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** Opens a session and sets it as an HTTP-only cookie. */
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => ({}));
+  const parsed = credentialsSchema.safeParse(body);
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid payload", details: parsed.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  const session = await login(parsed.data.username, parsed.data.password);
+
+  if (!session) {
+    // Nobody is signed in; the attempted username stands in for the actor.
+    const username = parsed.data.username.trim().toLowerCase();
+    await recordAudit(
+      { type: "user", id: username, name: username, role: "viewer" },
+      "user.login",
+      { outcome: "failed", detail: "Wrong username or password" }
+    );
+    return NextResponse.json(
+      { error: "Wrong username or password" },
+      { status: 401 }
+    );
+  }
+
+  const { user } = session;
+  await recordAudit(
+    { type: "user", id: user.id, name: user.username, role: user.role },
+    "user.login",
+    { target: user.id }
+  );
+
+  const response = NextResponse.json({ user });
+  response.cookies.set(SESSION_COOKIE, session.token, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: Math.floor(sessionTtlMs() / 1000),
+  });
+  return response;
+}
@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server";
+import { logout, SESSION_COOKIE, sessionToken } from "@/server/auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function POST(request: Request) {
+  const token = sessionToken(request);
+
+  if (token) {
+    await logout(token);
+  }
+
+  const response = new NextResponse(null, { status: 204 });
+  response.cookies.delete(SESSION_COOKIE);
+  return response;
+}
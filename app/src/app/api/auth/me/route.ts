@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { authenticate, needsSetup } from "@/server/auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** The signed-in actor, or whether the first admin still has to be created. */
+export async function GET(request: Request) {
+  const actor = await authenticate(request);
+
+  if (!actor) {
+    return NextResponse.json(
+      { error: "Authentication required", needsSetup: await needsSetup() },
+      { status: 401 }
+    );
+  }
+
+  return NextResponse.json({ actor });
+}
@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import { recordAudit } from "@/server/audit";
+import { createUser, needsSetup, userInputSchema } from "@/server/auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** Creates the first admin. Closed as soon as any user exists. */
+export async function POST(request: Request) {
+  if (!(await needsSetup())) {
+    return NextResponse.json(
+      { error: "Setup is already complete" },
+      { status: 409 }
+    );
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const parsed = userInputSchema.omit({ role: true }).safeParse(body);
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid payload", details: parsed.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  // Two setups racing past the check above still create only one admin.
+  const user = await createUser(
+    { ...parsed.data, role: "admin" },
+    { firstUser: true }
+  );
+
+  if (!user) {
+    return NextResponse.json(
+      { error: "Setup is already complete" },
+      { status: 409 }
+    );
+  }
+
+  await recordAudit(
+    { type: "user", id: user.id, name: user.username, role: user.role },
+    "user.setup",
+    { target: user.id }
+  );
+
+  return NextResponse.json({ user }, { status: 201 });
+}
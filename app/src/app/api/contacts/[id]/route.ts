@@ -0,0 +1,67 @@
+import { NextResponse } from "next/server";
+import { recordAudit } from "@/server/audit";
+import { authorize } from "@/server/auth";
+import {
+  contactStatusSchema,
+  getContact,
+  setContactStatus,
+} from "@/server/contacts";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function GET(request: Request, { params }: Params) {
+  const auth = await authorize(request, "viewer");
+  if (!auth.actor) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const { id } = await params;
+  const contact = await getContact(decodeURIComponent(id));
+
+  if (!contact) {
+    return NextResponse.json({ error: "Contact not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({ contact });
+}
+
+/** Blocks a contact or clears an opt-out / block, e.g. after re-consent. */
+export async function PATCH(request: Request, { params }: Params) {
+  const auth = await authorize(request, "publisher", "contact.update");
+  if (!auth.actor) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const { id } = await params;
+  const body = await request.json().catch(() => ({}));
+  const parsed = contactStatusSchema.safeParse(body);
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid payload", details: parsed.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  const existing = await getContact(decodeURIComponent(id));
+
+  if (!existing) {
+    return NextResponse.json({ error: "Contact not found" }, { status: 404 });
+  }
+
+  const contact = await setContactStatus(
+    existing.accountId,
+    existing.handle,
+    parsed.data.status,
+    parsed.data.reason
+  );
+  await recordAudit(auth.actor, "contact.update", {
+    target: contact.id,
+    detail: parsed.data.status,
+  });
+
+  return NextResponse.json({ contact });
+}
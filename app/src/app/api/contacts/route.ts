@@ -0,0 +1,70 @@
+import { NextResponse } from "next/server";
+import { recordAudit } from "@/server/audit";
+import { authorize } from "@/server/auth";
+import {
+  doNotContactSchema,
+  listContacts,
+  setContactStatus,
+  type ContactStatus,
+} from "@/server/contacts";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const statuses: ContactStatus[] = ["active", "opted-out", "do-not-contact"];
+
+export async function GET(request: Request) {
+  const auth = await authorize(request, "viewer");
+  if (!auth.actor) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const query = new URL(request.url).searchParams;
+  const status = query.get("status");
+
+  if (status && !statuses.includes(status as ContactStatus)) {
+    return NextResponse.json(
+      { error: `Unknown status "${status}"` },
+      { status: 400 }
+    );
+  }
+
+  return NextResponse.json({
+    contacts: await listContacts({
+      accountId: query.get("accountId") ?? undefined,
+      status: (status as ContactStatus | null) ?? undefined,
+    }),
+  });
+}
+
+/** Adds a handle to the do-not-contact list. */
+export async function POST(request: Request) {
+  const auth = await authorize(request, "publisher", "contact.block");
+  if (!auth.actor) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const parsed = doNotContactSchema.safeParse(body);
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid payload", details: parsed.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  const { accountId, handle, reason } = parsed.data;
+  const contact = await setContactStatus(
+    accountId,
+    handle,
+    "do-not-contact",
+    reason
+  );
+  await recordAudit(auth.actor, "contact.block", {
+    target: contact.id,
+    detail: reason,
+  });
+
+  return NextResponse.json({ contact }, { status: 201 });
+}
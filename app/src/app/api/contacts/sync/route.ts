@@ -0,0 +1,73 @@
+import { NextResponse } from "next/server";
+import type { TwitterApi } from "twitter-api-v2";
+import {
+  accountCredentialsError,
+  AccountReauthorizationError,
+  getAccount,
+} from "@/server/accounts";
+import { recordAudit } from "@/server/audit";
+import { authorize } from "@/server/auth";
+import { ensureTwitterClient } from "@/server/clients";
+import { syncDmOptOuts } from "@/server/contacts";
+import type { RunLog } from "@/server/run-log";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** Scans recent DM replies for "stop" and updates the ledger. */
+export async function POST(request: Request) {
+  const auth = await authorize(request, "publisher", "contacts.sync");
+  if (!auth.actor) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const accountId =
+    typeof body.accountId === "string" && body.accountId
+      ? body.accountId
+      : undefined;
+
+  if (accountId && !(await getAccount(accountId))) {
+    return NextResponse.json({ error: "Account not found" }, { status: 404 });
+  }
+
+  const credentialsError = await accountCredentialsError(accountId);
+  if (credentialsError) {
+    return NextResponse.json({ error: credentialsError }, { status: 503 });
+  }
+
+  let twitter: TwitterApi | null;
+  try {
+    twitter = await ensureTwitterClient(accountId);
+  } catch (error) {
+    if (error instanceof AccountReauthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: 401 });
+    }
+    throw error;
+  }
+
+  if (!twitter) {
+    return NextResponse.json(
+      { error: "Twitter credentials missing" },
+      { status: 503 }
+    );
+  }
+
+  const log: RunLog = [];
+
+  try {
+    const optedOut = await syncDmOptOuts(twitter, accountId, log);
+    await recordAudit(auth.actor, "contacts.sync", { target: accountId });
+    return NextResponse.json({ optedOut, log });
+  } catch (error) {
+    await recordAudit(auth.actor, "contacts.sync", {
+      outcome: "failed",
+      target: accountId,
+      detail: (error as Error).message,
+    });
+    return NextResponse.json(
+      { error: "Failed to read DM events", details: (error as Error).message },
+      { status: 502 }
+    );
+  }
+}
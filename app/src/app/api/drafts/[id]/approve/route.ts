@@ -0,0 +1,124 @@
+import { NextResponse } from "next/server";
+import type { TwitterApi } from "twitter-api-v2";
+import {
+  accountCredentialsError,
+  AccountReauthorizationError,
+} from "@/server/accounts";
+import { recordAudit } from "@/server/audit";
+import { authorize } from "@/server/auth";
+import { ensureTwitterClient } from "@/server/clients";
+import { blockingFindings } from "@/server/content-policy";
+import {
+  approveDraft,
+  approveSchema,
+  getDraft,
+  reviewableStatuses,
+} from "@/server/drafts";
+import type { RunLog } from "@/server/run-log";
+import { recordRun } from "@/server/runs";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authorize(request, "publisher", "draft.approve");
+  if (!auth.actor) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const { id } = await params;
+  const body = await request.json().catch(() => ({}));
+  const parsed = approveSchema.safeParse(body);
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid payload", details: parsed.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  const draft = await getDraft(id);
+
+  if (!draft) {
+    return NextResponse.json({ error: "Draft not found" }, { status: 404 });
+  }
+
+  if (!reviewableStatuses.includes(draft.status)) {
+    return NextResponse.json(
+      { error: `Draft is already ${draft.status}` },
+      { status: 409 }
+    );
+  }
+
+  const credentialsError = await accountCredentialsError(
+    draft.request.accountId
+  );
+  if (credentialsError) {
+    return NextResponse.json({ error: credentialsError }, { status: 503 });
+  }
+
+  let twitter: TwitterApi | null;
+  try {
+    twitter = await ensureTwitterClient(draft.request.accountId);
+  } catch (error) {
+    if (error instanceof AccountReauthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: 401 });
+    }
+    throw error;
+  }
+
+  const startedAt = Date.now();
+  const log: RunLog = [];
+  const { draft: updated, error } = await approveDraft(
+    draft,
+    parsed.data,
+    twitter,
+    log
+  );
+  if (error) {
+    await recordAudit(auth.actor, "draft.approve", {
+      outcome: "failed",
+      target: id,
+      detail: error,
+    });
+    return NextResponse.json({ error, draft: updated }, { status: 409 });
+  }
+  const blocked =
+    updated !== undefined && blockingFindings(updated.plan.findings).length > 0;
+  const run = await recordRun({
+    kind: "approval",
+    input: { draftId: id, ...parsed.data },
+    events: log,
+    startedAt,
+    draftId: id,
+    tweetId: updated?.tweetId,
+    tweetUrl: updated?.tweetUrl,
+    error: blocked ? "Draft has content policy errors" : updated?.thread?.error,
+  });
+
+  await recordAudit(auth.actor, "draft.approve", {
+    outcome:
+      blocked || !updated?.tweetId || updated.thread?.error ? "failed" : "ok",
+    target: id,
+    detail: blocked
+      ? "Content policy errors"
+      : (updated?.thread?.error ?? updated?.tweetUrl),
+  });
+
+  if (blocked) {
+    return NextResponse.json(
+      {
+        error: "Draft has content policy errors",
+        details: updated.plan.findings,
+        draft: updated,
+        runId: run.id,
+      },
+      { status: 422 }
+    );
+  }
+
+  return NextResponse.json({ draft: updated, runId: run.id });
+}
@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import { recordAudit } from "@/server/audit";
+import { authorize } from "@/server/auth";
+import {
+  getDraft,
+  rejectDraft,
+  rejectSchema,
+  reviewableStatuses,
+} from "@/server/drafts";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authorize(request, "publisher", "draft.reject");
+  if (!auth.actor) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const { id } = await params;
+  const body = await request.json().catch(() => ({}));
+  const parsed = rejectSchema.safeParse(body);
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid payload", details: parsed.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  const draft = await getDraft(id);
+
+  if (!draft) {
+    return NextResponse.json({ error: "Draft not found" }, { status: 404 });
+  }
+
+  if (!reviewableStatuses.includes(draft.status)) {
+    return NextResponse.json(
+      { error: `Draft is already ${draft.status}` },
+      { status: 409 }
+    );
+  }
+
+  const updated = await rejectDraft(id, parsed.data.reason);
+  await recordAudit(auth.actor, "draft.reject", {
+    target: id,
+    detail: parsed.data.reason,
+  });
+
+  return NextResponse.json({ draft: updated });
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/server/auth";
+import { getDraft } from "@/server/drafts";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authorize(request, "viewer");
+  if (!auth.actor) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const { id } = await params;
+  const draft = await getDraft(id);
+
+  if (!draft) {
+    return NextResponse.json({ error: "Draft not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({ draft });
+}
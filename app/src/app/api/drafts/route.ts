@@ -0,0 +1,95 @@
+import { NextResponse } from "next/server";
+import type { TwitterApi } from "twitter-api-v2";
+import {
+  accountCredentialsError,
+  AccountReauthorizationError,
+  getAccount,
+  withAccountDefaults,
+} from "@/server/accounts";
+import { recordAudit } from "@/server/audit";
+import { authorize } from "@/server/auth";
+import { ensureOpenAi, ensureTwitterClient } from "@/server/clients";
+import { createDraft, listDrafts, type DraftStatus } from "@/server/drafts";
+import type { RunLog } from "@/server/run-log";
+import { recordRun } from "@/server/runs";
+import { briefSchema, buildTweetPlan } from "@/server/tweet-pipeline";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const statuses: DraftStatus[] = ["draft", "approved", "published", "rejected"];
+
+export async function GET(request: Request) {
+  const auth = await authorize(request, "viewer");
+  if (!auth.actor) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const status = new URL(request.url).searchParams.get("status");
+
+  if (status && !statuses.includes(status as DraftStatus)) {
+    return NextResponse.json(
+      { error: `Unknown status "${status}"` },
+      { status: 400 }
+    );
+  }
+
+  return NextResponse.json({
+    drafts: await listDrafts((status as DraftStatus | null) ?? undefined),
+  });
+}
+
+export async function POST(request: Request) {
+  const auth = await authorize(request, "writer", "draft.create");
+  if (!auth.actor) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const parsed = briefSchema.safeParse(body);
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid payload", details: parsed.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  if (parsed.data.accountId && !(await getAccount(parsed.data.accountId))) {
+    return NextResponse.json({ error: "Account not found" }, { status: 404 });
+  }
+
+  const credentialsError = await accountCredentialsError(parsed.data.accountId);
+  if (credentialsError) {
+    return NextResponse.json({ error: credentialsError }, { status: 503 });
+  }
+
+  const brief = await withAccountDefaults(parsed.data);
+  const startedAt = Date.now();
+  const log: RunLog = [];
+  let twitter: TwitterApi | null;
+  try {
+    twitter = await ensureTwitterClient(brief.accountId);
+  } catch (error) {
+    if (error instanceof AccountReauthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: 401 });
+    }
+    throw error;
+  }
+  const plan = await buildTweetPlan(
+    brief,
+    { openai: ensureOpenAi(), twitter },
+    log
+  );
+  const draft = await createDraft(brief, plan, log);
+  const run = await recordRun({
+    kind: "draft",
+    input: brief,
+    events: log,
+    startedAt,
+    draftId: draft.id,
+  });
+  await recordAudit(auth.actor, "draft.create", { target: draft.id });
+
+  return NextResponse.json({ draft, runId: run.id }, { status: 201 });
+}
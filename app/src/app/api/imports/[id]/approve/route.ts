@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import { recordAudit } from "@/server/audit";
+import { authorize } from "@/server/auth";
+import {
+  approveImportRows,
+  describeImport,
+  getImport,
+  importApproveSchema,
+} from "@/server/imports";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** Approves and publishes the drafts of the selected rows, one at a time. */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authorize(request, "publisher", "draft.approve");
+  if (!auth.actor) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const { id } = await params;
+  const body = await request.json().catch(() => ({}));
+  const parsed = importApproveSchema.safeParse(body);
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid payload", details: parsed.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  const batch = await getImport(id);
+
+  if (!batch) {
+    return NextResponse.json({ error: "Import not found" }, { status: 404 });
+  }
+
+  const results = await approveImportRows(batch, parsed.data.rows);
+  for (const result of results) {
+    await recordAudit(auth.actor, "draft.approve", {
+      outcome: result.error ? "failed" : "ok",
+      target: result.draftId,
+      detail: result.error ?? result.tweetUrl,
+    });
+  }
+
+  return NextResponse.json({
+    results,
+    import: await describeImport((await getImport(id)) ?? batch),
+  });
+}
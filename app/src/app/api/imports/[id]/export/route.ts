@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/server/auth";
+import { describeImport, getImport, importToCsv } from "@/server/imports";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authorize(request, "viewer");
+  if (!auth.actor) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const { id } = await params;
+  const batch = await getImport(id);
+
+  if (!batch) {
+    return NextResponse.json({ error: "Import not found" }, { status: 404 });
+  }
+
+  const { rows } = await describeImport(batch);
+
+  return new NextResponse(importToCsv(rows, new URL(request.url).origin), {
+    headers: {
+      "Content-Type": "text/csv; charset=utf-8",
+      "Content-Disposition": `attachment; filename="import-${batch.id}.csv"`,
+    },
+  });
+}
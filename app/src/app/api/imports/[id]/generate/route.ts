@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import { recordAudit } from "@/server/audit";
+import { authorize } from "@/server/auth";
+import {
+  describeImport,
+  generateImportDrafts,
+  getImport,
+  importInProgress,
+} from "@/server/imports";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** Drafts the rows that failed or never finished, e.g. after a restart. */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authorize(request, "writer", "import.generate");
+  if (!auth.actor) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const { id } = await params;
+  const batch = await getImport(id);
+
+  if (!batch) {
+    return NextResponse.json({ error: "Import not found" }, { status: 404 });
+  }
+
+  if (importInProgress(id)) {
+    return NextResponse.json(
+      { error: "Drafts for this import are still being generated" },
+      { status: 409 }
+    );
+  }
+
+  generateImportDrafts(batch).catch((error) =>
+    console.error("Bulk import failed", error)
+  );
+  await recordAudit(auth.actor, "import.generate", { target: id });
+
+  return NextResponse.json(
+    { import: await describeImport(batch) },
+    { status: 202 }
+  );
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/server/auth";
+import { describeImport, getImport } from "@/server/imports";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authorize(request, "viewer");
+  if (!auth.actor) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const { id } = await params;
+  const batch = await getImport(id);
+
+  if (!batch) {
+    return NextResponse.json({ error: "Import not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({ import: await describeImport(batch) });
+}
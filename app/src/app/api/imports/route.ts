@@ -0,0 +1,91 @@
+import { NextResponse } from "next/server";
+import { recordAudit } from "@/server/audit";
+import { authorize } from "@/server/auth";
+import {
+  createImport,
+  describeImport,
+  generateImportDrafts,
+  importInputSchema,
+  listImports,
+  MAX_IMPORT_ROWS,
+  summarizeImport,
+  validateImport,
+} from "@/server/imports";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const auth = await authorize(request, "viewer");
+  if (!auth.actor) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  return NextResponse.json({
+    imports: (await listImports()).map(summarizeImport),
+  });
+}
+
+/**
+ * Validates every row and, unless `validateOnly`, stores the batch and starts
+ * drafting its valid rows in the background. Accepts JSON (`{ csv }` or
+ * `{ rows }`) or a raw `text/csv` body.
+ */
+export async function POST(request: Request) {
+  const auth = await authorize(request, "writer", "import.create");
+  if (!auth.actor) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const body = request.headers.get("content-type")?.startsWith("text/csv")
+    ? {
+        csv: await request.text(),
+        name: new URL(request.url).searchParams.get("name") ?? undefined,
+      }
+    : await request.json().catch(() => ({}));
+  const parsed = importInputSchema.safeParse(body);
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid payload", details: parsed.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  const checked = await validateImport(parsed.data);
+  const valid = checked.rows.filter((row) => row.status !== "invalid").length;
+
+  if (checked.rows.length > MAX_IMPORT_ROWS) {
+    return NextResponse.json(
+      {
+        error: `Imports take at most ${MAX_IMPORT_ROWS} rows; this one has ${checked.rows.length}.`,
+      },
+      { status: 400 }
+    );
+  }
+
+  if (parsed.data.validateOnly) {
+    return NextResponse.json({ ...checked, valid });
+  }
+
+  if (valid === 0) {
+    return NextResponse.json(
+      { error: "No valid rows to generate", ...checked },
+      { status: 422 }
+    );
+  }
+
+  const batch = await createImport(parsed.data.name, checked, auth.actor);
+  generateImportDrafts(batch).catch((error) =>
+    console.error("Bulk import failed", error)
+  );
+  await recordAudit(auth.actor, "import.create", {
+    target: batch.id,
+    detail: `${valid} queued, ${checked.rows.length - valid} invalid`,
+  });
+
+  return NextResponse.json(
+    { import: await describeImport(batch) },
+    { status: 202 }
+  );
+}
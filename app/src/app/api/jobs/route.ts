@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/server/auth";
+import { listJobs, upcomingRuns } from "@/server/scheduler";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const auth = await authorize(request, "viewer");
+  if (!auth.actor) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const jobs = await listJobs();
+
+  return NextResponse.json({
+    jobs: jobs.map((job) => ({ ...job, upcoming: upcomingRuns(job) })),
+  });
+}
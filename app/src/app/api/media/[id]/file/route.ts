@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/server/auth";
+import { getMediaAsset, readMediaFile } from "@/server/media";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function GET(request: Request, { params }: Params) {
+  const auth = await authorize(request, "viewer");
+  if (!auth.actor) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const { id } = await params;
+  const asset = await getMediaAsset(id);
+  const data = asset ? await readMediaFile(asset).catch(() => null) : null;
+
+  if (!asset || !data) {
+    return NextResponse.json({ error: "Media not found" }, { status: 404 });
+  }
+
+  return new NextResponse(new Uint8Array(data), {
+    headers: {
+      "Content-Type": asset.mimeType,
+      "Content-Length": String(data.length),
+      // Asset files never change once stored.
+      "Cache-Control": "private, max-age=31536000, immutable",
+    },
+  });
+}
@@ -0,0 +1,70 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/server/auth";
+import {
+  deleteMediaAsset,
+  getMediaAsset,
+  mediaAssetPatchSchema,
+  updateMediaAsset,
+} from "@/server/media";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function GET(request: Request, { params }: Params) {
+  const auth = await authorize(request, "viewer");
+  if (!auth.actor) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const { id } = await params;
+  const asset = await getMediaAsset(id);
+
+  if (!asset) {
+    return NextResponse.json({ error: "Media not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({ asset });
+}
+
+export async function PATCH(request: Request, { params }: Params) {
+  const auth = await authorize(request, "writer");
+  if (!auth.actor) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const { id } = await params;
+  const body = await request.json().catch(() => ({}));
+  const parsed = mediaAssetPatchSchema.safeParse(body);
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid payload", details: parsed.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  const asset = await updateMediaAsset(id, parsed.data);
+
+  if (!asset) {
+    return NextResponse.json({ error: "Media not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({ asset });
+}
+
+export async function DELETE(request: Request, { params }: Params) {
+  const auth = await authorize(request, "writer");
+  if (!auth.actor) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const { id } = await params;
+
+  if (!(await deleteMediaAsset(id))) {
+    return NextResponse.json({ error: "Media not found" }, { status: 404 });
+  }
+
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,75 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/server/auth";
+import {
+  listMediaAssets,
+  MAX_UPLOAD_BYTES,
+  mediaAssetPatchSchema,
+  saveMediaAsset,
+  UPLOAD_MIME_TYPES,
+} from "@/server/media";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const auth = await authorize(request, "viewer");
+  if (!auth.actor) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  return NextResponse.json({ assets: await listMediaAssets() });
+}
+
+/** Multipart upload: `file` plus optional `altText`. */
+export async function POST(request: Request) {
+  const auth = await authorize(request, "writer");
+  if (!auth.actor) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const form = await request.formData().catch(() => null);
+  const file = form?.get("file");
+
+  if (!(file instanceof File)) {
+    return NextResponse.json(
+      { error: "Send the image as a multipart `file` field" },
+      { status: 400 }
+    );
+  }
+
+  if (!UPLOAD_MIME_TYPES[file.type]) {
+    return NextResponse.json(
+      {
+        error: "Unsupported image type",
+        details: { allowed: Object.keys(UPLOAD_MIME_TYPES) },
+      },
+      { status: 415 }
+    );
+  }
+
+  if (file.size > MAX_UPLOAD_BYTES) {
+    return NextResponse.json(
+      { error: `Images are limited to ${MAX_UPLOAD_BYTES / 1024 / 1024} MB` },
+      { status: 413 }
+    );
+  }
+
+  const parsed = mediaAssetPatchSchema.safeParse({
+    altText: form?.get("altText") || undefined,
+  });
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid payload", details: parsed.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  const asset = await saveMediaAsset(Buffer.from(await file.arrayBuffer()), {
+    source: "upload",
+    mimeType: file.type,
+    altText: parsed.data.altText,
+  });
+
+  return NextResponse.json({ asset }, { status: 201 });
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { recordAudit } from "@/server/audit";
+import { authorize } from "@/server/auth";
+import { dismissMention, getMention } from "@/server/mentions";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authorize(request, "writer", "mention.dismiss");
+  if (!auth.actor) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const { id } = await params;
+  const mention = await getMention(decodeURIComponent(id));
+
+  if (!mention) {
+    return NextResponse.json({ error: "Mention not found" }, { status: 404 });
+  }
+
+  if (mention.status !== "pending") {
+    return NextResponse.json(
+      { error: `Mention is already ${mention.status}` },
+      { status: 409 }
+    );
+  }
+
+  const dismissed = await dismissMention(mention.id, auth.actor.name);
+  await recordAudit(auth.actor, "mention.dismiss", { target: mention.tweetId });
+
+  return NextResponse.json({ mention: dismissed });
+}
@@ -0,0 +1,66 @@
+import { NextResponse } from "next/server";
+import { recordAudit } from "@/server/audit";
+import { authorize } from "@/server/auth";
+import {
+  editSuggestion,
+  getMention,
+  mentionEditSchema,
+} from "@/server/mentions";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function GET(request: Request, { params }: Params) {
+  const auth = await authorize(request, "viewer");
+  if (!auth.actor) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const { id } = await params;
+  const mention = await getMention(decodeURIComponent(id));
+
+  if (!mention) {
+    return NextResponse.json({ error: "Mention not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({ mention });
+}
+
+/** Edits the suggested reply without sending it. */
+export async function PATCH(request: Request, { params }: Params) {
+  const auth = await authorize(request, "writer", "mention.edit");
+  if (!auth.actor) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const { id } = await params;
+  const body = await request.json().catch(() => ({}));
+  const parsed = mentionEditSchema.safeParse(body);
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid payload", details: parsed.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  const existing = await getMention(decodeURIComponent(id));
+
+  if (!existing) {
+    return NextResponse.json({ error: "Mention not found" }, { status: 404 });
+  }
+
+  if (existing.status !== "pending") {
+    return NextResponse.json(
+      { error: `Mention is already ${existing.status}` },
+      { status: 409 }
+    );
+  }
+
+  const mention = await editSuggestion(existing.id, parsed.data.suggestion);
+  await recordAudit(auth.actor, "mention.edit", { target: existing.tweetId });
+
+  return NextResponse.json({ mention });
+}
@@ -0,0 +1,87 @@
+import { NextResponse } from "next/server";
+import { accountCredentialsError } from "@/server/accounts";
+import { recordAudit } from "@/server/audit";
+import { authorize } from "@/server/auth";
+import {
+  getMention,
+  mentionSendSchema,
+  sendMentionReply,
+} from "@/server/mentions";
+import type { RunLog } from "@/server/run-log";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** Replies with `{ text }`, or the stored suggestion when omitted. */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authorize(request, "publisher", "mention.reply");
+  if (!auth.actor) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const { id } = await params;
+  const body = await request.json().catch(() => ({}));
+  const parsed = mentionSendSchema.safeParse(body);
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid payload", details: parsed.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  const mention = await getMention(decodeURIComponent(id));
+
+  if (!mention) {
+    return NextResponse.json({ error: "Mention not found" }, { status: 404 });
+  }
+
+  if (mention.status !== "pending") {
+    return NextResponse.json(
+      { error: `Mention is already ${mention.status}` },
+      { status: 409 }
+    );
+  }
+
+  const text = parsed.data.text ?? mention.suggestion;
+
+  if (!text) {
+    return NextResponse.json(
+      { error: "No reply text; write one or edit the suggestion" },
+      { status: 400 }
+    );
+  }
+
+  const credentialsError = await accountCredentialsError(mention.accountId);
+  if (credentialsError) {
+    return NextResponse.json({ error: credentialsError }, { status: 503 });
+  }
+
+  const log: RunLog = [];
+  const result = await sendMentionReply(mention, text, auth.actor.name, log);
+
+  if (result.findings) {
+    return NextResponse.json(
+      { error: "Reply has content policy errors", details: result.findings },
+      { status: 422 }
+    );
+  }
+
+  await recordAudit(auth.actor, "mention.reply", {
+    outcome: result.error ? "failed" : "ok",
+    target: mention.tweetId,
+    detail: result.error ?? result.mention.reply?.tweetId,
+  });
+
+  if (result.error) {
+    return NextResponse.json(
+      { error: "Failed to send reply", details: result.error, log },
+      { status: 502 }
+    );
+  }
+
+  return NextResponse.json({ mention: result.mention, log });
+}
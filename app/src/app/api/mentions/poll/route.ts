@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { getAccount } from "@/server/accounts";
+import { recordAudit } from "@/server/audit";
+import { authorize } from "@/server/auth";
+import { pollMentions } from "@/server/mentions";
+import type { RunLog } from "@/server/run-log";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** Checks for new mentions now instead of waiting for the poller. */
+export async function POST(request: Request) {
+  const auth = await authorize(request, "writer", "mention.poll");
+  if (!auth.actor) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const accountId =
+    typeof body.accountId === "string" && body.accountId
+      ? body.accountId
+      : undefined;
+
+  if (accountId && !(await getAccount(accountId))) {
+    return NextResponse.json({ error: "Account not found" }, { status: 404 });
+  }
+
+  const log: RunLog = [];
+  const result = await pollMentions(log, { accountId });
+  await recordAudit(auth.actor, "mention.poll", {
+    outcome: result.skipped ? "failed" : "ok",
+    target: accountId,
+    detail: `${result.added} new, ${result.skipped} account(s) skipped`,
+  });
+
+  return NextResponse.json({ ...result, log });
+}
@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/server/auth";
+import {
+  listMentionConversations,
+  MENTION_INTENTS,
+  type MentionIntent,
+  type MentionStatus,
+} from "@/server/mentions";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const statuses: MentionStatus[] = ["pending", "sent", "dismissed"];
+
+export async function GET(request: Request) {
+  const auth = await authorize(request, "viewer");
+  if (!auth.actor) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const query = new URL(request.url).searchParams;
+  const status = query.get("status");
+  const intent = query.get("intent");
+
+  if (status && !statuses.includes(status as MentionStatus)) {
+    return NextResponse.json(
+      { error: `Unknown status "${status}"` },
+      { status: 400 }
+    );
+  }
+
+  if (intent && !MENTION_INTENTS.includes(intent as MentionIntent)) {
+    return NextResponse.json(
+      { error: `Unknown intent "${intent}"` },
+      { status: 400 }
+    );
+  }
+
+  return NextResponse.json({
+    conversations: await listMentionConversations({
+      accountId: query.get("accountId") ?? undefined,
+      status: (status as MentionStatus | null) ?? undefined,
+      intent: (intent as MentionIntent | null) ?? undefined,
+    }),
+  });
+}
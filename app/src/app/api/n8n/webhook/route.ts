@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { POST as handleTweet } from "@/app/api/tweet/route";
+import { actAs } from "@/server/auth";
+import { N8N_SECRET_HEADER, verifyN8nSecret } from "@/server/n8n";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Same contract as `POST /api/tweet`, gated by the shared n8n secret, which
+ * acts with the publisher role.
+ */
+export async function POST(request: Request) {
+  const verdict = verifyN8nSecret(request.headers.get(N8N_SECRET_HEADER));
+
+  if (verdict === "unconfigured") {
+    return NextResponse.json(
+      { error: "N8N_WEBHOOK_SECRET is not configured" },
+      { status: 503 }
+    );
+  }
+
+  if (verdict === "invalid") {
+    return NextResponse.json({ error: "Invalid n8n secret" }, { status: 401 });
+  }
+
+  return handleTweet(
+    actAs(request, {
+      type: "n8n",
+      id: "n8n-webhook",
+      name: "n8n webhook",
+      role: "publisher",
+    })
+  );
+}
@@ -0,0 +1,76 @@
+import { NextResponse } from "next/server";
+import { approvalRequired } from "@/server/accounts";
+import { authorize } from "@/server/auth";
+import { isValidCron } from "@/server/cron";
+import { buildN8nWorkflow, WORKFLOW_FILENAME } from "@/server/n8n";
+import { n8nWorkflowSchema } from "@/server/n8n-workflow-schema";
+import { briefSchema } from "@/server/tweet-pipeline";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const DEFAULT_CRON = "0 9 * * *";
+
+/** Parses the `brief` query param, dropping the form's empty fields. */
+const parseBrief = (value: string | null) => {
+  try {
+    const parsed = value ? JSON.parse(value) : {};
+    return Object.fromEntries(
+      Object.entries(parsed).filter(([, field]) => field !== "")
+    );
+  } catch {
+    return null;
+  }
+};
+
+export async function GET(request: Request) {
+  const auth = await authorize(request, "viewer");
+  if (!auth.actor) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const url = new URL(request.url);
+  const brief = briefSchema
+    .partial()
+    .safeParse(parseBrief(url.searchParams.get("brief")));
+  const cron = url.searchParams.get("cron") || DEFAULT_CRON;
+
+  if (!brief.success) {
+    return NextResponse.json(
+      { error: "Invalid brief", details: brief.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  if (!isValidCron(cron)) {
+    return NextResponse.json(
+      { error: `Invalid cron expression "${cron}"` },
+      { status: 400 }
+    );
+  }
+
+  const workflow = n8nWorkflowSchema.safeParse(
+    buildN8nWorkflow({
+      appUrl: process.env.APP_URL ?? url.origin,
+      brief: brief.data,
+      cron,
+      requireApproval: await approvalRequired(brief.data.accountId),
+    })
+  );
+
+  if (!workflow.success) {
+    return NextResponse.json(
+      {
+        error: "Generated workflow failed schema validation",
+        details: workflow.error.flatten(),
+      },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json(workflow.data, {
+    headers: {
+      "Content-Disposition": `attachment; filename="${WORKFLOW_FILENAME}"`,
+    },
+  });
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/server/auth";
+import { describePlan, getPlan, planToCsv, planToIcs } from "@/server/planner";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const FORMATS = {
+  csv: { contentType: "text/csv; charset=utf-8", extension: "csv" },
+  ics: { contentType: "text/calendar; charset=utf-8", extension: "ics" },
+};
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authorize(request, "viewer");
+  if (!auth.actor) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const { id } = await params;
+  const format = new URL(request.url).searchParams.get("format") ?? "csv";
+
+  if (format !== "csv" && format !== "ics") {
+    return NextResponse.json(
+      { error: `Unknown format "${format}"` },
+      { status: 400 }
+    );
+  }
+
+  const plan = await getPlan(id);
+
+  if (!plan) {
+    return NextResponse.json({ error: "Plan not found" }, { status: 404 });
+  }
+
+  const { items } = await describePlan(plan);
+  const { contentType, extension } = FORMATS[format];
+
+  return new NextResponse(
+    format === "csv" ? planToCsv(items) : planToIcs(plan, items),
+    {
+      headers: {
+        "Content-Type": contentType,
+        "Content-Disposition": `attachment; filename="content-plan-${plan.id}.${extension}"`,
+      },
+    }
+  );
+}
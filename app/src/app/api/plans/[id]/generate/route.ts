@@ -0,0 +1,65 @@
+import { NextResponse } from "next/server";
+import { accountCredentialsError, getAccount } from "@/server/accounts";
+import { recordAudit } from "@/server/audit";
+import { authorize } from "@/server/auth";
+import {
+  describePlan,
+  generateDraftsSchema,
+  generatePlanDrafts,
+  getPlan,
+  planInProgress,
+} from "@/server/planner";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authorize(request, "writer", "plan.generate");
+  if (!auth.actor) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const { id } = await params;
+  const body = await request.json().catch(() => ({}));
+  const parsed = generateDraftsSchema.safeParse(body);
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid payload", details: parsed.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  const plan = await getPlan(id);
+
+  if (!plan) {
+    return NextResponse.json({ error: "Plan not found" }, { status: 404 });
+  }
+
+  const { accountId } = plan.brief;
+  if (accountId && !(await getAccount(accountId))) {
+    return NextResponse.json({ error: "Account not found" }, { status: 404 });
+  }
+
+  const credentialsError = await accountCredentialsError(accountId);
+  if (credentialsError) {
+    return NextResponse.json({ error: credentialsError }, { status: 503 });
+  }
+
+  if (planInProgress(id)) {
+    return NextResponse.json(
+      { error: "Drafts for this plan are still being generated" },
+      { status: 409 }
+    );
+  }
+
+  generatePlanDrafts(plan, parsed.data.itemIds).catch((error) =>
+    console.error("Plan drafting failed", error)
+  );
+  await recordAudit(auth.actor, "plan.generate", { target: id });
+
+  return NextResponse.json({ plan: await describePlan(plan) }, { status: 202 });
+}
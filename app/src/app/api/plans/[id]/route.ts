@@ -0,0 +1,71 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/server/auth";
+import {
+  deletePlan,
+  describePlan,
+  getPlan,
+  planUpdateSchema,
+  updatePlan,
+} from "@/server/planner";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function GET(request: Request, { params }: Params) {
+  const auth = await authorize(request, "viewer");
+  if (!auth.actor) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const { id } = await params;
+  const plan = await getPlan(id);
+
+  if (!plan) {
+    return NextResponse.json({ error: "Plan not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({ plan: await describePlan(plan) });
+}
+
+export async function PUT(request: Request, { params }: Params) {
+  const auth = await authorize(request, "writer");
+  if (!auth.actor) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const { id } = await params;
+  const body = await request.json().catch(() => ({}));
+  const parsed = planUpdateSchema.safeParse(body);
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid payload", details: parsed.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  const plan = await updatePlan(id, parsed.data);
+
+  if (!plan) {
+    return NextResponse.json({ error: "Plan not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({ plan: await describePlan(plan) });
+}
+
+export async function DELETE(request: Request, { params }: Params) {
+  const auth = await authorize(request, "writer");
+  if (!auth.actor) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const { id } = await params;
+
+  if (!(await deletePlan(id))) {
+    return NextResponse.json({ error: "Plan not found" }, { status: 404 });
+  }
+
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import { getAccount, withAccountDefaults } from "@/server/accounts";
+import { authorize } from "@/server/auth";
+import { createPlan, listPlans, planInputSchema } from "@/server/planner";
+import type { RunLog } from "@/server/run-log";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const auth = await authorize(request, "viewer");
+  if (!auth.actor) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  return NextResponse.json({ plans: await listPlans() });
+}
+
+export async function POST(request: Request) {
+  const auth = await authorize(request, "writer");
+  if (!auth.actor) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const parsed = planInputSchema.safeParse(body);
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid payload", details: parsed.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  const { accountId } = parsed.data.brief;
+  if (accountId && !(await getAccount(accountId))) {
+    return NextResponse.json({ error: "Account not found" }, { status: 404 });
+  }
+
+  const log: RunLog = [];
+  const plan = await createPlan(
+    { ...parsed.data, brief: await withAccountDefaults(parsed.data.brief) },
+    log
+  );
+
+  return NextResponse.json({ plan, log }, { status: 201 });
+}
@@ -0,0 +1,70 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/server/auth";
+import {
+  brandProfileSchema,
+  deleteProfile,
+  getProfile,
+  updateProfile,
+} from "@/server/profiles";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function GET(request: Request, { params }: Params) {
+  const auth = await authorize(request, "viewer");
+  if (!auth.actor) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const { id } = await params;
+  const profile = await getProfile(id);
+
+  if (!profile) {
+    return NextResponse.json({ error: "Profile not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({ profile });
+}
+
+export async function PUT(request: Request, { params }: Params) {
+  const auth = await authorize(request, "writer");
+  if (!auth.actor) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const { id } = await params;
+  const body = await request.json().catch(() => ({}));
+  const parsed = brandProfileSchema.safeParse(body);
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid payload", details: parsed.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  const profile = await updateProfile(id, parsed.data);
+
+  if (!profile) {
+    return NextResponse.json({ error: "Profile not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({ profile });
+}
+
+export async function DELETE(request: Request, { params }: Params) {
+  const auth = await authorize(request, "writer");
+  if (!auth.actor) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const { id } = await params;
+
+  if (!(await deleteProfile(id))) {
+    return NextResponse.json({ error: "Profile not found" }, { status: 404 });
+  }
+
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/server/auth";
+import {
+  brandProfileSchema,
+  createProfile,
+  listProfiles,
+} from "@/server/profiles";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const auth = await authorize(request, "viewer");
+  if (!auth.actor) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  return NextResponse.json({ profiles: await listProfiles() });
+}
+
+export async function POST(request: Request) {
+  const auth = await authorize(request, "writer");
+  if (!auth.actor) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const parsed = brandProfileSchema.safeParse(body);
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid payload", details: parsed.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  const profile = await createProfile(parsed.data);
+
+  return NextResponse.json({ profile }, { status: 201 });
+}
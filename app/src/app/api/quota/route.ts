@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/server/auth";
+import { getQuotaSnapshot } from "@/server/quota";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const auth = await authorize(request, "viewer");
+  if (!auth.actor) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const accountId = new URL(request.url).searchParams.get("accountId");
+
+  return NextResponse.json({
+    quota: await getQuotaSnapshot(new Date(), accountId ?? undefined),
+  });
+}
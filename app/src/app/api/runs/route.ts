@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/server/auth";
+import { listRuns, type RunKind, type RunStatus } from "@/server/runs";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const kinds: RunKind[] = [
+  "tweet",
+  "draft",
+  "approval",
+  "job",
+  "mention-poll",
+  "mention-reply",
+];
+const statuses: RunStatus[] = ["succeeded", "partial", "failed"];
+
+export async function GET(request: Request) {
+  const auth = await authorize(request, "viewer");
+  if (!auth.actor) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const params = new URL(request.url).searchParams;
+  const kind = params.get("kind");
+  const status = params.get("status");
+
+  if (kind && !kinds.includes(kind as RunKind)) {
+    return NextResponse.json(
+      { error: `Unknown kind "${kind}"` },
+      { status: 400 }
+    );
+  }
+
+  if (status && !statuses.includes(status as RunStatus)) {
+    return NextResponse.json(
+      { error: `Unknown status "${status}"` },
+      { status: 400 }
+    );
+  }
+
+  return NextResponse.json({
+    runs: await listRuns({
+      kind: (kind as RunKind | null) ?? undefined,
+      status: (status as RunStatus | null) ?? undefined,
+    }),
+  });
+}
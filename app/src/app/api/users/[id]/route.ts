@@ -0,0 +1,87 @@
+import { NextResponse } from "next/server";
+import { recordAudit } from "@/server/audit";
+import {
+  authorize,
+  deleteUser,
+  otherAdmins,
+  updateUser,
+  userUpdateSchema,
+} from "@/server/auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Params = { params: Promise<{ id: string }> };
+
+/** Changes a user's role, resets their password or (dis)ables them. */
+export async function PATCH(request: Request, { params }: Params) {
+  const auth = await authorize(request, "admin", "user.update");
+  if (!auth.actor) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const { id } = await params;
+  const body = await request.json().catch(() => ({}));
+  const parsed = userUpdateSchema.safeParse(body);
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid payload", details: parsed.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  const demotes =
+    parsed.data.disabled || (parsed.data.role && parsed.data.role !== "admin");
+
+  if (demotes && (await otherAdmins(id)) === 0) {
+    return NextResponse.json(
+      { error: "Keep at least one enabled admin" },
+      { status: 409 }
+    );
+  }
+
+  const user = await updateUser(id, parsed.data);
+
+  if (!user) {
+    return NextResponse.json({ error: "User not found" }, { status: 404 });
+  }
+
+  await recordAudit(auth.actor, "user.update", {
+    target: id,
+    detail: [
+      parsed.data.role && `role ${parsed.data.role}`,
+      parsed.data.disabled !== undefined &&
+        (parsed.data.disabled ? "disabled" : "enabled"),
+      parsed.data.password && "password reset",
+    ]
+      .filter(Boolean)
+      .join(", "),
+  });
+
+  return NextResponse.json({ user });
+}
+
+export async function DELETE(request: Request, { params }: Params) {
+  const auth = await authorize(request, "admin", "user.delete");
+  if (!auth.actor) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const { id } = await params;
+
+  if ((await otherAdmins(id)) === 0) {
+    return NextResponse.json(
+      { error: "Keep at least one enabled admin" },
+      { status: 409 }
+    );
+  }
+
+  if (!(await deleteUser(id))) {
+    return NextResponse.json({ error: "User not found" }, { status: 404 });
+  }
+
+  await recordAudit(auth.actor, "user.delete", { target: id });
+
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+import { recordAudit } from "@/server/audit";
+import {
+  authorize,
+  createUser,
+  listUsers,
+  userInputSchema,
+} from "@/server/auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const auth = await authorize(request, "admin");
+  if (!auth.actor) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  return NextResponse.json({ users: await listUsers() });
+}
+
+export async function POST(request: Request) {
+  const auth = await authorize(request, "admin", "user.create");
+  if (!auth.actor) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const parsed = userInputSchema.safeParse(body);
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid payload", details: parsed.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  const user = await createUser(parsed.data);
+
+  if (!user) {
+    return NextResponse.json(
+      { error: `Username "${parsed.data.username}" is taken` },
+      { status: 409 }
+    );
+  }
+
+  await recordAudit(auth.actor, "user.create", {
+    target: user.id,
+    detail: `${user.username} as ${user.role}`,
+  });
+
+  return NextResponse.json({ user }, { status: 201 });
+}
@@ -0,0 +1,301 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import {
+  accountLabel,
+  type AccountSummary,
+} from "@/components/account-switcher";
+
+type ContactStatus = "active" | "opted-out" | "do-not-contact";
+
+interface Contact {
+  id: string;
+  handle: string;
+  status: ContactStatus;
+  lastContactedAt?: string;
+  history: {
+    at: string;
+    type: string;
+    message?: string;
+    detail?: string;
+  }[];
+}
+
+const STATUS_STYLES: Record<ContactStatus, string> = {
+  active: "text-emerald-300",
+  "opted-out": "text-amber-300",
+  "do-not-contact": "text-red-300",
+};
+
+const fetchContacts = async (accountId: string, status: string) => {
+  const query = new URLSearchParams();
+  if (accountId) {
+    query.set("accountId", accountId);
+  }
+  if (status) {
+    query.set("status", status);
+  }
+  const response = await fetch(`/api/contacts?${query}`);
+  if (!response.ok) {
+    throw new Error(await response.text());
+  }
+  const payload = (await response.json()) as { contacts: Contact[] };
+  return payload.contacts;
+};
+
+const fetchAccounts = async () => {
+  const response = await fetch("/api/accounts");
+  if (!response.ok) {
+    return [];
+  }
+  const payload = (await response.json()) as { accounts: AccountSummary[] };
+  return payload.accounts;
+};
+
+const inputClass =
+  "rounded-2xl border border-slate-700 bg-slate-950 px-4 py-3 text-base text-white outline-none transition focus:border-sky-500 focus:ring-2 focus:ring-sky-500/40";
+
+export default function ContactsPage() {
+  const [accounts, setAccounts] = useState<AccountSummary[]>([]);
+  const [accountId, setAccountId] = useState("");
+  const [status, setStatus] = useState<ContactStatus | "">("");
+  const [contacts, setContacts] = useState<Contact[]>([]);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [handle, setHandle] = useState("");
+  const [reason, setReason] = useState("");
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchAccounts().then(setAccounts);
+  }, []);
+
+  useEffect(() => {
+    fetchContacts(accountId, status)
+      .then(setContacts)
+      .catch((err) =>
+        setError(err instanceof Error ? err.message : "Failed to load contacts")
+      );
+  }, [accountId, status]);
+
+  const reload = async () =>
+    setContacts(await fetchContacts(accountId, status));
+
+  const send = async (url: string, init: RequestInit) => {
+    setError(null);
+    const response = await fetch(url, {
+      ...init,
+      headers: { "Content-Type": "application/json" },
+    });
+    if (!response.ok) {
+      setError(await response.text());
+      return null;
+    }
+    return response.json();
+  };
+
+  const block = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const payload = await send("/api/contacts", {
+      method: "POST",
+      body: JSON.stringify({
+        handle,
+        accountId: accountId || undefined,
+        reason: reason || undefined,
+      }),
+    });
+    if (payload) {
+      setHandle("");
+      setReason("");
+      await reload();
+    }
+  };
+
+  const setContactStatus = async (contact: Contact, next: ContactStatus) => {
+    if (
+      await send(`/api/contacts/${encodeURIComponent(contact.id)}`, {
+        method: "PATCH",
+        body: JSON.stringify({ status: next }),
+      })
+    ) {
+      await reload();
+    }
+  };
+
+  const syncOptOuts = async () => {
+    const payload = (await send("/api/contacts/sync", {
+      method: "POST",
+      body: JSON.stringify({ accountId: accountId || undefined }),
+    })) as { optedOut: number } | null;
+    if (payload) {
+      setNotice(`Opt-out sync done: ${payload.optedOut} new opt-out(s).`);
+      await reload();
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-950 text-slate-100">
+      <div className="mx-auto flex w-full max-w-5xl flex-col gap-10 px-6 py-16">
+        <header className="flex flex-col gap-4">
+          <Link
+            href="/"
+            className="w-fit text-xs uppercase tracking-widest text-slate-400 hover:text-slate-200"
+          >
+            ← Back to studio
+          </Link>
+          <h1 className="text-4xl font-semibold text-white">DM contacts</h1>
+          <p className="max-w-2xl text-base leading-relaxed text-slate-300">
+            Every DM recipient per account, with their message history. People
+            who reply &quot;stop&quot; are opted out automatically, and blocked
+            or recently messaged handles are skipped on the next run.
+          </p>
+        </header>
+
+        {notice && (
+          <div className="rounded-2xl border border-emerald-500/40 bg-emerald-500/10 px-4 py-3 text-sm text-emerald-200">
+            {notice}
+          </div>
+        )}
+        {error && (
+          <div className="rounded-2xl border border-red-500/40 bg-red-500/10 px-4 py-3 text-sm text-red-200">
+            {error}
+          </div>
+        )}
+
+        <section className="flex flex-wrap items-end gap-4">
+          <label className="flex flex-col gap-2 text-sm font-medium text-slate-200">
+            Account
+            <select
+              value={accountId}
+              onChange={(event) => setAccountId(event.target.value)}
+              className={inputClass}
+            >
+              <option value="">Deployment credentials</option>
+              {accounts.map((account) => (
+                <option key={account.id} value={account.id}>
+                  {accountLabel(account)}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-2 text-sm font-medium text-slate-200">
+            Status
+            <select
+              value={status}
+              onChange={(event) =>
+                setStatus(event.target.value as ContactStatus | "")
+              }
+              className={inputClass}
+            >
+              <option value="">All</option>
+              <option value="active">Active</option>
+              <option value="opted-out">Opted out</option>
+              <option value="do-not-contact">Do not contact</option>
+            </select>
+          </label>
+          <button
+            type="button"
+            onClick={syncOptOuts}
+            className="rounded-2xl border border-slate-700 px-6 py-3 text-sm font-semibold uppercase tracking-wide text-slate-300 transition hover:border-sky-400"
+          >
+            Check replies for opt-outs
+          </button>
+        </section>
+
+        <section className="rounded-3xl border border-slate-800 bg-slate-900/50 p-8">
+          <h2 className="text-lg font-semibold text-white">
+            Add to do-not-contact list
+          </h2>
+          <form className="mt-4 flex flex-wrap gap-3" onSubmit={block}>
+            <input
+              required
+              value={handle}
+              onChange={(event) => setHandle(event.target.value)}
+              placeholder="@handle"
+              className={inputClass}
+            />
+            <input
+              value={reason}
+              onChange={(event) => setReason(event.target.value)}
+              placeholder="Reason (optional)"
+              className={`${inputClass} flex-1`}
+            />
+            <button
+              type="submit"
+              className="rounded-2xl bg-sky-500 px-6 py-3 text-sm font-semibold uppercase tracking-wide text-slate-950 transition hover:bg-sky-400"
+            >
+              Block
+            </button>
+          </form>
+        </section>
+
+        <section className="rounded-3xl border border-slate-800 bg-slate-900/50 p-8">
+          <ul className="flex flex-col gap-3">
+            {contacts.length === 0 && (
+              <li className="text-sm text-slate-400">No contacts yet.</li>
+            )}
+            {contacts.map((contact) => (
+              <li
+                key={contact.id}
+                className="rounded-2xl border border-slate-800 bg-slate-950 px-4 py-3 text-sm text-slate-300"
+              >
+                <div className="flex flex-wrap items-center justify-between gap-4">
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setExpanded((current) =>
+                        current === contact.id ? null : contact.id
+                      )
+                    }
+                    className="text-left"
+                  >
+                    <span className="font-semibold text-white">
+                      @{contact.handle}
+                    </span>{" "}
+                    ·{" "}
+                    <span className={STATUS_STYLES[contact.status]}>
+                      {contact.status}
+                    </span>
+                    {contact.lastContactedAt &&
+                      ` · last DM ${new Date(contact.lastContactedAt).toLocaleString()}`}
+                  </button>
+                  {contact.status === "active" ? (
+                    <button
+                      type="button"
+                      onClick={() =>
+                        setContactStatus(contact, "do-not-contact")
+                      }
+                      className="rounded-2xl border border-slate-700 px-3 py-1 text-xs uppercase tracking-wide text-slate-300 transition hover:border-red-400 hover:text-red-200"
+                    >
+                      Block
+                    </button>
+                  ) : (
+                    <button
+                      type="button"
+                      onClick={() => setContactStatus(contact, "active")}
+                      className="rounded-2xl border border-slate-700 px-3 py-1 text-xs uppercase tracking-wide text-slate-300 transition hover:border-emerald-400"
+                    >
+                      Allow again
+                    </button>
+                  )}
+                </div>
+                {expanded === contact.id && (
+                  <ol className="mt-3 space-y-1 text-xs text-slate-400">
+                    {contact.history.map((event, index) => (
+                      <li key={`${event.at}-${index}`}>
+                        {new Date(event.at).toLocaleString()} · {event.type}
+                        {event.message && ` · “${event.message}”`}
+                        {event.detail && ` · ${event.detail}`}
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </li>
+            ))}
+          </ul>
+        </section>
+      </div>
+    </div>
+  );
+}
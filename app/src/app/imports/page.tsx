@@ -0,0 +1,546 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+
+type RowStatus = "invalid" | "queued" | "generating" | "drafted" | "failed";
+type DraftStatus = "draft" | "approved" | "published" | "rejected";
+
+interface ImportIssue {
+  path: string;
+  message: string;
+}
+
+interface ImportRow {
+  row: number;
+  input: { topic?: unknown; niche?: unknown; tone?: unknown };
+  status: RowStatus;
+  errors?: ImportIssue[];
+  draftId?: string;
+  error?: string;
+  draft?: {
+    status: DraftStatus;
+    tweetUrl?: string;
+    plan: {
+      tweet: string;
+      thread: string[];
+      media: { url: string; altText?: string }[];
+    };
+  };
+}
+
+interface ImportBatch {
+  id: string;
+  name: string;
+  ignoredColumns: string[];
+  generating: boolean;
+  rows: ImportRow[];
+}
+
+interface ImportSummary {
+  id: string;
+  name: string;
+  createdBy: string;
+  createdAt: string;
+  total: number;
+  counts: Partial<Record<RowStatus, number>>;
+  generating: boolean;
+}
+
+interface Validation {
+  rows: ImportRow[];
+  ignoredColumns: string[];
+  valid: number;
+}
+
+const statusClass: Record<RowStatus, string> = {
+  invalid: "text-red-200",
+  queued: "text-slate-400",
+  generating: "text-sky-200",
+  drafted: "text-emerald-200",
+  failed: "text-red-200",
+};
+
+const inputClass =
+  "rounded-2xl border border-slate-700 bg-slate-950 px-4 py-3 text-base text-white outline-none transition focus:border-sky-500 focus:ring-2 focus:ring-sky-500/40";
+
+const smallButton =
+  "rounded-2xl border border-slate-700 px-3 py-1 text-xs uppercase tracking-wide text-slate-300 transition hover:border-sky-400 disabled:cursor-not-allowed disabled:opacity-40";
+
+const SAMPLE = `topic,niche,tone,cta,hashtags
+Pricing page teardown,saas founders,practical,Book a demo,#saas #pricing`;
+
+const fetchJson = async <T,>(url: string, init?: RequestInit) => {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    throw new Error(await response.text());
+  }
+  return (await response.json()) as T;
+};
+
+const fetchImports = () =>
+  fetchJson<{ imports: ImportSummary[] }>("/api/imports").then(
+    ({ imports }) => imports
+  );
+
+const fetchImport = (id: string) =>
+  fetchJson<{ import: ImportBatch }>(`/api/imports/${id}`).then(
+    (payload) => payload.import
+  );
+
+/** JSON arrays (or `{ rows }`) go in as rows; anything else as CSV. */
+const importBody = (source: string) => {
+  const trimmed = source.trim();
+  if (!trimmed.startsWith("[") && !trimmed.startsWith("{")) {
+    return { csv: source };
+  }
+  const parsed = JSON.parse(trimmed) as unknown;
+  return {
+    rows: Array.isArray(parsed)
+      ? parsed
+      : ((parsed as { rows?: unknown[] }).rows ?? [parsed]),
+  };
+};
+
+const describeIssues = (row: ImportRow) =>
+  [
+    ...(row.errors ?? []).map(
+      (issue) => `${issue.path ? `${issue.path}: ` : ""}${issue.message}`
+    ),
+    ...(row.error ? [row.error] : []),
+  ].join("; ");
+
+export default function ImportsPage() {
+  const [imports, setImports] = useState<ImportSummary[]>([]);
+  const [batch, setBatch] = useState<ImportBatch | null>(null);
+  const [source, setSource] = useState("");
+  const [name, setName] = useState("");
+  const [validation, setValidation] = useState<Validation | null>(null);
+  const [selected, setSelected] = useState<number[]>([]);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchImports()
+      .then(setImports)
+      .catch((err) =>
+        setError(err instanceof Error ? err.message : "Failed to load imports")
+      );
+  }, []);
+
+  // Poll while drafts are being generated.
+  const pollId = batch?.generating ? batch.id : null;
+  useEffect(() => {
+    if (!pollId) {
+      return;
+    }
+    const timer = setInterval(() => {
+      fetchImport(pollId)
+        .then((next) => {
+          setBatch(next);
+          if (!next.generating) {
+            fetchImports().then(setImports);
+          }
+        })
+        .catch(() => undefined);
+    }, 2000);
+    return () => clearInterval(timer);
+  }, [pollId]);
+
+  const run = async (label: string, action: () => Promise<void>) => {
+    setBusy(label);
+    setError(null);
+    setNotice(null);
+
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Something went wrong");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const open = (id: string) =>
+    run("open", async () => {
+      setBatch(await fetchImport(id));
+      setSelected([]);
+    });
+
+  const loadFile = async (file: File | undefined) => {
+    if (!file) {
+      return;
+    }
+    setSource(await file.text());
+    setName(file.name);
+    setValidation(null);
+  };
+
+  const submit = (validateOnly: boolean) =>
+    run(validateOnly ? "validate" : "generate", async () => {
+      const response = await fetch("/api/imports", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...importBody(source),
+          name: name || undefined,
+          validateOnly,
+        }),
+      });
+      const payload = (await response.json()) as Partial<Validation> & {
+        error?: string;
+        import?: ImportBatch;
+      };
+
+      if (payload.rows) {
+        setValidation({
+          rows: payload.rows,
+          ignoredColumns: payload.ignoredColumns ?? [],
+          valid: payload.rows.filter((row) => row.status !== "invalid").length,
+        });
+      }
+      if (!response.ok) {
+        throw new Error(payload.error ?? "Import failed");
+      }
+      if (payload.import) {
+        setBatch(payload.import);
+        setSelected([]);
+        setValidation(null);
+        setSource("");
+        setName("");
+        setImports(await fetchImports());
+        setNotice("Generating drafts. The table updates as rows finish.");
+      }
+    });
+
+  const retry = () =>
+    batch &&
+    run("retry", async () => {
+      const payload = await fetchJson<{ import: ImportBatch }>(
+        `/api/imports/${batch.id}/generate`,
+        { method: "POST" }
+      );
+      setBatch(payload.import);
+    });
+
+  const approve = () =>
+    batch &&
+    run("approve", async () => {
+      const payload = await fetchJson<{
+        import: ImportBatch;
+        results: { row: number; error?: string }[];
+      }>(`/api/imports/${batch.id}/approve`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ rows: selected }),
+      });
+      setBatch(payload.import);
+      setSelected([]);
+      const failed = payload.results.filter((result) => result.error);
+      setNotice(
+        `Approved ${payload.results.length - failed.length} of ${payload.results.length} draft(s).`
+      );
+      if (failed.length > 0) {
+        setError(
+          failed.map((result) => `Row ${result.row}: ${result.error}`).join(" ")
+        );
+      }
+    });
+
+  const reviewable = (batch?.rows ?? []).filter(
+    (row) => row.draft?.status === "draft" || row.draft?.status === "approved"
+  );
+  const retryable = (batch?.rows ?? []).some(
+    (row) => row.status === "failed" || row.status === "queued"
+  );
+
+  const toggle = (row: number) =>
+    setSelected((prev) =>
+      prev.includes(row)
+        ? prev.filter((value) => value !== row)
+        : [...prev, row]
+    );
+
+  return (
+    <div className="min-h-screen bg-slate-950 text-slate-100">
+      <div className="mx-auto flex w-full max-w-6xl flex-col gap-10 px-6 py-16">
+        <header className="flex flex-col gap-4">
+          <Link
+            href="/"
+            className="w-fit text-xs uppercase tracking-widest text-slate-400 hover:text-slate-200"
+          >
+            ← Back to studio
+          </Link>
+          <h1 className="text-4xl font-semibold text-white">Bulk import</h1>
+          <p className="max-w-2xl text-base leading-relaxed text-slate-300">
+            Paste or upload briefs as CSV (one column per brief field: topic,
+            niche, tone, cta, hashtags, ...) or as a JSON array of briefs. Every
+            row is validated on its own; valid rows become drafts you can
+            approve in batches or export back to CSV.
+          </p>
+        </header>
+
+        {error && (
+          <div className="rounded-2xl border border-red-500/40 bg-red-500/10 px-4 py-3 text-sm text-red-200">
+            {error}
+          </div>
+        )}
+        {notice && (
+          <div className="rounded-2xl border border-emerald-500/40 bg-emerald-500/10 px-4 py-3 text-sm text-emerald-200">
+            {notice}
+          </div>
+        )}
+
+        <section className="flex flex-col gap-4 rounded-3xl border border-slate-800 bg-slate-900/50 p-6">
+          <div className="flex flex-wrap items-center gap-3">
+            <input
+              type="file"
+              accept=".csv,.json,text/csv,application/json"
+              onChange={(event) => loadFile(event.target.files?.[0])}
+              className="text-sm text-slate-300"
+            />
+            <input
+              value={name}
+              onChange={(event) => setName(event.target.value)}
+              placeholder="Batch name (optional)"
+              className={`${inputClass} flex-1`}
+            />
+          </div>
+          <textarea
+            rows={8}
+            value={source}
+            onChange={(event) => {
+              setSource(event.target.value);
+              setValidation(null);
+            }}
+            placeholder={SAMPLE}
+            className={`${inputClass} font-mono text-sm`}
+          />
+          <div className="flex flex-wrap gap-3">
+            <button
+              type="button"
+              disabled={!source.trim() || busy !== null}
+              onClick={() => submit(true)}
+              className="rounded-2xl border border-slate-700 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-300 transition hover:border-sky-400 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              {busy === "validate" ? "Validating..." : "Validate"}
+            </button>
+            <button
+              type="button"
+              disabled={!source.trim() || busy !== null}
+              onClick={() => submit(false)}
+              className="rounded-2xl bg-sky-500 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-950 transition hover:bg-sky-400 disabled:cursor-not-allowed disabled:bg-slate-700 disabled:text-slate-300"
+            >
+              {busy === "generate" ? "Starting..." : "Generate drafts"}
+            </button>
+          </div>
+
+          {validation && (
+            <div className="flex flex-col gap-2 text-sm">
+              <p className="text-slate-300">
+                {validation.valid} of {validation.rows.length} row(s) valid.
+                {validation.ignoredColumns.length > 0 &&
+                  ` Ignored columns: ${validation.ignoredColumns.join(", ")}.`}
+              </p>
+              <ul className="space-y-1 text-xs">
+                {validation.rows
+                  .filter((row) => row.status === "invalid")
+                  .map((row) => (
+                    <li key={row.row} className="text-red-200">
+                      Row {row.row}: {describeIssues(row)}
+                    </li>
+                  ))}
+              </ul>
+            </div>
+          )}
+        </section>
+
+        {imports.length > 0 && (
+          <section className="flex flex-col gap-2">
+            <h2 className="text-xs font-semibold uppercase tracking-[0.3em] text-slate-400">
+              Imports
+            </h2>
+            <div className="flex flex-wrap gap-2">
+              {imports.map((summary) => (
+                <button
+                  key={summary.id}
+                  type="button"
+                  onClick={() => open(summary.id)}
+                  className={`rounded-2xl border px-3 py-2 text-left text-xs transition ${
+                    batch?.id === summary.id
+                      ? "border-sky-500 text-sky-100"
+                      : "border-slate-700 text-slate-300 hover:border-slate-500"
+                  }`}
+                >
+                  <span className="block font-semibold">{summary.name}</span>
+                  <span className="text-slate-500">
+                    {summary.total} rows · {summary.counts.drafted ?? 0} drafted
+                    {summary.generating ? " · generating" : ""}
+                  </span>
+                </button>
+              ))}
+            </div>
+          </section>
+        )}
+
+        {batch && (
+          <section className="flex flex-col gap-4 rounded-3xl border border-slate-800 bg-slate-900/50 p-6">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <h2 className="text-lg font-semibold text-white">
+                {batch.name}
+                {batch.generating && (
+                  <span className="ml-3 text-xs font-normal text-sky-200">
+                    Generating...
+                  </span>
+                )}
+              </h2>
+              <div className="flex flex-wrap gap-2">
+                <button
+                  type="button"
+                  disabled={reviewable.length === 0}
+                  onClick={() =>
+                    setSelected(
+                      selected.length === reviewable.length
+                        ? []
+                        : reviewable.map((row) => row.row)
+                    )
+                  }
+                  className={smallButton}
+                >
+                  {selected.length === reviewable.length && selected.length > 0
+                    ? "Clear selection"
+                    : "Select all awaiting review"}
+                </button>
+                <button
+                  type="button"
+                  disabled={selected.length === 0 || busy !== null}
+                  onClick={approve}
+                  className="rounded-2xl bg-emerald-400 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-slate-950 transition hover:bg-emerald-300 disabled:cursor-not-allowed disabled:bg-slate-700 disabled:text-slate-300"
+                >
+                  {busy === "approve"
+                    ? "Publishing..."
+                    : `Approve selected (${selected.length})`}
+                </button>
+                <button
+                  type="button"
+                  disabled={!retryable || batch.generating || busy !== null}
+                  onClick={retry}
+                  className={smallButton}
+                >
+                  Retry failed
+                </button>
+                <a
+                  href={`/api/imports/${batch.id}/export`}
+                  className={smallButton}
+                >
+                  Export CSV
+                </a>
+              </div>
+            </div>
+            {batch.ignoredColumns.length > 0 && (
+              <p className="text-xs text-slate-500">
+                Ignored columns: {batch.ignoredColumns.join(", ")}
+              </p>
+            )}
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-left text-sm text-slate-300">
+                <thead className="text-xs uppercase tracking-wide text-slate-500">
+                  <tr>
+                    <th className="py-2 pr-4" />
+                    <th className="py-2 pr-4">Row</th>
+                    <th className="py-2 pr-4">Topic</th>
+                    <th className="py-2 pr-4">Status</th>
+                    <th className="py-2 pr-4">Copy</th>
+                    <th className="py-2">Images</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {batch.rows.map((row) => {
+                    const canApprove = reviewable.includes(row);
+                    return (
+                      <tr
+                        key={row.row}
+                        className="border-t border-slate-800 align-top"
+                      >
+                        <td className="py-2 pr-4">
+                          <input
+                            type="checkbox"
+                            disabled={!canApprove}
+                            checked={selected.includes(row.row)}
+                            onChange={() => toggle(row.row)}
+                          />
+                        </td>
+                        <td className="py-2 pr-4 text-slate-500">{row.row}</td>
+                        <td className="py-2 pr-4">
+                          {String(row.input.topic ?? "")}
+                          <span className="block text-xs text-slate-500">
+                            {String(row.input.niche ?? "")} ·{" "}
+                            {String(row.input.tone ?? "")}
+                          </span>
+                        </td>
+                        <td className="py-2 pr-4 whitespace-nowrap">
+                          <span className={statusClass[row.status]}>
+                            {row.status}
+                          </span>
+                          {row.draft && (
+                            <span className="block text-xs text-slate-500">
+                              draft: {row.draft.status}
+                            </span>
+                          )}
+                        </td>
+                        <td className="max-w-md py-2 pr-4">
+                          {row.draft ? (
+                            <>
+                              <p className="whitespace-pre-line text-slate-100">
+                                {row.draft.plan.tweet}
+                              </p>
+                              {row.draft.plan.thread.length > 0 && (
+                                <p className="mt-1 text-xs text-slate-500">
+                                  + {row.draft.plan.thread.length} thread
+                                  tweet(s)
+                                </p>
+                              )}
+                              {row.draft.tweetUrl && (
+                                <a
+                                  href={row.draft.tweetUrl}
+                                  target="_blank"
+                                  rel="noreferrer"
+                                  className="mt-1 block text-xs text-emerald-200 underline"
+                                >
+                                  View live tweet
+                                </a>
+                              )}
+                            </>
+                          ) : (
+                            <span className="text-xs text-red-200">
+                              {describeIssues(row)}
+                            </span>
+                          )}
+                        </td>
+                        <td className="py-2">
+                          <div className="flex gap-2">
+                            {row.draft?.plan.media.map((item) => (
+                              // eslint-disable-next-line @next/next/no-img-element
+                              <img
+                                key={item.url}
+                                src={item.url}
+                                alt={item.altText ?? ""}
+                                className="h-12 w-12 rounded-lg object-cover"
+                              />
+                            ))}
+                          </div>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </section>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+const inputClass =
+  "rounded-2xl border border-slate-700 bg-slate-950 px-4 py-3 text-base text-white outline-none transition focus:border-sky-500 focus:ring-2 focus:ring-sky-500/40";
+
+/** `?next=` set by the proxy; only same-site paths are followed. */
+const nextPath = () => {
+  const next = new URLSearchParams(window.location.search).get("next");
+  return next?.startsWith("/") && !next.startsWith("//") ? next : "/";
+};
+
+const postJson = async (url: string, body: unknown) => {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  if (!response.ok) {
+    const payload = await response.json().catch(() => null);
+    throw new Error(payload?.error ?? `Request failed (${response.status})`);
+  }
+};
+
+export default function LoginPage() {
+  const [setup, setSetup] = useState<boolean | null>(null);
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch("/api/auth/me")
+      .then(async (response) => {
+        if (response.ok) {
+          window.location.replace(nextPath());
+          return;
+        }
+        const payload = (await response.json()) as { needsSetup?: boolean };
+        setSetup(Boolean(payload.needsSetup));
+      })
+      .catch(() => setSetup(false));
+  }, []);
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setBusy(true);
+    setError(null);
+
+    try {
+      if (setup) {
+        await postJson("/api/auth/setup", { username, password });
+      }
+      await postJson("/api/auth/login", { username, password });
+      window.location.replace(nextPath());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Sign-in failed");
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-950 text-slate-100">
+      <div className="mx-auto flex w-full max-w-md flex-col gap-8 px-6 py-24">
+        <header className="flex flex-col gap-4">
+          <span className="w-fit rounded-full border border-slate-800 px-3 py-1 text-xs uppercase tracking-widest text-slate-400">
+            Twitter Agent Studio
+          </span>
+          <h1 className="text-3xl font-semibold text-white">
+            {setup ? "Create the first admin" : "Sign in"}
+          </h1>
+          {setup && (
+            <p className="text-sm leading-relaxed text-slate-300">
+              No users exist yet. This account can add everyone else from the
+              admin page.
+            </p>
+          )}
+        </header>
+
+        {error && (
+          <div className="rounded-2xl border border-red-500/40 bg-red-500/10 px-4 py-3 text-sm text-red-200">
+            {error}
+          </div>
+        )}
+
+        {setup !== null && (
+          <form
+            className="flex flex-col gap-4 rounded-3xl border border-slate-800 bg-slate-900/50 p-8"
+            onSubmit={handleSubmit}
+          >
+            <label className="flex flex-col gap-2 text-sm font-medium text-slate-200">
+              Username
+              <input
+                required
+                autoComplete="username"
+                value={username}
+                onChange={(event) => setUsername(event.target.value)}
+                className={inputClass}
+              />
+            </label>
+            <label className="flex flex-col gap-2 text-sm font-medium text-slate-200">
+              Password
+              <input
+                required
+                type="password"
+                minLength={setup ? 10 : undefined}
+                autoComplete={setup ? "new-password" : "current-password"}
+                value={password}
+                onChange={(event) => setPassword(event.target.value)}
+                className={inputClass}
+              />
+            </label>
+            <button
+              type="submit"
+              disabled={busy}
+              className="rounded-2xl bg-sky-500 px-6 py-3 text-sm font-semibold uppercase tracking-wide text-slate-950 transition hover:bg-sky-400 disabled:cursor-not-allowed disabled:bg-slate-700 disabled:text-slate-300"
+            >
+              {busy ? "Signing in..." : setup ? "Create admin" : "Sign in"}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,237 @@
+/* eslint-disable @next/next/no-img-element */
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import {
+  mediaFileUrl,
+  type MediaAssetSummary,
+} from "@/components/media-library-picker";
+
+interface MediaAsset extends MediaAssetSummary {
+  bytes: number;
+  width?: number;
+  height?: number;
+  style?: string;
+  aspectRatio?: string;
+  lastUsedAt?: string;
+}
+
+const SOURCE_LABELS: Record<MediaAsset["source"], string> = {
+  openai: "Generated",
+  mock: "Placeholder",
+  upload: "Uploaded",
+};
+
+const fetchAssets = async () => {
+  const response = await fetch("/api/media");
+  if (!response.ok) {
+    throw new Error(await response.text());
+  }
+  const payload = (await response.json()) as { assets: MediaAsset[] };
+  return payload.assets;
+};
+
+const altTextsFor = (assets: MediaAsset[]) =>
+  Object.fromEntries(assets.map((asset) => [asset.id, asset.altText ?? ""]));
+
+const inputClass =
+  "rounded-2xl border border-slate-700 bg-slate-950 px-4 py-3 text-base text-white outline-none transition focus:border-sky-500 focus:ring-2 focus:ring-sky-500/40";
+
+export default function MediaPage() {
+  const [assets, setAssets] = useState<MediaAsset[]>([]);
+  const [altTexts, setAltTexts] = useState<Record<string, string>>({});
+  const [file, setFile] = useState<File | null>(null);
+  const [uploadAltText, setUploadAltText] = useState("");
+  const [uploading, setUploading] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchAssets()
+      .then((loaded) => {
+        setAssets(loaded);
+        setAltTexts(altTextsFor(loaded));
+      })
+      .catch((err) =>
+        setError(err instanceof Error ? err.message : "Failed to load media")
+      );
+  }, []);
+
+  const reload = async () => {
+    const loaded = await fetchAssets();
+    setAssets(loaded);
+    setAltTexts(altTextsFor(loaded));
+  };
+
+  const upload = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const form = event.currentTarget;
+    if (!file) {
+      return;
+    }
+    setUploading(true);
+    setError(null);
+
+    try {
+      const body = new FormData();
+      body.set("file", file);
+      if (uploadAltText.trim()) {
+        body.set("altText", uploadAltText.trim());
+      }
+      const response = await fetch("/api/media", { method: "POST", body });
+      if (!response.ok) {
+        throw new Error(await response.text());
+      }
+      setFile(null);
+      setUploadAltText("");
+      form.reset();
+      await reload();
+      setNotice("Image added to the library.");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Upload failed");
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const saveAltText = async (id: string) => {
+    setError(null);
+    const response = await fetch(`/api/media/${id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ altText: altTexts[id] || undefined }),
+    });
+    if (!response.ok) {
+      setError(await response.text());
+      return;
+    }
+    await reload();
+    setNotice("Alt text saved.");
+  };
+
+  const remove = async (id: string) => {
+    const response = await fetch(`/api/media/${id}`, { method: "DELETE" });
+    if (!response.ok) {
+      setError(await response.text());
+      return;
+    }
+    await reload();
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-950 text-slate-100">
+      <div className="mx-auto flex w-full max-w-5xl flex-col gap-10 px-6 py-16">
+        <header className="flex flex-col gap-4">
+          <Link
+            href="/"
+            className="w-fit text-xs uppercase tracking-widest text-slate-400 hover:text-slate-200"
+          >
+            ← Back to studio
+          </Link>
+          <h1 className="text-4xl font-semibold text-white">Media library</h1>
+          <p className="max-w-2xl text-base leading-relaxed text-slate-300">
+            Every generated image is stored here with its prompt. Upload your
+            own, add alt text, and pick up to four of them in the studio to
+            attach to a tweet.
+          </p>
+        </header>
+
+        {notice && (
+          <div className="rounded-2xl border border-emerald-500/40 bg-emerald-500/10 px-4 py-3 text-sm text-emerald-200">
+            {notice}
+          </div>
+        )}
+        {error && (
+          <div className="rounded-2xl border border-red-500/40 bg-red-500/10 px-4 py-3 text-sm text-red-200">
+            {error}
+          </div>
+        )}
+
+        <section className="rounded-3xl border border-slate-800 bg-slate-900/50 p-8">
+          <h2 className="text-lg font-semibold text-white">Upload</h2>
+          <form className="mt-4 flex flex-wrap gap-3" onSubmit={upload}>
+            <input
+              required
+              type="file"
+              accept="image/png,image/jpeg,image/webp,image/gif"
+              onChange={(event) => setFile(event.target.files?.[0] ?? null)}
+              className="text-sm text-slate-300"
+            />
+            <input
+              value={uploadAltText}
+              onChange={(event) => setUploadAltText(event.target.value)}
+              placeholder="Alt text (optional)"
+              className={`${inputClass} flex-1`}
+            />
+            <button
+              type="submit"
+              disabled={uploading || !file}
+              className="rounded-2xl bg-sky-500 px-6 py-3 text-sm font-semibold uppercase tracking-wide text-slate-950 transition hover:bg-sky-400 disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              {uploading ? "Uploading..." : "Upload"}
+            </button>
+          </form>
+        </section>
+
+        <section className="grid gap-4 sm:grid-cols-2">
+          {assets.length === 0 && (
+            <p className="text-sm text-slate-400">No images yet.</p>
+          )}
+          {assets.map((asset) => (
+            <article
+              key={asset.id}
+              className="flex flex-col gap-3 rounded-3xl border border-slate-800 bg-slate-900/50 p-4"
+            >
+              <img
+                src={mediaFileUrl(asset.id)}
+                alt={asset.altText ?? ""}
+                className="w-full rounded-2xl object-cover"
+              />
+              <p className="text-xs text-slate-400">
+                {SOURCE_LABELS[asset.source]}
+                {asset.style && ` · ${asset.style}`}
+                {asset.aspectRatio && ` · ${asset.aspectRatio}`} ·{" "}
+                {Math.round(asset.bytes / 1024)} KB · used {asset.usageCount}{" "}
+                time(s)
+                {asset.lastUsedAt &&
+                  `, last ${new Date(asset.lastUsedAt).toLocaleDateString()}`}
+              </p>
+              {asset.prompt && (
+                <p className="text-xs text-slate-300">{asset.prompt}</p>
+              )}
+              <textarea
+                value={altTexts[asset.id] ?? ""}
+                onChange={(event) =>
+                  setAltTexts((prev) => ({
+                    ...prev,
+                    [asset.id]: event.target.value,
+                  }))
+                }
+                rows={2}
+                placeholder="Alt text"
+                className={inputClass}
+              />
+              <div className="flex justify-between gap-3">
+                <button
+                  type="button"
+                  onClick={() => saveAltText(asset.id)}
+                  className="rounded-2xl border border-slate-700 px-3 py-1 text-xs uppercase tracking-wide text-slate-300 transition hover:border-sky-400"
+                >
+                  Save alt text
+                </button>
+                <button
+                  type="button"
+                  onClick={() => remove(asset.id)}
+                  className="rounded-2xl border border-slate-700 px-3 py-1 text-xs uppercase tracking-wide text-slate-300 transition hover:border-red-400 hover:text-red-200"
+                >
+                  Delete
+                </button>
+              </div>
+            </article>
+          ))}
+        </section>
+      </div>
+    </div>
+  );
+}
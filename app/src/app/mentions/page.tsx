@@ -0,0 +1,376 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import PolicyFindings, {
+  hasBlockingFindings,
+  type PolicyFindingView,
+} from "@/components/policy-findings";
+import { TWEET_MAX_LENGTH, weightedLength } from "@/utils/tweet-length";
+
+type MentionIntent = "question" | "praise" | "complaint" | "spam" | "other";
+type MentionStatus = "pending" | "sent" | "dismissed";
+
+interface Mention {
+  id: string;
+  tweetId: string;
+  authorHandle?: string;
+  text: string;
+  createdAt: string;
+  intent: MentionIntent;
+  intentReason?: string;
+  suggestion?: string;
+  findings: PolicyFindingView[];
+  status: MentionStatus;
+  reply?: { tweetId: string; text: string; at: string };
+  handledBy?: string;
+}
+
+interface MentionConversation {
+  conversationId: string;
+  accountId?: string;
+  latestAt: string;
+  pending: number;
+  mentions: Mention[];
+}
+
+const STATUS_FILTERS: { value: MentionStatus | ""; label: string }[] = [
+  { value: "pending", label: "To answer" },
+  { value: "sent", label: "Replied" },
+  { value: "dismissed", label: "Dismissed" },
+  { value: "", label: "All" },
+];
+
+const intentClass: Record<MentionIntent, string> = {
+  question: "border-sky-500/40 text-sky-200",
+  praise: "border-emerald-500/40 text-emerald-200",
+  complaint: "border-amber-500/40 text-amber-200",
+  spam: "border-red-500/40 text-red-200",
+  other: "border-slate-700 text-slate-300",
+};
+
+const fetchConversations = async (
+  status: MentionStatus | "",
+  intent: MentionIntent | ""
+) => {
+  const query = new URLSearchParams();
+  if (status) {
+    query.set("status", status);
+  }
+  if (intent) {
+    query.set("intent", intent);
+  }
+  const response = await fetch(`/api/mentions?${query}`);
+  if (!response.ok) {
+    throw new Error(await response.text());
+  }
+  const payload = (await response.json()) as {
+    conversations: MentionConversation[];
+  };
+  return payload.conversations;
+};
+
+const tweetUrl = (id: string) => `https://x.com/i/status/${id}`;
+
+export default function MentionsPage() {
+  const [conversations, setConversations] = useState<MentionConversation[]>([]);
+  const [status, setStatus] = useState<MentionStatus | "">("pending");
+  const [intent, setIntent] = useState<MentionIntent | "">("");
+  const [edits, setEdits] = useState<Record<string, string>>({});
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchConversations(status, intent)
+      .then((loaded) => {
+        if (!cancelled) {
+          setConversations(loaded);
+        }
+      })
+      .catch((err) =>
+        setError(err instanceof Error ? err.message : "Failed to load mentions")
+      );
+
+    return () => {
+      cancelled = true;
+    };
+  }, [status, intent]);
+
+  const run = async (id: string, action: () => Promise<Response>) => {
+    setBusyId(id);
+    setError(null);
+    setNotice(null);
+
+    try {
+      const response = await action();
+      if (!response.ok) {
+        throw new Error(await response.text());
+      }
+      setConversations(await fetchConversations(status, intent));
+      return response;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Request failed");
+      return undefined;
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const poll = async () => {
+    const response = await run("poll", () =>
+      fetch("/api/mentions/poll", { method: "POST" })
+    );
+    if (response) {
+      const result = (await response.json()) as { added: number };
+      setNotice(`${result.added} new mention(s).`);
+    }
+  };
+
+  const post = (mention: Mention, action: string, body?: unknown) =>
+    run(mention.id, () =>
+      fetch(`/api/mentions/${encodeURIComponent(mention.id)}${action}`, {
+        method: action ? "POST" : "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body ?? {}),
+      })
+    ).then((response) => {
+      if (response) {
+        setEdits((prev) => {
+          const next = { ...prev };
+          delete next[mention.id];
+          return next;
+        });
+      }
+    });
+
+  return (
+    <div className="min-h-screen bg-slate-950 text-slate-100">
+      <div className="mx-auto flex w-full max-w-5xl flex-col gap-10 px-6 py-16">
+        <header className="flex flex-col gap-4">
+          <Link
+            href="/"
+            className="w-fit text-xs uppercase tracking-widest text-slate-400 hover:text-slate-200"
+          >
+            ← Back to studio
+          </Link>
+          <h1 className="text-4xl font-semibold text-white">Mentions</h1>
+          <p className="max-w-2xl text-base leading-relaxed text-slate-300">
+            Tweets that mention your accounts, grouped by conversation. Each one
+            is classified and gets a suggested reply in your brand voice; send
+            it as is, edit it first, or dismiss it. Handled mentions are never
+            suggested again.
+          </p>
+        </header>
+
+        {error && (
+          <div className="rounded-2xl border border-red-500/40 bg-red-500/10 px-4 py-3 text-sm text-red-200">
+            {error}
+          </div>
+        )}
+        {notice && (
+          <div className="rounded-2xl border border-emerald-500/40 bg-emerald-500/10 px-4 py-3 text-sm text-emerald-200">
+            {notice}
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div className="flex flex-wrap gap-2">
+            {STATUS_FILTERS.map((filter) => (
+              <button
+                key={filter.label}
+                type="button"
+                onClick={() => setStatus(filter.value)}
+                className={`rounded-2xl border px-3 py-1 text-xs uppercase tracking-wide transition ${
+                  status === filter.value
+                    ? "border-sky-500 text-sky-200"
+                    : "border-slate-700 text-slate-400 hover:border-slate-500"
+                }`}
+              >
+                {filter.label}
+              </button>
+            ))}
+            <select
+              value={intent}
+              onChange={(event) =>
+                setIntent(event.target.value as MentionIntent | "")
+              }
+              className="rounded-2xl border border-slate-700 bg-slate-950 px-3 py-1 text-xs uppercase tracking-wide text-slate-300"
+            >
+              <option value="">Any intent</option>
+              {Object.keys(intentClass).map((value) => (
+                <option key={value} value={value}>
+                  {value}
+                </option>
+              ))}
+            </select>
+          </div>
+          <button
+            type="button"
+            onClick={poll}
+            disabled={busyId === "poll"}
+            className="rounded-2xl border border-sky-500/70 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-sky-200 transition hover:bg-sky-500/10 disabled:cursor-not-allowed disabled:border-slate-700 disabled:text-slate-500"
+          >
+            {busyId === "poll" ? "Checking..." : "Check now"}
+          </button>
+        </div>
+
+        {conversations.length === 0 && (
+          <p className="text-sm text-slate-400">
+            Nothing here. New mentions are fetched every few minutes.
+          </p>
+        )}
+
+        {conversations.map((conversation) => (
+          <section
+            key={`${conversation.accountId ?? "default"}:${conversation.conversationId}`}
+            className="flex flex-col gap-4 rounded-3xl border border-slate-800 bg-slate-900/50 p-6"
+          >
+            <div className="flex items-center justify-between text-xs uppercase tracking-wide text-slate-400">
+              <a
+                href={tweetUrl(conversation.conversationId)}
+                target="_blank"
+                rel="noreferrer"
+                className="underline hover:text-slate-200"
+              >
+                Conversation {conversation.conversationId}
+              </a>
+              <span>
+                {conversation.mentions.length} mention(s) ·{" "}
+                {conversation.pending} to answer
+              </span>
+            </div>
+
+            {conversation.mentions.map((mention) => {
+              const draft = edits[mention.id] ?? mention.suggestion ?? "";
+              const edited =
+                edits[mention.id] !== undefined &&
+                edits[mention.id] !== mention.suggestion;
+
+              return (
+                <article
+                  key={mention.id}
+                  className="flex flex-col gap-3 rounded-2xl border border-slate-800 bg-slate-950 p-4 text-sm text-slate-300"
+                >
+                  <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-slate-400">
+                    <span>
+                      <a
+                        href={tweetUrl(mention.tweetId)}
+                        target="_blank"
+                        rel="noreferrer"
+                        className="font-semibold text-white hover:underline"
+                      >
+                        @{mention.authorHandle ?? "unknown"}
+                      </a>{" "}
+                      · {new Date(mention.createdAt).toLocaleString()}
+                    </span>
+                    <span
+                      title={mention.intentReason}
+                      className={`rounded-full border px-2 py-0.5 uppercase tracking-wide ${intentClass[mention.intent]}`}
+                    >
+                      {mention.intent}
+                    </span>
+                  </div>
+                  <p className="whitespace-pre-line text-slate-100">
+                    {mention.text}
+                  </p>
+
+                  {mention.status === "pending" ? (
+                    <>
+                      <label className="flex flex-col gap-1">
+                        <span className="text-xs text-slate-500">
+                          {mention.suggestion
+                            ? "Suggested reply"
+                            : "No suggestion for spam; write one to reply anyway"}
+                        </span>
+                        <textarea
+                          rows={3}
+                          value={draft}
+                          onChange={(event) =>
+                            setEdits((prev) => ({
+                              ...prev,
+                              [mention.id]: event.target.value,
+                            }))
+                          }
+                          className="rounded-2xl border border-slate-700 bg-slate-900 px-4 py-3 text-base text-white outline-none transition focus:border-sky-500 focus:ring-2 focus:ring-sky-500/40"
+                        />
+                        <span
+                          className={`text-right text-xs ${
+                            weightedLength(draft) > TWEET_MAX_LENGTH
+                              ? "text-red-300"
+                              : "text-slate-500"
+                          }`}
+                        >
+                          {weightedLength(draft)}/{TWEET_MAX_LENGTH}
+                        </span>
+                      </label>
+                      {!edited && (
+                        <PolicyFindings findings={mention.findings} />
+                      )}
+                      <div className="flex flex-wrap gap-3">
+                        <button
+                          type="button"
+                          disabled={
+                            busyId === mention.id ||
+                            !draft.trim() ||
+                            (!edited && hasBlockingFindings(mention.findings))
+                          }
+                          onClick={() =>
+                            post(mention, "/send", { text: draft })
+                          }
+                          className="rounded-2xl bg-emerald-400 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-950 transition hover:bg-emerald-300 disabled:cursor-not-allowed disabled:bg-slate-700 disabled:text-slate-300"
+                        >
+                          Send reply
+                        </button>
+                        <button
+                          type="button"
+                          disabled={
+                            busyId === mention.id || !edited || !draft.trim()
+                          }
+                          onClick={() =>
+                            post(mention, "", { suggestion: draft })
+                          }
+                          className="rounded-2xl border border-slate-700 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-300 transition hover:border-sky-400 disabled:cursor-not-allowed disabled:opacity-50"
+                        >
+                          Save edit
+                        </button>
+                        <button
+                          type="button"
+                          disabled={busyId === mention.id}
+                          onClick={() => post(mention, "/dismiss")}
+                          className="rounded-2xl border border-slate-700 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-300 transition hover:border-red-400 hover:text-red-200"
+                        >
+                          Dismiss
+                        </button>
+                      </div>
+                    </>
+                  ) : (
+                    <p className="border-l-2 border-slate-700 pl-3 text-xs text-slate-400">
+                      {mention.status === "sent" && mention.reply ? (
+                        <>
+                          Replied by {mention.handledBy}:{" "}
+                          <a
+                            href={tweetUrl(mention.reply.tweetId)}
+                            target="_blank"
+                            rel="noreferrer"
+                            className="text-slate-200 underline"
+                          >
+                            {mention.reply.text}
+                          </a>
+                        </>
+                      ) : (
+                        `Dismissed by ${mention.handledBy}.`
+                      )}
+                    </p>
+                  )}
+                </article>
+              );
+            })}
+          </section>
+        ))}
+      </div>
+    </div>
+  );
+}
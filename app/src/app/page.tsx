@@ -1,17 +1,155 @@
 /* eslint-disable @next/next/no-img-element */
 "use client";
 
-import { useState } from "react";
+import Link from "next/link";
+import { useRef, useState } from "react";
+import AccountSwitcher from "@/components/account-switcher";
+import ProfilePicker, {
+  type BrandProfileSummary,
+} from "@/components/brand-profile-picker";
+import PolicyFindings, {
+  hasBlockingFindings,
+  type PolicyFindingView,
+} from "@/components/policy-findings";
+import PublishSteps, { type PublishStepView } from "@/components/publish-steps";
+import MediaLibraryPicker from "@/components/media-library-picker";
+import QuotaPanel from "@/components/quota-panel";
+import ReviewInbox from "@/components/review-inbox";
+import RunTimeline, { type RunEventView } from "@/components/run-timeline";
+import StepTracker, { type StreamedText } from "@/components/step-tracker";
+import UserMenu from "@/components/user-menu";
+import {
+  parseTemplate,
+  renderTemplate,
+  SAMPLE_RECIPIENT,
+  TEMPLATE_VARIABLES,
+} from "@/utils/dm-template";
+import {
+  HOOK_STYLE_IDS,
+  HOOK_STYLES,
+  MAX_VARIANTS,
+  type HookStyle,
+} from "@/utils/hook-styles";
+import {
+  IMAGE_ASPECT_RATIO_IDS,
+  IMAGE_ASPECT_RATIOS,
+  IMAGE_STYLE_IDS,
+  IMAGE_STYLES,
+  MAX_TWEET_IMAGES,
+  type ImageAspectRatio,
+  type ImageStyle,
+} from "@/utils/image-options";
+import { TWEET_MAX_LENGTH, weightedLength } from "@/utils/tweet-length";
 
 type EngagementMode = "like" | "retweet" | "reply" | "dm";
+type TweetFormat = "single" | "thread";
+type ImageMode = "off" | "always" | "auto";
+type TextProvider =
+  "" | "openai" | "openai-compatible" | "anthropic" | "fixture";
+
+interface TweetVariant {
+  id: string;
+  hookStyle?: HookStyle;
+  tweet: string;
+  thread: string[];
+  findings: PolicyFindingView[];
+}
+
+interface TweetPlan {
+  tweet: string;
+  thread: string[];
+  hookStyle?: HookStyle;
+  variantId?: string;
+  variants?: TweetVariant[];
+  media: {
+    assetId?: string;
+    source: "openai" | "mock" | "upload";
+    url: string;
+    altText?: string;
+    uploadable: boolean;
+  }[];
+  engagementTargets: {
+    tweetId: string;
+    authorId?: string;
+    text: string;
+    authorHandle?: string;
+    actions: Exclude<EngagementMode, "dm">[];
+    reply?: string;
+    score?: number;
+    reasons?: string[];
+  }[];
+  dmRecipients: { handle: string; userId?: string; message: string }[];
+  dmSkipped?: DmSkipView[];
+  findings: PolicyFindingView[];
+}
+
+interface TargetingForm {
+  keywords: string;
+  excludeKeywords: string;
+  fromAccounts: string;
+  excludeAccounts: string;
+  minFollowers: number;
+  minLikes: number;
+  language: string;
+  maxAgeHours: number;
+  maxTargets: number;
+}
+
+interface DmSkipView {
+  handle: string;
+  reason: string;
+  detail: string;
+}
 
 interface GenerationResponse {
+  runId?: string;
+  mode: "preview" | "publish";
+  draftId?: string;
   tweet: string;
-  imageUrl?: string;
-  log: string[];
+  plan: TweetPlan;
+  tweetUrl?: string;
+  thread?: { tweetIds: string[]; total: number; error?: string };
+  dmSkipped?: DmSkipView[];
+  steps?: PublishStepView[];
+  log: RunEventView[];
 }
 
+interface RunProgress {
+  events: RunEventView[];
+  text: StreamedText | null;
+}
+
+type RunStreamMessage =
+  | { type: "event"; event: RunEventView }
+  | {
+      type: "text";
+      delta: StreamedText & { restart?: boolean };
+    }
+  | { type: "result"; result: GenerationResponse }
+  | { type: "error"; error: string };
+
+const DEFAULT_TARGETING: TargetingForm = {
+  keywords: "",
+  excludeKeywords: "giveaway, airdrop",
+  fromAccounts: "",
+  excludeAccounts: "",
+  minFollowers: 100,
+  minLikes: 5,
+  language: "en",
+  maxAgeHours: 24,
+  maxTargets: 3,
+};
+
+/** Comma-separated phrases; handles may also be separated by spaces. */
+const splitList = (value: string, separator = /,/) =>
+  value
+    .split(separator)
+    .map((item) => item.trim())
+    .filter(Boolean);
+
 export default function Home() {
+  const [accountId, setAccountId] = useState("");
+  const [profileId, setProfileId] = useState("");
   const [topic, setTopic] = useState("");
   const [niche, setNiche] = useState("");
   const [tone, setTone] = useState("witty");
@@ -21,14 +159,34 @@ export default function Home() {
     "like",
     "retweet",
   ]);
+  const [targeting, setTargeting] = useState(DEFAULT_TARGETING);
   const [dmTarget, setDmTarget] = useState("@ExampleBrand");
   const [dmMessage, setDmMessage] = useState(
-    "Hey {{brand}}, loved your latest launch! Let's collaborate on automation."
+    "Hey {{name|there}}, loved your latest launch! Let's collaborate on automation."
   );
-  const [autoImage, setAutoImage] = useState(true);
+  const [imageMode, setImageMode] = useState<ImageMode>("auto");
+  const [imagePrompt, setImagePrompt] = useState("");
+  const [imageStyle, setImageStyle] = useState<ImageStyle>("cinematic");
+  const [aspectRatio, setAspectRatio] = useState<ImageAspectRatio>("1:1");
+  const [imageVariants, setImageVariants] = useState(1);
+  const [libraryAssetIds, setLibraryAssetIds] = useState<string[]>([]);
+  const [format, setFormat] = useState<TweetFormat>("single");
+  const [maxTweets, setMaxTweets] = useState(5);
+  const [variantCount, setVariantCount] = useState(1);
+  const [hookStyles, setHookStyles] = useState<HookStyle[]>([]);
+  const [llmProvider, setLlmProvider] = useState<TextProvider>("");
+  const [llmModel, setLlmModel] = useState("");
+  const [scheduledAt, setScheduledAt] = useState("");
+  const [cron, setCron] = useState("");
+  const [scheduleNotice, setScheduleNotice] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
+  const [publishing, setPublishing] = useState(false);
+  const [confirmPublish, setConfirmPublish] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [result, setResult] = useState<GenerationResponse | null>(null);
+  const [progress, setProgress] = useState<RunProgress | null>(null);
+  const runAbort = useRef<AbortController | null>(null);
+  const [inboxVersion, setInboxVersion] = useState(0);
 
   const toggleMode = (mode: EngagementMode) => {
     setEngagementModes((prev) =>
@@ -36,36 +194,193 @@ export default function Home() {
     );
   };
 
+  const toggleHookStyle = (style: HookStyle) =>
+    setHookStyles((prev) =>
+      prev.includes(style) ? prev.filter((s) => s !== style) : [...prev, style]
+    );
+
+  const updateTargeting = (patch: Partial<TargetingForm>) =>
+    setTargeting((prev) => ({ ...prev, ...patch }));
+
+  const selectProfile = (profile: BrandProfileSummary | null) => {
+    setProfileId(profile?.id ?? "");
+    if (!profile) {
+      return;
+    }
+    if (profile.niche) {
+      setNiche(profile.niche);
+    }
+    if (profile.tone) {
+      setTone(profile.tone);
+    }
+    if (profile.callToAction) {
+      setCallToAction(profile.callToAction);
+    }
+    setHashtags(profile.defaultHashtags.join(" "));
+  };
+
+  const briefPayload = () => ({
+    accountId: accountId || undefined,
+    profileId: profileId || undefined,
+    topic,
+    niche,
+    tone,
+    callToAction,
+    hashtags: hashtags.split(" ").filter(Boolean),
+    engagementModes,
+    targeting: {
+      keywords: splitList(targeting.keywords),
+      excludeKeywords: splitList(targeting.excludeKeywords),
+      fromAccounts: splitList(targeting.fromAccounts, /[\s,]+/),
+      excludeAccounts: splitList(targeting.excludeAccounts, /[\s,]+/),
+      minFollowers: targeting.minFollowers,
+      minLikes: targeting.minLikes,
+      language: targeting.language.trim().toLowerCase(),
+      maxAgeHours: targeting.maxAgeHours,
+      maxTargets: targeting.maxTargets,
+    },
+    dmTarget,
+    dmMessage,
+    autoImage: imageMode !== "off",
+    image: {
+      mode: imageMode,
+      prompt: imagePrompt.trim() || undefined,
+      style: imageStyle,
+      aspectRatio,
+      variants: imageVariants,
+      assetIds: libraryAssetIds,
+    },
+    format,
+    maxTweets,
+    variants: variantCount,
+    hookStyles: hookStyles.length ? hookStyles : undefined,
+    llm: {
+      provider: llmProvider || undefined,
+      model: llmModel.trim() || undefined,
+    },
+  });
+
+  const applyStreamMessage = (message: RunStreamMessage) => {
+    switch (message.type) {
+      case "event":
+        setProgress((prev) => ({
+          events: [...(prev?.events ?? []), message.event],
+          text: prev?.text ?? null,
+        }));
+        break;
+      case "text": {
+        const { kind, text, restart } = message.delta;
+        setProgress((prev) => ({
+          events: prev?.events ?? [],
+          text: {
+            kind,
+            text: restart ? text : `${prev?.text?.text ?? ""}${text}`,
+          },
+        }));
+        break;
+      }
+      case "error":
+        throw new Error(message.error);
+    }
+  };
+
+  /** Runs the pipeline with `?stream=ndjson`, feeding the step tracker as it goes. */
+  const requestTweet = async (
+    body: Record<string, unknown>,
+    signal: AbortSignal
+  ) => {
+    const response = await fetch("/api/tweet?stream=ndjson", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ...briefPayload(), ...body }),
+      signal,
+    });
+
+    if (!response.ok || !response.body) {
+      const message = await response.text();
+      throw new Error(message || "Failed to generate tweet");
+    }
+
+    const reader = response.body
+      .pipeThrough(new TextDecoderStream())
+      .getReader();
+    let buffer = "";
+
+    for (
+      let chunk = await reader.read();
+      !chunk.done;
+      chunk = await reader.read()
+    ) {
+      buffer += chunk.value;
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
+
+      for (const line of lines.filter(Boolean)) {
+        const message = JSON.parse(line) as RunStreamMessage;
+        if (message.type === "result") {
+          return message.result;
+        }
+        applyStreamMessage(message);
+      }
+    }
+
+    throw new Error("The run ended without a result.");
+  };
+
   const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
     event.preventDefault();
+    const abort = new AbortController();
+    runAbort.current = abort;
     setLoading(true);
     setResult(null);
+    setProgress({ events: [], text: null });
+    setConfirmPublish(false);
     setError(null);
 
+    try {
+      setResult(await requestTweet({ mode: "preview" }, abort.signal));
+      setInboxVersion((version) => version + 1);
+    } catch (err) {
+      setError(
+        abort.signal.aborted
+          ? "Cancelled. The remaining steps were not run and no draft was saved."
+          : err instanceof Error
+            ? err.message
+            : "Something went wrong"
+      );
+    } finally {
+      runAbort.current = null;
+      setLoading(false);
+    }
+  };
+
+  const handleSchedule = async () => {
+    setLoading(true);
+    setProgress(null);
+    setError(null);
+    setScheduleNotice(null);
+
     try {
       const response = await fetch("/api/tweet", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
-          topic,
-          niche,
-          tone,
-          callToAction,
-          hashtags: hashtags.split(" ").filter(Boolean),
-          engagementModes,
-          dmTarget,
-          dmMessage,
-          autoImage,
+          ...briefPayload(),
+          ...(cron
+            ? { cron }
+            : { scheduledAt: new Date(scheduledAt).toISOString() }),
         }),
       });
 
       if (!response.ok) {
         const message = await response.text();
-        throw new Error(message || "Failed to generate tweet");
+        throw new Error(message || "Failed to schedule job");
       }
 
-      const payload = (await response.json()) as GenerationResponse;
-      setResult(payload);
+      const { job } = (await response.json()) as { job: { runAt: string } };
+      setScheduleNotice(
+        `Scheduled. Next run: ${new Date(job.runAt).toLocaleString()}`
+      );
     } catch (err) {
       setError(err instanceof Error ? err.message : "Something went wrong");
     } finally {
@@ -73,13 +388,144 @@ export default function Home() {
     }
   };
 
+  const handlePublish = async () => {
+    if (!result) {
+      return;
+    }
+
+    setPublishing(true);
+    setError(null);
+
+    try {
+      if (!result.draftId) {
+        throw new Error("This preview was not saved as a draft.");
+      }
+
+      const response = await fetch(`/api/drafts/${result.draftId}/approve`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          variantId: result.plan.variantId,
+          tweet: result.plan.tweet,
+          thread: result.plan.thread,
+          mediaAssetIds: result.plan.media.every((item) => item.assetId)
+            ? result.plan.media.map((item) => item.assetId)
+            : undefined,
+          altTexts: Object.fromEntries(
+            result.plan.media.flatMap((item) =>
+              item.assetId ? [[item.assetId, item.altText ?? ""]] : []
+            )
+          ),
+        }),
+      });
+
+      if (!response.ok && response.status !== 422) {
+        const message = await response.text();
+        throw new Error(message || "Failed to publish draft");
+      }
+
+      const {
+        draft,
+        runId,
+        error: policyError,
+      } = (await response.json()) as {
+        runId: string;
+        error?: string;
+        draft: {
+          plan: TweetPlan;
+          tweetUrl?: string;
+          thread?: GenerationResponse["thread"];
+          dmSkipped?: DmSkipView[];
+          steps?: PublishStepView[];
+          log: RunEventView[];
+        };
+      };
+      setResult({
+        ...result,
+        runId,
+        mode: policyError ? "preview" : "publish",
+        tweet: draft.plan.tweet,
+        plan: draft.plan,
+        tweetUrl: draft.tweetUrl,
+        thread: draft.thread,
+        dmSkipped: [
+          ...(draft.plan.dmSkipped ?? []),
+          ...(draft.dmSkipped ?? []),
+        ],
+        steps: draft.steps,
+        log: draft.log,
+      });
+      setInboxVersion((version) => version + 1);
+      if (policyError) {
+        setError(policyError);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Something went wrong");
+    } finally {
+      setPublishing(false);
+      setConfirmPublish(false);
+    }
+  };
+
+  /** Swaps the previewed copy for another variant before approving. */
+  const selectVariant = (variant: TweetVariant) =>
+    setResult((prev) =>
+      prev
+        ? {
+            ...prev,
+            tweet: variant.tweet,
+            plan: {
+              ...prev.plan,
+              tweet: variant.tweet,
+              thread: variant.thread,
+              hookStyle: variant.hookStyle,
+              variantId: variant.id,
+              findings: [
+                ...variant.findings,
+                ...prev.plan.findings.filter(
+                  (finding) => finding.target !== "tweet"
+                ),
+              ],
+            },
+          }
+        : prev
+    );
+
+  /** Edits one preview image; `null` removes it from the plan. */
+  const updateMedia = (
+    url: string,
+    patch: Partial<TweetPlan["media"][number]> | null
+  ) =>
+    setResult((prev) =>
+      prev
+        ? {
+            ...prev,
+            plan: {
+              ...prev.plan,
+              media: prev.plan.media.flatMap((item) =>
+                item.url !== url ? [item] : patch ? [{ ...item, ...patch }] : []
+              ),
+            },
+          }
+        : prev
+    );
+
+  const dmTemplate = parseTemplate(dmMessage);
+  const dmPreview = renderTemplate(dmTemplate, SAMPLE_RECIPIENT);
+  const dmSkipped = result
+    ? (result.dmSkipped ?? result.plan.dmSkipped ?? [])
+    : [];
+
   return (
     <div className="min-h-screen bg-slate-950 text-slate-100">
       <div className="mx-auto flex w-full max-w-6xl flex-col gap-10 px-6 py-16">
         <header className="flex flex-col gap-4">
-          <span className="w-fit rounded-full border border-slate-800 px-3 py-1 text-xs uppercase tracking-widest text-slate-400">
-            Twitter Agent Studio
-          </span>
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <span className="w-fit rounded-full border border-slate-800 px-3 py-1 text-xs uppercase tracking-widest text-slate-400">
+              Twitter Agent Studio
+            </span>
+            <UserMenu />
+          </div>
           <h1 className="text-4xl font-semibold text-white sm:text-5xl">
             Automate your Twitter presence with AI + n8n
           </h1>
@@ -94,6 +540,14 @@ export default function Home() {
         <main className="grid gap-10 lg:grid-cols-[2fr_1fr]">
           <section className="rounded-3xl border border-slate-800 bg-slate-900/50 p-8 backdrop-blur">
             <form className="flex flex-col gap-6" onSubmit={handleSubmit}>
+              <div className="grid gap-4 sm:grid-cols-2">
+                <AccountSwitcher
+                  value={accountId}
+                  onSelect={(account) => setAccountId(account?.id ?? "")}
+                />
+                <ProfilePicker value={profileId} onSelect={selectProfile} />
+              </div>
+
               <div className="grid gap-4 sm:grid-cols-2">
                 <label className="flex flex-col gap-2 text-sm font-medium text-slate-200">
                   Topic Focus
@@ -138,6 +592,111 @@ export default function Home() {
                 />
               </label>
 
+              <div className="grid gap-4 sm:grid-cols-2">
+                <label className="flex flex-col gap-2 text-sm font-medium text-slate-200">
+                  Format
+                  <select
+                    value={format}
+                    onChange={(event) =>
+                      setFormat(event.target.value as TweetFormat)
+                    }
+                    className="rounded-2xl border border-slate-700 bg-slate-950 px-4 py-3 text-base text-white outline-none transition focus:border-sky-500 focus:ring-2 focus:ring-sky-500/40"
+                  >
+                    <option value="single">Single tweet</option>
+                    <option value="thread">Thread</option>
+                  </select>
+                </label>
+                {format === "thread" && (
+                  <label className="flex flex-col gap-2 text-sm font-medium text-slate-200">
+                    Max tweets in thread
+                    <input
+                      type="number"
+                      min={2}
+                      max={25}
+                      value={maxTweets}
+                      onChange={(event) =>
+                        setMaxTweets(Number(event.target.value))
+                      }
+                      className="rounded-2xl border border-slate-700 bg-slate-950 px-4 py-3 text-base text-white outline-none transition focus:border-sky-500 focus:ring-2 focus:ring-sky-500/40"
+                    />
+                  </label>
+                )}
+              </div>
+
+              <div className="grid gap-4 sm:grid-cols-2">
+                <label className="flex flex-col gap-2 text-sm font-medium text-slate-200">
+                  Variants to compare
+                  <input
+                    type="number"
+                    min={1}
+                    max={MAX_VARIANTS}
+                    value={variantCount}
+                    onChange={(event) =>
+                      setVariantCount(Number(event.target.value))
+                    }
+                    className="rounded-2xl border border-slate-700 bg-slate-950 px-4 py-3 text-base text-white outline-none transition focus:border-sky-500 focus:ring-2 focus:ring-sky-500/40"
+                  />
+                </label>
+                <div className="flex flex-col gap-2 text-sm font-medium text-slate-200">
+                  Hook styles
+                  <div className="flex flex-wrap gap-2">
+                    {HOOK_STYLE_IDS.map((style) => (
+                      <button
+                        key={style}
+                        type="button"
+                        onClick={() => toggleHookStyle(style)}
+                        title={HOOK_STYLES[style].instruction}
+                        className={`rounded-2xl border px-3 py-2 text-xs uppercase tracking-wide transition ${
+                          hookStyles.includes(style)
+                            ? "border-sky-500/70 bg-sky-500/10 text-sky-200"
+                            : "border-slate-700 bg-slate-950 text-slate-300 hover:border-slate-500"
+                        }`}
+                      >
+                        {HOOK_STYLES[style].label}
+                      </button>
+                    ))}
+                  </div>
+                  <span className="text-xs font-normal text-slate-500">
+                    {hookStyles.length
+                      ? "Variants cycle through the selected hooks."
+                      : variantCount > 1
+                        ? "Variants cycle through every hook."
+                        : "No hook enforced for a single variant."}{" "}
+                    Scheduled jobs post one variant per slot, rotating hooks.
+                  </span>
+                </div>
+              </div>
+
+              <div className="grid gap-4 sm:grid-cols-2">
+                <label className="flex flex-col gap-2 text-sm font-medium text-slate-200">
+                  Text model provider
+                  <select
+                    value={llmProvider}
+                    onChange={(event) =>
+                      setLlmProvider(event.target.value as TextProvider)
+                    }
+                    className="rounded-2xl border border-slate-700 bg-slate-950 px-4 py-3 text-base text-white outline-none transition focus:border-sky-500 focus:ring-2 focus:ring-sky-500/40"
+                  >
+                    <option value="">Server default</option>
+                    <option value="openai">OpenAI</option>
+                    <option value="openai-compatible">
+                      OpenAI-compatible (Ollama, llama.cpp)
+                    </option>
+                    <option value="anthropic">Anthropic</option>
+                    <option value="fixture">Fixture templates (offline)</option>
+                  </select>
+                </label>
+                <label className="flex flex-col gap-2 text-sm font-medium text-slate-200">
+                  Model
+                  <input
+                    value={llmModel}
+                    onChange={(event) => setLlmModel(event.target.value)}
+                    placeholder="Optional: provider default"
+                    className="rounded-2xl border border-slate-700 bg-slate-950 px-4 py-3 text-base text-white outline-none transition focus:border-sky-500 focus:ring-2 focus:ring-sky-500/40"
+                  />
+                </label>
+              </div>
+
               <label className="flex flex-col gap-2 text-sm font-medium text-slate-200">
                 Hashtags (space separated)
                 <input
@@ -188,11 +747,139 @@ export default function Home() {
                   )}
                 </div>
 
+                {engagementModes.some((mode) => mode !== "dm") && (
+                  <div className="mt-6 grid gap-4 sm:grid-cols-2">
+                    <p className="text-xs leading-relaxed text-slate-400 sm:col-span-2">
+                      Candidate tweets come from a recent search built from
+                      these rules, ranked by engagement, keyword matches,
+                      freshness and author reach. Tweets and authors engaged
+                      with recently are skipped. Leave keywords empty to search
+                      for the topic and niche.
+                    </p>
+                    <label className="flex flex-col gap-2 text-sm font-medium text-slate-200">
+                      Keywords (comma-separated)
+                      <input
+                        value={targeting.keywords}
+                        onChange={(event) =>
+                          updateTargeting({ keywords: event.target.value })
+                        }
+                        placeholder="AI agents, workflow automation"
+                        className="rounded-2xl border border-slate-700 bg-slate-950 px-4 py-3 text-base text-white outline-none transition focus:border-sky-500 focus:ring-2 focus:ring-sky-500/40"
+                      />
+                    </label>
+                    <label className="flex flex-col gap-2 text-sm font-medium text-slate-200">
+                      Exclude keywords
+                      <input
+                        value={targeting.excludeKeywords}
+                        onChange={(event) =>
+                          updateTargeting({
+                            excludeKeywords: event.target.value,
+                          })
+                        }
+                        placeholder="giveaway, airdrop"
+                        className="rounded-2xl border border-slate-700 bg-slate-950 px-4 py-3 text-base text-white outline-none transition focus:border-sky-500 focus:ring-2 focus:ring-sky-500/40"
+                      />
+                    </label>
+                    <label className="flex flex-col gap-2 text-sm font-medium text-slate-200">
+                      Only from accounts
+                      <input
+                        value={targeting.fromAccounts}
+                        onChange={(event) =>
+                          updateTargeting({ fromAccounts: event.target.value })
+                        }
+                        placeholder="@handle @another"
+                        className="rounded-2xl border border-slate-700 bg-slate-950 px-4 py-3 text-base text-white outline-none transition focus:border-sky-500 focus:ring-2 focus:ring-sky-500/40"
+                      />
+                    </label>
+                    <label className="flex flex-col gap-2 text-sm font-medium text-slate-200">
+                      Exclude accounts
+                      <input
+                        value={targeting.excludeAccounts}
+                        onChange={(event) =>
+                          updateTargeting({
+                            excludeAccounts: event.target.value,
+                          })
+                        }
+                        placeholder="@competitor"
+                        className="rounded-2xl border border-slate-700 bg-slate-950 px-4 py-3 text-base text-white outline-none transition focus:border-sky-500 focus:ring-2 focus:ring-sky-500/40"
+                      />
+                    </label>
+                    <label className="flex flex-col gap-2 text-sm font-medium text-slate-200">
+                      Min author followers
+                      <input
+                        type="number"
+                        min={0}
+                        value={targeting.minFollowers}
+                        onChange={(event) =>
+                          updateTargeting({
+                            minFollowers: Number(event.target.value),
+                          })
+                        }
+                        className="rounded-2xl border border-slate-700 bg-slate-950 px-4 py-3 text-base text-white outline-none transition focus:border-sky-500 focus:ring-2 focus:ring-sky-500/40"
+                      />
+                    </label>
+                    <label className="flex flex-col gap-2 text-sm font-medium text-slate-200">
+                      Min likes
+                      <input
+                        type="number"
+                        min={0}
+                        value={targeting.minLikes}
+                        onChange={(event) =>
+                          updateTargeting({
+                            minLikes: Number(event.target.value),
+                          })
+                        }
+                        className="rounded-2xl border border-slate-700 bg-slate-950 px-4 py-3 text-base text-white outline-none transition focus:border-sky-500 focus:ring-2 focus:ring-sky-500/40"
+                      />
+                    </label>
+                    <label className="flex flex-col gap-2 text-sm font-medium text-slate-200">
+                      Max age (hours)
+                      <input
+                        type="number"
+                        min={1}
+                        max={168}
+                        value={targeting.maxAgeHours}
+                        onChange={(event) =>
+                          updateTargeting({
+                            maxAgeHours: Number(event.target.value),
+                          })
+                        }
+                        className="rounded-2xl border border-slate-700 bg-slate-950 px-4 py-3 text-base text-white outline-none transition focus:border-sky-500 focus:ring-2 focus:ring-sky-500/40"
+                      />
+                    </label>
+                    <label className="flex flex-col gap-2 text-sm font-medium text-slate-200">
+                      Targets per run
+                      <input
+                        type="number"
+                        min={1}
+                        max={10}
+                        value={targeting.maxTargets}
+                        onChange={(event) =>
+                          updateTargeting({
+                            maxTargets: Number(event.target.value),
+                          })
+                        }
+                        className="rounded-2xl border border-slate-700 bg-slate-950 px-4 py-3 text-base text-white outline-none transition focus:border-sky-500 focus:ring-2 focus:ring-sky-500/40"
+                      />
+                    </label>
+                    <label className="flex flex-col gap-2 text-sm font-medium text-slate-200">
+                      Language
+                      <input
+                        value={targeting.language}
+                        onChange={(event) =>
+                          updateTargeting({ language: event.target.value })
+                        }
+                        placeholder="en"
+                        className="rounded-2xl border border-slate-700 bg-slate-950 px-4 py-3 text-base text-white outline-none transition focus:border-sky-500 focus:ring-2 focus:ring-sky-500/40"
+                      />
+                    </label>
+                  </div>
+                )}
+
                 {engagementModes.includes("reply") && (
                   <p className="mt-4 rounded-2xl border border-slate-800 bg-slate-950 px-4 py-3 text-xs leading-relaxed text-slate-400">
                     Thread replies use the base prompt with additional context
-                    crafted by GPT. Configure the search terms for candidate
-                    tweets inside the n8n workflow.
+                    crafted by GPT from each target tweet.
                   </p>
                 )}
               </fieldset>
@@ -202,19 +889,88 @@ export default function Home() {
                   AI Imagery
                 </legend>
                 <p className="mb-4 text-sm text-slate-400">
-                  Allow the workflow to generate Midjourney-style companion
-                  artwork via OpenAI&apos;s image endpoint whenever it fits the
-                  narrative.
+                  Generate companion artwork via OpenAI&apos;s image endpoint,
+                  reuse images from the media library, or both. Every image is
+                  stored in the library so it can be attached again later.
                 </p>
-                <label className="inline-flex items-center gap-3 text-sm font-medium text-slate-200">
-                  <input
-                    type="checkbox"
-                    checked={autoImage}
-                    onChange={(event) => setAutoImage(event.target.checked)}
-                    className="h-5 w-5 rounded border border-slate-700 bg-slate-950 text-sky-500 focus:ring-sky-500"
-                  />
-                  Enable autonomous image drops
-                </label>
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <label className="flex flex-col gap-2 text-sm font-medium text-slate-200">
+                    Generate an image
+                    <select
+                      value={imageMode}
+                      onChange={(event) =>
+                        setImageMode(event.target.value as ImageMode)
+                      }
+                      className="rounded-2xl border border-slate-700 bg-slate-950 px-4 py-3 text-base text-white outline-none transition focus:border-sky-500 focus:ring-2 focus:ring-sky-500/40"
+                    >
+                      <option value="auto">Let the model decide</option>
+                      <option value="always">Always</option>
+                      <option value="off">Never</option>
+                    </select>
+                  </label>
+                  <label className="flex flex-col gap-2 text-sm font-medium text-slate-200">
+                    Variants
+                    <input
+                      type="number"
+                      min={1}
+                      max={MAX_TWEET_IMAGES}
+                      value={imageVariants}
+                      onChange={(event) =>
+                        setImageVariants(Number(event.target.value))
+                      }
+                      className="rounded-2xl border border-slate-700 bg-slate-950 px-4 py-3 text-base text-white outline-none transition focus:border-sky-500 focus:ring-2 focus:ring-sky-500/40"
+                    />
+                  </label>
+                  <label className="flex flex-col gap-2 text-sm font-medium text-slate-200">
+                    Style
+                    <select
+                      value={imageStyle}
+                      onChange={(event) =>
+                        setImageStyle(event.target.value as ImageStyle)
+                      }
+                      className="rounded-2xl border border-slate-700 bg-slate-950 px-4 py-3 text-base text-white outline-none transition focus:border-sky-500 focus:ring-2 focus:ring-sky-500/40"
+                    >
+                      {IMAGE_STYLE_IDS.map((style) => (
+                        <option key={style} value={style}>
+                          {IMAGE_STYLES[style].label}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="flex flex-col gap-2 text-sm font-medium text-slate-200">
+                    Aspect ratio
+                    <select
+                      value={aspectRatio}
+                      onChange={(event) =>
+                        setAspectRatio(event.target.value as ImageAspectRatio)
+                      }
+                      className="rounded-2xl border border-slate-700 bg-slate-950 px-4 py-3 text-base text-white outline-none transition focus:border-sky-500 focus:ring-2 focus:ring-sky-500/40"
+                    >
+                      {IMAGE_ASPECT_RATIO_IDS.map((ratio) => (
+                        <option key={ratio} value={ratio}>
+                          {IMAGE_ASPECT_RATIOS[ratio].label} ({ratio})
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="flex flex-col gap-2 text-sm font-medium text-slate-200 sm:col-span-2">
+                    Image prompt
+                    <textarea
+                      value={imagePrompt}
+                      onChange={(event) => setImagePrompt(event.target.value)}
+                      rows={3}
+                      placeholder="Leave empty to describe the topic, niche and tone"
+                      className="rounded-2xl border border-slate-700 bg-slate-950 px-4 py-3 text-base text-white outline-none transition focus:border-sky-500 focus:ring-2 focus:ring-sky-500/40"
+                    />
+                  </label>
+                  <div className="sm:col-span-2">
+                    <MediaLibraryPicker
+                      selected={libraryAssetIds}
+                      max={MAX_TWEET_IMAGES}
+                      onChange={setLibraryAssetIds}
+                    />
+                  </div>
+                </div>
               </fieldset>
 
               {engagementModes.includes("dm") && (
@@ -237,17 +993,120 @@ export default function Home() {
                       className="rounded-2xl border border-slate-700 bg-slate-950 px-4 py-3 text-base text-white outline-none transition focus:border-sky-500 focus:ring-2 focus:ring-sky-500/40"
                     />
                   </label>
+                  <div className="rounded-2xl border border-slate-800 bg-slate-950/60 px-4 py-3 text-sm text-slate-300 sm:col-span-2">
+                    <span className="text-xs font-semibold uppercase tracking-wider text-slate-400">
+                      Preview for @{SAMPLE_RECIPIENT.handle}
+                    </span>
+                    {dmTemplate.errors.length > 0 ? (
+                      <ul className="mt-2 space-y-1 text-xs text-red-300">
+                        {dmTemplate.errors.map((message) => (
+                          <li key={message}>{message}</li>
+                        ))}
+                      </ul>
+                    ) : dmPreview.ok ? (
+                      <p className="mt-2 text-slate-100">{dmPreview.text}</p>
+                    ) : (
+                      <p className="mt-2 text-xs text-amber-300">
+                        Missing{" "}
+                        {dmPreview.missing
+                          .map((name) => `{{${name}}}`)
+                          .join(", ")}
+                        : recipients without them are skipped.
+                      </p>
+                    )}
+                    <p className="mt-2 text-xs text-slate-500">
+                      Variables:{" "}
+                      {TEMPLATE_VARIABLES.map((name) => `{{${name}}}`).join(
+                        " "
+                      )}
+                      . Add defaults with {"{{name|there}}"} and optional
+                      sections with {"{{#recent_tweet}}…{{/recent_tweet}}"}.
+                    </p>
+                  </div>
                 </div>
               )}
 
+              <fieldset className="rounded-2xl border border-slate-800 p-6">
+                <legend className="px-2 text-sm font-semibold uppercase tracking-wider text-slate-400">
+                  Schedule
+                </legend>
+                <p className="mb-4 text-sm text-slate-400">
+                  Queue the generate-and-post pipeline for later, once or on a
+                  cron cadence (UTC). Jobs retry with backoff on failure.
+                </p>
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <label className="flex flex-col gap-2 text-sm font-medium text-slate-200">
+                    Publish at
+                    <input
+                      type="datetime-local"
+                      value={scheduledAt}
+                      onChange={(event) => setScheduledAt(event.target.value)}
+                      disabled={Boolean(cron)}
+                      className="rounded-2xl border border-slate-700 bg-slate-950 px-4 py-3 text-base text-white outline-none transition focus:border-sky-500 focus:ring-2 focus:ring-sky-500/40 disabled:opacity-50"
+                    />
+                  </label>
+                  <label className="flex flex-col gap-2 text-sm font-medium text-slate-200">
+                    Or cron expression
+                    <input
+                      value={cron}
+                      onChange={(event) => setCron(event.target.value)}
+                      placeholder="e.g. 0 14 * * 1-5"
+                      className="rounded-2xl border border-slate-700 bg-slate-950 px-4 py-3 text-base text-white outline-none transition focus:border-sky-500 focus:ring-2 focus:ring-sky-500/40"
+                    />
+                  </label>
+                </div>
+                <div className="mt-4 flex items-center gap-4">
+                  <button
+                    type="button"
+                    onClick={handleSchedule}
+                    disabled={loading || (!scheduledAt && !cron)}
+                    className="rounded-2xl border border-sky-500/70 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-sky-200 transition hover:bg-sky-500/10 disabled:cursor-not-allowed disabled:border-slate-700 disabled:text-slate-500"
+                  >
+                    Schedule job
+                  </button>
+                  <Link
+                    href="/schedule"
+                    className="text-xs uppercase tracking-wide text-slate-400 underline hover:text-slate-200"
+                  >
+                    Open calendar
+                  </Link>
+                  <Link
+                    href="/planner"
+                    className="text-xs uppercase tracking-wide text-slate-400 underline hover:text-slate-200"
+                  >
+                    Plan a campaign
+                  </Link>
+                  <Link
+                    href="/imports"
+                    className="text-xs uppercase tracking-wide text-slate-400 underline hover:text-slate-200"
+                  >
+                    Import briefs
+                  </Link>
+                </div>
+                {scheduleNotice && (
+                  <p className="mt-4 text-sm text-emerald-300">
+                    {scheduleNotice}
+                  </p>
+                )}
+              </fieldset>
+
               <button
                 type="submit"
-                disabled={loading}
+                disabled={loading || publishing}
                 className="rounded-2xl bg-sky-500 px-6 py-3 text-sm font-semibold uppercase tracking-wide text-slate-950 transition hover:bg-sky-400 focus:outline-none focus:ring-2 focus:ring-sky-500 focus:ring-offset-2 focus:ring-offset-slate-900 disabled:cursor-not-allowed disabled:bg-slate-700 disabled:text-slate-300"
               >
                 {loading ? "Generating..." : "Generate AI Tweet Plan"}
               </button>
 
+              {progress && !result && (
+                <StepTracker
+                  events={progress.events}
+                  text={progress.text}
+                  running={loading}
+                  onCancel={() => runAbort.current?.abort()}
+                />
+              )}
+
               {error && (
                 <div className="rounded-2xl border border-red-500/40 bg-red-500/10 px-4 py-3 text-sm text-red-200">
                   {error}
@@ -256,39 +1115,297 @@ export default function Home() {
 
               {result && (
                 <div className="flex flex-col gap-4 rounded-2xl border border-emerald-500/40 bg-emerald-500/10 p-6 text-sm text-emerald-100">
+                  {result.mode === "preview" &&
+                    (result.plan.variants?.length ?? 0) > 1 && (
+                      <div className="flex flex-col gap-2">
+                        <span className="text-xs font-semibold uppercase tracking-[0.3em] text-emerald-300">
+                          Variants
+                        </span>
+                        <div className="grid gap-3 sm:grid-cols-2">
+                          {result.plan.variants?.map((variant) => {
+                            const selected =
+                              variant.id === result.plan.variantId;
+                            return (
+                              <div
+                                key={variant.id}
+                                className={`flex flex-col gap-2 rounded-2xl border px-4 py-3 ${
+                                  selected
+                                    ? "border-emerald-400"
+                                    : "border-emerald-500/20"
+                                }`}
+                              >
+                                <span className="text-xs font-semibold text-emerald-300">
+                                  {variant.id}
+                                  {variant.hookStyle &&
+                                    ` · ${HOOK_STYLES[variant.hookStyle].label} hook`}
+                                  {variant.thread.length > 0 &&
+                                    ` · ${variant.thread.length + 1} tweets`}
+                                </span>
+                                <p className="whitespace-pre-line text-emerald-50">
+                                  {variant.tweet}
+                                </p>
+                                {hasBlockingFindings(variant.findings) && (
+                                  <span className="text-xs text-red-200">
+                                    Has content policy errors.
+                                  </span>
+                                )}
+                                <button
+                                  type="button"
+                                  disabled={selected}
+                                  onClick={() => selectVariant(variant)}
+                                  className="mt-auto w-fit rounded-2xl border border-emerald-500/40 px-3 py-1 text-xs uppercase tracking-wide text-emerald-200 transition hover:border-emerald-300 disabled:cursor-default disabled:opacity-60"
+                                >
+                                  {selected ? "Selected" : "Use this"}
+                                </button>
+                              </div>
+                            );
+                          })}
+                        </div>
+                      </div>
+                    )}
                   <div>
                     <span className="text-xs font-semibold uppercase tracking-[0.2em] text-emerald-300">
-                      Tweet Draft
+                      {result.mode === "publish"
+                        ? "Published Tweet"
+                        : "Tweet Draft"}
                     </span>
-                    <p className="mt-2 whitespace-pre-line text-base leading-7 text-emerald-50">
-                      {result.tweet}
-                    </p>
+                    <ol className="mt-2 flex flex-col gap-3">
+                      {[result.plan.tweet, ...result.plan.thread].map(
+                        (text, index, tweets) => {
+                          const length = weightedLength(text);
+                          return (
+                            <li
+                              key={index}
+                              className="rounded-2xl border border-emerald-500/20 px-4 py-3"
+                            >
+                              {tweets.length > 1 && (
+                                <span className="text-xs font-semibold text-emerald-300">
+                                  {index + 1}/{tweets.length}
+                                </span>
+                              )}
+                              <p className="whitespace-pre-line text-base leading-7 text-emerald-50">
+                                {text}
+                              </p>
+                              <span
+                                className={`mt-1 block text-right text-xs ${
+                                  length > TWEET_MAX_LENGTH
+                                    ? "text-red-300"
+                                    : "text-emerald-300/70"
+                                }`}
+                              >
+                                {length}/{TWEET_MAX_LENGTH}
+                              </span>
+                            </li>
+                          );
+                        }
+                      )}
+                    </ol>
+                    {result.thread?.error && (
+                      <p className="mt-2 text-xs text-red-200">
+                        Thread stopped after {result.thread.tweetIds.length}/
+                        {result.thread.total} tweets: {result.thread.error}
+                      </p>
+                    )}
                   </div>
-                  {result.imageUrl && (
+                  <PolicyFindings findings={result.plan.findings} />
+                  <PublishSteps steps={result.steps} />
+                  {result.plan.media.length > 0 && (
                     <div className="flex flex-col gap-2">
                       <span className="text-xs font-semibold uppercase tracking-[0.3em] text-emerald-300">
-                        Image Preview
+                        Images ({result.plan.media.length}/{MAX_TWEET_IMAGES})
                       </span>
-                      <img
-                        src={result.imageUrl}
-                        alt="AI generated concept"
-                        className="aspect-video w-full rounded-2xl border border-emerald-500/40 object-cover"
-                      />
+                      <div className="grid gap-3 sm:grid-cols-2">
+                        {result.plan.media.map((item) => (
+                          <figure
+                            key={item.url}
+                            className="flex flex-col gap-2 rounded-2xl border border-emerald-500/20 p-2"
+                          >
+                            <img
+                              src={item.url}
+                              alt={item.altText ?? "AI generated concept"}
+                              className="w-full rounded-xl object-cover"
+                            />
+                            <figcaption className="flex items-center justify-between text-xs text-emerald-200/80">
+                              {item.source === "mock"
+                                ? "Placeholder"
+                                : item.source === "upload"
+                                  ? "Uploaded"
+                                  : "Generated"}
+                              {result.mode === "preview" && (
+                                <button
+                                  type="button"
+                                  onClick={() => updateMedia(item.url, null)}
+                                  className="underline hover:text-emerald-50"
+                                >
+                                  Remove
+                                </button>
+                              )}
+                            </figcaption>
+                            {result.mode === "preview" ? (
+                              <textarea
+                                value={item.altText ?? ""}
+                                onChange={(event) =>
+                                  updateMedia(item.url, {
+                                    altText: event.target.value,
+                                  })
+                                }
+                                rows={2}
+                                maxLength={1000}
+                                placeholder="Alt text for screen readers"
+                                className="rounded-xl border border-emerald-500/30 bg-slate-950 px-3 py-2 text-xs text-emerald-50 outline-none focus:border-emerald-400"
+                              />
+                            ) : (
+                              item.altText && (
+                                <p className="text-xs text-emerald-100/70">
+                                  Alt: {item.altText}
+                                </p>
+                              )
+                            )}
+                          </figure>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                  {result.plan.engagementTargets.length > 0 && (
+                    <div>
+                      <span className="text-xs font-semibold uppercase tracking-[0.3em] text-emerald-300">
+                        Engagement Targets
+                      </span>
+                      <ul className="mt-2 space-y-2 text-emerald-100/80">
+                        {result.plan.engagementTargets.map((target) => (
+                          <li
+                            key={target.tweetId}
+                            className="rounded-2xl border border-emerald-500/20 px-4 py-3"
+                          >
+                            <span className="block text-xs uppercase tracking-wide text-emerald-300">
+                              {target.actions.join(" · ")} — tweet{" "}
+                              {target.tweetId}
+                              {target.authorHandle &&
+                                ` by @${target.authorHandle}`}
+                              {target.score !== undefined &&
+                                ` · score ${target.score}`}
+                            </span>
+                            <span className="mt-1 block">{target.text}</span>
+                            {target.reasons && target.reasons.length > 0 && (
+                              <span className="mt-1 block text-xs text-emerald-300/80">
+                                Picked because: {target.reasons.join("; ")}
+                              </span>
+                            )}
+                            {target.reply && (
+                              <span className="mt-2 block text-emerald-50">
+                                ↳ {target.reply}
+                              </span>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                  {result.plan.dmRecipients.length > 0 && (
+                    <div>
+                      <span className="text-xs font-semibold uppercase tracking-[0.3em] text-emerald-300">
+                        DM Recipients
+                      </span>
+                      <ul className="mt-2 space-y-2 text-emerald-100/80">
+                        {result.plan.dmRecipients.map((recipient) => (
+                          <li
+                            key={recipient.handle}
+                            className="rounded-2xl border border-emerald-500/20 px-4 py-3"
+                          >
+                            <span className="block text-xs uppercase tracking-wide text-emerald-300">
+                              @{recipient.handle}
+                              {recipient.userId ? ` (${recipient.userId})` : ""}
+                            </span>
+                            <span className="mt-1 block">
+                              {recipient.message}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                  {dmSkipped.length > 0 && (
+                    <div>
+                      <span className="text-xs font-semibold uppercase tracking-[0.3em] text-emerald-300">
+                        Skipped DM Recipients
+                      </span>
+                      <ul className="mt-2 space-y-1 text-emerald-100/80">
+                        {dmSkipped.map((skip) => (
+                          <li key={`${skip.handle}-${skip.reason}`}>
+                            @{skip.handle} · {skip.reason} · {skip.detail}
+                          </li>
+                        ))}
+                      </ul>
+                      <Link
+                        href="/contacts"
+                        className="mt-2 inline-block text-xs text-emerald-300 underline"
+                      >
+                        Contact ledger
+                      </Link>
                     </div>
                   )}
                   <div>
                     <span className="text-xs font-semibold uppercase tracking-[0.3em] text-emerald-300">
                       Workflow Log
                     </span>
-                    <ul className="mt-2 space-y-1 text-emerald-100/80">
-                      {result.log.map((entry, index) => (
-                        <li key={index} className="flex items-start gap-2">
-                          <span className="mt-1 h-2 w-2 rounded-full bg-emerald-400" />
-                          <span>{entry}</span>
-                        </li>
-                      ))}
-                    </ul>
+                    <div className="mt-2 text-emerald-100/80">
+                      <RunTimeline events={result.log} />
+                    </div>
+                    {result.runId && (
+                      <Link
+                        href={`/runs#${result.runId}`}
+                        className="mt-2 inline-block text-xs font-semibold text-emerald-200 underline"
+                      >
+                        Open in run history
+                      </Link>
+                    )}
                   </div>
+                  {result.tweetUrl && (
+                    <a
+                      href={result.tweetUrl}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="text-sm font-semibold text-emerald-200 underline"
+                    >
+                      View live tweet
+                    </a>
+                  )}
+                  {result.mode === "preview" &&
+                    (confirmPublish ? (
+                      <div className="flex flex-col gap-3 rounded-2xl border border-amber-500/40 bg-amber-500/10 p-4 text-amber-100">
+                        <span>
+                          This posts the tweet above and runs every listed
+                          engagement action and DM on the live account.
+                        </span>
+                        <div className="flex gap-3">
+                          <button
+                            type="button"
+                            onClick={handlePublish}
+                            disabled={publishing}
+                            className="rounded-2xl bg-amber-400 px-4 py-2 text-sm font-semibold uppercase tracking-wide text-slate-950 transition hover:bg-amber-300 disabled:cursor-not-allowed disabled:bg-slate-700 disabled:text-slate-300"
+                          >
+                            {publishing ? "Publishing..." : "Confirm publish"}
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => setConfirmPublish(false)}
+                            disabled={publishing}
+                            className="rounded-2xl border border-amber-500/40 px-4 py-2 text-sm font-semibold uppercase tracking-wide text-amber-100 transition hover:border-amber-300"
+                          >
+                            Cancel
+                          </button>
+                        </div>
+                      </div>
+                    ) : (
+                      <button
+                        type="button"
+                        onClick={() => setConfirmPublish(true)}
+                        disabled={hasBlockingFindings(result.plan.findings)}
+                        className="w-fit rounded-2xl border border-emerald-400 px-4 py-2 text-sm font-semibold uppercase tracking-wide text-emerald-100 transition hover:bg-emerald-500/20 disabled:cursor-not-allowed disabled:border-slate-700 disabled:text-slate-400"
+                      >
+                        Publish
+                      </button>
+                    ))}
                 </div>
               )}
             </form>
@@ -300,12 +1417,14 @@ export default function Home() {
                 Import the n8n workflow
               </h2>
               <p className="mt-2 text-sm text-slate-400">
-                Download the orchestrator JSON and import it into your n8n
-                instance. Wire the HTTP Webhook trigger to this dashboard by
-                copying the endpoint URL into the form submission action.
+                Download an orchestrator JSON built from the form above and
+                import it into your n8n instance. Set the same
+                N8N_WEBHOOK_SECRET in n8n and here so its calls are accepted.
               </p>
               <a
-                href="/workflows/twitter-ai-orchestrator.json"
+                href={`/api/n8n/workflow?brief=${encodeURIComponent(
+                  JSON.stringify(briefPayload())
+                )}${cron ? `&cron=${encodeURIComponent(cron)}` : ""}`}
                 download
                 className="mt-4 inline-flex items-center justify-center rounded-2xl bg-slate-100 px-4 py-2 text-sm font-semibold text-slate-900 transition hover:bg-white"
               >
@@ -331,22 +1450,57 @@ export default function Home() {
                 </li>
                 <li>
                   4. Set up schedule triggers (cron) for autonomous publishing
+                  in the{" "}
+                  <Link href="/schedule" className="underline">
+                    publishing calendar
+                  </Link>
                 </li>
               </ul>
             </div>
 
+            <QuotaPanel accountId={accountId} refreshKey={inboxVersion} />
+
             <div className="rounded-3xl border border-slate-800 bg-slate-900/40 p-6 text-sm text-slate-300">
               <h2 className="text-lg font-semibold text-white">
                 Observability
               </h2>
               <p className="mt-2">
-                n8n nodes are annotated with run data for analytics. Pin the
-                success dashboard to track tweet URL, media IDs, and engagement
-                actions per execution.
+                Every generate, publish, approval and scheduled run is stored
+                with its input and a timeline of typed events: step, status,
+                duration, tweet/media/user ids and error details.
               </p>
+              <Link
+                href="/runs"
+                className="mt-3 inline-block text-xs font-semibold uppercase tracking-wide text-sky-300 hover:text-sky-200"
+              >
+                Open run history →
+              </Link>
+              <p className="mt-4">
+                Published tweets and replies get their public metrics
+                snapshotted periodically, broken down by topic, tone, image and
+                hook style.
+              </p>
+              <Link
+                href="/analytics"
+                className="mt-3 inline-block text-xs font-semibold uppercase tracking-wide text-sky-300 hover:text-sky-200"
+              >
+                Open analytics →
+              </Link>
+              <p className="mt-4">
+                Mentions of your accounts are fetched on a schedule, triaged by
+                intent and come with a suggested reply to send, edit or dismiss.
+              </p>
+              <Link
+                href="/mentions"
+                className="mt-3 inline-block text-xs font-semibold uppercase tracking-wide text-sky-300 hover:text-sky-200"
+              >
+                Open mentions inbox →
+              </Link>
             </div>
           </aside>
         </main>
+
+        <ReviewInbox refreshKey={inboxVersion} />
       </div>
     </div>
   );
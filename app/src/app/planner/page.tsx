@@ -0,0 +1,808 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+
+type ItemStatus =
+  | "planned"
+  | "generating"
+  | "failed"
+  | "draft"
+  | "approved"
+  | "published"
+  | "rejected";
+
+interface PlanItem {
+  id: string;
+  topic: string;
+  angle: string;
+  date?: string;
+  time?: string;
+  draftId?: string;
+  error?: string;
+  status: ItemStatus;
+  tweetUrl?: string;
+}
+
+interface ContentPlan {
+  id: string;
+  theme: string;
+  startDate: string;
+  endDate: string;
+  cadence: { weekdays: number[]; times: string[] };
+  brief: { niche: string; tone: string };
+  items: PlanItem[];
+  generating?: boolean;
+}
+
+interface EditableItem {
+  id?: string;
+  topic: string;
+  angle: string;
+}
+
+interface PlanForm {
+  theme: string;
+  niche: string;
+  tone: string;
+  callToAction: string;
+  hashtags: string;
+  format: "single" | "thread";
+  startDate: string;
+  endDate: string;
+  weekdays: number[];
+  times: string;
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const statusClass: Record<ItemStatus, string> = {
+  planned: "border-slate-700 bg-slate-800/60 text-slate-200",
+  generating: "border-sky-500/40 bg-slate-800/60 text-sky-200",
+  failed: "border-red-500/40 bg-slate-800/60 text-red-200",
+  draft: "border-sky-500/40 bg-sky-500/10 text-sky-100",
+  approved: "border-amber-500/40 bg-amber-500/10 text-amber-100",
+  published: "border-emerald-500/40 bg-emerald-500/10 text-emerald-100",
+  rejected: "border-red-500/40 bg-red-500/10 text-red-200",
+};
+
+const isoDay = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+const today = () => isoDay(Date.now());
+
+const emptyForm = (): PlanForm => ({
+  theme: "",
+  niche: "",
+  tone: "practical",
+  callToAction: "",
+  hashtags: "",
+  format: "single",
+  startDate: today(),
+  endDate: isoDay(Date.now() + 6 * DAY_MS),
+  weekdays: [1, 2, 3, 4, 5],
+  times: "09:00",
+});
+
+const inputClass =
+  "rounded-2xl border border-slate-700 bg-slate-950 px-4 py-3 text-base text-white outline-none transition focus:border-sky-500 focus:ring-2 focus:ring-sky-500/40";
+
+const smallButton =
+  "rounded-2xl border border-slate-700 px-3 py-1 text-xs uppercase tracking-wide text-slate-300 transition hover:border-sky-400 disabled:cursor-not-allowed disabled:opacity-40";
+
+const fetchJson = async <T,>(url: string, init?: RequestInit) => {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    throw new Error(await response.text());
+  }
+  return (await response.json()) as T;
+};
+
+const jsonInit = (method: string, body: unknown): RequestInit => ({
+  method,
+  headers: { "Content-Type": "application/json" },
+  body: JSON.stringify(body),
+});
+
+/** Days shown for the anchor: its week (Mon–Sun) or its month padded to whole weeks, in UTC. */
+const calendarDays = (anchor: string, view: "month" | "week") => {
+  const date = new Date(`${anchor}T00:00:00Z`);
+  const first =
+    view === "week"
+      ? date.getTime()
+      : Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+  const last =
+    view === "week"
+      ? date.getTime()
+      : Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0);
+  const start = first - ((new Date(first).getUTCDay() + 6) % 7) * DAY_MS;
+  const end = last + ((7 - new Date(last).getUTCDay()) % 7) * DAY_MS;
+  const days: string[] = [];
+
+  for (let day = start; day <= end; day += DAY_MS) {
+    days.push(isoDay(day));
+  }
+  return days;
+};
+
+const shiftAnchor = (anchor: string, view: "month" | "week", step: number) => {
+  const date = new Date(`${anchor}T00:00:00Z`);
+  if (view === "week") {
+    return isoDay(date.getTime() + step * 7 * DAY_MS);
+  }
+  return isoDay(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + step, 1));
+};
+
+function Calendar({ items }: { items: PlanItem[] }) {
+  const [view, setView] = useState<"month" | "week">("month");
+  const [anchor, setAnchor] = useState(() => items[0]?.date ?? today());
+  const days = calendarDays(anchor, view);
+  const month = anchor.slice(0, 7);
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={() => setAnchor(shiftAnchor(anchor, view, -1))}
+            className={smallButton}
+          >
+            ←
+          </button>
+          <span className="text-sm font-semibold text-white">
+            {view === "month"
+              ? new Date(`${anchor}T00:00:00Z`).toLocaleDateString(undefined, {
+                  month: "long",
+                  year: "numeric",
+                  timeZone: "UTC",
+                })
+              : `${days[0]} – ${days[6]}`}
+          </span>
+          <button
+            type="button"
+            onClick={() => setAnchor(shiftAnchor(anchor, view, 1))}
+            className={smallButton}
+          >
+            →
+          </button>
+        </div>
+        <div className="flex gap-2">
+          {(["month", "week"] as const).map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setView(option)}
+              className={`${smallButton} ${view === option ? "border-sky-400 text-sky-200" : ""}`}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="grid grid-cols-7 gap-1 text-xs">
+        {["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"].map((label) => (
+          <span key={label} className="px-1 text-slate-500">
+            {label}
+          </span>
+        ))}
+        {days.map((day) => (
+          <div
+            key={day}
+            className={`flex flex-col gap-1 rounded-xl border border-slate-800 p-1 ${view === "week" ? "min-h-48" : "min-h-24"} ${view === "month" && !day.startsWith(month) ? "opacity-40" : ""}`}
+          >
+            <span className="text-slate-500">{Number(day.slice(8))}</span>
+            {items
+              .filter((item) => item.date === day)
+              .map((item) => (
+                <span
+                  key={item.id}
+                  title={`${item.time} UTC · ${item.status}\n${item.angle}`}
+                  className={`truncate rounded-lg border px-1 py-0.5 ${statusClass[item.status]}`}
+                >
+                  {item.time} {item.topic}
+                </span>
+              ))}
+          </div>
+        ))}
+      </div>
+      <p className="flex flex-wrap gap-2 text-xs text-slate-400">
+        {(Object.keys(statusClass) as ItemStatus[]).map((status) => (
+          <span
+            key={status}
+            className={`rounded-lg border px-2 py-0.5 ${statusClass[status]}`}
+          >
+            {status}
+          </span>
+        ))}
+        <span>Times are UTC.</span>
+      </p>
+    </div>
+  );
+}
+
+export default function PlannerPage() {
+  const [plans, setPlans] = useState<ContentPlan[]>([]);
+  const [plan, setPlan] = useState<ContentPlan | null>(null);
+  const [items, setItems] = useState<EditableItem[]>([]);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [form, setForm] = useState<PlanForm>(emptyForm);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadPlans = () =>
+    fetchJson<{ plans: ContentPlan[] }>("/api/plans").then(({ plans }) =>
+      setPlans(plans)
+    );
+
+  useEffect(() => {
+    loadPlans().catch((err) =>
+      setError(err instanceof Error ? err.message : "Failed to load plans")
+    );
+  }, []);
+
+  const showPlan = (next: ContentPlan | null) => {
+    setPlan(next);
+    setItems(
+      next?.items.map(({ id, topic, angle }) => ({ id, topic, angle })) ?? []
+    );
+    setSelected([]);
+  };
+
+  const run = async (label: string, action: () => Promise<void>) => {
+    setBusy(label);
+    setError(null);
+    setNotice(null);
+
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Something went wrong");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const loadPlan = async (id: string) =>
+    showPlan((await fetchJson<{ plan: ContentPlan }>(`/api/plans/${id}`)).plan);
+
+  // Poll while drafts are being generated.
+  const pollId = plan?.generating ? plan.id : null;
+  useEffect(() => {
+    if (!pollId) {
+      return;
+    }
+    const timer = setInterval(() => {
+      fetchJson<{ plan: ContentPlan }>(`/api/plans/${pollId}`)
+        .then(({ plan: next }) => {
+          setPlan(next);
+          if (!next.generating) {
+            const failed = next.items.filter(
+              (item) => item.status === "failed"
+            ).length;
+            setNotice(
+              `Drafting finished${failed ? ` with ${failed} failed item(s)` : ""}. Review the drafts in the approval inbox.`
+            );
+          }
+        })
+        .catch(() => undefined);
+    }, 2000);
+    return () => clearInterval(timer);
+  }, [pollId]);
+
+  const open = (id: string) => run("open", () => loadPlan(id));
+
+  const create = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    return run("create", async () => {
+      const payload = await fetchJson<{ plan: ContentPlan }>(
+        "/api/plans",
+        jsonInit("POST", {
+          theme: form.theme,
+          startDate: form.startDate,
+          endDate: form.endDate,
+          cadence: {
+            weekdays: form.weekdays,
+            times: form.times
+              .split(/[\s,]+/)
+              .map((time) => time.trim())
+              .filter(Boolean),
+          },
+          brief: {
+            niche: form.niche,
+            tone: form.tone,
+            callToAction: form.callToAction || undefined,
+            hashtags: form.hashtags.split(" ").filter(Boolean),
+            format: form.format,
+          },
+        })
+      );
+      await loadPlans();
+      await loadPlan(payload.plan.id);
+      setForm(emptyForm());
+      setNotice(
+        `Proposed ${payload.plan.items.length} topic(s). Edit and reorder them, then generate drafts.`
+      );
+    });
+  };
+
+  const save = () =>
+    plan &&
+    run("save", async () => {
+      const payload = await fetchJson<{ plan: ContentPlan }>(
+        `/api/plans/${plan.id}`,
+        jsonInit("PUT", { items })
+      );
+      showPlan(payload.plan);
+      setNotice("Backlog saved.");
+    });
+
+  const generate = (itemIds?: string[]) =>
+    plan &&
+    run("generate", async () => {
+      const payload = await fetchJson<{ plan: ContentPlan }>(
+        `/api/plans/${plan.id}/generate`,
+        jsonInit("POST", { itemIds })
+      );
+      showPlan(payload.plan);
+      setNotice("Drafting in the background...");
+    });
+
+  const remove = (id: string) =>
+    run("delete", async () => {
+      const response = await fetch(`/api/plans/${id}`, { method: "DELETE" });
+      if (!response.ok) {
+        throw new Error(await response.text());
+      }
+      if (plan?.id === id) {
+        showPlan(null);
+      }
+      await loadPlans();
+    });
+
+  const updateItem = (index: number, patch: Partial<EditableItem>) =>
+    setItems((prev) =>
+      prev.map((item, position) =>
+        position === index ? { ...item, ...patch } : item
+      )
+    );
+
+  const moveItem = (index: number, offset: number) =>
+    setItems((prev) => {
+      const next = [...prev];
+      const [item] = next.splice(index, 1);
+      next.splice(index + offset, 0, item);
+      return next;
+    });
+
+  const saved = plan
+    ? new Map(plan.items.map((item) => [item.id, item]))
+    : new Map<string, PlanItem>();
+  const dirty =
+    plan !== null &&
+    JSON.stringify(items) !==
+      JSON.stringify(
+        plan.items.map(({ id, topic, angle }) => ({ id, topic, angle }))
+      );
+
+  return (
+    <div className="min-h-screen bg-slate-950 text-slate-100">
+      <div className="mx-auto flex w-full max-w-5xl flex-col gap-10 px-6 py-16">
+        <header className="flex flex-col gap-4">
+          <Link
+            href="/"
+            className="w-fit text-xs uppercase tracking-widest text-slate-400 hover:text-slate-200"
+          >
+            ← Back to studio
+          </Link>
+          <h1 className="text-4xl font-semibold text-white">Content planner</h1>
+          <p className="max-w-2xl text-base leading-relaxed text-slate-300">
+            Turn a campaign theme into a dated backlog of topics and angles, one
+            per posting slot. Edit and reorder the backlog, then draft every
+            item through the regular pipeline and approve them from the inbox.
+          </p>
+        </header>
+
+        {notice && (
+          <div className="rounded-2xl border border-emerald-500/40 bg-emerald-500/10 px-4 py-3 text-sm text-emerald-200">
+            {notice}
+          </div>
+        )}
+        {error && (
+          <div className="rounded-2xl border border-red-500/40 bg-red-500/10 px-4 py-3 text-sm text-red-200">
+            {error}
+          </div>
+        )}
+
+        <section className="rounded-3xl border border-slate-800 bg-slate-900/50 p-8">
+          <h2 className="text-lg font-semibold text-white">Plans</h2>
+          <ul className="mt-4 flex flex-col gap-3">
+            {plans.length === 0 && (
+              <li className="text-sm text-slate-400">No plans yet.</li>
+            )}
+            {plans.map((item) => (
+              <li
+                key={item.id}
+                className={`flex items-center justify-between gap-4 rounded-2xl border bg-slate-950 px-4 py-3 text-sm text-slate-300 ${plan?.id === item.id ? "border-sky-500/60" : "border-slate-800"}`}
+              >
+                <span>
+                  <span className="font-semibold text-white">{item.theme}</span>{" "}
+                  · {item.startDate} to {item.endDate} · {item.items.length}{" "}
+                  item(s)
+                </span>
+                <span className="flex gap-2">
+                  <button
+                    type="button"
+                    onClick={() => open(item.id)}
+                    className={smallButton}
+                  >
+                    Open
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => remove(item.id)}
+                    className="rounded-2xl border border-slate-700 px-3 py-1 text-xs uppercase tracking-wide text-slate-300 transition hover:border-red-400 hover:text-red-200"
+                  >
+                    Delete
+                  </button>
+                </span>
+              </li>
+            ))}
+          </ul>
+        </section>
+
+        {plan && (
+          <section className="flex flex-col gap-6 rounded-3xl border border-slate-800 bg-slate-900/50 p-8">
+            <div className="flex flex-wrap items-start justify-between gap-4">
+              <div>
+                <h2 className="text-lg font-semibold text-white">
+                  {plan.theme}
+                </h2>
+                <p className="mt-1 text-sm text-slate-400">
+                  {plan.brief.niche} · {plan.brief.tone} ·{" "}
+                  {plan.cadence.weekdays.map((day) => WEEKDAYS[day]).join(", ")}{" "}
+                  at {plan.cadence.times.join(", ")} UTC
+                </p>
+              </div>
+              <div className="flex gap-2">
+                <a
+                  href={`/api/plans/${plan.id}/export?format=csv`}
+                  className={smallButton}
+                >
+                  Export CSV
+                </a>
+                <a
+                  href={`/api/plans/${plan.id}/export?format=ics`}
+                  className={smallButton}
+                >
+                  Export iCal
+                </a>
+              </div>
+            </div>
+
+            <Calendar key={plan.id} items={plan.items} />
+
+            <div className="flex flex-col gap-3">
+              <h3 className="text-sm font-semibold uppercase tracking-wide text-white">
+                Backlog
+              </h3>
+              {items.map((item, index) => {
+                const current = item.id ? saved.get(item.id) : undefined;
+                const locked = Boolean(current?.draftId);
+                return (
+                  <div
+                    key={item.id ?? `new-${index}`}
+                    className="flex flex-col gap-2 rounded-2xl border border-slate-800 bg-slate-950 p-4 text-sm"
+                  >
+                    <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-slate-400">
+                      <label className="flex items-center gap-2">
+                        <input
+                          type="checkbox"
+                          disabled={!current || locked}
+                          checked={Boolean(
+                            item.id && selected.includes(item.id)
+                          )}
+                          onChange={() =>
+                            item.id &&
+                            setSelected((prev) =>
+                              prev.includes(item.id as string)
+                                ? prev.filter((id) => id !== item.id)
+                                : [...prev, item.id as string]
+                            )
+                          }
+                        />
+                        {current?.date
+                          ? `${current.date} ${current.time} UTC`
+                          : "Not scheduled yet"}
+                        {current && (
+                          <span
+                            title={current.error}
+                            className={`rounded-lg border px-2 py-0.5 ${statusClass[current.status]}`}
+                          >
+                            {current.status}
+                          </span>
+                        )}
+                        {current?.tweetUrl && (
+                          <a
+                            href={current.tweetUrl}
+                            target="_blank"
+                            rel="noreferrer"
+                            className="text-sky-300 underline"
+                          >
+                            View tweet
+                          </a>
+                        )}
+                      </label>
+                      <span className="flex gap-2">
+                        <button
+                          type="button"
+                          disabled={index === 0}
+                          onClick={() => moveItem(index, -1)}
+                          className={smallButton}
+                        >
+                          ↑
+                        </button>
+                        <button
+                          type="button"
+                          disabled={index === items.length - 1}
+                          onClick={() => moveItem(index, 1)}
+                          className={smallButton}
+                        >
+                          ↓
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() =>
+                            setItems((prev) =>
+                              prev.filter((_, position) => position !== index)
+                            )
+                          }
+                          className={smallButton}
+                        >
+                          Remove
+                        </button>
+                      </span>
+                    </div>
+                    <input
+                      value={item.topic}
+                      disabled={locked}
+                      onChange={(event) =>
+                        updateItem(index, { topic: event.target.value })
+                      }
+                      placeholder="Topic"
+                      className={inputClass}
+                    />
+                    <input
+                      value={item.angle}
+                      disabled={locked}
+                      onChange={(event) =>
+                        updateItem(index, { angle: event.target.value })
+                      }
+                      placeholder="Angle"
+                      className={inputClass}
+                    />
+                  </div>
+                );
+              })}
+              <div className="flex flex-wrap gap-3">
+                <button
+                  type="button"
+                  onClick={() =>
+                    setItems((prev) => [...prev, { topic: "", angle: "" }])
+                  }
+                  className={smallButton}
+                >
+                  Add topic
+                </button>
+                <button
+                  type="button"
+                  disabled={!dirty || busy !== null}
+                  onClick={save}
+                  className="rounded-2xl bg-sky-500 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-950 transition hover:bg-sky-400 disabled:cursor-not-allowed disabled:bg-slate-700 disabled:text-slate-300"
+                >
+                  {busy === "save" ? "Saving..." : "Save backlog"}
+                </button>
+                <button
+                  type="button"
+                  disabled={
+                    dirty ||
+                    busy !== null ||
+                    plan.generating ||
+                    selected.length === 0
+                  }
+                  onClick={() => generate(selected)}
+                  className="rounded-2xl border border-sky-500/70 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-sky-200 transition hover:bg-sky-500/10 disabled:cursor-not-allowed disabled:border-slate-700 disabled:text-slate-500"
+                >
+                  Draft selected
+                </button>
+                <button
+                  type="button"
+                  disabled={
+                    dirty ||
+                    busy !== null ||
+                    plan.generating ||
+                    !plan.items.some((item) => !item.draftId)
+                  }
+                  onClick={() => generate()}
+                  className="rounded-2xl border border-sky-500/70 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-sky-200 transition hover:bg-sky-500/10 disabled:cursor-not-allowed disabled:border-slate-700 disabled:text-slate-500"
+                >
+                  {busy === "generate" || plan.generating
+                    ? "Drafting..."
+                    : "Draft all planned"}
+                </button>
+              </div>
+              {dirty && (
+                <p className="text-xs text-amber-200">
+                  Save the backlog before drafting.
+                </p>
+              )}
+            </div>
+          </section>
+        )}
+
+        <section className="rounded-3xl border border-slate-800 bg-slate-900/50 p-8">
+          <h2 className="text-lg font-semibold text-white">New campaign</h2>
+          <form className="mt-6 flex flex-col gap-4" onSubmit={create}>
+            <label className="flex flex-col gap-2 text-sm font-medium text-slate-200">
+              Campaign theme
+              <input
+                required
+                minLength={3}
+                value={form.theme}
+                onChange={(event) =>
+                  setForm((prev) => ({ ...prev, theme: event.target.value }))
+                }
+                placeholder="e.g. Launch week for our onboarding checklist"
+                className={inputClass}
+              />
+            </label>
+            <div className="grid gap-4 sm:grid-cols-3">
+              <label className="flex flex-col gap-2 text-sm font-medium text-slate-200">
+                Niche
+                <input
+                  required
+                  minLength={3}
+                  value={form.niche}
+                  onChange={(event) =>
+                    setForm((prev) => ({ ...prev, niche: event.target.value }))
+                  }
+                  className={inputClass}
+                />
+              </label>
+              <label className="flex flex-col gap-2 text-sm font-medium text-slate-200">
+                Tone
+                <input
+                  required
+                  minLength={3}
+                  value={form.tone}
+                  onChange={(event) =>
+                    setForm((prev) => ({ ...prev, tone: event.target.value }))
+                  }
+                  className={inputClass}
+                />
+              </label>
+              <label className="flex flex-col gap-2 text-sm font-medium text-slate-200">
+                Format
+                <select
+                  value={form.format}
+                  onChange={(event) =>
+                    setForm((prev) => ({
+                      ...prev,
+                      format: event.target.value as PlanForm["format"],
+                    }))
+                  }
+                  className={inputClass}
+                >
+                  <option value="single">Single tweet</option>
+                  <option value="thread">Thread</option>
+                </select>
+              </label>
+            </div>
+            <div className="grid gap-4 sm:grid-cols-2">
+              <label className="flex flex-col gap-2 text-sm font-medium text-slate-200">
+                Call-to-action
+                <input
+                  value={form.callToAction}
+                  onChange={(event) =>
+                    setForm((prev) => ({
+                      ...prev,
+                      callToAction: event.target.value,
+                    }))
+                  }
+                  className={inputClass}
+                />
+              </label>
+              <label className="flex flex-col gap-2 text-sm font-medium text-slate-200">
+                Hashtags (space separated)
+                <input
+                  value={form.hashtags}
+                  onChange={(event) =>
+                    setForm((prev) => ({
+                      ...prev,
+                      hashtags: event.target.value,
+                    }))
+                  }
+                  className={inputClass}
+                />
+              </label>
+            </div>
+            <div className="grid gap-4 sm:grid-cols-3">
+              <label className="flex flex-col gap-2 text-sm font-medium text-slate-200">
+                Start date
+                <input
+                  type="date"
+                  required
+                  value={form.startDate}
+                  onChange={(event) =>
+                    setForm((prev) => ({
+                      ...prev,
+                      startDate: event.target.value,
+                    }))
+                  }
+                  className={inputClass}
+                />
+              </label>
+              <label className="flex flex-col gap-2 text-sm font-medium text-slate-200">
+                End date
+                <input
+                  type="date"
+                  required
+                  value={form.endDate}
+                  onChange={(event) =>
+                    setForm((prev) => ({
+                      ...prev,
+                      endDate: event.target.value,
+                    }))
+                  }
+                  className={inputClass}
+                />
+              </label>
+              <label className="flex flex-col gap-2 text-sm font-medium text-slate-200">
+                Times (UTC, comma separated)
+                <input
+                  required
+                  value={form.times}
+                  onChange={(event) =>
+                    setForm((prev) => ({ ...prev, times: event.target.value }))
+                  }
+                  placeholder="09:00, 15:30"
+                  className={inputClass}
+                />
+              </label>
+            </div>
+            <div className="flex flex-wrap gap-2 text-sm text-slate-200">
+              {WEEKDAYS.map((label, day) => (
+                <label
+                  key={label}
+                  className="flex items-center gap-2 rounded-2xl border border-slate-700 px-3 py-1"
+                >
+                  <input
+                    type="checkbox"
+                    checked={form.weekdays.includes(day)}
+                    onChange={() =>
+                      setForm((prev) => ({
+                        ...prev,
+                        weekdays: prev.weekdays.includes(day)
+                          ? prev.weekdays.filter((value) => value !== day)
+                          : [...prev.weekdays, day].sort(),
+                      }))
+                    }
+                  />
+                  {label}
+                </label>
+              ))}
+            </div>
+            <button
+              type="submit"
+              disabled={busy !== null || form.weekdays.length === 0}
+              className="w-fit rounded-2xl bg-sky-500 px-6 py-3 text-sm font-semibold uppercase tracking-wide text-slate-950 transition hover:bg-sky-400 disabled:cursor-not-allowed disabled:bg-slate-700 disabled:text-slate-300"
+            >
+              {busy === "create" ? "Proposing topics..." : "Propose backlog"}
+            </button>
+          </form>
+        </section>
+      </div>
+    </div>
+  );
+}
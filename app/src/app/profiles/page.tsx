@@ -0,0 +1,349 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+
+type EmojiPolicy = "none" | "sparing" | "liberal";
+
+interface BrandProfile {
+  id: string;
+  name: string;
+  voice: string;
+  niche?: string;
+  tone?: string;
+  callToAction?: string;
+  bannedPhrases: string[];
+  requiredDisclosures: string[];
+  emojiPolicy: EmojiPolicy;
+  defaultHashtags: string[];
+  exampleTweets: string[];
+}
+
+interface ProfileForm {
+  name: string;
+  voice: string;
+  niche: string;
+  tone: string;
+  callToAction: string;
+  bannedPhrases: string;
+  requiredDisclosures: string;
+  emojiPolicy: EmojiPolicy;
+  defaultHashtags: string;
+  exampleTweets: string;
+}
+
+const emptyForm: ProfileForm = {
+  name: "",
+  voice: "",
+  niche: "",
+  tone: "",
+  callToAction: "",
+  bannedPhrases: "",
+  requiredDisclosures: "",
+  emojiPolicy: "sparing",
+  defaultHashtags: "",
+  exampleTweets: "",
+};
+
+const toForm = (profile: BrandProfile): ProfileForm => ({
+  name: profile.name,
+  voice: profile.voice,
+  niche: profile.niche ?? "",
+  tone: profile.tone ?? "",
+  callToAction: profile.callToAction ?? "",
+  bannedPhrases: profile.bannedPhrases.join(", "),
+  requiredDisclosures: profile.requiredDisclosures.join(", "),
+  emojiPolicy: profile.emojiPolicy,
+  defaultHashtags: profile.defaultHashtags.join(" "),
+  exampleTweets: profile.exampleTweets.join("\n---\n"),
+});
+
+const splitList = (value: string, separator: RegExp) =>
+  value
+    .split(separator)
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+const toPayload = (form: ProfileForm) => ({
+  name: form.name,
+  voice: form.voice,
+  niche: form.niche || undefined,
+  tone: form.tone || undefined,
+  callToAction: form.callToAction || undefined,
+  bannedPhrases: splitList(form.bannedPhrases, /,/),
+  requiredDisclosures: splitList(form.requiredDisclosures, /,/),
+  emojiPolicy: form.emojiPolicy,
+  defaultHashtags: splitList(form.defaultHashtags, /\s+/),
+  exampleTweets: splitList(form.exampleTweets, /\n-{3,}\n/),
+});
+
+const fetchProfiles = async () => {
+  const response = await fetch("/api/profiles");
+  if (!response.ok) {
+    throw new Error(await response.text());
+  }
+  const payload = (await response.json()) as { profiles: BrandProfile[] };
+  return payload.profiles;
+};
+
+const inputClass =
+  "rounded-2xl border border-slate-700 bg-slate-950 px-4 py-3 text-base text-white outline-none transition focus:border-sky-500 focus:ring-2 focus:ring-sky-500/40";
+
+export default function ProfilesPage() {
+  const [profiles, setProfiles] = useState<BrandProfile[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<ProfileForm>(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchProfiles()
+      .then(setProfiles)
+      .catch((err) =>
+        setError(err instanceof Error ? err.message : "Failed to load profiles")
+      );
+  }, []);
+
+  const update = (field: keyof ProfileForm, value: string) =>
+    setForm((prev) => ({ ...prev, [field]: value }));
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch(
+        editingId ? `/api/profiles/${editingId}` : "/api/profiles",
+        {
+          method: editingId ? "PUT" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(toPayload(form)),
+        }
+      );
+      if (!response.ok) {
+        throw new Error(await response.text());
+      }
+      setProfiles(await fetchProfiles());
+      setEditingId(null);
+      setForm(emptyForm);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save profile");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const remove = async (id: string) => {
+    const response = await fetch(`/api/profiles/${id}`, { method: "DELETE" });
+    if (!response.ok) {
+      setError(await response.text());
+      return;
+    }
+    setProfiles(await fetchProfiles());
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-950 text-slate-100">
+      <div className="mx-auto flex w-full max-w-5xl flex-col gap-10 px-6 py-16">
+        <header className="flex flex-col gap-4">
+          <Link
+            href="/"
+            className="w-fit text-xs uppercase tracking-widest text-slate-400 hover:text-slate-200"
+          >
+            ← Back to studio
+          </Link>
+          <h1 className="text-4xl font-semibold text-white">Brand profiles</h1>
+          <p className="max-w-2xl text-base leading-relaxed text-slate-300">
+            Saved voices feed the generation prompt: voice description, banned
+            phrases, required disclosures, emoji policy, default hashtags and
+            example tweets used as few-shot samples.
+          </p>
+        </header>
+
+        {error && (
+          <div className="rounded-2xl border border-red-500/40 bg-red-500/10 px-4 py-3 text-sm text-red-200">
+            {error}
+          </div>
+        )}
+
+        <section className="rounded-3xl border border-slate-800 bg-slate-900/50 p-8">
+          <ul className="flex flex-col gap-3">
+            {profiles.length === 0 && (
+              <li className="text-sm text-slate-400">No profiles yet.</li>
+            )}
+            {profiles.map((profile) => (
+              <li
+                key={profile.id}
+                className="flex items-center justify-between gap-4 rounded-2xl border border-slate-800 bg-slate-950 px-4 py-3 text-sm text-slate-300"
+              >
+                <span>
+                  <span className="font-semibold text-white">
+                    {profile.name}
+                  </span>{" "}
+                  · {profile.voice}
+                </span>
+                <span className="flex gap-2">
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setEditingId(profile.id);
+                      setForm(toForm(profile));
+                    }}
+                    className="rounded-2xl border border-slate-700 px-3 py-1 text-xs uppercase tracking-wide text-slate-300 transition hover:border-sky-400"
+                  >
+                    Edit
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => remove(profile.id)}
+                    className="rounded-2xl border border-slate-700 px-3 py-1 text-xs uppercase tracking-wide text-slate-300 transition hover:border-red-400 hover:text-red-200"
+                  >
+                    Delete
+                  </button>
+                </span>
+              </li>
+            ))}
+          </ul>
+        </section>
+
+        <section className="rounded-3xl border border-slate-800 bg-slate-900/50 p-8">
+          <h2 className="text-lg font-semibold text-white">
+            {editingId ? "Edit profile" : "New profile"}
+          </h2>
+          <form className="mt-6 flex flex-col gap-4" onSubmit={handleSubmit}>
+            <div className="grid gap-4 sm:grid-cols-2">
+              <label className="flex flex-col gap-2 text-sm font-medium text-slate-200">
+                Name
+                <input
+                  required
+                  value={form.name}
+                  onChange={(event) => update("name", event.target.value)}
+                  className={inputClass}
+                />
+              </label>
+              <label className="flex flex-col gap-2 text-sm font-medium text-slate-200">
+                Emoji policy
+                <select
+                  value={form.emojiPolicy}
+                  onChange={(event) =>
+                    update("emojiPolicy", event.target.value)
+                  }
+                  className={inputClass}
+                >
+                  <option value="none">None</option>
+                  <option value="sparing">Sparing</option>
+                  <option value="liberal">Liberal</option>
+                </select>
+              </label>
+            </div>
+            <label className="flex flex-col gap-2 text-sm font-medium text-slate-200">
+              Voice description
+              <textarea
+                required
+                rows={3}
+                value={form.voice}
+                onChange={(event) => update("voice", event.target.value)}
+                placeholder="e.g. Dry, precise, a little nerdy. Never hypes."
+                className={inputClass}
+              />
+            </label>
+            <div className="grid gap-4 sm:grid-cols-3">
+              <label className="flex flex-col gap-2 text-sm font-medium text-slate-200">
+                Default niche
+                <input
+                  value={form.niche}
+                  onChange={(event) => update("niche", event.target.value)}
+                  className={inputClass}
+                />
+              </label>
+              <label className="flex flex-col gap-2 text-sm font-medium text-slate-200">
+                Default tone
+                <input
+                  value={form.tone}
+                  onChange={(event) => update("tone", event.target.value)}
+                  className={inputClass}
+                />
+              </label>
+              <label className="flex flex-col gap-2 text-sm font-medium text-slate-200">
+                Default call-to-action
+                <input
+                  value={form.callToAction}
+                  onChange={(event) =>
+                    update("callToAction", event.target.value)
+                  }
+                  className={inputClass}
+                />
+              </label>
+            </div>
+            <div className="grid gap-4 sm:grid-cols-3">
+              <label className="flex flex-col gap-2 text-sm font-medium text-slate-200">
+                Banned words (comma separated)
+                <input
+                  value={form.bannedPhrases}
+                  onChange={(event) =>
+                    update("bannedPhrases", event.target.value)
+                  }
+                  className={inputClass}
+                />
+              </label>
+              <label className="flex flex-col gap-2 text-sm font-medium text-slate-200">
+                Required disclosures (comma separated)
+                <input
+                  value={form.requiredDisclosures}
+                  onChange={(event) =>
+                    update("requiredDisclosures", event.target.value)
+                  }
+                  placeholder="e.g. #ad"
+                  className={inputClass}
+                />
+              </label>
+              <label className="flex flex-col gap-2 text-sm font-medium text-slate-200">
+                Default hashtags (space separated)
+                <input
+                  value={form.defaultHashtags}
+                  onChange={(event) =>
+                    update("defaultHashtags", event.target.value)
+                  }
+                  className={inputClass}
+                />
+              </label>
+            </div>
+            <label className="flex flex-col gap-2 text-sm font-medium text-slate-200">
+              Example tweets (separate with a line containing ---)
+              <textarea
+                rows={6}
+                value={form.exampleTweets}
+                onChange={(event) =>
+                  update("exampleTweets", event.target.value)
+                }
+                className={inputClass}
+              />
+            </label>
+            <div className="flex gap-3">
+              <button
+                type="submit"
+                disabled={saving}
+                className="rounded-2xl bg-sky-500 px-6 py-3 text-sm font-semibold uppercase tracking-wide text-slate-950 transition hover:bg-sky-400 disabled:cursor-not-allowed disabled:bg-slate-700 disabled:text-slate-300"
+              >
+                {saving ? "Saving..." : editingId ? "Save changes" : "Create"}
+              </button>
+              {editingId && (
+                <button
+                  type="button"
+                  onClick={() => {
+                    setEditingId(null);
+                    setForm(emptyForm);
+                  }}
+                  className="rounded-2xl border border-slate-700 px-6 py-3 text-sm font-semibold uppercase tracking-wide text-slate-300"
+                >
+                  Cancel
+                </button>
+              )}
+            </div>
+          </form>
+        </section>
+      </div>
+    </div>
+  );
+}
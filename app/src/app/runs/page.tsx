@@ -0,0 +1,183 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import RunTimeline, { type RunEventView } from "@/components/run-timeline";
+
+type RunKind =
+  "tweet" | "draft" | "approval" | "job" | "mention-poll" | "mention-reply";
+type RunStatus = "succeeded" | "partial" | "failed";
+
+interface Run {
+  id: string;
+  kind: RunKind;
+  status: RunStatus;
+  input: unknown;
+  events: RunEventView[];
+  startedAt: string;
+  durationMs: number;
+  tweetUrl?: string;
+  draftId?: string;
+  jobId?: string;
+  error?: string;
+}
+
+const statusStyles: Record<RunStatus, string> = {
+  succeeded: "text-emerald-300",
+  partial: "text-amber-300",
+  failed: "text-red-300",
+};
+
+const fetchRuns = async (kind: RunKind | "") => {
+  const response = await fetch(kind ? `/api/runs?kind=${kind}` : "/api/runs");
+  if (!response.ok) {
+    throw new Error(await response.text());
+  }
+  const payload = (await response.json()) as { runs: Run[] };
+  return payload.runs;
+};
+
+const inputSummary = (input: unknown) => {
+  const { topic, draftId, jobId, mentionId } = (input ?? {}) as {
+    topic?: string;
+    draftId?: string;
+    jobId?: string;
+    mentionId?: string;
+  };
+  return (
+    topic ??
+    (draftId
+      ? `draft ${draftId}`
+      : jobId
+        ? `job ${jobId}`
+        : mentionId
+          ? `mention ${mentionId}`
+          : "")
+  );
+};
+
+export default function RunsPage() {
+  const [runs, setRuns] = useState<Run[]>([]);
+  const [kind, setKind] = useState<RunKind | "">("");
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchRuns(kind)
+      .then((loaded) => {
+        setRuns(loaded);
+        setExpanded(
+          (current) => current ?? (window.location.hash.slice(1) || null)
+        );
+      })
+      .catch((err) =>
+        setError(err instanceof Error ? err.message : "Failed to load runs")
+      );
+  }, [kind]);
+
+  return (
+    <div className="min-h-screen bg-slate-950 text-slate-100">
+      <div className="mx-auto flex w-full max-w-5xl flex-col gap-10 px-6 py-16">
+        <header className="flex flex-col gap-4">
+          <Link
+            href="/"
+            className="w-fit text-xs uppercase tracking-widest text-slate-400 hover:text-slate-200"
+          >
+            ← Back to studio
+          </Link>
+          <h1 className="text-4xl font-semibold text-white">Run history</h1>
+          <p className="max-w-2xl text-base leading-relaxed text-slate-300">
+            Every generate, publish, approval and scheduled run with its input
+            payload and event timeline.
+          </p>
+        </header>
+
+        {error && (
+          <div className="rounded-2xl border border-red-500/40 bg-red-500/10 px-4 py-3 text-sm text-red-200">
+            {error}
+          </div>
+        )}
+
+        <section className="rounded-3xl border border-slate-800 bg-slate-900/50 p-8">
+          <div className="flex items-center justify-between gap-4">
+            <h2 className="text-lg font-semibold text-white">Runs</h2>
+            <select
+              value={kind}
+              onChange={(event) => setKind(event.target.value as RunKind | "")}
+              className="rounded-2xl border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-white outline-none"
+            >
+              <option value="">All kinds</option>
+              <option value="tweet">Tweet</option>
+              <option value="draft">Draft</option>
+              <option value="approval">Approval</option>
+              <option value="job">Scheduled job</option>
+              <option value="mention-poll">Mention poll</option>
+              <option value="mention-reply">Mention reply</option>
+            </select>
+          </div>
+          {runs.length === 0 ? (
+            <p className="mt-4 text-sm text-slate-400">No runs yet.</p>
+          ) : (
+            <ul className="mt-4 flex flex-col gap-2">
+              {runs.map((run) => (
+                <li
+                  key={run.id}
+                  id={run.id}
+                  className="rounded-2xl border border-slate-800 bg-slate-950 px-4 py-3 text-sm text-slate-300"
+                >
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setExpanded((current) =>
+                        current === run.id ? null : run.id
+                      )
+                    }
+                    className="flex w-full items-center justify-between gap-4 text-left"
+                  >
+                    <span>
+                      <span className="font-semibold text-white">
+                        {new Date(run.startedAt).toLocaleString()}
+                      </span>{" "}
+                      {run.kind} · {inputSummary(run.input)}
+                    </span>
+                    <span className={statusStyles[run.status]}>
+                      {run.status} · {run.durationMs}ms
+                    </span>
+                  </button>
+                  {expanded === run.id && (
+                    <div className="mt-4 flex flex-col gap-4">
+                      {run.error && (
+                        <span className="text-xs text-red-200">
+                          {run.error}
+                        </span>
+                      )}
+                      {run.tweetUrl && (
+                        <a
+                          href={run.tweetUrl}
+                          target="_blank"
+                          rel="noreferrer"
+                          className="text-xs text-sky-300 underline"
+                        >
+                          View tweet
+                        </a>
+                      )}
+                      <RunTimeline events={run.events} />
+                      <details>
+                        <summary className="cursor-pointer text-xs uppercase tracking-wide text-slate-400">
+                          Input payload
+                        </summary>
+                        <pre className="mt-2 overflow-x-auto rounded-xl bg-slate-900 p-3 text-xs text-slate-300">
+                          {JSON.stringify(run.input, null, 2)}
+                        </pre>
+                      </details>
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,237 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+
+type JobStatus = "pending" | "running" | "succeeded" | "failed" | "cancelled";
+
+interface JobRun {
+  startedAt: string;
+  finishedAt: string;
+  status: "succeeded" | "failed";
+  attempt: number;
+  tweetUrl?: string;
+  draftId?: string;
+  runId?: string;
+  error?: string;
+}
+
+interface ScheduledJob {
+  id: string;
+  brief: { topic: string; niche: string };
+  cron?: string;
+  runAt: string;
+  status: JobStatus;
+  attempts: number;
+  maxAttempts: number;
+  lastError?: string;
+  runs: JobRun[];
+  upcoming: string[];
+}
+
+interface CalendarEntry {
+  at: string;
+  job: ScheduledJob;
+  run?: JobRun;
+}
+
+const fetchJobs = async () => {
+  const response = await fetch("/api/jobs");
+  if (!response.ok) {
+    throw new Error(await response.text());
+  }
+  const payload = (await response.json()) as { jobs: ScheduledJob[] };
+  return payload.jobs;
+};
+
+const groupByDay = (entries: CalendarEntry[]) => {
+  const groups = new Map<string, CalendarEntry[]>();
+  for (const entry of entries) {
+    const day = new Date(entry.at).toLocaleDateString(undefined, {
+      weekday: "short",
+      month: "short",
+      day: "numeric",
+      year: "numeric",
+    });
+    groups.set(day, [...(groups.get(day) ?? []), entry]);
+  }
+  return [...groups.entries()];
+};
+
+export default function SchedulePage() {
+  const [jobs, setJobs] = useState<ScheduledJob[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchJobs()
+      .then(setJobs)
+      .catch((err) =>
+        setError(err instanceof Error ? err.message : "Failed to load jobs")
+      );
+  }, []);
+
+  const cancel = async (id: string) => {
+    const response = await fetch(`/api/jobs/${id}`, { method: "DELETE" });
+    if (!response.ok) {
+      setError(await response.text());
+      return;
+    }
+    setJobs(await fetchJobs());
+  };
+
+  const upcoming = jobs
+    .flatMap((job) => job.upcoming.map((at) => ({ at, job })))
+    .sort((a, b) => a.at.localeCompare(b.at));
+  const past = jobs
+    .flatMap((job) => job.runs.map((run) => ({ at: run.startedAt, job, run })))
+    .sort((a, b) => b.at.localeCompare(a.at));
+
+  return (
+    <div className="min-h-screen bg-slate-950 text-slate-100">
+      <div className="mx-auto flex w-full max-w-5xl flex-col gap-10 px-6 py-16">
+        <header className="flex flex-col gap-4">
+          <Link
+            href="/"
+            className="w-fit text-xs uppercase tracking-widest text-slate-400 hover:text-slate-200"
+          >
+            ← Back to studio
+          </Link>
+          <h1 className="text-4xl font-semibold text-white">
+            Publishing calendar
+          </h1>
+          <p className="max-w-2xl text-base leading-relaxed text-slate-300">
+            Scheduled and recurring generation jobs run in-process on the
+            server. Times are shown in your local timezone; cron expressions are
+            evaluated in UTC.
+          </p>
+        </header>
+
+        {error && (
+          <div className="rounded-2xl border border-red-500/40 bg-red-500/10 px-4 py-3 text-sm text-red-200">
+            {error}
+          </div>
+        )}
+
+        <section className="rounded-3xl border border-slate-800 bg-slate-900/50 p-8">
+          <h2 className="text-lg font-semibold text-white">Upcoming</h2>
+          {upcoming.length === 0 ? (
+            <p className="mt-4 text-sm text-slate-400">Nothing scheduled.</p>
+          ) : (
+            <div className="mt-4 flex flex-col gap-6">
+              {groupByDay(upcoming).map(([day, entries]) => (
+                <div key={day}>
+                  <h3 className="text-xs font-semibold uppercase tracking-[0.3em] text-slate-400">
+                    {day}
+                  </h3>
+                  <ul className="mt-2 flex flex-col gap-2">
+                    {entries.map(({ at, job }) => (
+                      <li
+                        key={`${job.id}-${at}`}
+                        className="flex items-center justify-between gap-4 rounded-2xl border border-slate-800 bg-slate-950 px-4 py-3 text-sm text-slate-300"
+                      >
+                        <span>
+                          <span className="font-semibold text-white">
+                            {new Date(at).toLocaleTimeString()}
+                          </span>{" "}
+                          {job.brief.topic} · {job.brief.niche}
+                          {job.cron && (
+                            <span className="ml-2 text-xs text-slate-500">
+                              {job.cron}
+                            </span>
+                          )}
+                          {job.attempts > 0 && (
+                            <span className="ml-2 text-xs text-amber-300">
+                              retry {job.attempts + 1}/{job.maxAttempts}
+                            </span>
+                          )}
+                        </span>
+                        {at === job.runAt && (
+                          <button
+                            type="button"
+                            onClick={() => cancel(job.id)}
+                            className="rounded-2xl border border-slate-700 px-3 py-1 text-xs uppercase tracking-wide text-slate-300 transition hover:border-red-400 hover:text-red-200"
+                          >
+                            Cancel
+                          </button>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          )}
+        </section>
+
+        <section className="rounded-3xl border border-slate-800 bg-slate-900/50 p-8">
+          <h2 className="text-lg font-semibold text-white">Past runs</h2>
+          {past.length === 0 ? (
+            <p className="mt-4 text-sm text-slate-400">No runs yet.</p>
+          ) : (
+            <div className="mt-4 flex flex-col gap-6">
+              {groupByDay(past).map(([day, entries]) => (
+                <div key={day}>
+                  <h3 className="text-xs font-semibold uppercase tracking-[0.3em] text-slate-400">
+                    {day}
+                  </h3>
+                  <ul className="mt-2 flex flex-col gap-2">
+                    {entries.map(({ at, job, run }) => (
+                      <li
+                        key={`${job.id}-${at}`}
+                        className="flex flex-col gap-1 rounded-2xl border border-slate-800 bg-slate-950 px-4 py-3 text-sm text-slate-300"
+                      >
+                        <span>
+                          <span className="font-semibold text-white">
+                            {new Date(at).toLocaleTimeString()}
+                          </span>{" "}
+                          {job.brief.topic} ·{" "}
+                          <span
+                            className={
+                              run?.status === "succeeded"
+                                ? "text-emerald-300"
+                                : "text-red-300"
+                            }
+                          >
+                            {run?.status} (attempt {run?.attempt})
+                          </span>
+                        </span>
+                        {run?.error && (
+                          <span className="text-xs text-red-200">
+                            {run.error}
+                          </span>
+                        )}
+                        {run?.tweetUrl && (
+                          <a
+                            href={run.tweetUrl}
+                            target="_blank"
+                            rel="noreferrer"
+                            className="text-xs text-sky-300 underline"
+                          >
+                            View tweet
+                          </a>
+                        )}
+                        {run?.draftId && (
+                          <span className="text-xs text-slate-400">
+                            Filed as draft for approval
+                          </span>
+                        )}
+                        {run?.runId && (
+                          <Link
+                            href={`/runs#${run.runId}`}
+                            className="text-xs text-slate-400 underline hover:text-slate-200"
+                          >
+                            Run timeline
+                          </Link>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+
+export interface AccountSummary {
+  id: string;
+  handle: string;
+  authMethod: "oauth1" | "oauth2";
+  settings: {
+    label?: string;
+    defaultProfileId?: string;
+    requireApproval: boolean;
+  };
+}
+
+export const accountLabel = (account: AccountSummary) =>
+  account.settings.label
+    ? `${account.settings.label} (@${account.handle})`
+    : `@${account.handle}`;
+
+export default function AccountSwitcher({
+  value,
+  onSelect,
+}: {
+  value: string;
+  onSelect: (account: AccountSummary | null) => void;
+}) {
+  const [accounts, setAccounts] = useState<AccountSummary[]>([]);
+
+  useEffect(() => {
+    fetch("/api/accounts")
+      .then((response) => (response.ok ? response.json() : { accounts: [] }))
+      .then((payload: { accounts: AccountSummary[] }) =>
+        setAccounts(payload.accounts)
+      )
+      .catch(() => setAccounts([]));
+  }, []);
+
+  return (
+    <label className="flex flex-col gap-2 text-sm font-medium text-slate-200">
+      <span className="flex items-center justify-between">
+        Twitter account
+        <Link
+          href="/accounts"
+          className="text-xs font-normal text-slate-400 underline hover:text-slate-200"
+        >
+          Manage accounts
+        </Link>
+      </span>
+      <select
+        value={value}
+        onChange={(event) =>
+          onSelect(
+            accounts.find((account) => account.id === event.target.value) ??
+              null
+          )
+        }
+        className="rounded-2xl border border-slate-700 bg-slate-950 px-4 py-3 text-base text-white outline-none transition focus:border-sky-500 focus:ring-2 focus:ring-sky-500/40"
+      >
+        <option value="">Deployment credentials (TWITTER_* env)</option>
+        {accounts.map((account) => (
+          <option key={account.id} value={account.id}>
+            {accountLabel(account)}
+            {account.settings.requireApproval ? " · approval required" : ""}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
@@ -0,0 +1,63 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+
+export interface BrandProfileSummary {
+  id: string;
+  name: string;
+  niche?: string;
+  tone?: string;
+  callToAction?: string;
+  defaultHashtags: string[];
+}
+
+export default function ProfilePicker({
+  value,
+  onSelect,
+}: {
+  value: string;
+  onSelect: (profile: BrandProfileSummary | null) => void;
+}) {
+  const [profiles, setProfiles] = useState<BrandProfileSummary[]>([]);
+
+  useEffect(() => {
+    fetch("/api/profiles")
+      .then((response) => (response.ok ? response.json() : { profiles: [] }))
+      .then((payload: { profiles: BrandProfileSummary[] }) =>
+        setProfiles(payload.profiles)
+      )
+      .catch(() => setProfiles([]));
+  }, []);
+
+  return (
+    <label className="flex flex-col gap-2 text-sm font-medium text-slate-200">
+      <span className="flex items-center justify-between">
+        Brand profile
+        <Link
+          href="/profiles"
+          className="text-xs font-normal text-slate-400 underline hover:text-slate-200"
+        >
+          Manage profiles
+        </Link>
+      </span>
+      <select
+        value={value}
+        onChange={(event) =>
+          onSelect(
+            profiles.find((profile) => profile.id === event.target.value) ??
+              null
+          )
+        }
+        className="rounded-2xl border border-slate-700 bg-slate-950 px-4 py-3 text-base text-white outline-none transition focus:border-sky-500 focus:ring-2 focus:ring-sky-500/40"
+      >
+        <option value="">No profile (free-text voice)</option>
+        {profiles.map((profile) => (
+          <option key={profile.id} value={profile.id}>
+            {profile.name}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
@@ -0,0 +1,86 @@
+/* eslint-disable @next/next/no-img-element */
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+
+export interface MediaAssetSummary {
+  id: string;
+  source: "openai" | "mock" | "upload";
+  mimeType: string;
+  prompt?: string;
+  altText?: string;
+  usageCount: number;
+  createdAt: string;
+}
+
+export const mediaFileUrl = (id: string) => `/api/media/${id}/file`;
+
+export default function MediaLibraryPicker({
+  selected,
+  max,
+  onChange,
+}: {
+  selected: string[];
+  max: number;
+  onChange: (assetIds: string[]) => void;
+}) {
+  const [assets, setAssets] = useState<MediaAssetSummary[]>([]);
+
+  useEffect(() => {
+    fetch("/api/media")
+      .then((response) => (response.ok ? response.json() : { assets: [] }))
+      .then((payload: { assets: MediaAssetSummary[] }) =>
+        setAssets(payload.assets)
+      )
+      .catch(() => setAssets([]));
+  }, []);
+
+  const toggle = (id: string) =>
+    onChange(
+      selected.includes(id)
+        ? selected.filter((assetId) => assetId !== id)
+        : [...selected, id].slice(0, max)
+    );
+
+  return (
+    <div className="flex flex-col gap-2 text-sm font-medium text-slate-200">
+      <span className="flex items-center justify-between">
+        Reuse from library ({selected.length}/{max})
+        <Link
+          href="/media"
+          className="text-xs font-normal text-slate-400 underline hover:text-slate-200"
+        >
+          Manage library
+        </Link>
+      </span>
+      {assets.length === 0 ? (
+        <p className="text-xs font-normal text-slate-500">
+          Generated and uploaded images show up here.
+        </p>
+      ) : (
+        <div className="grid grid-cols-4 gap-2 sm:grid-cols-6">
+          {assets.map((asset) => (
+            <button
+              key={asset.id}
+              type="button"
+              onClick={() => toggle(asset.id)}
+              title={asset.altText ?? asset.prompt ?? asset.id}
+              className={`overflow-hidden rounded-xl border-2 transition ${
+                selected.includes(asset.id)
+                  ? "border-sky-400"
+                  : "border-transparent opacity-70 hover:opacity-100"
+              }`}
+            >
+              <img
+                src={mediaFileUrl(asset.id)}
+                alt={asset.altText ?? ""}
+                className="aspect-square w-full object-cover"
+              />
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
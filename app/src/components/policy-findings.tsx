@@ -0,0 +1,56 @@
+export interface PolicyFindingView {
+  rule: string;
+  severity: "error" | "warning" | "info";
+  target: "tweet" | "reply" | "dm" | "media";
+  index: number;
+  message: string;
+}
+
+const severityStyles: Record<PolicyFindingView["severity"], string> = {
+  error: "border-red-500/40 bg-red-500/10 text-red-200",
+  warning: "border-amber-500/40 bg-amber-500/10 text-amber-100",
+  info: "border-slate-700 bg-slate-900/60 text-slate-300",
+};
+
+const targetLabel = ({ target, index }: PolicyFindingView) =>
+  target === "tweet"
+    ? `Tweet ${index + 1}`
+    : target === "reply"
+      ? `Reply ${index + 1}`
+      : target === "dm"
+        ? `DM ${index + 1}`
+        : `Image ${index + 1}`;
+
+export const hasBlockingFindings = (findings: PolicyFindingView[] = []) =>
+  findings.some((finding) => finding.severity === "error");
+
+export default function PolicyFindings({
+  findings = [],
+}: {
+  findings?: PolicyFindingView[];
+}) {
+  if (findings.length === 0) {
+    return null;
+  }
+
+  return (
+    <div>
+      <span className="text-xs font-semibold uppercase tracking-[0.3em] text-emerald-300">
+        Content Policy
+      </span>
+      <ul className="mt-2 space-y-2">
+        {findings.map((finding, index) => (
+          <li
+            key={index}
+            className={`rounded-2xl border px-4 py-2 text-xs ${severityStyles[finding.severity]}`}
+          >
+            <span className="font-semibold uppercase tracking-wide">
+              {finding.severity} · {targetLabel(finding)} · {finding.rule}
+            </span>
+            <span className="mt-1 block">{finding.message}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+export interface PublishStepView {
+  id: string;
+  step: string;
+  status: "ok" | "failed" | "skipped";
+  message: string;
+  attempt?: number;
+}
+
+const statusStyles: Record<PublishStepView["status"], string> = {
+  ok: "text-emerald-200",
+  failed: "text-red-200",
+  skipped: "text-slate-400",
+};
+
+export default function PublishSteps({
+  steps = [],
+}: {
+  steps?: PublishStepView[];
+}) {
+  if (steps.length === 0) {
+    return null;
+  }
+
+  const count = (status: PublishStepView["status"]) =>
+    steps.filter((step) => step.status === status).length;
+
+  return (
+    <div>
+      <span className="text-xs font-semibold uppercase tracking-[0.3em] text-emerald-300">
+        Publishing steps · {count("ok")} ok · {count("failed")} failed ·{" "}
+        {count("skipped")} skipped
+      </span>
+      <ul className="mt-2 space-y-1 text-xs">
+        {steps.map((step) => (
+          <li key={step.id} className={statusStyles[step.status]}>
+            <span className="font-semibold uppercase tracking-wide">
+              {step.status} · {step.id}
+              {step.attempt !== undefined && ` · attempt ${step.attempt}`}
+            </span>{" "}
+            {step.message}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
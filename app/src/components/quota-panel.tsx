@@ -0,0 +1,99 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+interface EndpointUsage {
+  endpoint: string;
+  limit?: number;
+  remaining?: number;
+  resetAt?: string;
+  calls: number;
+}
+
+interface QuotaSnapshot {
+  month: string;
+  monthlyPostBudget?: number;
+  monthlyPostsUsed: number;
+  monthlyPostsRemaining?: number;
+  endpoints: EndpointUsage[];
+}
+
+const fetchQuota = async (accountId: string) => {
+  const response = await fetch(
+    accountId
+      ? `/api/quota?accountId=${encodeURIComponent(accountId)}`
+      : "/api/quota"
+  );
+  if (!response.ok) {
+    throw new Error(await response.text());
+  }
+  const payload = (await response.json()) as { quota: QuotaSnapshot };
+  return payload.quota;
+};
+
+export default function QuotaPanel({
+  accountId,
+  refreshKey,
+}: {
+  accountId: string;
+  refreshKey: number;
+}) {
+  const [quota, setQuota] = useState<QuotaSnapshot | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchQuota(accountId)
+      .then(setQuota)
+      .catch((err) =>
+        setError(err instanceof Error ? err.message : "Failed to load quota")
+      );
+  }, [accountId, refreshKey]);
+
+  return (
+    <div className="rounded-3xl border border-slate-800 bg-slate-900/40 p-6 text-sm text-slate-300">
+      <h2 className="text-lg font-semibold text-white">Twitter API quota</h2>
+      {error && <p className="mt-2 text-xs text-red-300">{error}</p>}
+      {quota && (
+        <>
+          <p className="mt-2">
+            {quota.monthlyPostsUsed}
+            {quota.monthlyPostBudget !== undefined &&
+              ` / ${quota.monthlyPostBudget}`}{" "}
+            posts in {quota.month}
+            {quota.monthlyPostsRemaining !== undefined &&
+              ` · ${quota.monthlyPostsRemaining} left`}
+          </p>
+          {quota.endpoints.length === 0 ? (
+            <p className="mt-2 text-xs text-slate-500">
+              No Twitter calls recorded yet.
+            </p>
+          ) : (
+            <ul className="mt-3 space-y-2 text-xs">
+              {quota.endpoints.map((endpoint) => (
+                <li key={endpoint.endpoint} className="flex flex-col">
+                  <span className="font-mono text-slate-200">
+                    {endpoint.endpoint}
+                  </span>
+                  <span
+                    className={
+                      endpoint.remaining === 0
+                        ? "text-red-300"
+                        : "text-slate-400"
+                    }
+                  >
+                    {endpoint.remaining !== undefined
+                      ? `${endpoint.remaining}/${endpoint.limit} left`
+                      : "no rate-limit headers yet"}
+                    {endpoint.resetAt &&
+                      ` · resets ${new Date(endpoint.resetAt).toLocaleTimeString()}`}
+                    {` · ${endpoint.calls} calls this month`}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
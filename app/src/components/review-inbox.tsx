@@ -0,0 +1,190 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import PolicyFindings, {
+  type PolicyFindingView,
+} from "@/components/policy-findings";
+import type { RunEventView } from "@/components/run-timeline";
+import { TWEET_MAX_LENGTH, weightedLength } from "@/utils/tweet-length";
+
+type DraftStatus = "draft" | "approved" | "published" | "rejected";
+
+interface Draft {
+  id: string;
+  status: DraftStatus;
+  request: { topic: string; niche: string; tone: string };
+  plan: {
+    tweet: string;
+    thread: string[];
+    engagementTargets: unknown[];
+    dmRecipients: unknown[];
+    findings?: PolicyFindingView[];
+  };
+  log: RunEventView[];
+  createdAt: string;
+  tweetUrl?: string;
+}
+
+const fetchDrafts = async () => {
+  const response = await fetch("/api/drafts");
+  if (!response.ok) {
+    throw new Error(await response.text());
+  }
+  const payload = (await response.json()) as { drafts: Draft[] };
+  return payload.drafts;
+};
+
+export default function ReviewInbox({ refreshKey }: { refreshKey: number }) {
+  const [drafts, setDrafts] = useState<Draft[]>([]);
+  const [edits, setEdits] = useState<Record<string, string[]>>({});
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchDrafts()
+      .then((loaded) => {
+        if (!cancelled) {
+          setDrafts(loaded);
+        }
+      })
+      .catch((err) =>
+        setError(err instanceof Error ? err.message : "Failed to load drafts")
+      );
+
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshKey]);
+
+  const review = async (draft: Draft, action: "approve" | "reject") => {
+    setBusyId(draft.id);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/drafts/${draft.id}/${action}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(
+          action === "approve" && edits[draft.id]
+            ? { tweet: edits[draft.id][0], thread: edits[draft.id].slice(1) }
+            : {}
+        ),
+      });
+      if (!response.ok) {
+        const message = await response.text();
+        setDrafts(await fetchDrafts());
+        throw new Error(message);
+      }
+      setDrafts(await fetchDrafts());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Review failed");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const pending = drafts.filter(
+    (draft) => draft.status === "draft" || draft.status === "approved"
+  );
+  const reviewed = drafts.filter(
+    (draft) => draft.status === "published" || draft.status === "rejected"
+  );
+
+  return (
+    <section className="rounded-3xl border border-slate-800 bg-slate-900/50 p-8">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-white">Review inbox</h2>
+        <span className="text-xs uppercase tracking-widest text-slate-400">
+          {pending.length} awaiting review · {reviewed.length} reviewed
+        </span>
+      </div>
+
+      {error && (
+        <div className="mt-4 rounded-2xl border border-red-500/40 bg-red-500/10 px-4 py-3 text-sm text-red-200">
+          {error}
+        </div>
+      )}
+
+      {pending.length === 0 ? (
+        <p className="mt-4 text-sm text-slate-400">
+          No drafts waiting. Generated tweet plans land here for approval.
+        </p>
+      ) : (
+        <ul className="mt-4 flex flex-col gap-4">
+          {pending.map((draft) => (
+            <li
+              key={draft.id}
+              className="flex flex-col gap-3 rounded-2xl border border-slate-800 bg-slate-950 p-4 text-sm text-slate-300"
+            >
+              <div className="flex items-center justify-between text-xs uppercase tracking-wide text-slate-400">
+                <span>
+                  {draft.request.topic} · {draft.request.niche}
+                </span>
+                <span>{draft.status}</span>
+              </div>
+              {(
+                edits[draft.id] ?? [draft.plan.tweet, ...draft.plan.thread]
+              ).map((text, index, tweets) => (
+                <label key={index} className="flex flex-col gap-1">
+                  {tweets.length > 1 && (
+                    <span className="text-xs text-slate-500">
+                      {index + 1}/{tweets.length}
+                    </span>
+                  )}
+                  <textarea
+                    value={text}
+                    onChange={(event) =>
+                      setEdits((prev) => {
+                        const next = [...tweets];
+                        next[index] = event.target.value;
+                        return { ...prev, [draft.id]: next };
+                      })
+                    }
+                    rows={tweets.length > 1 ? 3 : 5}
+                    className="rounded-2xl border border-slate-700 bg-slate-900 px-4 py-3 text-base text-white outline-none transition focus:border-sky-500 focus:ring-2 focus:ring-sky-500/40"
+                  />
+                  <span
+                    className={`text-right text-xs ${
+                      weightedLength(text) > TWEET_MAX_LENGTH
+                        ? "text-red-300"
+                        : "text-slate-500"
+                    }`}
+                  >
+                    {weightedLength(text)}/{TWEET_MAX_LENGTH}
+                  </span>
+                </label>
+              ))}
+              <span className="text-xs text-slate-400">
+                {draft.plan.engagementTargets.length} engagement target(s) ·{" "}
+                {draft.plan.dmRecipients.length} DM recipient(s)
+              </span>
+              <PolicyFindings findings={draft.plan.findings} />
+              <div className="flex gap-3">
+                <button
+                  type="button"
+                  disabled={busyId === draft.id}
+                  onClick={() => review(draft, "approve")}
+                  className="rounded-2xl bg-emerald-400 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-950 transition hover:bg-emerald-300 disabled:cursor-not-allowed disabled:bg-slate-700 disabled:text-slate-300"
+                >
+                  {draft.status === "approved"
+                    ? "Retry publish"
+                    : "Approve & publish"}
+                </button>
+                <button
+                  type="button"
+                  disabled={busyId === draft.id}
+                  onClick={() => review(draft, "reject")}
+                  className="rounded-2xl border border-slate-700 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-300 transition hover:border-red-400 hover:text-red-200"
+                >
+                  Reject
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,66 @@
+export interface RunEventView {
+  step: string;
+  status: "ok" | "info" | "skipped" | "warning" | "error";
+  message: string;
+  at: string;
+  durationMs?: number;
+  tweetId?: string;
+  mediaId?: string;
+  userId?: string;
+  error?: { message: string; code?: string | number };
+}
+
+const statusDot: Record<RunEventView["status"], string> = {
+  ok: "bg-emerald-400",
+  info: "bg-sky-400",
+  skipped: "bg-slate-500",
+  warning: "bg-amber-400",
+  error: "bg-red-400",
+};
+
+const formatTime = (value: string) =>
+  new Date(value).toLocaleTimeString(undefined, {
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+
+export default function RunTimeline({ events }: { events: RunEventView[] }) {
+  return (
+    <ol className="space-y-2">
+      {events.map((event, index) => (
+        <li key={index} className="flex items-start gap-3">
+          <span
+            className={`mt-1.5 h-2 w-2 shrink-0 rounded-full ${statusDot[event.status]}`}
+          />
+          <div className="flex flex-col gap-0.5">
+            <span>
+              <span className="text-xs uppercase tracking-wide opacity-70">
+                {event.step} · {formatTime(event.at)}
+                {event.durationMs !== undefined && ` · ${event.durationMs}ms`}
+              </span>{" "}
+              {event.message}
+            </span>
+            {(event.tweetId || event.mediaId || event.userId) && (
+              <span className="text-xs opacity-70">
+                {[
+                  event.tweetId && `tweet ${event.tweetId}`,
+                  event.mediaId && `media ${event.mediaId}`,
+                  event.userId && `user ${event.userId}`,
+                ]
+                  .filter(Boolean)
+                  .join(" · ")}
+              </span>
+            )}
+            {event.error && (
+              <span className="text-xs text-red-300">
+                {event.error.code !== undefined && `[${event.error.code}] `}
+                {event.error.message}
+              </span>
+            )}
+          </div>
+        </li>
+      ))}
+    </ol>
+  );
+}
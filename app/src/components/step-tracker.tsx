@@ -0,0 +1,135 @@
+import type { RunEventView } from "@/components/run-timeline";
+
+export interface StreamedText {
+  kind: "tweet" | "thread" | "reply";
+  text: string;
+}
+
+interface StepView {
+  step: string;
+  status: RunEventView["status"];
+  message: string;
+  count: number;
+}
+
+const severity: RunEventView["status"][] = [
+  "skipped",
+  "info",
+  "ok",
+  "warning",
+  "error",
+];
+
+const statusDot: Record<RunEventView["status"], string> = {
+  ok: "bg-emerald-400",
+  info: "bg-sky-400",
+  skipped: "bg-slate-500",
+  warning: "bg-amber-400",
+  error: "bg-red-400",
+};
+
+/** One row per step in order of first appearance, colored by its worst status. */
+const summarize = (events: RunEventView[]) => {
+  const steps = new Map<string, StepView>();
+
+  for (const event of events) {
+    const current = steps.get(event.step);
+    steps.set(event.step, {
+      step: event.step,
+      status:
+        current &&
+        severity.indexOf(current.status) > severity.indexOf(event.status)
+          ? current.status
+          : event.status,
+      message: event.message,
+      count: (current?.count ?? 0) + 1,
+    });
+  }
+
+  return [...steps.values()];
+};
+
+/** Threads stream as JSON; show the tweets written so far instead. */
+const readable = ({ kind, text }: StreamedText) => {
+  if (kind !== "thread") {
+    return text;
+  }
+  const tweets = [...text.matchAll(/"((?:[^"\\]|\\.)*)"?/g)]
+    .map((match) => match[1])
+    .filter((value) => value !== "tweets");
+  return tweets
+    .map((tweet) => {
+      try {
+        return JSON.parse(`"${tweet.replace(/\\$/, "")}"`) as string;
+      } catch {
+        return tweet;
+      }
+    })
+    .join("\n\n");
+};
+
+export default function StepTracker({
+  events,
+  text,
+  running,
+  onCancel,
+}: {
+  events: RunEventView[];
+  text: StreamedText | null;
+  running: boolean;
+  onCancel?: () => void;
+}) {
+  return (
+    <div className="flex flex-col gap-4 rounded-2xl border border-slate-800 bg-slate-950/60 p-6 text-sm text-slate-300">
+      <div className="flex items-center justify-between gap-4">
+        <h3 className="text-xs font-semibold uppercase tracking-wide text-slate-400">
+          Progress
+        </h3>
+        {running && onCancel && (
+          <button
+            type="button"
+            onClick={onCancel}
+            className="rounded-xl border border-slate-700 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-slate-300 transition hover:border-red-400 hover:text-red-300"
+          >
+            Cancel
+          </button>
+        )}
+      </div>
+      <ol className="space-y-2">
+        {summarize(events).map((step) => (
+          <li key={step.step} className="flex items-start gap-3">
+            <span
+              className={`mt-1.5 h-2 w-2 shrink-0 rounded-full ${statusDot[step.status]}`}
+            />
+            <span>
+              <span className="text-xs uppercase tracking-wide opacity-70">
+                {step.step}
+                {step.count > 1 && ` · ${step.count} events`}
+              </span>{" "}
+              {step.message}
+            </span>
+          </li>
+        ))}
+        {running && (
+          <li className="flex items-center gap-3 text-slate-400">
+            <span className="h-2 w-2 shrink-0 animate-pulse rounded-full bg-sky-400" />
+            Working...
+          </li>
+        )}
+      </ol>
+      {text && (
+        <div className="rounded-xl border border-slate-800 bg-slate-900 p-4">
+          <p className="text-xs uppercase tracking-wide text-slate-500">
+            {running ? `Writing ${text.kind}...` : `Last ${text.kind} draft`}
+          </p>
+          <p className="mt-2 whitespace-pre-line text-slate-100">
+            {readable(text)}
+            {running && (
+              <span className="ml-0.5 inline-block h-4 w-1.5 animate-pulse bg-sky-400 align-middle" />
+            )}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
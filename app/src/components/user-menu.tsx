@@ -0,0 +1,54 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+
+interface Actor {
+  type: "user" | "api-key" | "n8n";
+  id: string;
+  name: string;
+  role: "viewer" | "writer" | "publisher" | "admin";
+}
+
+/** Signed-in user and role, with links to admin and sign-out. */
+export default function UserMenu() {
+  const [actor, setActor] = useState<Actor | null>(null);
+
+  useEffect(() => {
+    fetch("/api/auth/me")
+      .then((response) => (response.ok ? response.json() : null))
+      .then((payload: { actor: Actor } | null) =>
+        setActor(payload?.actor ?? null)
+      )
+      .catch(() => setActor(null));
+  }, []);
+
+  const signOut = async () => {
+    await fetch("/api/auth/logout", { method: "POST" });
+    window.location.replace("/login");
+  };
+
+  if (!actor) {
+    return null;
+  }
+
+  return (
+    <div className="flex items-center gap-3 text-xs uppercase tracking-wide text-slate-400">
+      <span className="rounded-full border border-slate-800 px-3 py-1">
+        {actor.name} · <span className="text-sky-300">{actor.role}</span>
+      </span>
+      {actor.role === "admin" && (
+        <Link href="/admin" className="underline hover:text-slate-200">
+          Admin
+        </Link>
+      )}
+      <button
+        type="button"
+        onClick={signOut}
+        className="underline hover:text-slate-200"
+      >
+        Sign out
+      </button>
+    </div>
+  );
+}
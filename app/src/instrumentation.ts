@@ -0,0 +1,28 @@
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") {
+    return;
+  }
+
+  const mockPort = Number(process.env.TWITTER_MOCK_PORT);
+  if (mockPort > 0) {
+    const { createMockTwitterServer } = await import("./server/twitter-mock");
+    const url = await createMockTwitterServer().listen(mockPort);
+    process.env.TWITTER_API_BASE_URL ??= url;
+    console.info(`Mock Twitter API listening on ${url}`);
+  }
+
+  if (process.env.SCHEDULER_DISABLED !== "true") {
+    const { startJobWorker } = await import("./server/scheduler");
+    startJobWorker();
+  }
+
+  if (process.env.ANALYTICS_DISABLED !== "true") {
+    const { startMetricsCollector } = await import("./server/analytics");
+    startMetricsCollector();
+  }
+
+  if (process.env.MENTIONS_ENABLED === "true") {
+    const { startMentionPoller } = await import("./server/mentions");
+    startMentionPoller();
+  }
+}
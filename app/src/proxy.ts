@@ -0,0 +1,25 @@
+import { NextResponse, type NextRequest } from "next/server";
+
+/** `SESSION_COOKIE` in `src/server/auth.ts`; proxies should not import server modules. */
+const SESSION_COOKIE = "tas_session";
+
+/**
+ * Sends visitors without a session cookie to `/login`. Only an optimistic
+ * check: every API route authenticates and authorizes on its own.
+ */
+export function proxy(request: NextRequest) {
+  if (request.cookies.has(SESSION_COOKIE)) {
+    return NextResponse.next();
+  }
+
+  const login = new URL("/login", request.url);
+  login.searchParams.set(
+    "next",
+    `${request.nextUrl.pathname}${request.nextUrl.search}`
+  );
+  return NextResponse.redirect(login);
+}
+
+export const config = {
+  matcher: ["/((?!api|login|_next/static|_next/image|favicon.ico).*)"],
+};
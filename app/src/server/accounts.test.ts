@@ -0,0 +1,210 @@
+import assert from "node:assert/strict";
+import { randomBytes } from "crypto";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { POST as tweet } from "@/app/api/tweet/route";
+import {
+  accountCredentialsError,
+  AccountConnectionError,
+  accountTwitterClient,
+  completeAccountConnection,
+  getAccount,
+  startAccountConnection,
+} from "./accounts";
+import { actAs } from "./auth";
+import { pollMentions } from "./mentions";
+import type { RunLog } from "./run-log";
+import { MasterKeyError } from "./secrets";
+import { isolateDataDir } from "./test-helpers";
+import { createMockTwitterServer } from "./twitter-mock";
+
+isolateDataDir();
+
+const CALLBACK_URL = "http://localhost:3000/api/accounts/callback";
+// Shorter than the refresh margin, so every client build refreshes the token.
+const mock = createMockTwitterServer(undefined, { accessTokenTtlSeconds: 30 });
+const masterKey = () => randomBytes(32).toString("base64");
+
+before(async () => {
+  process.env.TWITTER_API_BASE_URL = await mock.listen();
+  process.env.TWITTER_APP_KEY = "app-key";
+  process.env.TWITTER_APP_SECRET = "app-secret";
+  process.env.TWITTER_CLIENT_ID = "client-id";
+});
+
+beforeEach(() => {
+  mock.reset();
+  process.env.CREDENTIALS_MASTER_KEY = masterKey();
+});
+
+after(() => mock.close());
+
+const connect = async (method: "oauth1" | "oauth2") =>
+  completeAccountConnection(
+    mock.consent(await startAccountConnection(method, CALLBACK_URL))
+  );
+
+describe("OAuth 1.0a", () => {
+  it("connects the account and stores its tokens encrypted", async () => {
+    const account = await connect("oauth1");
+
+    assert.equal(account.handle, "mockbrand");
+    assert.equal(account.twitterUserId, "1000");
+    assert.equal(account.authMethod, "oauth1");
+    assert.doesNotMatch(account.credentials, /access/);
+    assert.equal(mock.callsTo("POST /oauth/request_token").length, 1);
+    assert.equal(mock.callsTo("POST /oauth/access_token").length, 1);
+
+    const client = await accountTwitterClient(account);
+    assert.equal((await client!.v2.me()).data.username, "mockbrand");
+  });
+
+  it("refuses to reuse a callback", async () => {
+    const query = mock.consent(
+      await startAccountConnection("oauth1", CALLBACK_URL)
+    );
+    await completeAccountConnection(query);
+
+    await assert.rejects(
+      completeAccountConnection(query),
+      AccountConnectionError
+    );
+  });
+});
+
+describe("OAuth 2.0 with PKCE", () => {
+  it("exchanges the code with the session's verifier", async () => {
+    const url = new URL(await startAccountConnection("oauth2", CALLBACK_URL));
+    assert.equal(url.searchParams.get("code_challenge_method"), "s256");
+    assert.equal(url.searchParams.get("redirect_uri"), CALLBACK_URL);
+
+    const account = await completeAccountConnection(mock.consent(url.href));
+    const [exchange] = mock.callsTo("POST /2/oauth2/token");
+
+    assert.equal(account.authMethod, "oauth2");
+    assert.ok(account.scopes.includes("offline.access"));
+    assert.equal(exchange.body.grant_type, "authorization_code");
+    assert.equal(exchange.status, 200);
+  });
+
+  it("rejects an unknown state", async () => {
+    const query = mock.consent(
+      await startAccountConnection("oauth2", CALLBACK_URL)
+    );
+    query.set("state", "forged");
+
+    await assert.rejects(
+      completeAccountConnection(query),
+      AccountConnectionError
+    );
+  });
+
+  it("refreshes expiring tokens and keeps the rotated refresh token", async () => {
+    const account = await connect("oauth2");
+
+    const first = await accountTwitterClient(account);
+    const second = await accountTwitterClient((await getAccount(account.id))!);
+    const refreshes = mock
+      .callsTo("POST /2/oauth2/token")
+      .filter((call) => call.body.grant_type === "refresh_token");
+
+    // The second refresh only works with the token the first one stored.
+    assert.deepEqual(
+      refreshes.map((call) => call.status),
+      [200, 200]
+    );
+    assert.notEqual(
+      refreshes[0].body.refresh_token,
+      refreshes[1].body.refresh_token
+    );
+    assert.notDeepEqual(first!.getActiveTokens(), second!.getActiveTokens());
+    assert.equal((await second!.v2.me()).data.username, "mockbrand");
+  });
+
+  it("shares one refresh between concurrent requests", async () => {
+    const account = await connect("oauth2");
+
+    const clients = await Promise.all([
+      accountTwitterClient(account),
+      accountTwitterClient(account),
+    ]);
+    const refreshes = mock
+      .callsTo("POST /2/oauth2/token")
+      .filter((call) => call.body.grant_type === "refresh_token");
+
+    assert.equal(refreshes.length, 1);
+    for (const client of clients) {
+      assert.equal((await client!.v2.me()).data.username, "mockbrand");
+    }
+  });
+
+  it("asks to reconnect when the refresh token is refused", async () => {
+    const account = await connect("oauth2");
+    mock.fail({ endpoint: "POST /2/oauth2/token", status: 400, times: 1 });
+
+    const request = new Request("http://localhost/api/tweet", {
+      method: "POST",
+      body: JSON.stringify({
+        topic: "Token refresh",
+        niche: "operators",
+        tone: "calm",
+        accountId: account.id,
+      }),
+    });
+    actAs(request, { type: "user", id: "u1", name: "tester", role: "admin" });
+    const response = await tweet(request);
+
+    assert.equal(response.status, 401);
+    assert.match((await response.json()).error, /Reconnect the account/);
+  });
+});
+
+describe("master key problems", () => {
+  it("reports a rotated or missing key per account", async () => {
+    const account = await connect("oauth1");
+
+    process.env.CREDENTIALS_MASTER_KEY = masterKey();
+    assert.match(
+      (await accountCredentialsError(account.id)) ?? "",
+      /may have been rotated/
+    );
+    await assert.rejects(accountTwitterClient(account), MasterKeyError);
+
+    delete process.env.CREDENTIALS_MASTER_KEY;
+    assert.match(
+      (await accountCredentialsError(account.id)) ?? "",
+      /CREDENTIALS_MASTER_KEY is not set/
+    );
+  });
+
+  it("answers /api/tweet with a 503 instead of crashing", async () => {
+    const account = await connect("oauth1");
+    process.env.CREDENTIALS_MASTER_KEY = masterKey();
+
+    const request = new Request("http://localhost/api/tweet", {
+      method: "POST",
+      body: JSON.stringify({
+        topic: "Key rotation",
+        niche: "operators",
+        tone: "calm",
+        accountId: account.id,
+      }),
+    });
+    actAs(request, { type: "user", id: "u1", name: "tester", role: "admin" });
+    const response = await tweet(request);
+
+    assert.equal(response.status, 503);
+    assert.match((await response.json()).error, /CREDENTIALS_MASTER_KEY/);
+  });
+
+  it("skips only the broken account when polling mentions", async () => {
+    const account = await connect("oauth1");
+    process.env.CREDENTIALS_MASTER_KEY = masterKey();
+
+    const log: RunLog = [];
+    const result = await pollMentions(log, { accountId: account.id });
+
+    assert.deepEqual(result, { added: 0, skipped: 1 });
+    assert.equal(log[0].status, "error");
+    assert.match(log[0].message, new RegExp(account.id));
+  });
+});
@@ -0,0 +1,454 @@
+import { randomUUID } from "crypto";
+import {
+  ApiResponseError,
+  TwitterApi,
+  type TOAuth2Scope,
+} from "twitter-api-v2";
+import { z } from "zod";
+import { createQuotaPlugin } from "./quota";
+import {
+  decryptJson,
+  decryptSecret,
+  encryptJson,
+  encryptSecret,
+  MasterKeyError,
+} from "./secrets";
+import { createJsonStore } from "./store";
+import { twitterHttpAgent } from "./twitter-base-url";
+
+export type AccountAuthMethod = "oauth1" | "oauth2";
+
+type AccountCredentials =
+  | { type: "oauth1"; accessToken: string; accessSecret: string }
+  | {
+      type: "oauth2";
+      accessToken: string;
+      refreshToken?: string;
+      expiresAt: string;
+    };
+
+export const accountSettingsSchema = z.object({
+  label: z.string().trim().optional(),
+  defaultProfileId: z.string().optional(),
+  requireApproval: z.boolean().default(false),
+});
+
+export type AccountSettings = z.infer<typeof accountSettingsSchema>;
+
+export interface ConnectedAccount {
+  id: string;
+  twitterUserId: string;
+  handle: string;
+  authMethod: AccountAuthMethod;
+  scopes: string[];
+  /** `AccountCredentials` sealed with `CREDENTIALS_MASTER_KEY`. */
+  credentials: string;
+  settings: AccountSettings;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** What the API and dashboard see: everything but the sealed tokens. */
+export type AccountSummary = Omit<ConnectedAccount, "credentials">;
+
+interface OAuthSession {
+  /** OAuth 1.0a request token or OAuth 2.0 `state`. */
+  id: string;
+  method: AccountAuthMethod;
+  /** Sealed request token secret (1.0a) or PKCE code verifier (2.0). */
+  secret: string;
+  callbackUrl: string;
+  createdAt: string;
+}
+
+export class AccountConnectionError extends Error {
+  readonly code = "account_connection_failed";
+
+  constructor(message: string) {
+    super(message);
+    this.name = "AccountConnectionError";
+  }
+}
+
+/** Twitter refused the stored refresh token; only reconnecting helps. */
+export class AccountReauthorizationError extends Error {
+  readonly code = "account_reauthorization_required";
+
+  constructor(handle: string, cause: unknown) {
+    super(
+      `Could not refresh the tokens of @${handle}: ${(cause as Error).message}. Reconnect the account.`,
+      { cause }
+    );
+    this.name = "AccountReauthorizationError";
+  }
+}
+
+const OAUTH2_SCOPES: TOAuth2Scope[] = [
+  "tweet.read",
+  "tweet.write",
+  "users.read",
+  "follows.read",
+  "like.write",
+  "dm.read",
+  "dm.write",
+  "media.write",
+  "offline.access",
+];
+const SESSION_TTL_MS = 10 * 60_000;
+const REFRESH_MARGIN_MS = 60_000;
+
+const accountStore = createJsonStore<ConnectedAccount>("accounts");
+const sessionStore = createJsonStore<OAuthSession>("oauth-sessions");
+
+export const toAccountSummary = (
+  account: ConnectedAccount
+): AccountSummary => ({
+  id: account.id,
+  twitterUserId: account.twitterUserId,
+  handle: account.handle,
+  authMethod: account.authMethod,
+  scopes: account.scopes,
+  settings: account.settings,
+  createdAt: account.createdAt,
+  updatedAt: account.updatedAt,
+});
+
+export const listAccounts = async () =>
+  (await accountStore.list()).sort((a, b) => a.handle.localeCompare(b.handle));
+
+export const getAccount = (id: string) => accountStore.get(id);
+
+export const updateAccountSettings = (id: string, settings: AccountSettings) =>
+  accountStore.update(id, (current) => ({
+    ...current,
+    settings,
+    updatedAt: new Date().toISOString(),
+  }));
+
+export const deleteAccount = (id: string) => accountStore.remove(id);
+
+const oauth1App = () => {
+  const appKey = process.env.TWITTER_APP_KEY;
+  const appSecret = process.env.TWITTER_APP_SECRET;
+  return appKey && appSecret ? { appKey, appSecret } : null;
+};
+
+const oauth2App = () => {
+  const clientId = process.env.TWITTER_CLIENT_ID;
+  return clientId
+    ? { clientId, clientSecret: process.env.TWITTER_CLIENT_SECRET }
+    : null;
+};
+
+/** Token endpoints follow `TWITTER_API_BASE_URL` like every other call. */
+const oauthSettings = () => ({ httpAgent: twitterHttpAgent() });
+
+/** Auth methods the deployment has app credentials for. */
+export const availableAuthMethods = (): AccountAuthMethod[] => [
+  ...(oauth1App() ? (["oauth1"] as const) : []),
+  ...(oauth2App() ? (["oauth2"] as const) : []),
+];
+
+const sessionExpired = (session: OAuthSession) =>
+  Date.now() - Date.parse(session.createdAt) > SESSION_TTL_MS;
+
+/** Starts the user authorization flow and returns the URL to send them to. */
+export const startAccountConnection = async (
+  method: AccountAuthMethod,
+  callbackUrl: string
+) => {
+  const createdAt = new Date().toISOString();
+
+  for (const session of await sessionStore.list()) {
+    if (sessionExpired(session)) {
+      await sessionStore.remove(session.id);
+    }
+  }
+
+  if (method === "oauth1") {
+    const app = oauth1App();
+    if (!app) {
+      throw new AccountConnectionError(
+        "TWITTER_APP_KEY and TWITTER_APP_SECRET are required for OAuth 1.0a."
+      );
+    }
+    const link = await new TwitterApi(app, oauthSettings()).generateAuthLink(
+      callbackUrl,
+      {
+        linkMode: "authorize",
+      }
+    );
+    await sessionStore.put({
+      id: link.oauth_token,
+      method,
+      secret: encryptSecret(link.oauth_token_secret),
+      callbackUrl,
+      createdAt,
+    });
+    return link.url;
+  }
+
+  const app = oauth2App();
+  if (!app) {
+    throw new AccountConnectionError(
+      "TWITTER_CLIENT_ID is required for OAuth 2.0."
+    );
+  }
+  const link = new TwitterApi(app, oauthSettings()).generateOAuth2AuthLink(
+    callbackUrl,
+    {
+      scope: OAUTH2_SCOPES,
+    }
+  );
+  await sessionStore.put({
+    id: link.state,
+    method,
+    secret: encryptSecret(link.codeVerifier),
+    callbackUrl,
+    createdAt,
+  });
+  return link.url;
+};
+
+const takeSession = async (id: string, method: AccountAuthMethod) => {
+  const session = await sessionStore.get(id);
+  await sessionStore.remove(id);
+
+  if (!session || session.method !== method || sessionExpired(session)) {
+    throw new AccountConnectionError(
+      "Authorization session expired or unknown. Start the connection again."
+    );
+  }
+
+  return session;
+};
+
+const saveAccount = async (
+  profile: { twitterUserId: string; handle: string },
+  authMethod: AccountAuthMethod,
+  scopes: string[],
+  credentials: AccountCredentials
+) => {
+  const now = new Date().toISOString();
+  const existing = (await accountStore.list()).find(
+    (account) => account.twitterUserId === profile.twitterUserId
+  );
+
+  // Reconnecting an account refreshes its tokens but keeps its settings.
+  return accountStore.put({
+    id: existing?.id ?? randomUUID(),
+    ...profile,
+    authMethod,
+    scopes,
+    credentials: encryptJson(credentials),
+    settings: existing?.settings ?? { requireApproval: false },
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  });
+};
+
+/** Finishes the flow from the provider's callback query string. */
+export const completeAccountConnection = async (query: URLSearchParams) => {
+  if (query.get("denied") || query.get("error")) {
+    throw new AccountConnectionError("Authorization was denied.");
+  }
+
+  const oauthToken = query.get("oauth_token");
+  const oauthVerifier = query.get("oauth_verifier");
+
+  if (oauthToken && oauthVerifier) {
+    const app = oauth1App();
+    const session = await takeSession(oauthToken, "oauth1");
+    if (!app) {
+      throw new AccountConnectionError("OAuth 1.0a app credentials missing.");
+    }
+    const login = await new TwitterApi(
+      {
+        ...app,
+        accessToken: oauthToken,
+        accessSecret: decryptSecret(session.secret),
+      },
+      oauthSettings()
+    ).login(oauthVerifier);
+
+    return saveAccount(
+      { twitterUserId: login.userId, handle: login.screenName },
+      "oauth1",
+      [],
+      {
+        type: "oauth1",
+        accessToken: login.accessToken,
+        accessSecret: login.accessSecret,
+      }
+    );
+  }
+
+  const state = query.get("state");
+  const code = query.get("code");
+
+  if (state && code) {
+    const app = oauth2App();
+    const session = await takeSession(state, "oauth2");
+    if (!app) {
+      throw new AccountConnectionError("OAuth 2.0 client id missing.");
+    }
+    const login = await new TwitterApi(app, oauthSettings()).loginWithOAuth2({
+      code,
+      codeVerifier: decryptSecret(session.secret),
+      redirectUri: session.callbackUrl,
+    });
+    const me = await login.client.v2.me();
+
+    return saveAccount(
+      { twitterUserId: me.data.id, handle: me.data.username },
+      "oauth2",
+      login.scope,
+      {
+        type: "oauth2",
+        accessToken: login.accessToken,
+        refreshToken: login.refreshToken,
+        expiresAt: new Date(Date.now() + login.expiresIn * 1000).toISOString(),
+      }
+    );
+  }
+
+  throw new AccountConnectionError("Callback is missing the OAuth parameters.");
+};
+
+/** Refreshes in flight per account, so concurrent requests share one. */
+const refreshing = new Map<string, Promise<string>>();
+
+const expiring = (credentials: { expiresAt: string }) =>
+  Date.parse(credentials.expiresAt) - Date.now() <= REFRESH_MARGIN_MS;
+
+/**
+ * Twitter rotates the refresh token on every use, so the stored credentials
+ * are read again first: an earlier refresh may have replaced the ones
+ * `account` was loaded with.
+ */
+const refreshOAuth2Token = async (
+  app: NonNullable<ReturnType<typeof oauth2App>>,
+  account: ConnectedAccount
+) => {
+  const stored = (await getAccount(account.id)) ?? account;
+  const credentials = decryptJson<AccountCredentials>(stored.credentials);
+  if (
+    credentials.type !== "oauth2" ||
+    !credentials.refreshToken ||
+    !expiring(credentials)
+  ) {
+    return credentials.accessToken;
+  }
+
+  const refreshed = await new TwitterApi(app, oauthSettings())
+    .refreshOAuth2Token(credentials.refreshToken)
+    .catch((error) => {
+      // 400/401 mean the grant is gone; anything else may pass on a retry.
+      const revoked =
+        error instanceof ApiResponseError &&
+        (error.code === 400 || error.code === 401);
+      throw revoked
+        ? new AccountReauthorizationError(account.handle, error)
+        : error;
+    });
+  await accountStore.update(account.id, (current) => ({
+    ...current,
+    credentials: encryptJson({
+      type: "oauth2",
+      accessToken: refreshed.accessToken,
+      refreshToken: refreshed.refreshToken ?? credentials.refreshToken,
+      expiresAt: new Date(
+        Date.now() + refreshed.expiresIn * 1000
+      ).toISOString(),
+    } satisfies AccountCredentials),
+    updatedAt: new Date().toISOString(),
+  }));
+
+  return refreshed.accessToken;
+};
+
+/** OAuth 2.0 access tokens last two hours; refresh shortly before expiry. */
+const freshOAuth2Token = (
+  account: ConnectedAccount,
+  credentials: Extract<AccountCredentials, { type: "oauth2" }>
+) => {
+  const app = oauth2App();
+  if (!app || !credentials.refreshToken || !expiring(credentials)) {
+    return credentials.accessToken;
+  }
+
+  let refresh = refreshing.get(account.id);
+  if (!refresh) {
+    refresh = refreshOAuth2Token(app, account).finally(() =>
+      refreshing.delete(account.id)
+    );
+    refreshing.set(account.id, refresh);
+  }
+  return refresh;
+};
+
+/** Read/write client acting as the connected account. */
+export const accountTwitterClient = async (account: ConnectedAccount) => {
+  const credentials = decryptJson<AccountCredentials>(account.credentials);
+  const settings = {
+    plugins: [createQuotaPlugin({ accountId: account.id })],
+    httpAgent: twitterHttpAgent(),
+  };
+
+  if (credentials.type === "oauth1") {
+    const app = oauth1App();
+    return app
+      ? new TwitterApi(
+          {
+            ...app,
+            accessToken: credentials.accessToken,
+            accessSecret: credentials.accessSecret,
+          },
+          settings
+        )
+      : null;
+  }
+
+  return new TwitterApi(await freshOAuth2Token(account, credentials), settings);
+};
+
+/**
+ * Why the connected account's tokens cannot be used, e.g. after
+ * `CREDENTIALS_MASTER_KEY` was unset or rotated; undefined when they can.
+ */
+export const accountCredentialsError = async (accountId?: string) => {
+  const account = accountId ? await getAccount(accountId) : undefined;
+  if (!account) {
+    return undefined;
+  }
+
+  try {
+    decryptJson(account.credentials);
+    return undefined;
+  } catch (error) {
+    if (error instanceof MasterKeyError) {
+      return error.message;
+    }
+    throw error;
+  }
+};
+
+/** Fills the brief's brand profile from the account settings when unset. */
+export const withAccountDefaults = async <
+  T extends { accountId?: string; profileId?: string },
+>(
+  brief: T
+): Promise<T> => {
+  const account = brief.accountId
+    ? await getAccount(brief.accountId)
+    : undefined;
+
+  return brief.profileId || !account?.settings.defaultProfileId
+    ? brief
+    : { ...brief, profileId: account.settings.defaultProfileId };
+};
+
+/** `REQUIRE_APPROVAL=true` applies to every account; settings can add it per account. */
+export const approvalRequired = async (accountId?: string) =>
+  process.env.REQUIRE_APPROVAL === "true" ||
+  Boolean(accountId && (await getAccount(accountId))?.settings.requireApproval);
@@ -0,0 +1,113 @@
+import type OpenAI from "openai";
+import { IMAGE_STYLES } from "@/utils/image-options";
+import { generateWithFallback, type TextGenerator } from "./llm";
+import {
+  ALT_TEXT_MAX_LENGTH,
+  readMediaFile,
+  updateMediaAsset,
+  type MediaAsset,
+} from "./media";
+import { logEvent, since, type RunLog } from "./run-log";
+
+const VISION_PROMPT =
+  'Write alt text for this image for screen reader users: one or two plain sentences, under 250 characters, describing what it shows. Never start with "Image of" and never add hashtags.';
+
+const cleanAltText = (text: string) =>
+  text
+    .replace(/^["'\s]+|["'\s]+$/g, "")
+    .replace(/\s+/g, " ")
+    .slice(0, ALT_TEXT_MAX_LENGTH);
+
+const describeWithVision = async (
+  openai: OpenAI,
+  model: string,
+  asset: MediaAsset
+) => {
+  const data = await readMediaFile(asset);
+  const response = await openai.chat.completions.create({
+    model,
+    temperature: 0.2,
+    messages: [
+      {
+        role: "user",
+        content: [
+          { type: "text", text: VISION_PROMPT },
+          {
+            type: "image_url",
+            image_url: {
+              url: `data:${asset.mimeType};base64,${data.toString("base64")}`,
+            },
+          },
+        ],
+      },
+    ],
+  });
+
+  return response.choices[0]?.message?.content?.trim();
+};
+
+/**
+ * Alt text for a library asset, generated once and saved on the asset so
+ * reuse keeps it. A vision model describes the actual image when
+ * `ALT_TEXT_VISION_MODEL` is set; otherwise the text model writes it from
+ * the generation prompt. Uploads without a prompt get none unless vision is
+ * configured.
+ */
+export const ensureAltText = async (
+  asset: MediaAsset,
+  openai: OpenAI | null,
+  generator: TextGenerator,
+  log: RunLog
+) => {
+  if (asset.altText) {
+    return asset.altText;
+  }
+
+  const visionModel = process.env.ALT_TEXT_VISION_MODEL;
+  let altText: string | undefined;
+
+  // Placeholders are plain gradients; their prompt describes them better.
+  if (openai && visionModel && asset.source !== "mock") {
+    const started = Date.now();
+    try {
+      altText = await describeWithVision(openai, visionModel, asset);
+      logEvent(log, "media", "ok", `Described image with ${visionModel}.`, {
+        durationMs: since(started),
+      });
+    } catch (error) {
+      logEvent(
+        log,
+        "media",
+        "warning",
+        `${visionModel} could not describe the image. Using its prompt instead.`,
+        { durationMs: since(started), error }
+      );
+    }
+  }
+
+  if (!altText && asset.prompt) {
+    altText = await generateWithFallback(
+      generator,
+      {
+        kind: "alt-text",
+        prompt: asset.prompt,
+        style: asset.style && IMAGE_STYLES[asset.style].label,
+      },
+      log
+    );
+  }
+
+  altText = altText ? cleanAltText(altText) : undefined;
+  if (!altText) {
+    logEvent(
+      log,
+      "media",
+      "warning",
+      "No alt text for an uploaded image without a prompt. Add it in the preview or the media library."
+    );
+    return undefined;
+  }
+
+  await updateMediaAsset(asset.id, { altText });
+  return altText;
+};
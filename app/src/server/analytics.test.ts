@@ -0,0 +1,151 @@
+import assert from "node:assert/strict";
+import { after, before, beforeEach, describe, it } from "node:test";
+import {
+  collectMetrics,
+  createMetricsCollector,
+  getPostMetrics,
+} from "./analytics";
+import { ensureTwitterClient } from "./clients";
+import { recordPost } from "./posts";
+import type { RunLog } from "./run-log";
+import { MasterKeyError } from "./secrets";
+import { isolateDataDir } from "./test-helpers";
+import { createMockTwitterServer } from "./twitter-mock";
+
+isolateDataDir();
+
+const mock = createMockTwitterServer();
+
+before(async () => {
+  process.env.TWITTER_API_BASE_URL = await mock.listen();
+  process.env.TWITTER_APP_KEY = "app-key";
+  process.env.TWITTER_APP_SECRET = "app-secret";
+  process.env.TWITTER_ACCESS_TOKEN = "access-token";
+  process.env.TWITTER_ACCESS_SECRET = "access-secret";
+});
+
+beforeEach(() => mock.reset());
+
+after(() => mock.close());
+
+/** Posts a tweet on the mock and records it in the posts ledger. */
+const publish = async (text: string, accountId?: string) => {
+  const twitter = await ensureTwitterClient();
+  const { data } = await twitter!.v2.tweet(text);
+  await recordPost({
+    id: data.id,
+    kind: "tweet",
+    text,
+    accountId,
+    topic: "metrics",
+    niche: "analytics",
+    tone: "plain",
+    hasImage: false,
+  });
+  return data.id;
+};
+
+const recordMissing = (id: string) =>
+  recordPost({
+    id,
+    kind: "tweet",
+    text: "deleted later",
+    topic: "metrics",
+    niche: "analytics",
+    tone: "plain",
+    hasImage: false,
+  });
+
+describe("collectMetrics", () => {
+  it("snapshots public metrics and stops tracking deleted tweets", async () => {
+    const first = await publish("First tracked tweet");
+    const second = await publish("Second tracked tweet");
+    await recordMissing("8888");
+    const log: RunLog = [];
+
+    const result = await collectMetrics(log);
+
+    assert.deepEqual(result, { collected: 2, unavailable: 1, skipped: 0 });
+    const [lookup] = mock.callsTo("GET /2/tweets");
+    assert.deepEqual(lookup.query.ids.split(",").sort(), [
+      "8888",
+      first,
+      second,
+    ]);
+    assert.equal(lookup.query["tweet.fields"], "public_metrics");
+    assert.equal((await getPostMetrics(first))?.snapshots[0].impressions, 25);
+    assert.match(
+      (await getPostMetrics("8888"))?.unavailable ?? "",
+      /Could not find tweet/
+    );
+  });
+
+  it("waits for the collection interval unless forced", async () => {
+    const id = await publish("Tracked on an interval");
+    await collectMetrics([]);
+
+    assert.equal((await collectMetrics([])).collected, 0);
+    assert.equal(mock.callsTo("GET /2/tweets").length, 1);
+
+    const later = new Date(Date.now() + 61 * 60_000);
+    assert.equal((await collectMetrics([], { now: later })).collected, 1);
+    assert.equal((await collectMetrics([], { force: true })).collected, 1);
+    assert.equal((await getPostMetrics(id))?.snapshots.length, 3);
+  });
+
+  it("skips only the account whose client cannot be opened", async () => {
+    await publish("Default account tweet");
+    await publish("Broken account tweet", "broken");
+    const log: RunLog = [];
+
+    const result = await collectMetrics(log, {
+      clientFor: async (accountId) => {
+        if (accountId) {
+          throw new MasterKeyError("CREDENTIALS_MASTER_KEY is not set.");
+        }
+        return ensureTwitterClient();
+      },
+    });
+
+    assert.deepEqual(result, { collected: 1, unavailable: 0, skipped: 1 });
+    const failure = log.find((event) => event.status === "error");
+    assert.match(failure?.message ?? "", /account broken/);
+  });
+
+  it("skips a batch the API fails and retries it on the next run", async () => {
+    await publish("Collected after an outage");
+    mock.fail({ endpoint: "GET /2/tweets", status: 503, times: 1 });
+    const log: RunLog = [];
+
+    assert.deepEqual(await collectMetrics(log), {
+      collected: 0,
+      unavailable: 0,
+      skipped: 1,
+    });
+    assert.equal(log[0].status, "error");
+    assert.deepEqual(await collectMetrics([]), {
+      collected: 1,
+      unavailable: 0,
+      skipped: 0,
+    });
+    assert.deepEqual(
+      mock.callsTo("GET /2/tweets").map((call) => call.status),
+      [503, 200]
+    );
+  });
+});
+
+describe("metrics collector", () => {
+  it("collects on tick with an injected clock", async () => {
+    await publish("Collected by the worker");
+    const collector = createMetricsCollector({
+      now: () => new Date(Date.now() + 60_000),
+    });
+
+    assert.deepEqual(await collector.tick(), {
+      collected: 1,
+      unavailable: 0,
+      skipped: 0,
+    });
+  });
+});
@@ -0,0 +1,378 @@
+import type { TweetPublicMetricsV2, TwitterApi } from "twitter-api-v2";
+import { ensureTwitterClient } from "./clients";
+import { createPollingWorker, startPollingWorker } from "./polling-worker";
+import { listPosts, type PublishedPost } from "./posts";
+import { QuotaExceededError } from "./quota";
+import { logEvent, since, type RunLog } from "./run-log";
+import { createJsonStore } from "./store";
+
+export interface MetricSnapshot {
+  at: string;
+  impressions: number;
+  likes: number;
+  reposts: number;
+  replies: number;
+  quotes: number;
+  bookmarks: number;
+}
+
+/** Time series of one published post, keyed by tweet id like the posts ledger. */
+export interface PostMetrics {
+  id: string;
+  snapshots: MetricSnapshot[];
+  lastCollectedAt?: string;
+  /** Why Twitter stopped returning the tweet (deleted, protected); collection stops. */
+  unavailable?: string;
+}
+
+export interface PostPerformance extends PublishedPost {
+  latest?: MetricSnapshot;
+  engagements: number;
+  /** Engagements per impression; unset until impressions are reported. */
+  engagementRate?: number;
+}
+
+export interface Breakdown {
+  key: string;
+  posts: number;
+  impressions: number;
+  engagements: number;
+  engagementRate?: number;
+}
+
+export interface AnalyticsFilter {
+  accountId?: string;
+  profileId?: string;
+  niche?: string;
+}
+
+export interface CollectResult {
+  collected: number;
+  unavailable: number;
+  skipped: number;
+}
+
+export type TwitterClientFactory = (
+  accountId?: string
+) => Promise<TwitterApi | null>;
+
+/** Tweet ids per `GET /2/tweets` lookup. */
+const LOOKUP_BATCH = 100;
+const MAX_SNAPSHOTS = 500;
+const TOP_PERFORMERS = 5;
+
+const metricsStore = createJsonStore<PostMetrics>("post-metrics");
+
+const envNumber = (name: string, fallback: number) => {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+export const collectIntervalMinutes = () =>
+  envNumber("ANALYTICS_INTERVAL_MINUTES", 60);
+
+const maxAgeDays = () => envNumber("ANALYTICS_MAX_AGE_DAYS", 30);
+
+const toSnapshot = (
+  metrics: TweetPublicMetricsV2,
+  at: string
+): MetricSnapshot => ({
+  at,
+  impressions: metrics.impression_count ?? 0,
+  likes: metrics.like_count,
+  reposts: metrics.retweet_count,
+  replies: metrics.reply_count,
+  quotes: metrics.quote_count,
+  bookmarks: metrics.bookmark_count ?? 0,
+});
+
+export const engagementsOf = (snapshot?: MetricSnapshot) =>
+  snapshot
+    ? snapshot.likes +
+      snapshot.reposts +
+      snapshot.replies +
+      snapshot.quotes +
+      snapshot.bookmarks
+    : 0;
+
+const rate = (engagements: number, impressions: number) =>
+  impressions > 0 ? engagements / impressions : undefined;
+
+/**
+ * Posts due for a snapshot: published within `ANALYTICS_MAX_AGE_DAYS`, still
+ * available, and not collected in the last `ANALYTICS_INTERVAL_MINUTES`
+ * unless `force` is set.
+ */
+const duePosts = (
+  posts: PublishedPost[],
+  metrics: Map<string, PostMetrics>,
+  now: Date,
+  force: boolean
+) => {
+  const oldest = now.getTime() - maxAgeDays() * 24 * 60 * 60 * 1000;
+  const stale = now.getTime() - collectIntervalMinutes() * 60 * 1000;
+
+  return posts.filter((post) => {
+    const series = metrics.get(post.id);
+    if (series?.unavailable || Date.parse(post.publishedAt) < oldest) {
+      return false;
+    }
+    return (
+      force ||
+      !series?.lastCollectedAt ||
+      Date.parse(series.lastCollectedAt) <= stale
+    );
+  });
+};
+
+const appendSnapshot = (id: string, snapshot: MetricSnapshot) =>
+  metricsStore.upsert(id, (series) => ({
+    id,
+    snapshots: [...(series?.snapshots ?? []), snapshot].slice(-MAX_SNAPSHOTS),
+    lastCollectedAt: snapshot.at,
+  }));
+
+const markUnavailable = (id: string, reason: string, at: string) =>
+  metricsStore.upsert(id, (series) => ({
+    id,
+    snapshots: series?.snapshots ?? [],
+    lastCollectedAt: at,
+    unavailable: reason,
+  }));
+
+/**
+ * Fetches `public_metrics` for every due post, one lookup per 100 tweets and
+ * account, and appends a snapshot per tweet. A quota error stops that
+ * account until the next run.
+ */
+export const collectMetrics = async (
+  log: RunLog,
+  {
+    now = new Date(),
+    clientFor = ensureTwitterClient,
+    force = false,
+  }: { now?: Date; clientFor?: TwitterClientFactory; force?: boolean } = {}
+): Promise<CollectResult> => {
+  const result: CollectResult = { collected: 0, unavailable: 0, skipped: 0 };
+  const metrics = new Map(
+    (await metricsStore.list()).map((series) => [series.id, series])
+  );
+  const due = duePosts(await listPosts(), metrics, now, force);
+  const at = now.toISOString();
+  const byAccount = new Map<string | undefined, PublishedPost[]>();
+
+  for (const post of due) {
+    byAccount.set(post.accountId, [
+      ...(byAccount.get(post.accountId) ?? []),
+      post,
+    ]);
+  }
+
+  for (const [accountId, posts] of byAccount) {
+    const label = accountId ? `account ${accountId}` : "the default account";
+    let twitter: Awaited<ReturnType<TwitterClientFactory>>;
+
+    // One account's broken credentials (e.g. a rotated master key) only skip it.
+    try {
+      twitter = await clientFor(accountId);
+    } catch (error) {
+      result.skipped += posts.length;
+      logEvent(
+        log,
+        "analytics",
+        "error",
+        `Could not open the Twitter client for ${label}. Skipped ${posts.length} post(s).`,
+        { error }
+      );
+      continue;
+    }
+    if (!twitter) {
+      result.skipped += posts.length;
+      logEvent(
+        log,
+        "analytics",
+        "skipped",
+        `Twitter credentials missing for ${label}. Skipped ${posts.length} post(s).`
+      );
+      continue;
+    }
+
+    for (let start = 0; start < posts.length; start += LOOKUP_BATCH) {
+      const ids = posts
+        .slice(start, start + LOOKUP_BATCH)
+        .map((post) => post.id);
+      const started = Date.now();
+
+      try {
+        const response = await twitter.readOnly.v2.tweets(ids, {
+          "tweet.fields": ["public_metrics"],
+        });
+        for (const tweet of response.data ?? []) {
+          if (tweet.public_metrics) {
+            await appendSnapshot(
+              tweet.id,
+              toSnapshot(tweet.public_metrics, at)
+            );
+            result.collected += 1;
+          }
+        }
+        for (const error of response.errors ?? []) {
+          if (error.resource_id && ids.includes(error.resource_id)) {
+            await markUnavailable(
+              error.resource_id,
+              error.detail ?? error.title,
+              at
+            );
+            result.unavailable += 1;
+            logEvent(
+              log,
+              "analytics",
+              "warning",
+              `Tweet ${error.resource_id} is no longer available (${error.detail ?? error.title}). Stopped collecting it.`,
+              { tweetId: error.resource_id }
+            );
+          }
+        }
+        logEvent(
+          log,
+          "analytics",
+          "ok",
+          `Collected metrics for ${response.data?.length ?? 0}/${ids.length} post(s) of ${label}.`,
+          { durationMs: since(started) }
+        );
+      } catch (error) {
+        const quota = error instanceof QuotaExceededError;
+        result.skipped += quota ? posts.length - start : ids.length;
+        logEvent(
+          log,
+          "analytics",
+          "error",
+          `Could not collect metrics for ${label}.`,
+          { durationMs: since(started), error }
+        );
+        if (quota) {
+          break;
+        }
+      }
+    }
+  }
+
+  return result;
+};
+
+const performanceOf = (
+  post: PublishedPost,
+  series?: PostMetrics
+): PostPerformance => {
+  const latest = series?.snapshots.at(-1);
+  const engagements = engagementsOf(latest);
+  return {
+    ...post,
+    latest,
+    engagements,
+    engagementRate: rate(engagements, latest?.impressions ?? 0),
+  };
+};
+
+const breakdown = (
+  posts: PostPerformance[],
+  keyOf: (post: PostPerformance) => string
+) => {
+  const groups = new Map<string, Breakdown>();
+
+  for (const post of posts) {
+    const key = keyOf(post);
+    const group = groups.get(key) ?? {
+      key,
+      posts: 0,
+      impressions: 0,
+      engagements: 0,
+    };
+    group.posts += 1;
+    group.impressions += post.latest?.impressions ?? 0;
+    group.engagements += post.engagements;
+    groups.set(key, group);
+  }
+
+  return [...groups.values()]
+    .map((group) => ({
+      ...group,
+      engagementRate: rate(group.engagements, group.impressions),
+    }))
+    .sort((a, b) => b.engagements / b.posts - a.engagements / a.posts);
+};
+
+/** Latest metrics per post with top performers and breakdowns for the dashboard. */
+export const getAnalytics = async (filter: AnalyticsFilter = {}) => {
+  const metrics = new Map(
+    (await metricsStore.list()).map((series) => [series.id, series])
+  );
+  const posts = (await listPosts())
+    .filter(
+      (post) =>
+        (!filter.accountId || post.accountId === filter.accountId) &&
+        (!filter.profileId || post.profileId === filter.profileId) &&
+        (!filter.niche || post.niche === filter.niche)
+    )
+    .map((post) => performanceOf(post, metrics.get(post.id)));
+  // Posts without a snapshot yet would drag every average down.
+  const measured = posts.filter((post) => post.latest);
+
+  return {
+    posts,
+    topPerformers: [...measured]
+      .sort((a, b) => b.engagements - a.engagements)
+      .slice(0, TOP_PERFORMERS),
+    breakdowns: {
+      topic: breakdown(measured, (post) => post.topic),
+      tone: breakdown(measured, (post) => post.tone),
+      image: breakdown(measured, (post) =>
+        post.hasImage ? "With image" : "No image"
+      ),
+      hookStyle: breakdown(measured, (post) => post.hookStyle ?? "none"),
+    },
+  };
+};
+
+export const getPostMetrics = async (id: string) => {
+  const post = (await listPosts()).find((item) => item.id === id);
+  if (!post) {
+    return undefined;
+  }
+  const series = await metricsStore.get(id);
+  return {
+    ...performanceOf(post, series),
+    snapshots: series?.snapshots ?? [],
+    unavailable: series?.unavailable,
+  };
+};
+
+export interface MetricsCollectorOptions {
+  now?: () => Date;
+  clientFor?: TwitterClientFactory;
+  intervalMs?: number;
+}
+
+/** Periodic collector started alongside the job worker. */
+export const createMetricsCollector = ({
+  now = () => new Date(),
+  clientFor = ensureTwitterClient,
+  intervalMs = collectIntervalMinutes() * 60 * 1000,
+}: MetricsCollectorOptions = {}) =>
+  createPollingWorker({
+    name: "Metrics collection",
+    intervalMs,
+    run: async () => {
+      const log: RunLog = [];
+      const result = await collectMetrics(log, { now: now(), clientFor });
+      log
+        .filter((event) => event.status === "error")
+        .forEach((event) =>
+          console.error(`Metrics collection: ${event.message}`, event.error)
+        );
+      return result;
+    },
+  });
+
+export const startMetricsCollector = () =>
+  startPollingWorker("metricsCollector", createMetricsCollector);
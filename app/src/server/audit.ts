@@ -0,0 +1,52 @@
+import { randomUUID } from "crypto";
+import type { Actor } from "./auth";
+import { createJsonStore } from "./store";
+
+export type AuditOutcome = "ok" | "denied" | "failed";
+
+export interface AuditEntry {
+  id: string;
+  at: string;
+  actor: Actor;
+  /** `<subject>.<verb>`, e.g. `tweet.publish` or `apikey.create`. */
+  action: string;
+  outcome: AuditOutcome;
+  /** Id of the draft, account, user, ... the action touched. */
+  target?: string;
+  detail?: string;
+}
+
+const auditStore = createJsonStore<AuditEntry>("audit");
+
+export const recordAudit = (
+  actor: Actor,
+  action: string,
+  entry: { outcome?: AuditOutcome; target?: string; detail?: string } = {}
+) =>
+  auditStore.put({
+    id: randomUUID(),
+    at: new Date().toISOString(),
+    actor,
+    action,
+    outcome: entry.outcome ?? "ok",
+    target: entry.target,
+    detail: entry.detail,
+  });
+
+export const listAudit = async (
+  filter: {
+    action?: string;
+    actorId?: string;
+    outcome?: AuditOutcome;
+    limit?: number;
+  } = {}
+) =>
+  (await auditStore.list())
+    .filter(
+      (entry) =>
+        (!filter.action || entry.action.startsWith(filter.action)) &&
+        (!filter.actorId || entry.actor.id === filter.actorId) &&
+        (!filter.outcome || entry.outcome === filter.outcome)
+    )
+    .sort((a, b) => b.at.localeCompare(a.at))
+    .slice(0, filter.limit ?? 200);
@@ -0,0 +1,62 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { POST as login } from "@/app/api/auth/login/route";
+import { POST as setup } from "@/app/api/auth/setup/route";
+import { listAudit } from "./audit";
+import { listUsers } from "./auth";
+import { isolateDataDir } from "./test-helpers";
+
+isolateDataDir();
+
+const post = (
+  handler: (request: Request) => Promise<Response>,
+  body: unknown
+) =>
+  handler(
+    new Request("http://localhost/api/auth", {
+      method: "POST",
+      body: JSON.stringify(body),
+    })
+  );
+
+describe("first admin setup", () => {
+  it("creates a single admin when setups race", async () => {
+    const responses = await Promise.all(
+      ["first-admin", "second-admin", "third-admin"].map((username) =>
+        post(setup, { username, password: "correct horse battery" })
+      )
+    );
+
+    assert.deepEqual(
+      responses.map((response) => response.status).sort(),
+      [201, 409, 409]
+    );
+    assert.equal((await listUsers()).length, 1);
+  });
+});
+
+describe("POST /api/auth/login", () => {
+  it("audits successful and failed sign-ins", async () => {
+    await post(setup, { username: "owner", password: "correct horse battery" });
+
+    const failed = await post(login, {
+      username: "Owner",
+      password: "wrong password",
+    });
+    const signedIn = await post(login, {
+      username: "owner",
+      password: "correct horse battery",
+    });
+
+    assert.equal(failed.status, 401);
+    assert.equal(signedIn.status, 200);
+    const entries = await listAudit({ action: "user.login" });
+    assert.deepEqual(
+      entries.map((entry) => [entry.actor.name, entry.outcome]).sort(),
+      [
+        ["owner", "failed"],
+        ["owner", "ok"],
+      ]
+    );
+  });
+});
@@ -0,0 +1,406 @@
+import {
+  createHash,
+  randomBytes,
+  randomUUID,
+  scrypt,
+  timingSafeEqual,
+} from "crypto";
+import { promisify } from "util";
+import { z } from "zod";
+import { recordAudit } from "./audit";
+import { createJsonStore } from "./store";
+
+/** Each role can do everything the roles before it can. */
+export const ROLES = ["viewer", "writer", "publisher", "admin"] as const;
+
+export type Role = (typeof ROLES)[number];
+
+export const SESSION_COOKIE = "tas_session";
+const API_KEY_PREFIX = "tas_";
+
+export interface User {
+  id: string;
+  username: string;
+  role: Role;
+  /** `scrypt$<salt>$<hash>`, base64url. */
+  passwordHash: string;
+  disabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+  lastLoginAt?: string;
+}
+
+export type UserView = Omit<User, "passwordHash">;
+
+interface Session {
+  /** SHA-256 of the cookie token. */
+  id: string;
+  userId: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+export interface ApiKey {
+  id: string;
+  name: string;
+  role: Role;
+  /** First characters of the key, to tell keys apart in the UI. */
+  prefix: string;
+  keyHash: string;
+  createdBy: string;
+  createdAt: string;
+  lastUsedAt?: string;
+  revokedAt?: string;
+}
+
+export type ApiKeyView = Omit<ApiKey, "keyHash">;
+
+/** Who is making a request, as written to the audit trail. */
+export interface Actor {
+  type: "user" | "api-key" | "n8n";
+  id: string;
+  name: string;
+  role: Role;
+}
+
+export type AuthResult =
+  | { actor: Actor; error?: undefined }
+  | { actor?: undefined; error: string; status: 401 | 403 };
+
+const password = z.string().min(10, "Use at least 10 characters").max(200);
+
+export const credentialsSchema = z.object({
+  username: z.string().trim().min(1),
+  password: z.string().min(1),
+});
+
+export const userInputSchema = z.object({
+  username: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .regex(/^[a-z0-9._-]{3,40}$/, "3-40 letters, digits, dots, dashes"),
+  password,
+  role: z.enum(ROLES),
+});
+
+export const userUpdateSchema = z.object({
+  role: z.enum(ROLES).optional(),
+  password: password.optional(),
+  disabled: z.boolean().optional(),
+});
+
+export const apiKeyInputSchema = z.object({
+  name: z.string().trim().min(2).max(80),
+  role: z.enum(ROLES),
+});
+
+const userStore = createJsonStore<User>("users");
+const sessionStore = createJsonStore<Session>("sessions");
+const apiKeyStore = createJsonStore<ApiKey>("api-keys");
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keylen: number
+) => Promise<Buffer>;
+
+const sha256 = (value: string) =>
+  createHash("sha256").update(value).digest("base64url");
+
+export const sessionTtlMs = () => {
+  const hours = Number(process.env.SESSION_TTL_HOURS);
+  return (Number.isFinite(hours) && hours > 0 ? hours : 168) * 60 * 60 * 1000;
+};
+
+export const hasRole = (actual: Role, required: Role) =>
+  ROLES.indexOf(actual) >= ROLES.indexOf(required);
+
+const hashPassword = async (value: string) => {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(value, salt, 32);
+  return `scrypt$${salt.toString("base64url")}$${hash.toString("base64url")}`;
+};
+
+const verifyPassword = async (value: string, stored: string) => {
+  const [scheme, salt, hash] = stored.split("$");
+  if (scheme !== "scrypt" || !salt || !hash) {
+    return false;
+  }
+  const expected = Buffer.from(hash, "base64url");
+  const actual = await scryptAsync(
+    value,
+    Buffer.from(salt, "base64url"),
+    expected.length
+  );
+  return timingSafeEqual(actual, expected);
+};
+
+/** Checked against when the username is unknown, so both failures take as long. */
+let decoyHash: Promise<string> | undefined;
+
+const toUserView = (user: User): UserView => ({
+  id: user.id,
+  username: user.username,
+  role: user.role,
+  disabled: user.disabled,
+  createdAt: user.createdAt,
+  updatedAt: user.updatedAt,
+  lastLoginAt: user.lastLoginAt,
+});
+
+const toApiKeyView = (key: ApiKey): ApiKeyView => ({
+  id: key.id,
+  name: key.name,
+  role: key.role,
+  prefix: key.prefix,
+  createdBy: key.createdBy,
+  createdAt: key.createdAt,
+  lastUsedAt: key.lastUsedAt,
+  revokedAt: key.revokedAt,
+});
+
+export const listUsers = async () =>
+  (await userStore.list())
+    .map(toUserView)
+    .sort((a, b) => a.username.localeCompare(b.username));
+
+/** True until the first user exists; `/login` then offers admin setup. */
+export const needsSetup = async () => (await userStore.list()).length === 0;
+
+/**
+ * Adds a user unless the username is taken or, with `firstUser`, any user
+ * exists already. Returns undefined when refused.
+ */
+export const createUser = async (
+  input: z.infer<typeof userInputSchema>,
+  { firstUser = false } = {}
+) => {
+  const now = new Date().toISOString();
+  const user = await userStore.insertIf(
+    {
+      id: randomUUID(),
+      username: input.username,
+      role: input.role,
+      passwordHash: await hashPassword(input.password),
+      disabled: false,
+      createdAt: now,
+      updatedAt: now,
+    },
+    (users) =>
+      firstUser
+        ? users.length === 0
+        : !users.some((existing) => existing.username === input.username)
+  );
+  return user && toUserView(user);
+};
+
+export const updateUser = async (
+  id: string,
+  update: z.infer<typeof userUpdateSchema>
+) => {
+  const passwordHash = update.password
+    ? await hashPassword(update.password)
+    : undefined;
+  const user = await userStore.update(id, (current) => ({
+    ...current,
+    role: update.role ?? current.role,
+    disabled: update.disabled ?? current.disabled,
+    passwordHash: passwordHash ?? current.passwordHash,
+    updatedAt: new Date().toISOString(),
+  }));
+
+  if (user && (update.disabled || passwordHash)) {
+    await endSessionsOf(id);
+  }
+  return user && toUserView(user);
+};
+
+export const deleteUser = async (id: string) => {
+  await endSessionsOf(id);
+  return userStore.remove(id);
+};
+
+/** Other enabled admins besides `id`, so the last admin cannot lock everyone out. */
+export const otherAdmins = async (id: string) =>
+  (await userStore.list()).filter(
+    (user) => user.id !== id && user.role === "admin" && !user.disabled
+  ).length;
+
+const endSessionsOf = async (userId: string) => {
+  for (const session of await sessionStore.list()) {
+    if (session.userId === userId) {
+      await sessionStore.remove(session.id);
+    }
+  }
+};
+
+/** Checks credentials and opens a session; returns the cookie token. */
+export const login = async (username: string, secret: string) => {
+  const user = (await userStore.list()).find(
+    (candidate) => candidate.username === username.trim().toLowerCase()
+  );
+  decoyHash ??= hashPassword(randomBytes(16).toString("hex"));
+  const valid = await verifyPassword(
+    secret,
+    user?.passwordHash ?? (await decoyHash)
+  );
+  if (!user || !valid || user.disabled) {
+    return undefined;
+  }
+
+  const token = randomBytes(32).toString("base64url");
+  const now = Date.now();
+  const expired = (await sessionStore.list()).filter(
+    (session) => Date.parse(session.expiresAt) <= now
+  );
+  for (const session of expired) {
+    await sessionStore.remove(session.id);
+  }
+  await sessionStore.put({
+    id: sha256(token),
+    userId: user.id,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + sessionTtlMs()).toISOString(),
+  });
+  await userStore.update(user.id, (current) => ({
+    ...current,
+    lastLoginAt: new Date(now).toISOString(),
+  }));
+
+  return { token, user: toUserView(user) };
+};
+
+export const logout = (token: string) => sessionStore.remove(sha256(token));
+
+export const listApiKeys = async () =>
+  (await apiKeyStore.list())
+    .map(toApiKeyView)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+/** Creates a key; the plaintext is returned once and only its hash is kept. */
+export const createApiKey = async (
+  input: z.infer<typeof apiKeyInputSchema>,
+  createdBy: Actor
+) => {
+  const key = `${API_KEY_PREFIX}${randomBytes(24).toString("base64url")}`;
+  const stored = await apiKeyStore.put({
+    id: randomUUID(),
+    name: input.name,
+    role: input.role,
+    prefix: key.slice(0, API_KEY_PREFIX.length + 6),
+    keyHash: sha256(key),
+    createdBy: createdBy.name,
+    createdAt: new Date().toISOString(),
+  });
+  return { key, apiKey: toApiKeyView(stored) };
+};
+
+export const revokeApiKey = async (id: string) => {
+  const key = await apiKeyStore.update(id, (current) => ({
+    ...current,
+    revokedAt: current.revokedAt ?? new Date().toISOString(),
+  }));
+  return key && toApiKeyView(key);
+};
+
+const cookieValue = (request: Request, name: string) =>
+  request.headers
+    .get("cookie")
+    ?.split(";")
+    .map((part) => part.trim().split("="))
+    .find(([key]) => key === name)?.[1];
+
+export const sessionToken = (request: Request) =>
+  cookieValue(request, SESSION_COOKIE);
+
+const bearerKey = (request: Request) => {
+  const header = request.headers.get("authorization") ?? "";
+  const bearer = header.match(/^Bearer\s+(\S+)$/i)?.[1];
+  return bearer ?? request.headers.get("x-api-key") ?? undefined;
+};
+
+const delegated = new WeakMap<Request, Actor>();
+
+/**
+ * Lets a route that verified its own credential (the n8n shared secret)
+ * hand a request on to another handler as `actor`.
+ */
+export const actAs = (request: Request, actor: Actor) => {
+  delegated.set(request, actor);
+  return request;
+};
+
+/** The actor behind a session cookie or API key, if any is valid. */
+export const authenticate = async (
+  request: Request
+): Promise<Actor | undefined> => {
+  const trusted = delegated.get(request);
+  if (trusted) {
+    return trusted;
+  }
+
+  const key = bearerKey(request);
+  if (key?.startsWith(API_KEY_PREFIX)) {
+    const hash = sha256(key);
+    const apiKey = (await apiKeyStore.list()).find(
+      (candidate) => candidate.keyHash === hash && !candidate.revokedAt
+    );
+    if (!apiKey) {
+      return undefined;
+    }
+    await apiKeyStore.update(apiKey.id, (current) => ({
+      ...current,
+      lastUsedAt: new Date().toISOString(),
+    }));
+    return {
+      type: "api-key",
+      id: apiKey.id,
+      name: apiKey.name,
+      role: apiKey.role,
+    };
+  }
+
+  const token = sessionToken(request);
+  if (!token) {
+    return undefined;
+  }
+  const session = await sessionStore.get(sha256(token));
+  if (!session || Date.parse(session.expiresAt) <= Date.now()) {
+    return undefined;
+  }
+  const user = await userStore.get(session.userId);
+  if (!user || user.disabled) {
+    return undefined;
+  }
+  return { type: "user", id: user.id, name: user.username, role: user.role };
+};
+
+/**
+ * Authenticates the request and checks it has at least `role`. With an
+ * `action`, a signed-in actor without the role is written to the audit trail.
+ */
+export const authorize = async (
+  request: Request,
+  role: Role,
+  action?: string
+): Promise<AuthResult> => {
+  const actor = await authenticate(request);
+
+  if (!actor) {
+    return { error: "Authentication required", status: 401 };
+  }
+  if (!hasRole(actor.role, role)) {
+    if (action) {
+      await recordAudit(actor, action, {
+        outcome: "denied",
+        detail: `Needs ${role}`,
+      });
+    }
+    return {
+      error: `This action needs the ${role} role; ${actor.name} is ${actor.role}.`,
+      status: 403,
+    };
+  }
+  return { actor };
+};
@@ -0,0 +1,45 @@
+import OpenAI from "openai";
+import { TwitterApi } from "twitter-api-v2";
+import { accountTwitterClient, getAccount } from "./accounts";
+import { twitterQuotaPlugin } from "./quota";
+import { twitterHttpAgent } from "./twitter-base-url";
+
+export const ensureOpenAi = () => {
+  const apiKey = process.env.OPENAI_API_KEY;
+  if (!apiKey) {
+    return null;
+  }
+  return new OpenAI({ apiKey });
+};
+
+/**
+ * Client for a connected account, or for the `TWITTER_*` env credentials
+ * when no `accountId` is given.
+ */
+export const ensureTwitterClient = async (accountId?: string) => {
+  if (accountId) {
+    const account = await getAccount(accountId);
+    return account ? accountTwitterClient(account) : null;
+  }
+
+  const required = [
+    process.env.TWITTER_APP_KEY,
+    process.env.TWITTER_APP_SECRET,
+    process.env.TWITTER_ACCESS_TOKEN,
+    process.env.TWITTER_ACCESS_SECRET,
+  ];
+
+  if (required.some((value) => !value)) {
+    return null;
+  }
+
+  return new TwitterApi(
+    {
+      appKey: process.env.TWITTER_APP_KEY!,
+      appSecret: process.env.TWITTER_APP_SECRET!,
+      accessToken: process.env.TWITTER_ACCESS_TOKEN!,
+      accessSecret: process.env.TWITTER_ACCESS_SECRET!,
+    },
+    { plugins: [twitterQuotaPlugin], httpAgent: twitterHttpAgent() }
+  );
+};
@@ -0,0 +1,58 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { ensureTwitterClient } from "./clients";
+import {
+  contactId,
+  getContact,
+  setContactStatus,
+  syncDmOptOuts,
+} from "./contacts";
+import { isolateDataDir } from "./test-helpers";
+import { createMockTwitterServer, DEFAULT_MOCK_SEED } from "./twitter-mock";
+
+isolateDataDir();
+
+// Carol (2003) already replied "STOP" in the default seed.
+const mock = createMockTwitterServer({
+  ...DEFAULT_MOCK_SEED,
+  dmEvents: [
+    ...DEFAULT_MOCK_SEED.dmEvents,
+    { id: "4002", senderId: "2002", text: "stop", minutesAgo: 5 },
+  ],
+});
+
+before(async () => {
+  process.env.TWITTER_API_BASE_URL = await mock.listen();
+  process.env.TWITTER_APP_KEY = "app-key";
+  process.env.TWITTER_APP_SECRET = "app-secret";
+  process.env.TWITTER_ACCESS_TOKEN = "access-token";
+  process.env.TWITTER_ACCESS_SECRET = "access-secret";
+});
+
+after(() => mock.close());
+
+const sync = async () =>
+  syncDmOptOuts((await ensureTwitterClient())!, undefined, []);
+
+const statusOf = async (handle: string) =>
+  (await getContact(contactId(undefined, handle)))?.status;
+
+describe("syncDmOptOuts", () => {
+  it("does not replay an old stop after the contact was reactivated", async () => {
+    assert.equal(await sync(), 2);
+    assert.equal(await statusOf("carol"), "opted-out");
+
+    await setContactStatus(undefined, "carol", "active", "Asked to rejoin");
+
+    assert.equal(await sync(), 0);
+    assert.equal(await statusOf("carol"), "active");
+  });
+
+  it("never turns do-not-contact into opted-out", async () => {
+    await setContactStatus(undefined, "bob", "do-not-contact");
+
+    assert.equal(await sync(), 1);
+    assert.equal(await statusOf("bob"), "do-not-contact");
+    assert.equal(await statusOf("carol"), "opted-out");
+  });
+});
@@ -0,0 +1,336 @@
+import type { TwitterApi } from "twitter-api-v2";
+import { z } from "zod";
+import { logEvent, type RunLog } from "./run-log";
+import { createJsonStore } from "./store";
+
+export type ContactStatus = "active" | "opted-out" | "do-not-contact";
+
+export interface ContactEvent {
+  at: string;
+  type: "sent" | "failed" | "inbound" | "opted-out" | "blocked" | "unblocked";
+  message?: string;
+  detail?: string;
+}
+
+export interface Contact {
+  /** `<accountId or "default">:<lowercased handle>`. */
+  id: string;
+  /** Connected account the ledger entry belongs to; unset for env credentials. */
+  accountId?: string;
+  handle: string;
+  userId?: string;
+  status: ContactStatus;
+  /** When `status` last changed; older opt-out messages no longer apply. */
+  statusChangedAt?: string;
+  lastContactedAt?: string;
+  history: ContactEvent[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export const dmSkipSchema = z.object({
+  handle: z.string(),
+  reason: z.enum([
+    "opted-out",
+    "do-not-contact",
+    "cooldown",
+    "daily-limit",
+    "duplicate",
+    "missing-variables",
+    "invalid-template",
+  ]),
+  detail: z.string(),
+});
+
+export type DmSkip = z.infer<typeof dmSkipSchema>;
+
+export const contactStatusSchema = z.object({
+  status: z.enum(["active", "do-not-contact"]),
+  reason: z.string().trim().optional(),
+});
+
+export const doNotContactSchema = z.object({
+  handle: z.string().trim().min(1),
+  accountId: z.string().optional(),
+  reason: z.string().trim().optional(),
+});
+
+const DEFAULT_COOLDOWN_DAYS = 14;
+const DEFAULT_DAILY_LIMIT = 25;
+const MAX_HISTORY = 50;
+const DAY_MS = 24 * 60 * 60_000;
+const OPT_OUT_PATTERN =
+  /^\s*(stop|stop all|unsubscribe|opt[\s-]?out|cancel|end|quit)\W*$/i;
+
+const contactStore = createJsonStore<Contact>("contacts");
+
+const envNumber = (name: string, fallback: number) => {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+};
+
+export const dmCooldownDays = () =>
+  envNumber("DM_COOLDOWN_DAYS", DEFAULT_COOLDOWN_DAYS);
+
+export const dmDailyLimit = () =>
+  envNumber("DM_DAILY_LIMIT", DEFAULT_DAILY_LIMIT);
+
+export const normalizeHandle = (handle: string) =>
+  handle.trim().replace(/^@/, "").toLowerCase();
+
+export const contactId = (accountId: string | undefined, handle: string) =>
+  `${accountId ?? "default"}:${normalizeHandle(handle)}`;
+
+export const isOptOutMessage = (text: string) => OPT_OUT_PATTERN.test(text);
+
+export const listContacts = async (filter: {
+  accountId?: string;
+  status?: ContactStatus;
+}) =>
+  (await contactStore.list())
+    .filter(
+      (contact) =>
+        contact.accountId === filter.accountId &&
+        (!filter.status || contact.status === filter.status)
+    )
+    .sort((a, b) => a.handle.localeCompare(b.handle));
+
+export const getContact = (id: string) => contactStore.get(id);
+
+const appendEvent = (
+  accountId: string | undefined,
+  recipient: { handle: string; userId?: string },
+  event: ContactEvent,
+  patch: Partial<Pick<Contact, "status" | "lastContactedAt">> = {}
+) => {
+  const id = contactId(accountId, recipient.handle);
+
+  return contactStore.upsert(id, (contact) => {
+    const current = contact?.status ?? "active";
+    // Only an admin lifts do-not-contact; an opt-out does not replace it.
+    const status =
+      current === "do-not-contact" && patch.status === "opted-out"
+        ? current
+        : (patch.status ?? current);
+
+    return {
+      id,
+      accountId,
+      handle: contact?.handle ?? recipient.handle.replace(/^@/, ""),
+      userId: recipient.userId ?? contact?.userId,
+      lastContactedAt: contact?.lastContactedAt,
+      ...patch,
+      status,
+      statusChangedAt: status === current ? contact?.statusChangedAt : event.at,
+      history: [...(contact?.history ?? []), event].slice(-MAX_HISTORY),
+      createdAt: contact?.createdAt ?? event.at,
+      updatedAt: event.at,
+    };
+  });
+};
+
+const STATUS_EVENTS = new Set<ContactEvent["type"]>([
+  "opted-out",
+  "blocked",
+  "unblocked",
+]);
+
+/** Falls back to the history for contacts saved before `statusChangedAt`. */
+const lastStatusChange = (contact: Contact) =>
+  contact.statusChangedAt ??
+  contact.history.findLast((event) => STATUS_EVENTS.has(event.type))?.at;
+
+export const recordDm = (
+  accountId: string | undefined,
+  recipient: { handle: string; userId?: string; message: string },
+  outcome: "sent" | "failed",
+  detail?: string
+) => {
+  const at = new Date().toISOString();
+
+  return appendEvent(
+    accountId,
+    recipient,
+    { at, type: outcome, message: recipient.message, detail },
+    outcome === "sent" ? { lastContactedAt: at } : {}
+  );
+};
+
+/** Records a message from the recipient; "stop" and friends opt them out. */
+export const recordInboundDm = (
+  accountId: string | undefined,
+  sender: { handle: string; userId?: string },
+  text: string,
+  at = new Date().toISOString()
+) =>
+  isOptOutMessage(text)
+    ? appendEvent(
+        accountId,
+        sender,
+        { at, type: "opted-out", message: text },
+        { status: "opted-out" }
+      )
+    : appendEvent(accountId, sender, { at, type: "inbound", message: text });
+
+export const setContactStatus = async (
+  accountId: string | undefined,
+  handle: string,
+  status: "active" | "do-not-contact",
+  reason?: string
+) =>
+  appendEvent(
+    accountId,
+    { handle },
+    {
+      at: new Date().toISOString(),
+      type: status === "active" ? "unblocked" : "blocked",
+      detail: reason,
+    },
+    { status }
+  );
+
+const sentSince = (contacts: Contact[], since: number) =>
+  contacts.reduce(
+    (total, contact) =>
+      total +
+      contact.history.filter(
+        (event) => event.type === "sent" && Date.parse(event.at) >= since
+      ).length,
+    0
+  );
+
+/**
+ * Splits recipients into those we may message now and those skipped for
+ * consent, cooldown or the daily cap (counted per account, UTC day).
+ */
+export const screenRecipients = async <T extends { handle: string }>(
+  accountId: string | undefined,
+  recipients: T[],
+  now = new Date()
+) => {
+  const contacts = (await contactStore.list()).filter(
+    (contact) => contact.accountId === accountId
+  );
+  const byId = new Map(contacts.map((contact) => [contact.id, contact]));
+  const cooldownDays = dmCooldownDays();
+  const startOfDay = Date.UTC(
+    now.getUTCFullYear(),
+    now.getUTCMonth(),
+    now.getUTCDate()
+  );
+  let remaining = Math.max(dmDailyLimit() - sentSince(contacts, startOfDay), 0);
+  const seen = new Set<string>();
+  const allowed: T[] = [];
+  const skipped: DmSkip[] = [];
+
+  for (const recipient of recipients) {
+    const id = contactId(accountId, recipient.handle);
+    const contact = byId.get(id);
+    const handle = recipient.handle.replace(/^@/, "");
+    const skip = (reason: DmSkip["reason"], detail: string) =>
+      skipped.push({ handle, reason, detail });
+
+    if (seen.has(id)) {
+      skip("duplicate", "Listed more than once in this run.");
+    } else if (contact?.status === "opted-out") {
+      skip("opted-out", "Recipient asked us to stop messaging them.");
+    } else if (contact?.status === "do-not-contact") {
+      skip("do-not-contact", "Handle is on the do-not-contact list.");
+    } else if (
+      contact?.lastContactedAt &&
+      now.getTime() - Date.parse(contact.lastContactedAt) <
+        cooldownDays * DAY_MS
+    ) {
+      skip(
+        "cooldown",
+        `Messaged ${contact.lastContactedAt.slice(0, 10)}; cooldown is ${cooldownDays} days.`
+      );
+    } else if (remaining === 0) {
+      skip("daily-limit", `Daily DM limit of ${dmDailyLimit()} reached.`);
+    } else {
+      remaining -= 1;
+      allowed.push(recipient);
+    }
+    seen.add(id);
+  }
+
+  return { allowed, skipped };
+};
+
+export const logDmSkips = (skipped: DmSkip[], log: RunLog) => {
+  for (const skip of skipped) {
+    logEvent(log, "dm", "skipped", `Skipped @${skip.handle}: ${skip.detail}`, {
+      error: { message: skip.detail, code: skip.reason },
+    });
+  }
+};
+
+/**
+ * Reads recent DM events and opts out everyone who replied with a stop
+ * keyword. Safe to repeat: only stops sent after a contact's last status
+ * change count, so a contact set back to active stays active, and
+ * do-not-contact is left as it is.
+ */
+export const syncDmOptOuts = async (
+  twitter: TwitterApi,
+  accountId: string | undefined,
+  log: RunLog
+) => {
+  const me = await twitter.readOnly.v2.me();
+  const timeline = await twitter.readOnly.v2.listDmEvents({
+    event_types: "MessageCreate",
+    "dm_event.fields": ["sender_id", "text", "created_at"],
+    expansions: ["sender_id"],
+    "user.fields": ["username"],
+  });
+  const usernames = new Map(
+    timeline.includes.users.map((user) => [user.id, user.username])
+  );
+  let optedOut = 0;
+
+  for (const event of timeline.events) {
+    if (
+      event.event_type !== "MessageCreate" ||
+      !event.sender_id ||
+      event.sender_id === me.data.id ||
+      !isOptOutMessage(event.text)
+    ) {
+      continue;
+    }
+
+    const handle = usernames.get(event.sender_id);
+    if (!handle) {
+      continue;
+    }
+
+    const existing = await getContact(contactId(accountId, handle));
+    const changedAt = existing && lastStatusChange(existing);
+    if (
+      existing?.status === "opted-out" ||
+      existing?.status === "do-not-contact" ||
+      (changedAt &&
+        !(Date.parse(event.created_at ?? "") > Date.parse(changedAt)))
+    ) {
+      continue;
+    }
+
+    await recordInboundDm(
+      accountId,
+      { handle, userId: event.sender_id },
+      event.text,
+      event.created_at
+    );
+    optedOut += 1;
+  }
+
+  if (optedOut > 0) {
+    logEvent(
+      log,
+      "dm",
+      "info",
+      `Opted out ${optedOut} recipient(s) who replied "stop".`
+    );
+  }
+
+  return optedOut;
+};
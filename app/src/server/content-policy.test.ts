@@ -0,0 +1,47 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { checkText, type PolicyContext } from "./content-policy";
+
+const bannedTerms = (text: string, bannedPhrases: string[]) => {
+  const context: PolicyContext = { bannedPhrases, followedHandles: [] };
+  return checkText(text, "tweet", 0, context)
+    .filter((finding) => finding.rule === "banned-term")
+    .map((finding) => finding.message);
+};
+
+describe("banned terms", () => {
+  it("matches whole words case-insensitively", () => {
+    assert.deepEqual(bannedTerms("Our Crypto picks", ["crypto"]), [
+      'Uses banned term "crypto".',
+    ]);
+    assert.deepEqual(bannedTerms("cryptography tips", ["crypto"]), []);
+  });
+
+  it("matches terms that start or end with punctuation", () => {
+    assert.deepEqual(bannedTerms("New drop #ad", ["#ad"]), [
+      'Uses banned term "#ad".',
+    ]);
+    assert.deepEqual(bannedTerms("Make $$$ fast", ["$$$"]), [
+      'Uses banned term "$$$".',
+    ]);
+    assert.deepEqual(bannedTerms("Wow!!! Look", ["!!!"]), [
+      'Uses banned term "!!!".',
+    ]);
+  });
+
+  it("does not match punctuation terms inside longer words", () => {
+    assert.deepEqual(bannedTerms("An #adventure awaits", ["#ad"]), []);
+  });
+
+  it("adds the BANNED_TERMS environment list", () => {
+    process.env.BANNED_TERMS = "#spon, giveaway";
+    try {
+      assert.deepEqual(bannedTerms("#spon giveaway time", []), [
+        'Uses banned term "#spon".',
+        'Uses banned term "giveaway".',
+      ]);
+    } finally {
+      delete process.env.BANNED_TERMS;
+    }
+  });
+});
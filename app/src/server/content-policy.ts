@@ -0,0 +1,200 @@
+import { z } from "zod";
+import { TWEET_MAX_LENGTH, weightedLength } from "@/utils/tweet-length";
+
+export const DM_MAX_LENGTH = 10000;
+
+export const policyFindingSchema = z.object({
+  rule: z.enum([
+    "length",
+    "duplicate-hashtag",
+    "banned-term",
+    "unverifiable-claim",
+    "missing-disclosure",
+    "unfollowed-mention",
+    "missing-alt-text",
+  ]),
+  severity: z.enum(["error", "warning", "info"]),
+  target: z.enum(["tweet", "reply", "dm", "media"]),
+  /** Position of the text: thread order for tweets, target/recipient order otherwise. */
+  index: z.number().int().min(0),
+  message: z.string(),
+});
+
+export type PolicyFinding = z.infer<typeof policyFindingSchema>;
+export type PolicyTarget = PolicyFinding["target"];
+
+export interface PolicyContext {
+  bannedPhrases: string[];
+  /** Lowercased handles the account follows; mentions are unchecked when absent. */
+  followedHandles?: string[];
+}
+
+export interface PlanCopy {
+  tweet: string;
+  thread: string[];
+  engagementTargets: { reply?: string }[];
+  dmRecipients: { message: string }[];
+  media?: { altText?: string }[];
+}
+
+const CLAIM_PATTERN =
+  /\b(guaranteed?|risk[- ]free|100% (?:safe|effective|proven)|proven to|clinically proven|miracle cure|get rich quick|overnight success|no risk)\b/gi;
+const PROMOTIONAL_PATTERN =
+  /\b(buy|shop|order|discount|coupon|promo code|use code|sale|\d+% off|free trial|sign up|subscribe|link in bio|limited offer)\b/i;
+const DISCLOSURE_PATTERN =
+  /(#ad|#sponsored|#paid|#partner)\b|paid partnership/i;
+const MENTION_PATTERN = /(?:^|[^\w])@(\w{1,15})/g;
+const HASHTAG_PATTERN = /#(\w+)/g;
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Whole-word match for a banned term. Boundaries only apply on sides where the
+ * term has a word character, so `#ad` and `$$$` match too (`\b` never would).
+ */
+const termPattern = (term: string) =>
+  new RegExp(
+    `${/^\w/.test(term) ? "(?<!\\w)" : ""}${escapeRegExp(term)}${
+      /\w$/.test(term) ? "(?!\\w)" : ""
+    }`,
+    "i"
+  );
+
+/** Global banned terms from `BANNED_TERMS`, comma separated. */
+const envBannedTerms = () =>
+  (process.env.BANNED_TERMS ?? "")
+    .split(",")
+    .map((term) => term.trim())
+    .filter(Boolean);
+
+export const extractMentions = (text: string) =>
+  Array.from(text.matchAll(MENTION_PATTERN), (match) => match[1].toLowerCase());
+
+/** Runs every per-text rule against one tweet, reply or DM. */
+export const checkText = (
+  text: string,
+  target: PolicyTarget,
+  index: number,
+  context: PolicyContext
+): PolicyFinding[] => {
+  const findings: PolicyFinding[] = [];
+  const add = (
+    rule: PolicyFinding["rule"],
+    severity: PolicyFinding["severity"],
+    message: string
+  ) => findings.push({ rule, severity, target, index, message });
+
+  const limit = target === "dm" ? DM_MAX_LENGTH : TWEET_MAX_LENGTH;
+  const length = target === "dm" ? text.length : weightedLength(text);
+  if (length > limit) {
+    add("length", "error", `Text is ${length}/${limit} characters.`);
+  }
+
+  const seen = new Set<string>();
+  for (const [, tag] of text.matchAll(HASHTAG_PATTERN)) {
+    const key = tag.toLowerCase();
+    if (seen.has(key)) {
+      add("duplicate-hashtag", "warning", `#${tag} appears more than once.`);
+    }
+    seen.add(key);
+  }
+
+  for (const term of [...context.bannedPhrases, ...envBannedTerms()]) {
+    if (termPattern(term).test(text)) {
+      add("banned-term", "error", `Uses banned term "${term}".`);
+    }
+  }
+
+  const claims = new Set(
+    Array.from(text.matchAll(CLAIM_PATTERN), (match) => match[0].toLowerCase())
+  );
+  for (const claim of claims) {
+    add(
+      "unverifiable-claim",
+      "error",
+      `"${claim}" is an unverifiable claim; remove it or back it up.`
+    );
+  }
+
+  for (const handle of new Set(extractMentions(text))) {
+    if (!context.followedHandles) {
+      add(
+        "unfollowed-mention",
+        "info",
+        `Could not check whether @${handle} is followed.`
+      );
+    } else if (!context.followedHandles.includes(handle)) {
+      add(
+        "unfollowed-mention",
+        "warning",
+        `Mentions @${handle}, which this account does not follow.`
+      );
+    }
+  }
+
+  return findings;
+};
+
+/**
+ * Checks the posted tweet (all thread parts together) for promotional copy
+ * without an #ad style disclosure.
+ */
+export const checkDisclosure = (tweets: string[]): PolicyFinding[] => {
+  const text = tweets.join("\n");
+
+  return PROMOTIONAL_PATTERN.test(text) && !DISCLOSURE_PATTERN.test(text)
+    ? [
+        {
+          rule: "missing-disclosure",
+          severity: "error",
+          target: "tweet",
+          index: tweets.length - 1,
+          message: "Promotional call-to-action without an #ad disclosure.",
+        },
+      ]
+    : [];
+};
+
+/** Images posted without alt text are unreadable for screen reader users. */
+export const checkMedia = (media: { altText?: string }[]): PolicyFinding[] =>
+  media.flatMap((item, index): PolicyFinding[] =>
+    item.altText?.trim()
+      ? []
+      : [
+          {
+            rule: "missing-alt-text",
+            severity: "warning",
+            target: "media",
+            index,
+            message: "Image has no alt text.",
+          },
+        ]
+  );
+
+export const checkTweets = (tweets: string[], context: PolicyContext) => [
+  ...tweets.flatMap((text, index) => checkText(text, "tweet", index, context)),
+  ...checkDisclosure(tweets),
+];
+
+export const validatePlan = (plan: PlanCopy, context: PolicyContext) => [
+  ...checkTweets([plan.tweet, ...plan.thread], context),
+  ...plan.engagementTargets.flatMap((target, index) =>
+    target.reply ? checkText(target.reply, "reply", index, context) : []
+  ),
+  ...plan.dmRecipients.flatMap((recipient, index) =>
+    checkText(recipient.message, "dm", index, context)
+  ),
+  ...checkMedia(plan.media ?? []),
+];
+
+export const blockingFindings = (findings: PolicyFinding[]) =>
+  findings.filter((finding) => finding.severity === "error");
+
+/** Feedback lines handed back to the model on a regenerate pass. */
+export const findingFeedback = (findings: PolicyFinding[]) =>
+  findings.map((finding) =>
+    finding.target === "tweet" && finding.index > 0
+      ? `Tweet ${finding.index + 1}: ${finding.message}`
+      : finding.message
+  );
@@ -0,0 +1,58 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { isValidCron, nextCronDate } from "./cron";
+
+// Cron is evaluated in UTC whatever the host's zone is.
+process.env.TZ = "America/New_York";
+
+const next = (expression: string, after: string) =>
+  nextCronDate(expression, new Date(after))?.toISOString();
+
+describe("nextCronDate", () => {
+  it("returns the first occurrence strictly after the given time", () => {
+    assert.equal(
+      next("0 9 * * *", "2026-03-02T09:00:00.000Z"),
+      "2026-03-03T09:00:00.000Z"
+    );
+    assert.equal(
+      next("*/15 * * * *", "2026-03-02T09:07:30.000Z"),
+      "2026-03-02T09:15:00.000Z"
+    );
+  });
+
+  it("rolls over days, months and years in UTC", () => {
+    assert.equal(
+      next("30 23 * * *", "2026-01-31T23:45:00.000Z"),
+      "2026-02-01T23:30:00.000Z"
+    );
+    assert.equal(
+      next("0 0 1 1 *", "2026-12-31T23:59:00.000Z"),
+      "2027-01-01T00:00:00.000Z"
+    );
+    // New York switches to daylight time on 2026-03-08; UTC does not.
+    assert.equal(
+      next("0 9 * * *", "2026-03-08T09:00:00.000Z"),
+      "2026-03-09T09:00:00.000Z"
+    );
+  });
+
+  it("matches day-of-week in UTC", () => {
+    // 01:00 UTC on Saturday is still Friday evening in New York.
+    assert.equal(
+      next("0 1 * * 6", "2026-03-06T23:00:00.000Z"),
+      "2026-03-07T01:00:00.000Z"
+    );
+  });
+
+  it("gives up on expressions that never fire", () => {
+    assert.equal(next("0 0 31 2 *", "2026-01-01T00:00:00.000Z"), undefined);
+  });
+});
+
+describe("isValidCron", () => {
+  it("rejects malformed expressions", () => {
+    assert.equal(isValidCron("0 9 * * 1-5"), true);
+    assert.equal(isValidCron("0 9 * *"), false);
+    assert.equal(isValidCron("61 9 * * *"), false);
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Five-field cron expressions (`minute hour day-of-month month day-of-week`)
+ * evaluated in UTC. Supports `*`, lists, ranges and steps.
+ */
+
+const FIELD_RANGES: [number, number][] = [
+  [0, 59],
+  [0, 23],
+  [1, 31],
+  [1, 12],
+  [0, 7],
+];
+
+interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  dayRestricted: boolean;
+  weekdayRestricted: boolean;
+}
+
+const parseField = (field: string, [min, max]: [number, number]) => {
+  const values = new Set<number>();
+
+  for (const part of field.split(",")) {
+    const [range, stepText] = part.split("/");
+    const step = stepText === undefined ? 1 : Number(stepText);
+    let start: number;
+    let end: number;
+
+    if (range === "*") {
+      start = min;
+      end = max;
+    } else if (range.includes("-")) {
+      [start, end] = range.split("-").map(Number);
+    } else {
+      start = Number(range);
+      end = stepText === undefined ? start : max;
+    }
+
+    if (
+      !Number.isInteger(step) ||
+      step < 1 ||
+      !Number.isInteger(start) ||
+      !Number.isInteger(end) ||
+      start < min ||
+      end > max ||
+      start > end
+    ) {
+      throw new Error(`Invalid cron field "${field}"`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+};
+
+export const parseCron = (expression: string): CronSchedule => {
+  const fields = expression.trim().split(/\s+/);
+
+  if (fields.length !== 5) {
+    throw new Error(
+      `Cron expression must have 5 fields, received ${fields.length}`
+    );
+  }
+
+  const [minutes, hours, days, months, weekdays] = fields.map((field, index) =>
+    parseField(field, FIELD_RANGES[index])
+  );
+
+  if (weekdays.has(7)) {
+    weekdays.delete(7);
+    weekdays.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    days,
+    months,
+    weekdays,
+    dayRestricted: fields[2] !== "*",
+    weekdayRestricted: fields[4] !== "*",
+  };
+};
+
+export const isValidCron = (expression: string) => {
+  try {
+    parseCron(expression);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const matchesDay = (cron: CronSchedule, date: Date) => {
+  const dayMatch = cron.days.has(date.getUTCDate());
+  const weekdayMatch = cron.weekdays.has(date.getUTCDay());
+
+  if (cron.dayRestricted && cron.weekdayRestricted) {
+    return dayMatch || weekdayMatch;
+  }
+  if (cron.dayRestricted) {
+    return dayMatch;
+  }
+  if (cron.weekdayRestricted) {
+    return weekdayMatch;
+  }
+  return true;
+};
+
+/** Returns the first occurrence strictly after `after`, or null within 5 years. */
+export const nextCronDate = (expression: string, after: Date) => {
+  const cron = parseCron(expression);
+  const date = new Date(after.getTime());
+  date.setUTCSeconds(0, 0);
+  date.setUTCMinutes(date.getUTCMinutes() + 1);
+  const limit = after.getTime() + 5 * 366 * 24 * 60 * 60 * 1000;
+
+  while (date.getTime() <= limit) {
+    if (!cron.months.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0);
+      continue;
+    }
+    if (!matchesDay(cron, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0);
+      continue;
+    }
+    if (!cron.hours.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0);
+      continue;
+    }
+    if (!cron.minutes.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1);
+      continue;
+    }
+    return date;
+  }
+
+  return null;
+};
@@ -0,0 +1,300 @@
+import { randomUUID } from "crypto";
+import type { TwitterApi } from "twitter-api-v2";
+import { z } from "zod";
+import { MAX_TWEET_IMAGES } from "@/utils/image-options";
+import type { DmSkip } from "./contacts";
+import { blockingFindings } from "./content-policy";
+import {
+  ALT_TEXT_MAX_LENGTH,
+  getMediaAsset,
+  toPlanMedia,
+  updateMediaAsset,
+} from "./media";
+import { publicationInProgress, type PublishStepOutcome } from "./publications";
+import { logEvent, type RunLog } from "./run-log";
+import { createJsonStore } from "./store";
+import {
+  applyVariant,
+  briefSchema,
+  publishTweetPlan,
+  reviewTweetPlan,
+  type ThreadPublishState,
+  type TweetBrief,
+  type TweetPlan,
+} from "./tweet-pipeline";
+
+export type DraftStatus = "draft" | "approved" | "published" | "rejected";
+
+export interface Draft {
+  id: string;
+  status: DraftStatus;
+  request: TweetBrief;
+  plan: TweetPlan;
+  log: RunLog;
+  createdAt: string;
+  updatedAt: string;
+  reviewedAt?: string;
+  rejectionReason?: string;
+  tweetId?: string;
+  tweetUrl?: string;
+  thread?: ThreadPublishState;
+  /** DM recipients the contact ledger held back when publishing. */
+  dmSkipped?: DmSkip[];
+  /** Outcome of each publishing step, across approval attempts. */
+  steps?: PublishStepOutcome[];
+}
+
+export const approveSchema = z.object({
+  /** Variant to publish; `tweet`/`thread` edits apply on top of it. */
+  variantId: z.string().optional(),
+  tweet: z.string().trim().min(1).optional(),
+  thread: z.array(z.string().trim().min(1)).optional(),
+  /** Media library assets to attach, in order; replaces the plan's media. */
+  mediaAssetIds: z.array(z.string()).max(MAX_TWEET_IMAGES).optional(),
+  /** Reviewed alt text by asset id; also saved on the library asset. */
+  altTexts: z
+    .record(z.string(), z.string().trim().max(ALT_TEXT_MAX_LENGTH))
+    .optional(),
+});
+
+export const rejectSchema = z.object({
+  reason: z.string().trim().optional(),
+});
+
+const draftStore = createJsonStore<Draft>("drafts");
+
+/** Statuses a draft may still be approved or rejected from. */
+export const reviewableStatuses: DraftStatus[] = ["draft", "approved"];
+
+export const createDraft = (
+  request: TweetBrief,
+  plan: TweetPlan,
+  log: RunLog
+) => {
+  const now = new Date().toISOString();
+
+  return draftStore.put({
+    id: randomUUID(),
+    status: "draft",
+    request: briefSchema.parse(request),
+    plan,
+    log: [...log],
+    createdAt: now,
+    updatedAt: now,
+  });
+};
+
+export const listDrafts = async (status?: DraftStatus) =>
+  (await draftStore.list())
+    .filter((draft) => !status || draft.status === status)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+export const getDraft = (id: string) => draftStore.get(id);
+
+const selectMedia = async (
+  plan: TweetPlan,
+  assetIds: string[],
+  log: RunLog
+) => {
+  const media: TweetPlan["media"] = [];
+
+  for (const assetId of assetIds) {
+    const existing = plan.media.find((item) => item.assetId === assetId);
+    const asset = existing ? undefined : await getMediaAsset(assetId);
+    const item = existing ?? (asset && toPlanMedia(asset));
+    if (item) {
+      media.push(item);
+    } else {
+      logEvent(
+        log,
+        "review",
+        "warning",
+        `Media asset ${assetId} not found. Continuing without it.`
+      );
+    }
+  }
+
+  logEvent(
+    log,
+    "review",
+    "info",
+    `Reviewer attached ${media.length} image(s) before approval.`
+  );
+  return media;
+};
+
+const applyAltTexts = async (
+  media: TweetPlan["media"],
+  altTexts: Record<string, string>,
+  log: RunLog
+) => {
+  let edited = 0;
+  const next: TweetPlan["media"] = [];
+
+  for (const item of media) {
+    const altText = item.assetId ? altTexts[item.assetId] : undefined;
+    if (
+      !item.assetId ||
+      altText === undefined ||
+      altText === (item.altText ?? "")
+    ) {
+      next.push(item);
+      continue;
+    }
+    await updateMediaAsset(item.assetId, { altText: altText || undefined });
+    next.push({ ...item, altText: altText || undefined });
+    edited += 1;
+  }
+
+  if (edited > 0) {
+    logEvent(
+      log,
+      "review",
+      "info",
+      `Reviewer edited alt text on ${edited} image(s).`
+    );
+  }
+  return next;
+};
+
+/** Publications of approved drafts are keyed by the draft. */
+const publicationKey = (draft: Draft) => `draft:${draft.id}`;
+
+const ALREADY_PUBLISHING = "This draft is already being published.";
+
+/**
+ * `error` is set, and the draft left as it is, when another approval of the
+ * draft is still publishing it.
+ */
+export interface ApprovalResult {
+  draft?: Draft;
+  error?: string;
+}
+
+export const approveDraft = async (
+  draft: Draft,
+  edits: z.infer<typeof approveSchema>,
+  twitter: TwitterApi | null,
+  log: RunLog
+): Promise<ApprovalResult> => {
+  const now = new Date().toISOString();
+  const logStart = log.length;
+  const refuse = async () => {
+    logEvent(log, "review", "error", ALREADY_PUBLISHING);
+    return { draft: await getDraft(draft.id), error: ALREADY_PUBLISHING };
+  };
+  if (publicationInProgress(publicationKey(draft))) {
+    return refuse();
+  }
+  const base = edits.variantId
+    ? applyVariant(draft.plan, edits.variantId, log)
+    : draft.plan;
+  let plan = {
+    ...base,
+    tweet: edits.tweet ?? base.tweet,
+    thread: edits.thread ?? base.thread,
+    media: edits.mediaAssetIds
+      ? await selectMedia(draft.plan, edits.mediaAssetIds, log)
+      : draft.plan.media,
+  };
+
+  if (edits.altTexts) {
+    plan.media = await applyAltTexts(plan.media, edits.altTexts, log);
+  }
+
+  if (
+    plan.tweet !== base.tweet ||
+    plan.thread.join("\n") !== base.thread.join("\n")
+  ) {
+    logEvent(
+      log,
+      "review",
+      "info",
+      "Reviewer edited the tweet copy before approval."
+    );
+  }
+  plan = await reviewTweetPlan(draft.request, plan, twitter, log);
+
+  if (blockingFindings(plan.findings).length > 0) {
+    logEvent(
+      log,
+      "review",
+      "error",
+      "Approval refused: the draft still has content policy errors."
+    );
+    return {
+      draft: await draftStore.update(draft.id, (current) => ({
+        ...current,
+        plan,
+        log: [...current.log, ...log.slice(logStart)],
+        updatedAt: now,
+      })),
+    };
+  }
+  logEvent(log, "review", "ok", "Draft approved.");
+
+  await draftStore.update(draft.id, (current) => ({
+    ...current,
+    status: "approved",
+    plan,
+    reviewedAt: now,
+    updatedAt: now,
+  }));
+
+  if (!twitter) {
+    logEvent(
+      log,
+      "publish",
+      "skipped",
+      "Twitter credentials missing. Draft stays approved until publishing is possible."
+    );
+    return {
+      draft: await draftStore.update(draft.id, (current) => ({
+        ...current,
+        log: [...current.log, ...log.slice(logStart)],
+      })),
+    };
+  }
+
+  // Approving again after a failed attempt resumes it instead of starting over.
+  const published = await publishTweetPlan(twitter, plan, log, draft.request, {
+    idempotencyKey: publicationKey(draft),
+  });
+  if (published.inProgress) {
+    return refuse();
+  }
+
+  // A thread that stopped part-way stays approved, so approving again
+  // resumes it.
+  return {
+    draft: await draftStore.update(draft.id, (current) => ({
+      ...current,
+      status:
+        published.tweetId && !published.thread?.error
+          ? "published"
+          : "approved",
+      tweetId: published.tweetId,
+      tweetUrl: published.tweetUrl,
+      thread: published.thread,
+      dmSkipped: published.dmSkipped,
+      steps: published.steps,
+      log: [...current.log, ...log.slice(logStart)],
+      updatedAt: new Date().toISOString(),
+    })),
+  };
+};
+
+export const rejectDraft = (id: string, reason?: string) => {
+  const now = new Date().toISOString();
+  const log: RunLog = [];
+  logEvent(log, "review", "info", reason ? `Rejected: ${reason}` : "Rejected.");
+
+  return draftStore.update(id, (current) => ({
+    ...current,
+    status: "rejected",
+    rejectionReason: reason,
+    reviewedAt: now,
+    updatedAt: now,
+    log: [...current.log, ...log],
+  }));
+};
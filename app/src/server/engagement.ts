@@ -0,0 +1,297 @@
+import { randomUUID } from "crypto";
+import type { TweetV2, TwitterApi, UserV2 } from "twitter-api-v2";
+import { z } from "zod";
+import { createJsonStore } from "./store";
+
+/** Recent search accepts queries up to 512 characters. */
+const MAX_QUERY_LENGTH = 512;
+const SEARCH_PAGE_SIZE = 50;
+const DEFAULT_DEDUP_DAYS = 7;
+const DAY_MS = 24 * 60 * 60_000;
+
+const handleList = z
+  .array(z.string().trim().min(1))
+  .default([])
+  .transform((handles) => handles.map((handle) => handle.replace(/^@/, "")));
+
+export const targetingSchema = z.object({
+  /** Any of these must match; defaults to the brief's topic and niche. */
+  keywords: z.array(z.string().trim().min(1)).default([]),
+  excludeKeywords: z.array(z.string().trim().min(1)).default([]),
+  fromAccounts: handleList,
+  excludeAccounts: handleList,
+  minFollowers: z.number().int().min(0).default(0),
+  minLikes: z.number().int().min(0).default(0),
+  language: z
+    .string()
+    .regex(/^[a-z]{2}$/, "Use a two-letter language code")
+    .default("en"),
+  /** Only tweets newer than this; recent search covers the last 7 days. */
+  maxAgeHours: z
+    .number()
+    .int()
+    .min(1)
+    .max(7 * 24)
+    .default(24),
+  includeReplies: z.boolean().default(false),
+  maxTargets: z.number().int().min(1).max(10).default(1),
+});
+
+export type TargetingConfig = z.infer<typeof targetingSchema>;
+
+export type EngagementAction = "like" | "retweet" | "reply";
+
+export interface EngagementRecord {
+  id: string;
+  accountId?: string;
+  tweetId: string;
+  authorId?: string;
+  action: EngagementAction;
+  at: string;
+}
+
+export interface ScoredCandidate {
+  tweet: TweetV2;
+  author?: UserV2;
+  score: number;
+  reasons: string[];
+}
+
+export interface TargetSelection {
+  query: string;
+  picked: ScoredCandidate[];
+  /** Rejection reason → number of candidates dropped for it. */
+  rejected: Record<string, number>;
+  considered: number;
+}
+
+const engagementStore = createJsonStore<EngagementRecord>("engagements");
+
+export const engagementDedupDays = () => {
+  const days = Number(process.env.ENGAGEMENT_DEDUP_DAYS);
+  return Number.isFinite(days) && days >= 0 ? days : DEFAULT_DEDUP_DAYS;
+};
+
+const quoteTerm = (term: string) =>
+  /\s/.test(term) ? `"${term.replace(/"/g, "")}"` : term;
+
+const anyOf = (terms: string[]) =>
+  terms.length > 1 ? `(${terms.join(" OR ")})` : (terms[0] ?? "");
+
+/** Twitter v2 search query for the config; `fallbackKeywords` when it has none. */
+export const buildSearchQuery = (
+  targeting: TargetingConfig,
+  fallbackKeywords: string[]
+) => {
+  const keywords = (
+    targeting.keywords.length > 0 ? targeting.keywords : fallbackKeywords
+  ).filter(Boolean);
+
+  const query = [
+    anyOf(keywords.map(quoteTerm)),
+    anyOf(targeting.fromAccounts.map((handle) => `from:${handle}`)),
+    ...targeting.excludeAccounts.map((handle) => `-from:${handle}`),
+    ...targeting.excludeKeywords.map((term) => `-${quoteTerm(term)}`),
+    "-is:retweet",
+    targeting.includeReplies ? "" : "-is:reply",
+    `lang:${targeting.language}`,
+  ]
+    .filter(Boolean)
+    .join(" ");
+
+  if (query.length > MAX_QUERY_LENGTH) {
+    throw new Error(
+      `Search query is ${query.length} characters; Twitter allows ${MAX_QUERY_LENGTH}. Trim the keyword or account lists.`
+    );
+  }
+
+  return query;
+};
+
+const compact = (value: number) =>
+  new Intl.NumberFormat("en", { notation: "compact" }).format(value);
+
+/**
+ * Ranks a candidate by engagement, keyword relevance, freshness and author
+ * reach. Every term adds a human-readable reason so previews can show why a
+ * tweet was picked.
+ */
+export const scoreCandidate = (
+  tweet: TweetV2,
+  author: UserV2 | undefined,
+  keywords: string[],
+  maxAgeHours: number,
+  now = new Date()
+) => {
+  const reasons: string[] = [];
+  const metrics = tweet.public_metrics;
+  let score = 0;
+
+  if (metrics) {
+    const interactions =
+      metrics.like_count + 2 * metrics.retweet_count + metrics.reply_count;
+    score += Math.log10(1 + interactions) * 2;
+    reasons.push(
+      `${metrics.like_count} likes, ${metrics.retweet_count} retweets, ${metrics.reply_count} replies`
+    );
+  }
+
+  const text = tweet.text.toLowerCase();
+  const matched = keywords.filter((keyword) =>
+    text.includes(keyword.toLowerCase())
+  );
+  if (matched.length > 0) {
+    score += matched.length * 1.5;
+    reasons.push(`mentions ${matched.join(", ")}`);
+  }
+
+  if (tweet.created_at) {
+    const ageHours = (now.getTime() - Date.parse(tweet.created_at)) / 3_600_000;
+    score += Math.max(0, 1 - ageHours / maxAgeHours) * 2;
+    reasons.push(`posted ${Math.max(0, Math.round(ageHours))}h ago`);
+  }
+
+  const followers = author?.public_metrics?.followers_count;
+  if (followers !== undefined) {
+    score += Math.log10(1 + followers);
+    reasons.push(`author has ${compact(followers)} followers`);
+  }
+
+  const hashtags = tweet.text.match(/#\w+/g)?.length ?? 0;
+  if (hashtags > 3) {
+    score -= 1.5;
+    reasons.push(`${hashtags} hashtags (likely promotional)`);
+  }
+
+  return { score: Math.round(score * 100) / 100, reasons };
+};
+
+const recentEngagements = async (accountId: string | undefined, now: Date) => {
+  const cutoff = now.getTime() - engagementDedupDays() * DAY_MS;
+  return (await engagementStore.list()).filter(
+    (record) =>
+      record.accountId === accountId && Date.parse(record.at) >= cutoff
+  );
+};
+
+/** Whether we already engaged with this tweet or its author inside the window. */
+export const alreadyEngaged = async (
+  accountId: string | undefined,
+  target: { tweetId: string; authorId?: string },
+  now = new Date()
+) =>
+  (await recentEngagements(accountId, now)).some(
+    (record) =>
+      record.tweetId === target.tweetId ||
+      (target.authorId !== undefined && record.authorId === target.authorId)
+  );
+
+export const recordEngagement = async (
+  accountId: string | undefined,
+  target: { tweetId: string; authorId?: string },
+  action: EngagementAction,
+  now = new Date()
+) => {
+  const cutoff = now.getTime() - engagementDedupDays() * DAY_MS;
+
+  // Drop records that fell out of the window so the store stays small.
+  for (const record of await engagementStore.list()) {
+    if (Date.parse(record.at) < cutoff) {
+      await engagementStore.remove(record.id);
+    }
+  }
+
+  return engagementStore.put({
+    id: randomUUID(),
+    accountId,
+    tweetId: target.tweetId,
+    authorId: target.authorId,
+    action,
+    at: now.toISOString(),
+  });
+};
+
+/**
+ * Searches recent tweets for the targeting config, drops candidates that
+ * fail its thresholds or were engaged with before, and returns the best
+ * `maxTargets` by score, at most one per author.
+ */
+export const selectEngagementTargets = async (
+  twitter: TwitterApi,
+  targeting: TargetingConfig,
+  fallbackKeywords: string[],
+  accountId: string | undefined,
+  now = new Date()
+): Promise<TargetSelection> => {
+  const query = buildSearchQuery(targeting, fallbackKeywords);
+  const keywords =
+    targeting.keywords.length > 0 ? targeting.keywords : fallbackKeywords;
+  const [me, results, history] = await Promise.all([
+    twitter.readOnly.v2.me(),
+    twitter.readOnly.v2.search(query, {
+      max_results: SEARCH_PAGE_SIZE,
+      start_time: new Date(
+        now.getTime() - targeting.maxAgeHours * 3_600_000
+      ).toISOString(),
+      expansions: ["author_id"],
+      "tweet.fields": ["created_at", "public_metrics", "author_id"],
+      "user.fields": ["username", "public_metrics"],
+    }),
+    recentEngagements(accountId, now),
+  ]);
+
+  const engagedTweets = new Set(history.map((record) => record.tweetId));
+  const engagedAuthors = new Set(
+    history.flatMap((record) => (record.authorId ? [record.authorId] : []))
+  );
+  const rejected: Record<string, number> = {};
+  const reject = (reason: string) => {
+    rejected[reason] = (rejected[reason] ?? 0) + 1;
+  };
+  const candidates: ScoredCandidate[] = [];
+  const tweets = results.tweets ?? [];
+
+  for (const tweet of tweets) {
+    const author = results.includes.author(tweet);
+
+    if (tweet.author_id === me.data.id) {
+      reject("own tweet");
+    } else if (engagedTweets.has(tweet.id)) {
+      reject("tweet engaged recently");
+    } else if (tweet.author_id && engagedAuthors.has(tweet.author_id)) {
+      reject("author engaged recently");
+    } else if ((tweet.public_metrics?.like_count ?? 0) < targeting.minLikes) {
+      reject(`under ${targeting.minLikes} likes`);
+    } else if (
+      (author?.public_metrics?.followers_count ?? 0) < targeting.minFollowers
+    ) {
+      reject(`author under ${targeting.minFollowers} followers`);
+    } else {
+      candidates.push({
+        tweet,
+        author,
+        ...scoreCandidate(tweet, author, keywords, targeting.maxAgeHours, now),
+      });
+    }
+  }
+
+  const picked: ScoredCandidate[] = [];
+  const pickedAuthors = new Set<string>();
+
+  for (const candidate of candidates.sort((a, b) => b.score - a.score)) {
+    if (picked.length === targeting.maxTargets) {
+      break;
+    }
+    const authorId = candidate.tweet.author_id;
+    if (authorId && pickedAuthors.has(authorId)) {
+      reject("same author as a better candidate");
+      continue;
+    }
+    if (authorId) {
+      pickedAuthors.add(authorId);
+    }
+    picked.push(candidate);
+  }
+
+  return { query, picked, rejected, considered: tweets.length };
+};
@@ -0,0 +1,28 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { importInputSchema, validateImport } from "./imports";
+import { isolateDataDir } from "./test-helpers";
+
+isolateDataDir();
+
+describe("validateImport", () => {
+  it("reports rows for accounts that are not connected", async () => {
+    const { rows } = await validateImport(
+      importInputSchema.parse({
+        csv: [
+          "topic,niche,tone,account_id",
+          "Onboarding,saas founders,practical,",
+          "Pricing,saas founders,practical,deleted-account",
+        ].join("\n"),
+      })
+    );
+
+    assert.deepEqual(
+      rows.map((row) => row.status),
+      ["queued", "invalid"]
+    );
+    assert.deepEqual(rows[1].errors, [
+      { path: "accountId", message: "Account not found" },
+    ]);
+  });
+});
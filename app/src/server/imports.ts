@@ -0,0 +1,532 @@
+import { randomUUID } from "crypto";
+import { z } from "zod";
+import { forEachLimited } from "@/utils/concurrency";
+import { parseCsv, toCsv } from "@/utils/csv";
+import { listAccounts, withAccountDefaults } from "./accounts";
+import type { Actor } from "./auth";
+import { ensureOpenAi, ensureTwitterClient } from "./clients";
+import {
+  approveDraft,
+  createDraft,
+  getDraft,
+  reviewableStatuses,
+  type Draft,
+} from "./drafts";
+import type { RunLog } from "./run-log";
+import { recordRun } from "./runs";
+import { createJsonStore } from "./store";
+import { briefSchema, buildTweetPlan } from "./tweet-pipeline";
+
+export const MAX_IMPORT_ROWS = 200;
+
+export type ImportRowStatus =
+  "invalid" | "queued" | "generating" | "drafted" | "failed";
+
+export interface ImportIssue {
+  /** Dotted field path, e.g. `targeting.minLikes`; empty for the whole row. */
+  path: string;
+  message: string;
+}
+
+export interface ImportRow {
+  /** 1-based position among the data rows. */
+  row: number;
+  /** The row as read, after `defaults` were applied. */
+  input: Record<string, unknown>;
+  status: ImportRowStatus;
+  errors?: ImportIssue[];
+  draftId?: string;
+  runId?: string;
+  error?: string;
+}
+
+export interface ImportBatch {
+  id: string;
+  /** File name or label shown in the batch list. */
+  name: string;
+  format: "csv" | "json";
+  createdBy: string;
+  /** CSV columns that match no brief field. */
+  ignoredColumns: string[];
+  rows: ImportRow[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ImportRowView extends ImportRow {
+  draft?: Pick<
+    Draft,
+    "status" | "plan" | "tweetUrl" | "reviewedAt" | "rejectionReason"
+  >;
+}
+
+export const importInputSchema = z
+  .object({
+    name: z.string().trim().max(120).optional(),
+    /** CSV text with a header row naming brief fields. */
+    csv: z.string().optional(),
+    /** Brief objects, as sent to `/api/tweet`. */
+    rows: z.array(z.unknown()).optional(),
+    /** Fields applied to every row that leaves them empty. */
+    defaults: z.record(z.string(), z.unknown()).default({}),
+    /** Only validate; nothing is stored or generated. */
+    validateOnly: z.boolean().default(false),
+  })
+  .refine((value) => (value.csv === undefined) !== (value.rows === undefined), {
+    message: "Provide either csv or rows",
+  });
+
+export const importApproveSchema = z.object({
+  /** Rows to approve; every drafted row still awaiting review when unset. */
+  rows: z.array(z.number().int().min(1)).optional(),
+});
+
+const importStore = createJsonStore<ImportBatch>("imports");
+
+/** Batches with drafts being generated in this process. */
+const generating = new Map<string, Promise<void>>();
+
+export const importConcurrency = () => {
+  const value = Number(process.env.IMPORT_CONCURRENCY);
+  return Number.isInteger(value) && value >= 1 ? Math.min(value, 10) : 3;
+};
+
+/** Cells holding lists, split on commas, semicolons or pipes. */
+const LIST_FIELDS = new Set([
+  "hashtags",
+  "engagementModes",
+  "hookStyles",
+  "image.assetIds",
+  "targeting.keywords",
+  "targeting.excludeKeywords",
+  "targeting.fromAccounts",
+  "targeting.excludeAccounts",
+]);
+
+const NUMBER_FIELDS = new Set([
+  "maxTweets",
+  "variants",
+  "image.variants",
+  "targeting.minFollowers",
+  "targeting.minLikes",
+  "targeting.maxAgeHours",
+  "targeting.maxTargets",
+]);
+
+const BOOLEAN_FIELDS = new Set(["autoImage", "targeting.includeReplies"]);
+
+const TEXT_FIELDS = [
+  "topic",
+  "niche",
+  "tone",
+  "callToAction",
+  "dmTarget",
+  "dmMessage",
+  "format",
+  "profileId",
+  "accountId",
+  "llm.provider",
+  "llm.model",
+  "image.mode",
+  "image.prompt",
+  "image.style",
+  "image.aspectRatio",
+  "targeting.language",
+];
+
+const columnKey = (name: string) => name.toLowerCase().replace(/[^a-z]/g, "");
+
+/** Header spellings to field paths: `Call to action`, `call_to_action`, `CTA`, ... */
+const COLUMNS = new Map([
+  ...[...TEXT_FIELDS, ...LIST_FIELDS, ...NUMBER_FIELDS, ...BOOLEAN_FIELDS].map(
+    (path) => [columnKey(path), path] as const
+  ),
+  ["cta", "callToAction"],
+  ["hashtag", "hashtags"],
+  ["provider", "llm.provider"],
+  ["model", "llm.model"],
+]);
+
+const cellValue = (path: string, cell: string): unknown => {
+  if (LIST_FIELDS.has(path)) {
+    const separator = path === "hashtags" ? /[,;|\s]+/ : /[,;|]/;
+    return cell
+      .split(separator)
+      .map((item) => item.trim())
+      .filter(Boolean);
+  }
+  if (NUMBER_FIELDS.has(path) && /^-?\d+(\.\d+)?$/.test(cell)) {
+    return Number(cell);
+  }
+  if (BOOLEAN_FIELDS.has(path) && /^(true|false|yes|no|1|0)$/i.test(cell)) {
+    return /^(true|yes|1)$/i.test(cell);
+  }
+  return cell;
+};
+
+const setPath = (
+  target: Record<string, unknown>,
+  path: string,
+  value: unknown
+) => {
+  const [head, ...rest] = path.split(".");
+  if (rest.length === 0) {
+    target[head] = value;
+    return;
+  }
+  const child = (target[head] ??= {}) as Record<string, unknown>;
+  setPath(child, rest.join("."), value);
+};
+
+/** Rows of a CSV file as brief objects; empty cells are left out. */
+export const csvToRows = (csv: string) => {
+  const [header = [], ...lines] = parseCsv(csv);
+  const paths = header.map((name) => COLUMNS.get(columnKey(name)));
+  const ignoredColumns = header.filter(
+    (name, index) => name.trim() && !paths[index]
+  );
+  const rows = lines.map((cells) => {
+    const row: Record<string, unknown> = {};
+    cells.forEach((cell, index) => {
+      const path = paths[index];
+      if (path && cell.trim()) {
+        setPath(row, path, cellValue(path, cell.trim()));
+      }
+    });
+    return row;
+  });
+
+  return { rows, ignoredColumns };
+};
+
+const issuesOf = (error: z.ZodError): ImportIssue[] =>
+  error.issues.map((issue) => ({
+    path: issue.path.join("."),
+    message: issue.message,
+  }));
+
+const withDefaults = (row: unknown, defaults: Record<string, unknown>) =>
+  row && typeof row === "object" && !Array.isArray(row)
+    ? { ...defaults, ...(row as Record<string, unknown>) }
+    : row;
+
+/**
+ * Reads and validates every row against the brief schema and the connected
+ * accounts. Rows are reported one by one instead of failing the whole file.
+ */
+export const validateImport = async (
+  input: z.infer<typeof importInputSchema>
+) => {
+  const { rows, ignoredColumns } =
+    input.csv !== undefined
+      ? csvToRows(input.csv)
+      : { rows: input.rows ?? [], ignoredColumns: [] };
+  const accountIds = new Set(
+    (await listAccounts()).map((account) => account.id)
+  );
+
+  const checked = rows.map((raw, index) => {
+    const row = withDefaults(raw, input.defaults);
+    const parsed = briefSchema.safeParse(row);
+    const errors = parsed.success ? [] : issuesOf(parsed.error);
+    if (parsed.data?.accountId && !accountIds.has(parsed.data.accountId)) {
+      errors.push({ path: "accountId", message: "Account not found" });
+    }
+    const imported: ImportRow = {
+      row: index + 1,
+      input:
+        row && typeof row === "object" ? (row as Record<string, unknown>) : {},
+      status: errors.length > 0 ? "invalid" : "queued",
+    };
+    if (errors.length > 0) {
+      imported.errors = errors;
+    }
+    return imported;
+  });
+
+  return {
+    format: input.csv !== undefined ? ("csv" as const) : ("json" as const),
+    rows: checked,
+    ignoredColumns,
+  };
+};
+
+export const createImport = async (
+  name: string | undefined,
+  { format, rows, ignoredColumns }: Awaited<ReturnType<typeof validateImport>>,
+  actor: Actor
+) => {
+  const now = new Date().toISOString();
+
+  return importStore.put({
+    id: randomUUID(),
+    name: name || `Import ${now.slice(0, 16).replace("T", " ")}`,
+    format,
+    createdBy: actor.name,
+    ignoredColumns,
+    rows,
+    createdAt: now,
+    updatedAt: now,
+  });
+};
+
+export const listImports = async () =>
+  (await importStore.list()).sort((a, b) =>
+    b.createdAt.localeCompare(a.createdAt)
+  );
+
+export const getImport = (id: string) => importStore.get(id);
+
+/** Row counts per status, for the batch list. */
+export const summarizeImport = ({ rows, ...batch }: ImportBatch) => ({
+  ...batch,
+  total: rows.length,
+  counts: Object.fromEntries(
+    [...new Set(rows.map((row) => row.status))].map((status) => [
+      status,
+      rows.filter((row) => row.status === status).length,
+    ])
+  ) as Partial<Record<ImportRowStatus, number>>,
+  generating: generating.has(batch.id),
+});
+
+export const importInProgress = (id: string) => generating.has(id);
+
+const updateRow = (id: string, row: number, patch: Partial<ImportRow>) =>
+  importStore.update(id, (current) => ({
+    ...current,
+    rows: current.rows.map((candidate) =>
+      candidate.row === row ? { ...candidate, ...patch } : candidate
+    ),
+    updatedAt: new Date().toISOString(),
+  }));
+
+const draftRow = async (batch: ImportBatch, row: ImportRow) => {
+  const startedAt = Date.now();
+  const log: RunLog = [];
+  await updateRow(batch.id, row.row, { status: "generating" });
+
+  try {
+    const brief = await withAccountDefaults(briefSchema.parse(row.input));
+    const plan = await buildTweetPlan(
+      brief,
+      {
+        openai: ensureOpenAi(),
+        twitter: await ensureTwitterClient(brief.accountId),
+      },
+      log
+    );
+    const draft = await createDraft(brief, plan, log);
+    const run = await recordRun({
+      kind: "draft",
+      input: { importId: batch.id, row: row.row, ...brief },
+      events: log,
+      startedAt,
+      draftId: draft.id,
+    });
+    await updateRow(batch.id, row.row, {
+      status: "drafted",
+      draftId: draft.id,
+      runId: run.id,
+      error: undefined,
+    });
+  } catch (error) {
+    const run = await recordRun({
+      kind: "draft",
+      input: { importId: batch.id, row: row.row, ...row.input },
+      events: log,
+      startedAt,
+      error: (error as Error).message,
+    });
+    await updateRow(batch.id, row.row, {
+      status: "failed",
+      runId: run.id,
+      error: (error as Error).message,
+    });
+  }
+};
+
+/**
+ * Drafts every queued or failed row through the regular pipeline, at most
+ * `importConcurrency()` at a time, in the background. Rows left `generating`
+ * by a restart are picked up again. Resolves once the batch is done.
+ */
+export const generateImportDrafts = (batch: ImportBatch) => {
+  const running = generating.get(batch.id);
+  if (running) {
+    return running;
+  }
+
+  const pending = batch.rows.filter((row) =>
+    ["queued", "generating", "failed"].includes(row.status)
+  );
+  const work = forEachLimited(pending, importConcurrency(), (row) =>
+    draftRow(batch, row)
+  ).finally(() => generating.delete(batch.id));
+  generating.set(batch.id, work);
+  return work;
+};
+
+/** Rows with their drafts' current state, for the results table and export. */
+export const describeImport = async (batch: ImportBatch) => {
+  const rows: ImportRowView[] = [];
+
+  for (const row of batch.rows) {
+    const draft = row.draftId ? await getDraft(row.draftId) : undefined;
+    rows.push({
+      ...row,
+      draft: draft && {
+        status: draft.status,
+        plan: draft.plan,
+        tweetUrl: draft.tweetUrl,
+        reviewedAt: draft.reviewedAt,
+        rejectionReason: draft.rejectionReason,
+      },
+    });
+  }
+
+  return { ...batch, rows, generating: generating.has(batch.id) };
+};
+
+/**
+ * Approves (and so publishes) the drafts of the selected rows one after the
+ * other, recording an approval run for each.
+ */
+export const approveImportRows = async (
+  batch: ImportBatch,
+  rowNumbers: number[] | undefined
+) => {
+  const results: {
+    row: number;
+    draftId: string;
+    status?: Draft["status"];
+    tweetUrl?: string;
+    runId?: string;
+    error?: string;
+  }[] = [];
+
+  for (const row of batch.rows) {
+    if (!row.draftId || (rowNumbers && !rowNumbers.includes(row.row))) {
+      continue;
+    }
+    const draft = await getDraft(row.draftId);
+    if (!draft || !reviewableStatuses.includes(draft.status)) {
+      if (rowNumbers) {
+        results.push({
+          row: row.row,
+          draftId: row.draftId,
+          status: draft?.status,
+          error: draft ? `Draft is already ${draft.status}` : "Draft not found",
+        });
+      }
+      continue;
+    }
+
+    const startedAt = Date.now();
+    const log: RunLog = [];
+    try {
+      const { draft: updated, error: refused } = await approveDraft(
+        draft,
+        {},
+        await ensureTwitterClient(draft.request.accountId),
+        log
+      );
+      const error =
+        refused ??
+        (!updated?.tweetId
+          ? (log.findLast((event) => event.status === "error")?.message ??
+            "Not published")
+          : updated.thread?.error);
+      const run = await recordRun({
+        kind: "approval",
+        input: { draftId: draft.id, importId: batch.id, row: row.row },
+        events: log,
+        startedAt,
+        draftId: draft.id,
+        tweetId: updated?.tweetId,
+        tweetUrl: updated?.tweetUrl,
+        error,
+      });
+      results.push({
+        row: row.row,
+        draftId: draft.id,
+        status: updated?.status,
+        tweetUrl: updated?.tweetUrl,
+        runId: run.id,
+        error,
+      });
+    } catch (error) {
+      results.push({
+        row: row.row,
+        draftId: draft.id,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  return results;
+};
+
+const EXPORT_COLUMNS = [
+  "row",
+  "status",
+  "topic",
+  "niche",
+  "tone",
+  "call_to_action",
+  "hashtags",
+  "draft_id",
+  "draft_status",
+  "tweet",
+  "thread",
+  "image_urls",
+  "image_asset_ids",
+  "alt_texts",
+  "tweet_url",
+  "errors",
+];
+
+const text = (value: unknown) =>
+  Array.isArray(value)
+    ? value.join(" ")
+    : typeof value === "string"
+      ? value
+      : "";
+
+/** The batch with its generated copy and image references, one line per row. */
+export const importToCsv = (rows: ImportRowView[], origin: string) =>
+  toCsv([
+    EXPORT_COLUMNS,
+    ...rows.map((row) => {
+      const plan = row.draft?.plan;
+      const media = plan?.media ?? [];
+      return [
+        String(row.row),
+        row.status,
+        text(row.input.topic),
+        text(row.input.niche),
+        text(row.input.tone),
+        text(row.input.callToAction),
+        text(row.input.hashtags),
+        row.draftId ?? "",
+        row.draft?.status ?? "",
+        plan?.tweet ?? "",
+        (plan?.thread ?? []).join("\n\n"),
+        media
+          .map((item) =>
+            item.url.startsWith("/") ? `${origin}${item.url}` : item.url
+          )
+          .filter((url) => !url.startsWith("data:"))
+          .join(" "),
+        media.flatMap((item) => (item.assetId ? [item.assetId] : [])).join(" "),
+        media.map((item) => item.altText ?? "").join(" | "),
+        row.draft?.tweetUrl ?? "",
+        [
+          ...(row.errors ?? []).map(
+            (issue) => `${issue.path ? `${issue.path}: ` : ""}${issue.message}`
+          ),
+          ...(row.error ? [row.error] : []),
+        ].join("; "),
+      ];
+    }),
+  ]);
@@ -0,0 +1,119 @@
+import { buildChatRequest } from "./prompts";
+import type { TextGenerator } from "./types";
+
+const ANTHROPIC_URL = "https://api.anthropic.com/v1/messages";
+
+interface AnthropicResponse {
+  content?: { type: string; text?: string }[];
+  error?: { message?: string };
+}
+
+interface AnthropicStreamEvent {
+  type: string;
+  delta?: { type: string; text?: string };
+  error?: { message?: string };
+}
+
+/** Text of a `stream: true` response, passed to `onText` per delta. */
+const readStream = async (
+  body: ReadableStream<Uint8Array>,
+  onText: (text: string) => void
+) => {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let content = "";
+
+  for (
+    let chunk = await reader.read();
+    !chunk.done;
+    chunk = await reader.read()
+  ) {
+    buffer += decoder.decode(chunk.value, { stream: true });
+    const lines = buffer.split("\n");
+    buffer = lines.pop() ?? "";
+
+    for (const line of lines) {
+      if (!line.startsWith("data:")) {
+        continue;
+      }
+      const event = JSON.parse(line.slice(5)) as AnthropicStreamEvent;
+      if (event.type === "error") {
+        throw new Error(event.error?.message ?? "Anthropic stream failed");
+      }
+      if (event.type === "content_block_delta" && event.delta?.text) {
+        content += event.delta.text;
+        onText(event.delta.text);
+      }
+    }
+  }
+
+  return content;
+};
+
+export const createAnthropicGenerator = (options: {
+  model: string;
+  apiKey: string;
+}): TextGenerator => {
+  const { model, apiKey } = options;
+
+  return {
+    provider: "anthropic",
+    model,
+    label: `Anthropic ${model}`,
+    generate: async (task, { onText, signal } = {}) => {
+      const { messages, temperature } = buildChatRequest(task);
+      const system = messages
+        .filter((message) => message.role === "system")
+        .map((message) => message.content)
+        .join("\n\n");
+
+      const response = await fetch(ANTHROPIC_URL, {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          "x-api-key": apiKey,
+          "anthropic-version": "2023-06-01",
+        },
+        body: JSON.stringify({
+          model,
+          max_tokens: 1024,
+          temperature,
+          system,
+          messages: messages
+            .filter((message) => message.role !== "system")
+            .map(({ role, content }) => ({ role, content })),
+          ...(onText ? { stream: true } : {}),
+        }),
+        signal,
+      });
+
+      if (onText && response.ok && response.body) {
+        const content = (await readStream(response.body, onText)).trim();
+        if (!content) {
+          throw new Error("Empty completion");
+        }
+        return content;
+      }
+
+      const payload = (await response.json()) as AnthropicResponse;
+
+      if (!response.ok) {
+        throw new Error(
+          payload.error?.message ?? `Anthropic API returned ${response.status}`
+        );
+      }
+
+      const content = payload.content
+        ?.filter((block) => block.type === "text")
+        .map((block) => block.text ?? "")
+        .join("")
+        .trim();
+
+      if (!content) {
+        throw new Error("Empty completion");
+      }
+      return content;
+    },
+  };
+};
@@ -0,0 +1,143 @@
+import type { HookStyle } from "@/utils/hook-styles";
+import type { GenerationTask, TextGenerator } from "./types";
+
+type Opener = (topic: string, niche: string) => string;
+
+const HOOK_OPENERS: Record<HookStyle, Opener> = {
+  question: (topic, niche) => `Is ${niche} still sleeping on ${topic}?`,
+  stat: (topic, niche) =>
+    `By one rough count, about 1 in 3 ${niche} teams already lean on ${topic}.`,
+  contrarian: (topic, niche) =>
+    `Unpopular opinion: ${topic} is not the hard part for ${niche}.`,
+  list: (topic, niche) =>
+    `3 ${topic} moves for ${niche}:\n1. Start small\n2. Measure\n3. Repeat`,
+};
+
+const opener = (topic: string, niche: string, hookStyle?: HookStyle) =>
+  hookStyle
+    ? HOOK_OPENERS[hookStyle](topic, niche)
+    : `🚀 ${topic} update for ${niche}!`;
+
+export const fallbackTweet = (params: {
+  topic: string;
+  niche: string;
+  tone: string;
+  callToAction?: string;
+  hashtags: string[];
+  hookStyle?: HookStyle;
+}) => {
+  const { topic, niche, tone, callToAction, hashtags, hookStyle } = params;
+  const hashtagText = hashtags.join(" ");
+  return [
+    opener(topic, niche, hookStyle),
+    `Keeping it ${tone.toLowerCase()} so you stay ahead of the curve.`,
+    callToAction ? `➡️ ${callToAction}` : "",
+    hashtagText,
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+};
+
+export const fallbackThread = (params: {
+  topic: string;
+  niche: string;
+  tone: string;
+  hookStyle?: HookStyle;
+}) => {
+  const { topic, niche, tone, hookStyle } = params;
+  return [
+    hookStyle
+      ? `🧵 ${HOOK_OPENERS[hookStyle](topic, niche)}`
+      : `🧵 ${topic}: what ${niche} should know right now.`,
+    `Keeping it ${tone.toLowerCase()}: the playbook around ${topic} is shifting fast, and the early movers are compounding.`,
+    `The teams winning in ${niche} treat ${topic} as a habit, not a one-off project. Start small, measure, repeat.`,
+  ];
+};
+
+const BACKLOG_ANGLES: [string, (niche: string) => string][] = [
+  ["Why it matters now", (niche) => `Set the stakes for ${niche}.`],
+  ["Common mistakes", (niche) => `Three mistakes ${niche} make and the fix.`],
+  ["A quick win", () => "One change readers can try today."],
+  ["Myth vs reality", () => "Bust the most repeated misconception."],
+  ["Behind the scenes", () => "Show how we approach it ourselves."],
+  ["Step-by-step", () => "A short checklist readers can save."],
+  ["Customer story", (niche) => `A before and after from ${niche}.`],
+  ["Tools and resources", () => "The stack and links we rely on."],
+  ["Contrarian take", () => "Challenge the accepted playbook."],
+  ["Your questions", () => "Answer the questions we hear most."],
+];
+
+/** Keyword triage for mentions, checked in order. */
+const MENTION_INTENTS: [string, RegExp, string][] = [
+  [
+    "spam",
+    /\b(followers fast|promo|giveaway|crypto|dm us|airdrop)\b/i,
+    "Reads like promotion.",
+  ],
+  [
+    "complaint",
+    /\b(broken|bug|frustrat\w*|not working|doesn't work|refund|terrible|down)\b/i,
+    "Reports a problem.",
+  ],
+  ["question", /\?/, "Asks a question."],
+  [
+    "praise",
+    /\b(love|great|thanks|thank you|awesome|amazing|nice)\b/i,
+    "Says something positive.",
+  ],
+];
+
+const templateCopy = (task: GenerationTask) => {
+  switch (task.kind) {
+    case "tweet":
+      return fallbackTweet({ ...task.brief, hookStyle: task.hookStyle });
+    case "thread":
+      return JSON.stringify({
+        tweets: fallbackThread({
+          ...task.brief,
+          hookStyle: task.hookStyle,
+        }).slice(0, task.maxTweets),
+      });
+    case "reply":
+      return `Love this perspective on ${task.topic}!`;
+    case "image-decision":
+      // Links already unfurl into a preview card.
+      return /https?:\/\//.test(task.tweet)
+        ? JSON.stringify({ image: false, reason: "The tweet has a link." })
+        : JSON.stringify({ image: true, reason: "The tweet has no link." });
+    case "mention-intent": {
+      const [intent, , reason] = MENTION_INTENTS.find(([, pattern]) =>
+        pattern.test(task.text)
+      ) ?? ["other", /./, "No clear intent."];
+      return JSON.stringify({ intent, reason });
+    }
+    case "alt-text":
+      return `${task.style ?? "Illustration"}: ${task.prompt.split(/(?<=\.)\s/)[0]}`;
+    case "topic-backlog":
+      return JSON.stringify({
+        topics: Array.from({ length: task.count }, (_, index) => {
+          const [label, angle] = BACKLOG_ANGLES[index % BACKLOG_ANGLES.length];
+          const round = Math.floor(index / BACKLOG_ANGLES.length);
+          return {
+            topic: `${task.theme}: ${label.toLowerCase()}${round ? ` (part ${round + 1})` : ""}`,
+            angle: angle(task.niche),
+          };
+        }),
+      });
+  }
+};
+
+/**
+ * Deterministic template copy: no network, same input gives same output.
+ * Streams word by word so progress views behave as with a real model.
+ */
+export const createFixtureGenerator = (): TextGenerator => ({
+  provider: "fixture",
+  model: "templates",
+  label: "fixture templates",
+  generate: async (task, { onText } = {}) => {
+    const text = templateCopy(task);
+    text.match(/\S+\s*/g)?.forEach((word) => onText?.(word));
+    return text;
+  },
+});
@@ -0,0 +1,169 @@
+import { z } from "zod";
+import {
+  logEvent,
+  runProgress,
+  since,
+  throwIfCancelled,
+  type RunLog,
+  type TextDelta,
+} from "../run-log";
+import { createAnthropicGenerator } from "./anthropic";
+import { createFixtureGenerator } from "./fixture";
+import { createOpenAiGenerator } from "./openai";
+import type { GenerationTask, TextGenerator, TextProvider } from "./types";
+
+export { fallbackThread, fallbackTweet } from "./fixture";
+export type {
+  BrandVoice,
+  GenerateOptions,
+  GenerationTask,
+  TextGenerator,
+  TextProvider,
+  TweetBriefContext,
+} from "./types";
+
+export const llmSelectionSchema = z.object({
+  provider: z
+    .enum(["openai", "openai-compatible", "anthropic", "fixture"])
+    .optional(),
+  model: z.string().min(1).optional(),
+});
+
+export type LlmSelection = z.infer<typeof llmSelectionSchema>;
+
+const DEFAULT_MODELS: Record<TextProvider, string> = {
+  openai: "gpt-4o-mini",
+  "openai-compatible": "llama3.1",
+  anthropic: "claude-3-5-haiku-latest",
+  fixture: "templates",
+};
+
+/**
+ * Picks the text generator for a request. The request's selection wins over
+ * `LLM_PROVIDER` / `LLM_MODEL`, and OpenAI is the default. Missing
+ * credentials fall back to the fixture provider.
+ */
+export const resolveTextGenerator = (
+  selection: LlmSelection = {},
+  log: RunLog = []
+): TextGenerator => {
+  const envProvider = llmSelectionSchema.shape.provider.safeParse(
+    process.env.LLM_PROVIDER
+  );
+  const provider: TextProvider =
+    selection.provider ?? envProvider.data ?? "openai";
+  const model =
+    selection.model ?? process.env.LLM_MODEL ?? DEFAULT_MODELS[provider];
+
+  switch (provider) {
+    case "openai": {
+      const apiKey = process.env.OPENAI_API_KEY;
+      if (apiKey) {
+        return createOpenAiGenerator({ provider, model, apiKey });
+      }
+      logEvent(
+        log,
+        "generate",
+        "warning",
+        "OPENAI_API_KEY missing. Using deterministic mock copy for preview."
+      );
+      break;
+    }
+    case "openai-compatible": {
+      const baseURL = process.env.LLM_BASE_URL;
+      if (baseURL) {
+        return createOpenAiGenerator({
+          provider,
+          model,
+          baseURL,
+          apiKey: process.env.LLM_API_KEY ?? "not-needed",
+        });
+      }
+      logEvent(
+        log,
+        "generate",
+        "warning",
+        "LLM_BASE_URL missing. Using deterministic mock copy for preview."
+      );
+      break;
+    }
+    case "anthropic": {
+      const apiKey = process.env.ANTHROPIC_API_KEY;
+      if (apiKey) {
+        return createAnthropicGenerator({ model, apiKey });
+      }
+      logEvent(
+        log,
+        "generate",
+        "warning",
+        "ANTHROPIC_API_KEY missing. Using deterministic mock copy for preview."
+      );
+      break;
+    }
+    case "fixture":
+      break;
+  }
+
+  return createFixtureGenerator();
+};
+
+const STREAMED_KINDS = new Set<GenerationTask["kind"]>([
+  "tweet",
+  "thread",
+  "reply",
+]);
+
+/** `onText` for a task when the run streams progress and the task is copy. */
+const textListener = (task: GenerationTask, log: RunLog) => {
+  const { onText } = runProgress(log);
+  if (!onText || !STREAMED_KINDS.has(task.kind)) {
+    return undefined;
+  }
+  const kind = task.kind as TextDelta["kind"];
+  onText({ kind, text: "", restart: true });
+  return (text: string) => onText({ kind, text });
+};
+
+/**
+ * Runs a task and falls back to the fixture provider if the selected model
+ * errors, so a flaky vendor never blocks a run. Cancelling the run aborts
+ * the request instead.
+ */
+export const generateWithFallback = async (
+  generator: TextGenerator,
+  task: GenerationTask,
+  log: RunLog
+) => {
+  const started = Date.now();
+  const { signal } = runProgress(log);
+  throwIfCancelled(log);
+
+  try {
+    const text = await generator.generate(task, {
+      signal,
+      onText: textListener(task, log),
+    });
+    if (generator.provider !== "fixture") {
+      logEvent(
+        log,
+        "generate",
+        "ok",
+        `Generated ${task.kind} copy with ${generator.label}.`,
+        { durationMs: since(started) }
+      );
+    }
+    return text;
+  } catch (error) {
+    throwIfCancelled(log);
+    logEvent(
+      log,
+      "generate",
+      "warning",
+      `${generator.label} ${task.kind} generation failed. Falling back to template copy.`,
+      { durationMs: since(started), error }
+    );
+    return createFixtureGenerator().generate(task, {
+      onText: textListener(task, log),
+    });
+  }
+};
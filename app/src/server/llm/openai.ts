@@ -0,0 +1,60 @@
+import OpenAI from "openai";
+import { buildChatRequest } from "./prompts";
+import type { TextGenerator, TextProvider } from "./types";
+
+/**
+ * Chat completions through the OpenAI SDK. Passing a `baseURL` targets any
+ * OpenAI-compatible server such as Ollama or the llama.cpp server.
+ */
+export const createOpenAiGenerator = (options: {
+  provider: Extract<TextProvider, "openai" | "openai-compatible">;
+  model: string;
+  apiKey: string;
+  baseURL?: string;
+}): TextGenerator => {
+  const { provider, model, apiKey, baseURL } = options;
+  const client = new OpenAI({ apiKey, baseURL });
+
+  return {
+    provider,
+    model,
+    label:
+      provider === "openai" ? `OpenAI ${model}` : `${model} via ${baseURL}`,
+    generate: async (task, { onText, signal } = {}) => {
+      const { messages, temperature, json } = buildChatRequest(task);
+      const body = {
+        model,
+        temperature,
+        messages,
+        ...(json ? { response_format: { type: "json_object" as const } } : {}),
+      };
+      let content: string | undefined;
+
+      if (onText) {
+        const stream = await client.chat.completions.create(
+          { ...body, stream: true },
+          { signal }
+        );
+        content = "";
+        for await (const chunk of stream) {
+          const text = chunk.choices[0]?.delta?.content ?? "";
+          if (text) {
+            content += text;
+            onText(text);
+          }
+        }
+        content = content.trim();
+      } else {
+        const response = await client.chat.completions.create(body, {
+          signal,
+        });
+        content = response.choices[0]?.message?.content?.trim();
+      }
+
+      if (!content) {
+        throw new Error("Empty completion");
+      }
+      return content;
+    },
+  };
+};
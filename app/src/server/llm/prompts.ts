@@ -0,0 +1,221 @@
+import { HOOK_STYLES, type HookStyle } from "@/utils/hook-styles";
+import type { BrandVoice, ChatRequest, GenerationTask } from "./types";
+
+const STRATEGIST_PROMPT =
+  "You are a senior social media strategist focused on crafting viral, on-brand Twitter posts that feel human, crisp, and clever.";
+
+const EMOJI_RULES: Record<BrandVoice["emojiPolicy"], string> = {
+  none: "Never use emoji.",
+  sparing: "Use at most one emoji, only when it adds meaning.",
+  liberal: "Emoji are welcome when they fit the voice.",
+};
+
+const voiceRules = (voice?: BrandVoice) =>
+  voice
+    ? [
+        `You write as ${voice.name}. Brand voice: ${voice.voice}`,
+        EMOJI_RULES[voice.emojiPolicy],
+        voice.bannedPhrases.length
+          ? `Never use these words or phrases: ${voice.bannedPhrases.join(", ")}.`
+          : "",
+      ]
+        .filter(Boolean)
+        .join("\n")
+    : "";
+
+const systemPrompt = (base: string, voice?: BrandVoice) =>
+  [base, voiceRules(voice)].filter(Boolean).join("\n\n");
+
+const fewShot = (voice?: BrandVoice) =>
+  voice?.exampleTweets.length
+    ? [
+        "Example tweets in this voice:",
+        ...voice.exampleTweets.map((example) => `---\n${example}`),
+        "---",
+      ].join("\n")
+    : "";
+
+const feedbackRules = (feedback?: string[]) =>
+  feedback?.length
+    ? [
+        "Your previous draft was rejected for these reasons. Fix every one of them:",
+        ...feedback.map((item) => `- ${item}`),
+      ].join("\n")
+    : "";
+
+const hookRule = (hookStyle?: HookStyle) =>
+  hookStyle ? `Hook: ${HOOK_STYLES[hookStyle].instruction}` : "";
+
+export const buildChatRequest = (task: GenerationTask): ChatRequest => {
+  switch (task.kind) {
+    case "tweet": {
+      const { topic, angle, niche, tone, callToAction, hashtags, voice } =
+        task.brief;
+      return {
+        temperature: 0.75,
+        json: false,
+        messages: [
+          { role: "system", content: systemPrompt(STRATEGIST_PROMPT, voice) },
+          {
+            role: "user",
+            content: [
+              fewShot(voice),
+              `Topic: ${topic}`,
+              angle ? `Angle: ${angle}` : "",
+              `Audience: ${niche}`,
+              `Tone: ${tone}`,
+              callToAction ? `Call to action: ${callToAction}` : "",
+              hashtags.length
+                ? `Mandatory hashtags: ${hashtags.join(" ")}`
+                : "",
+              hookRule(task.hookStyle),
+              "Compose a single English tweet beneath 270 characters. Use line breaks for pacing if helpful.",
+              feedbackRules(task.feedback),
+            ]
+              .filter(Boolean)
+              .join("\n"),
+          },
+        ],
+      };
+    }
+    case "thread": {
+      const { topic, angle, niche, tone, voice } = task.brief;
+      return {
+        temperature: 0.75,
+        json: true,
+        messages: [
+          { role: "system", content: systemPrompt(STRATEGIST_PROMPT, voice) },
+          {
+            role: "user",
+            content: [
+              fewShot(voice),
+              `Topic: ${topic}`,
+              angle ? `Angle: ${angle}` : "",
+              `Audience: ${niche}`,
+              `Tone: ${tone}`,
+              hookRule(task.hookStyle),
+              `Compose an English Twitter thread of at most ${task.maxTweets} tweets, each beneath 270 characters.`,
+              "Do not number the tweets and do not include hashtags or a call to action; they are appended to the last tweet automatically.",
+              'Respond with JSON shaped like {"tweets": ["first tweet", "second tweet"]}.',
+              feedbackRules(task.feedback),
+            ]
+              .filter(Boolean)
+              .join("\n"),
+          },
+        ],
+      };
+    }
+    case "reply":
+      return {
+        temperature: 0.7,
+        json: false,
+        messages: [
+          {
+            role: "system",
+            content: systemPrompt(
+              "Write a concise, value-add reply (under 220 characters) that references the original topic without sounding generic.",
+              task.voice
+            ),
+          },
+          {
+            role: "user",
+            content: [
+              `Original tweet context: ${task.context}`,
+              `Topic: ${task.topic}`,
+              `Tone: ${task.tone}`,
+              feedbackRules(task.feedback),
+            ]
+              .filter(Boolean)
+              .join("\n"),
+          },
+        ],
+      };
+    case "image-decision":
+      return {
+        temperature: 0,
+        json: true,
+        messages: [
+          {
+            role: "system",
+            content:
+              "You decide whether a tweet should carry a companion image. Images help announcements, tips and visual topics; they hurt quick replies, jokes that rely on text, and tweets that already share a link preview.",
+          },
+          {
+            role: "user",
+            content: [
+              `Topic: ${task.topic}`,
+              `Audience: ${task.niche}`,
+              `Tweet:\n${task.tweet}`,
+              'Respond with JSON shaped like {"image": true, "reason": "one short sentence"}.',
+            ].join("\n"),
+          },
+        ],
+      };
+    case "mention-intent":
+      return {
+        temperature: 0,
+        json: true,
+        messages: [
+          {
+            role: "system",
+            content:
+              "You triage tweets that mention a brand account. Classify each as a question (asks for help or information), praise, a complaint (reports a problem or frustration), spam (promotion, scams, bots) or other.",
+          },
+          {
+            role: "user",
+            content: [
+              `Tweet:\n${task.text}`,
+              'Respond with JSON shaped like {"intent": "question", "reason": "one short sentence"}.',
+            ].join("\n"),
+          },
+        ],
+      };
+    case "alt-text":
+      return {
+        temperature: 0.3,
+        json: false,
+        messages: [
+          {
+            role: "system",
+            content:
+              'You write alt text for screen reader users: one or two plain sentences, under 250 characters, describing what the image shows. Never start with "Image of" and never add hashtags.',
+          },
+          {
+            role: "user",
+            content: [
+              `The image was generated from this prompt: ${task.prompt}`,
+              task.style ? `Style: ${task.style}` : "",
+              "Describe the likely image.",
+            ]
+              .filter(Boolean)
+              .join("\n"),
+          },
+        ],
+      };
+    case "topic-backlog":
+      return {
+        temperature: 0.8,
+        json: true,
+        messages: [
+          {
+            role: "system",
+            content: systemPrompt(
+              "You are a content strategist planning a Twitter campaign. You break a theme into distinct, specific post topics, each with its own angle, so no two posts repeat each other.",
+              task.voice
+            ),
+          },
+          {
+            role: "user",
+            content: [
+              `Campaign theme: ${task.theme}`,
+              `Audience: ${task.niche}`,
+              `Tone: ${task.tone}`,
+              `Propose ${task.count} post topics in the order they should go out, building from awareness to action.`,
+              "Each topic is a short phrase; each angle is one sentence on the take or format of the post.",
+              'Respond with JSON shaped like {"topics": [{"topic": "short topic", "angle": "one sentence"}]}.',
+            ].join("\n"),
+          },
+        ],
+      };
+  }
+};
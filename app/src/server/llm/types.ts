@@ -0,0 +1,82 @@
+import type { HookStyle } from "@/utils/hook-styles";
+
+export type TextProvider =
+  "openai" | "openai-compatible" | "anthropic" | "fixture";
+
+export interface BrandVoice {
+  name: string;
+  voice: string;
+  bannedPhrases: string[];
+  requiredDisclosures: string[];
+  emojiPolicy: "none" | "sparing" | "liberal";
+  exampleTweets: string[];
+}
+
+export interface TweetBriefContext {
+  topic: string;
+  angle?: string;
+  niche: string;
+  tone: string;
+  callToAction?: string;
+  hashtags: string[];
+  voice?: BrandVoice;
+}
+
+export type GenerationTask = (
+  | { kind: "tweet"; brief: TweetBriefContext; hookStyle?: HookStyle }
+  | {
+      kind: "thread";
+      brief: TweetBriefContext;
+      maxTweets: number;
+      hookStyle?: HookStyle;
+    }
+  | {
+      kind: "reply";
+      context: string;
+      topic: string;
+      tone: string;
+      voice?: BrandVoice;
+    }
+  | { kind: "image-decision"; tweet: string; topic: string; niche: string }
+  | { kind: "mention-intent"; text: string }
+  | { kind: "alt-text"; prompt: string; style?: string }
+  | {
+      kind: "topic-backlog";
+      theme: string;
+      niche: string;
+      tone: string;
+      count: number;
+      voice?: BrandVoice;
+    }
+) & {
+  /** Content policy problems with the previous attempt, for a regenerate pass. */
+  feedback?: string[];
+};
+
+export interface ChatMessage {
+  role: "system" | "user";
+  content: string;
+}
+
+export interface ChatRequest {
+  messages: ChatMessage[];
+  temperature: number;
+  json: boolean;
+}
+
+export interface GenerateOptions {
+  /** Receives the completion chunk by chunk as the model writes it. */
+  onText?: (text: string) => void;
+  signal?: AbortSignal;
+}
+
+export interface TextGenerator {
+  provider: TextProvider;
+  model: string;
+  /** Human-readable name used in run logs, e.g. "OpenAI gpt-4o-mini". */
+  label: string;
+  generate: (
+    task: GenerationTask,
+    options?: GenerateOptions
+  ) => Promise<string>;
+}
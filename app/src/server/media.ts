@@ -0,0 +1,225 @@
+import { createHash, randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import { deflateSync } from "zlib";
+import { z } from "zod";
+import {
+  IMAGE_ASPECT_RATIO_IDS,
+  IMAGE_STYLE_IDS,
+  MAX_TWEET_IMAGES,
+  type ImageAspectRatio,
+  type ImageStyle,
+} from "@/utils/image-options";
+import { createJsonStore, dataDir } from "./store";
+
+export type MediaSource = "openai" | "mock" | "upload";
+
+export interface MediaAsset {
+  id: string;
+  source: MediaSource;
+  mimeType: string;
+  /** File name under `DATA_DIR/media`. */
+  fileName: string;
+  bytes: number;
+  width?: number;
+  height?: number;
+  /** Prompt the image was generated from, before the style preset. */
+  prompt?: string;
+  style?: ImageStyle;
+  aspectRatio?: ImageAspectRatio;
+  altText?: string;
+  usageCount: number;
+  lastUsedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export const imageOptionsSchema = z.object({
+  /** `auto` lets the text model decide; unset falls back to `autoImage`. */
+  mode: z.enum(["off", "always", "auto"]).optional(),
+  prompt: z.string().trim().max(1000).optional(),
+  style: z.enum(IMAGE_STYLE_IDS).default("cinematic"),
+  aspectRatio: z.enum(IMAGE_ASPECT_RATIO_IDS).default("1:1"),
+  variants: z.number().int().min(1).max(MAX_TWEET_IMAGES).default(1),
+  /** Library assets to attach as-is, ahead of any generated images. */
+  assetIds: z.array(z.string()).max(MAX_TWEET_IMAGES).default([]),
+});
+
+export type ImageOptions = z.infer<typeof imageOptionsSchema>;
+
+/** Twitter's limit for media alt text. */
+export const ALT_TEXT_MAX_LENGTH = 1000;
+
+export const mediaAssetPatchSchema = z.object({
+  altText: z.string().trim().max(ALT_TEXT_MAX_LENGTH).optional(),
+});
+
+/** Formats and size Twitter accepts for image uploads. */
+export const UPLOAD_MIME_TYPES: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/webp": "webp",
+  "image/gif": "gif",
+};
+export const MAX_UPLOAD_BYTES = 5 * 1024 * 1024;
+
+const mediaStore = createJsonStore<MediaAsset>("media");
+
+const mediaDir = () => path.join(dataDir(), "media");
+
+export const mediaUrl = (id: string) => `/api/media/${id}/file`;
+
+export const listMediaAssets = async () =>
+  (await mediaStore.list()).sort((a, b) =>
+    b.createdAt.localeCompare(a.createdAt)
+  );
+
+export const getMediaAsset = (id: string) => mediaStore.get(id);
+
+export const saveMediaAsset = async (
+  data: Buffer,
+  meta: Pick<
+    MediaAsset,
+    | "source"
+    | "mimeType"
+    | "width"
+    | "height"
+    | "prompt"
+    | "style"
+    | "aspectRatio"
+    | "altText"
+  >
+) => {
+  const id = randomUUID();
+  const fileName = `${id}.${UPLOAD_MIME_TYPES[meta.mimeType] ?? "bin"}`;
+  const now = new Date().toISOString();
+
+  await fs.mkdir(mediaDir(), { recursive: true });
+  await fs.writeFile(path.join(mediaDir(), fileName), data);
+
+  return mediaStore.put({
+    ...meta,
+    id,
+    fileName,
+    bytes: data.length,
+    usageCount: 0,
+    createdAt: now,
+    updatedAt: now,
+  });
+};
+
+export const readMediaFile = (asset: MediaAsset) =>
+  fs.readFile(path.join(mediaDir(), asset.fileName));
+
+export const updateMediaAsset = (
+  id: string,
+  patch: z.infer<typeof mediaAssetPatchSchema>
+) =>
+  mediaStore.update(id, (asset) => ({
+    ...asset,
+    ...patch,
+    updatedAt: new Date().toISOString(),
+  }));
+
+export const markMediaUsed = (id: string) =>
+  mediaStore.update(id, (asset) => ({
+    ...asset,
+    usageCount: asset.usageCount + 1,
+    lastUsedAt: new Date().toISOString(),
+  }));
+
+export const deleteMediaAsset = async (id: string) => {
+  const asset = await mediaStore.get(id);
+  if (!asset) {
+    return false;
+  }
+
+  await fs.rm(path.join(mediaDir(), asset.fileName), { force: true });
+  return mediaStore.remove(id);
+};
+
+/** Entry for `plan.media` that points at a stored asset. */
+export const toPlanMedia = (asset: MediaAsset) => ({
+  assetId: asset.id,
+  source: asset.source,
+  url: mediaUrl(asset.id),
+  altText: asset.altText,
+  uploadable: true,
+});
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k += 1) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+const crc32 = (data: Buffer) => {
+  let c = 0xffffffff;
+  for (const byte of data) {
+    c = CRC_TABLE[(c ^ byte) & 0xff] ^ (c >>> 8);
+  }
+  return (c ^ 0xffffffff) >>> 0;
+};
+
+const pngChunk = (type: string, data: Buffer) => {
+  const body = Buffer.concat([Buffer.from(type, "ascii"), data]);
+  const length = Buffer.alloc(4);
+  const crc = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+};
+
+const PLACEHOLDER_SIZES: Record<ImageAspectRatio, [number, number]> = {
+  "1:1": [512, 512],
+  "3:2": [768, 512],
+  "2:3": [512, 768],
+};
+
+/**
+ * Deterministic gradient PNG used when no image model is configured, so
+ * demos still exercise storage and upload. The same prompt and variant
+ * always give the same colors.
+ */
+export const placeholderImage = (
+  prompt: string,
+  aspectRatio: ImageAspectRatio,
+  variant: number
+) => {
+  const [width, height] = PLACEHOLDER_SIZES[aspectRatio];
+  const seed = createHash("sha256").update(`${prompt}:${variant}`).digest();
+  const from = [seed[0], seed[1], seed[2]];
+  const to = [seed[3], seed[4], seed[5]];
+  const raw = Buffer.alloc((width * 3 + 1) * height);
+
+  for (let y = 0; y < height; y += 1) {
+    const row = y * (width * 3 + 1);
+    for (let x = 0; x < width; x += 1) {
+      const t = (x / width + y / height) / 2;
+      for (let channel = 0; channel < 3; channel += 1) {
+        raw[row + 1 + x * 3 + channel] = Math.round(
+          from[channel] + (to[channel] - from[channel]) * t
+        );
+      }
+    }
+  }
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // bit depth
+  header[9] = 2; // truecolor RGB
+
+  return {
+    width,
+    height,
+    data: Buffer.concat([
+      Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+      pngChunk("IHDR", header),
+      pngChunk("IDAT", deflateSync(raw)),
+      pngChunk("IEND", Buffer.alloc(0)),
+    ]),
+  };
+};
@@ -0,0 +1,92 @@
+import assert from "node:assert/strict";
+import { mkdir } from "fs/promises";
+import path from "path";
+import { after, before, describe, it } from "node:test";
+import {
+  getMention,
+  listMentionConversations,
+  pollMentions,
+  sendMentionReply,
+} from "./mentions";
+import type { RunLog } from "./run-log";
+import { listRuns } from "./runs";
+import { dataDir } from "./store";
+import { isolateDataDir } from "./test-helpers";
+import {
+  createMockTwitterServer,
+  DEFAULT_MOCK_SEED,
+  type MockTweet,
+} from "./twitter-mock";
+
+isolateDataDir();
+
+const mentions: MockTweet[] = [...DEFAULT_MOCK_SEED.mentions];
+const mock = createMockTwitterServer({ ...DEFAULT_MOCK_SEED, mentions });
+
+before(async () => {
+  process.env.TWITTER_API_BASE_URL = await mock.listen();
+  process.env.TWITTER_APP_KEY = "app-key";
+  process.env.TWITTER_APP_SECRET = "app-secret";
+  process.env.TWITTER_ACCESS_TOKEN = "access-token";
+  process.env.TWITTER_ACCESS_SECRET = "access-secret";
+});
+
+after(() => mock.close());
+
+describe("pollMentions", () => {
+  it("reads every page back to the newest mention it has seen", async () => {
+    assert.deepEqual(await pollMentions([]), { added: 5, skipped: 0 });
+
+    for (let index = 0; index < 120; index++) {
+      mentions.push({
+        id: String(5000 + index),
+        text: `@mockbrand question number ${index}?`,
+        authorId: "2001",
+        likes: 0,
+        minutesAgo: 5,
+      });
+    }
+    mock.reset();
+
+    assert.deepEqual(await pollMentions([]), { added: 120, skipped: 0 });
+    const pages = mock.callsTo("GET /2/users/:id/mentions");
+    assert.deepEqual(
+      pages.map((call) => call.query.pagination_token),
+      [undefined, "50", "100"]
+    );
+    assert.ok(pages.every((call) => call.query.since_id === "3105"));
+    assert.ok(await getMention("default:5000"));
+    assert.equal((await listRuns({ kind: "mention-poll" })).length, 2);
+  });
+
+  it("records each sent reply as a run", async () => {
+    await pollMentions([]);
+    const [conversation] = await listMentionConversations();
+    const [mention] = conversation.mentions;
+
+    const result = await sendMentionReply(mention, "Yes, SSO works!", "me", []);
+
+    const [run] = await listRuns({ kind: "mention-reply" });
+    assert.equal(run.status, "succeeded");
+    assert.equal(run.tweetId, result.mention?.reply?.tweetId);
+  });
+
+  it("does not reply twice when the post ledger cannot be written", async () => {
+    await pollMentions([]);
+    const [conversation] = await listMentionConversations();
+    const [mention] = conversation.mentions;
+    // A directory where the ledger file belongs makes every write fail.
+    await mkdir(path.join(dataDir(), "posts.json"));
+    mock.reset();
+    const log: RunLog = [];
+
+    const first = await sendMentionReply(mention, "Yes, SSO works!", "me", log);
+    const second = await sendMentionReply(mention, "Yes, SSO works!", "me", []);
+
+    assert.equal(first.mention?.status, "sent");
+    assert.ok(first.mention?.reply?.tweetId);
+    assert.match(log.at(-1)?.message ?? "", /Could not record it/);
+    assert.equal(second.error, "Mention was already handled");
+    assert.equal(mock.callsTo("POST /2/tweets").length, 1);
+  });
+});
@@ -0,0 +1,499 @@
+import type { TwitterApi } from "twitter-api-v2";
+import { z } from "zod";
+import { listAccounts, withAccountDefaults } from "./accounts";
+import { ensureTwitterClient } from "./clients";
+import {
+  blockingFindings,
+  checkText,
+  type PolicyFinding,
+} from "./content-policy";
+import { recordEngagement } from "./engagement";
+import { generateWithFallback, resolveTextGenerator } from "./llm";
+import { createPollingWorker, startPollingWorker } from "./polling-worker";
+import { recordPost } from "./posts";
+import { getProfile } from "./profiles";
+import { QuotaExceededError } from "./quota";
+import { logEvent, since, type RunLog } from "./run-log";
+import { recordRun } from "./runs";
+import { createJsonStore } from "./store";
+import {
+  briefSchema,
+  generateChecked,
+  resolveBriefContext,
+} from "./tweet-pipeline";
+
+export const MENTION_INTENTS = [
+  "question",
+  "praise",
+  "complaint",
+  "spam",
+  "other",
+] as const;
+
+export type MentionIntent = (typeof MENTION_INTENTS)[number];
+export type MentionStatus = "pending" | "sent" | "dismissed";
+
+/** One tweet that mentions a polled account, with its suggested reply. */
+export interface Mention {
+  /** `<accountId or "default">:<tweet id>`. */
+  id: string;
+  accountId?: string;
+  tweetId: string;
+  conversationId: string;
+  authorId?: string;
+  authorHandle?: string;
+  text: string;
+  createdAt: string;
+  fetchedAt: string;
+  intent: MentionIntent;
+  intentReason?: string;
+  /** Unset for spam; edits replace it. */
+  suggestion?: string;
+  findings: PolicyFinding[];
+  status: MentionStatus;
+  reply?: { tweetId: string; text: string; at: string };
+  handledBy?: string;
+  handledAt?: string;
+}
+
+export interface MentionConversation {
+  conversationId: string;
+  accountId?: string;
+  latestAt: string;
+  pending: number;
+  /** Oldest first. */
+  mentions: Mention[];
+}
+
+/** Newest mention seen per account, so each poll only fetches what is new. */
+interface MentionCursor {
+  id: string;
+  sinceId: string;
+  polledAt: string;
+}
+
+export interface PollResult {
+  added: number;
+  skipped: number;
+}
+
+export type TwitterClientFactory = (
+  accountId?: string
+) => Promise<TwitterApi | null>;
+
+export const mentionEditSchema = z.object({
+  suggestion: z.string().trim().min(1),
+});
+
+export const mentionSendSchema = z.object({
+  /** Sent instead of the stored suggestion, e.g. after an inline edit. */
+  text: z.string().trim().min(1).optional(),
+});
+
+const PAGE_SIZE = 50;
+/** The API serves at most the newest 800 mentions. */
+const MAX_PAGES = 16;
+const DEFAULT_REPLY_TONE = "friendly and helpful";
+
+const mentionStore = createJsonStore<Mention>("mentions");
+const cursorStore = createJsonStore<MentionCursor>("mention-cursors");
+const sending = new Set<string>();
+
+const accountKey = (accountId?: string) => accountId ?? "default";
+
+export const pollIntervalMinutes = () => {
+  const minutes = Number(process.env.MENTIONS_POLL_MINUTES);
+  return Number.isFinite(minutes) && minutes > 0 ? minutes : 15;
+};
+
+const parseIntent = (raw: string) => {
+  try {
+    const parsed = JSON.parse(
+      raw.slice(raw.indexOf("{"), raw.lastIndexOf("}") + 1)
+    ) as { intent?: unknown; reason?: unknown };
+    const intent = z.enum(MENTION_INTENTS).safeParse(parsed.intent);
+    return {
+      intent: intent.data ?? "other",
+      reason: typeof parsed.reason === "string" ? parsed.reason : undefined,
+    };
+  } catch {
+    return { intent: "other" as const, reason: undefined };
+  }
+};
+
+/** Voice, topic and tone for replies: the account's default brand profile. */
+const replyContext = async (accountId: string | undefined, log: RunLog) => {
+  const { profileId } = await withAccountDefaults<{
+    accountId?: string;
+    profileId?: string;
+  }>({ accountId });
+  const profile = profileId ? await getProfile(profileId) : undefined;
+  return resolveBriefContext(
+    briefSchema.parse({
+      topic: profile?.niche || "our product",
+      niche: profile?.niche || "our audience",
+      tone: profile?.tone || DEFAULT_REPLY_TONE,
+      profileId,
+      accountId,
+    }),
+    log
+  );
+};
+
+/**
+ * Fetches mentions newer than the account's cursor, page by page back to
+ * it, classifies each and suggests a reply for everything but spam. The
+ * first poll of an account only reads the newest page. Mentions already in
+ * the inbox are left alone, so handled ones are never suggested again.
+ */
+const pollAccount = async (
+  twitter: TwitterApi,
+  accountId: string | undefined,
+  log: RunLog
+) => {
+  const started = Date.now();
+  const cursor = await cursorStore.get(accountKey(accountId));
+  const me = await twitter.readOnly.v2.me();
+  const timeline = await twitter.readOnly.v2.userMentionTimeline(me.data.id, {
+    since_id: cursor?.sinceId,
+    max_results: PAGE_SIZE,
+    expansions: ["author_id"],
+    "tweet.fields": ["created_at", "conversation_id", "author_id"],
+    "user.fields": ["username"],
+  });
+  for (let page = 1; cursor && !timeline.done && page < MAX_PAGES; page++) {
+    await timeline.fetchNext();
+  }
+  const known = new Set((await mentionStore.list()).map((item) => item.id));
+  const fresh = timeline.tweets.filter(
+    (tweet) =>
+      tweet.author_id !== me.data.id &&
+      !known.has(`${accountKey(accountId)}:${tweet.id}`)
+  );
+
+  const generator = resolveTextGenerator({}, log);
+  const context = fresh.length ? await replyContext(accountId, log) : undefined;
+  const bannedPhrases = context?.voice?.bannedPhrases ?? [];
+
+  for (const tweet of [...fresh].reverse()) {
+    const { intent, reason } = parseIntent(
+      await generateWithFallback(
+        generator,
+        { kind: "mention-intent", text: tweet.text },
+        log
+      )
+    );
+    const suggestion =
+      intent === "spam" || !context
+        ? undefined
+        : await generateChecked(
+            "reply",
+            (feedback) =>
+              generateWithFallback(
+                generator,
+                {
+                  kind: "reply",
+                  context: tweet.text,
+                  topic: context.topic,
+                  tone: context.tone,
+                  voice: context.voice,
+                  feedback,
+                },
+                log
+              ),
+            (text) => checkText(text, "reply", 0, { bannedPhrases }),
+            log
+          );
+
+    await mentionStore.put({
+      id: `${accountKey(accountId)}:${tweet.id}`,
+      accountId,
+      tweetId: tweet.id,
+      conversationId: tweet.conversation_id ?? tweet.id,
+      authorId: tweet.author_id,
+      authorHandle: timeline.includes.author(tweet)?.username,
+      text: tweet.text,
+      createdAt: tweet.created_at ?? new Date().toISOString(),
+      fetchedAt: new Date().toISOString(),
+      intent,
+      intentReason: reason,
+      suggestion,
+      findings: suggestion
+        ? checkText(suggestion, "reply", 0, { bannedPhrases })
+        : [],
+      status: "pending",
+    });
+  }
+
+  const newest = timeline.meta.newest_id;
+  if (newest) {
+    await cursorStore.put({
+      id: accountKey(accountId),
+      sinceId: newest,
+      polledAt: new Date().toISOString(),
+    });
+  }
+
+  logEvent(
+    log,
+    "mentions",
+    "ok",
+    `Found ${fresh.length} new mention(s) for ${accountId ? `account ${accountId}` : "the default account"}.`,
+    { durationMs: since(started) }
+  );
+  return fresh.length;
+};
+
+/**
+ * Polls every connected account plus the env credentials, or just
+ * `accountId`, and records the poll as a `mention-poll` run.
+ */
+export const pollMentions = async (
+  log: RunLog,
+  {
+    accountId,
+    clientFor = ensureTwitterClient,
+  }: { accountId?: string; clientFor?: TwitterClientFactory } = {}
+): Promise<PollResult> => {
+  const startedAt = Date.now();
+  const result: PollResult = { added: 0, skipped: 0 };
+  const accountIds = accountId
+    ? [accountId]
+    : [undefined, ...(await listAccounts()).map((account) => account.id)];
+
+  for (const id of accountIds) {
+    const label = id ? `account ${id}` : "the default account";
+
+    // One account's broken credentials (e.g. a rotated master key) only skip it.
+    try {
+      const twitter = await clientFor(id);
+      if (!twitter) {
+        result.skipped += 1;
+        logEvent(
+          log,
+          "mentions",
+          "skipped",
+          `Twitter credentials missing for ${label}.`
+        );
+        continue;
+      }
+      result.added += await pollAccount(twitter, id, log);
+    } catch (error) {
+      result.skipped += 1;
+      logEvent(
+        log,
+        "mentions",
+        error instanceof QuotaExceededError ? "warning" : "error",
+        `Could not read mentions for ${label}.`,
+        { error }
+      );
+    }
+  }
+
+  await recordRun({
+    kind: "mention-poll",
+    input: { accountId },
+    events: log,
+    startedAt,
+  });
+  return result;
+};
+
+export const getMention = (id: string) => mentionStore.get(id);
+
+/** Mentions grouped by conversation, most recently active first. */
+export const listMentionConversations = async (
+  filter: {
+    accountId?: string;
+    status?: MentionStatus;
+    intent?: MentionIntent;
+  } = {}
+) => {
+  const conversations = new Map<string, MentionConversation>();
+  const mentions = (await mentionStore.list())
+    .filter(
+      (mention) =>
+        (!filter.accountId || mention.accountId === filter.accountId) &&
+        (!filter.status || mention.status === filter.status) &&
+        (!filter.intent || mention.intent === filter.intent)
+    )
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+  for (const mention of mentions) {
+    const key = `${accountKey(mention.accountId)}:${mention.conversationId}`;
+    const conversation = conversations.get(key) ?? {
+      conversationId: mention.conversationId,
+      accountId: mention.accountId,
+      latestAt: mention.createdAt,
+      pending: 0,
+      mentions: [],
+    };
+    conversation.mentions.push(mention);
+    conversation.latestAt = mention.createdAt;
+    conversation.pending += mention.status === "pending" ? 1 : 0;
+    conversations.set(key, conversation);
+  }
+
+  return [...conversations.values()].sort((a, b) =>
+    b.latestAt.localeCompare(a.latestAt)
+  );
+};
+
+/** Replaces the suggested reply and re-runs the content policy on it. */
+export const editSuggestion = async (id: string, suggestion: string) => {
+  const mention = await mentionStore.get(id);
+  const context = await replyContext(mention?.accountId, []);
+
+  return mentionStore.update(id, (current) => ({
+    ...current,
+    suggestion,
+    findings: checkText(suggestion, "reply", 0, {
+      bannedPhrases: context.voice?.bannedPhrases ?? [],
+    }),
+  }));
+};
+
+export const dismissMention = (id: string, handledBy: string) =>
+  mentionStore.update(id, (current) => ({
+    ...current,
+    status: "dismissed",
+    handledBy,
+    handledAt: new Date().toISOString(),
+  }));
+
+export type SendResult =
+  | { mention: Mention; findings?: undefined; error?: undefined }
+  | { mention?: undefined; findings: PolicyFinding[]; error?: undefined }
+  | { mention?: undefined; findings?: undefined; error: string };
+
+/**
+ * Posts `text` (or the stored suggestion) as a reply to the mention, unless
+ * the content policy blocks it, and marks the mention sent. The reply is
+ * recorded as an engagement, so targeting skips the tweet, and as a post,
+ * so analytics tracks it. Each attempt is recorded as a `mention-reply` run.
+ */
+export const sendMentionReply = async (
+  mention: Mention,
+  text: string,
+  handledBy: string,
+  log: RunLog,
+  clientFor: TwitterClientFactory = ensureTwitterClient
+): Promise<SendResult> => {
+  const context = await replyContext(mention.accountId, log);
+  const findings = checkText(text, "reply", 0, {
+    bannedPhrases: context.voice?.bannedPhrases ?? [],
+  });
+  if (blockingFindings(findings).length > 0) {
+    return { findings };
+  }
+
+  const twitter = await clientFor(mention.accountId);
+  if (!twitter) {
+    return { error: "Twitter credentials missing" };
+  }
+  if (sending.has(mention.id)) {
+    return { error: "A reply to this mention is already being sent" };
+  }
+  sending.add(mention.id);
+  const started = Date.now();
+
+  try {
+    if ((await mentionStore.get(mention.id))?.status !== "pending") {
+      return { error: "Mention was already handled" };
+    }
+    const reply = await twitter.readWrite.v2.reply(text, mention.tweetId);
+    const at = new Date().toISOString();
+    const updated = await mentionStore.update(mention.id, (current) => ({
+      ...current,
+      status: "sent",
+      suggestion: text,
+      findings,
+      reply: { tweetId: reply.data.id, text, at },
+      handledBy,
+      handledAt: at,
+    }));
+    logEvent(log, "mentions", "ok", `Replied to ${mention.tweetId}.`, {
+      tweetId: reply.data.id,
+      userId: mention.authorId,
+      durationMs: since(started),
+    });
+
+    // The reply is live and the mention is marked sent, so a failed ledger
+    // write is only logged: failing the send would invite a second reply.
+    try {
+      const target = { tweetId: mention.tweetId, authorId: mention.authorId };
+      await recordEngagement(mention.accountId, target, "reply");
+      await recordPost({
+        id: reply.data.id,
+        kind: "reply",
+        text,
+        accountId: mention.accountId,
+        topic: context.topic,
+        niche: context.niche,
+        tone: context.tone,
+        hasImage: false,
+        parentId: mention.tweetId,
+      });
+    } catch (error) {
+      logEvent(
+        log,
+        "mentions",
+        "error",
+        `Replied to ${mention.tweetId}. Could not record it in the ledger.`,
+        { tweetId: reply.data.id, userId: mention.authorId, error }
+      );
+    }
+
+    await recordRun({
+      kind: "mention-reply",
+      input: { mentionId: mention.id, text },
+      events: log,
+      startedAt: started,
+      tweetId: reply.data.id,
+      tweetUrl: `https://twitter.com/i/web/status/${reply.data.id}`,
+    });
+    return { mention: updated ?? mention };
+  } catch (error) {
+    logEvent(log, "mentions", "error", "Could not send the reply.", {
+      error,
+    });
+    await recordRun({
+      kind: "mention-reply",
+      input: { mentionId: mention.id, text },
+      events: log,
+      startedAt: started,
+      error: (error as Error).message,
+    });
+    return { error: (error as Error).message };
+  } finally {
+    sending.delete(mention.id);
+  }
+};
+
+export interface MentionPollerOptions {
+  clientFor?: TwitterClientFactory;
+  intervalMs?: number;
+}
+
+/** Periodic poller started alongside the job worker. */
+export const createMentionPoller = ({
+  clientFor = ensureTwitterClient,
+  intervalMs = pollIntervalMinutes() * 60 * 1000,
+}: MentionPollerOptions = {}) =>
+  createPollingWorker({
+    name: "Mention polling",
+    intervalMs,
+    run: async () => {
+      const log: RunLog = [];
+      const result = await pollMentions(log, { clientFor });
+      log
+        .filter((event) => event.status === "error")
+        .forEach((event) =>
+          console.error(`Mention polling: ${event.message}`, event.error)
+        );
+      return result;
+    },
+  });
+
+export const startMentionPoller = () =>
+  startPollingWorker("mentionPoller", createMentionPoller);
@@ -0,0 +1,74 @@
+import { z } from "zod";
+
+/**
+ * Fixture of the n8n workflow import format (the JSON produced by n8n's
+ * "Download" action), trimmed to the fields n8n requires on import. Exports
+ * are validated against it before they are served.
+ */
+
+const connectionSchema = z.object({
+  node: z.string().min(1),
+  type: z.literal("main"),
+  index: z.number().int().min(0),
+});
+
+export const n8nNodeSchema = z.object({
+  id: z.uuid(),
+  name: z.string().min(1),
+  type: z.string().regex(/^n8n-nodes-base\.[A-Za-z]+$/),
+  typeVersion: z.number().positive(),
+  position: z.tuple([z.number(), z.number()]),
+  parameters: z.record(z.string(), z.unknown()),
+  webhookId: z.uuid().optional(),
+  credentials: z
+    .record(z.string(), z.object({ id: z.string(), name: z.string() }))
+    .optional(),
+});
+
+export const n8nWorkflowSchema = z
+  .object({
+    name: z.string().min(1),
+    nodes: z.array(n8nNodeSchema).min(1),
+    connections: z.record(
+      z.string(),
+      z.object({ main: z.array(z.array(connectionSchema)) })
+    ),
+    active: z.boolean(),
+    settings: z.looseObject({ executionOrder: z.enum(["v0", "v1"]) }),
+    pinData: z.record(z.string(), z.unknown()).optional(),
+    meta: z.record(z.string(), z.unknown()).optional(),
+    tags: z.array(z.unknown()).optional(),
+  })
+  .superRefine((workflow, ctx) => {
+    const names = new Set(workflow.nodes.map((node) => node.name));
+
+    if (names.size !== workflow.nodes.length) {
+      ctx.addIssue({
+        code: "custom",
+        message: "Node names must be unique",
+        path: ["nodes"],
+      });
+    }
+
+    for (const [source, { main }] of Object.entries(workflow.connections)) {
+      if (!names.has(source)) {
+        ctx.addIssue({
+          code: "custom",
+          message: `Connection from unknown node "${source}"`,
+          path: ["connections", source],
+        });
+      }
+      for (const target of main.flat()) {
+        if (!names.has(target.node)) {
+          ctx.addIssue({
+            code: "custom",
+            message: `Connection to unknown node "${target.node}"`,
+            path: ["connections", source],
+          });
+        }
+      }
+    }
+  });
+
+export type N8nNode = z.infer<typeof n8nNodeSchema>;
+export type N8nWorkflow = z.infer<typeof n8nWorkflowSchema>;
@@ -0,0 +1,99 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import { POST as webhook } from "@/app/api/n8n/webhook/route";
+import { buildN8nWorkflow, N8N_SECRET_HEADER } from "./n8n";
+import { n8nWorkflowSchema } from "./n8n-workflow-schema";
+import { isolateDataDir } from "./test-helpers";
+
+isolateDataDir();
+
+const build = (requireApproval = false) =>
+  buildN8nWorkflow({
+    appUrl: "https://studio.example.com/",
+    brief: {
+      topic: "Workflow exports",
+      niche: "automation",
+      tone: "plain",
+      engagementModes: ["like", "dm"],
+    },
+    cron: "0 9 * * 1-5",
+    requireApproval,
+  });
+
+describe("buildN8nWorkflow", () => {
+  it("matches the stored n8n workflow fixture", () => {
+    for (const requireApproval of [false, true]) {
+      const result = n8nWorkflowSchema.safeParse(build(requireApproval));
+      assert.equal(result.success, true, result.error?.message);
+    }
+  });
+
+  it("calls the authenticated webhook with the brief defaults", () => {
+    const workflow = build(true);
+    const byName = new Map(workflow.nodes.map((node) => [node.name, node]));
+    const callAgent = byName.get("Call agent");
+    const buildBrief = byName.get("Build brief");
+
+    assert.equal(
+      callAgent?.parameters.url,
+      "https://studio.example.com/api/n8n/webhook"
+    );
+    assert.match(
+      JSON.stringify(callAgent?.parameters.headerParameters),
+      new RegExp(N8N_SECRET_HEADER)
+    );
+    assert.match(String(buildBrief?.parameters.jsCode), /"mode": "preview"/);
+    assert.deepEqual(
+      workflow.connections["Call agent"].main[0].map((target) => target.node),
+      ["If like", "If retweet", "If reply", "If dm"]
+    );
+  });
+
+  it("fixture rejects connections to unknown nodes", () => {
+    const workflow = build();
+    workflow.connections["Call agent"].main[0].push({
+      node: "Missing",
+      type: "main",
+      index: 0,
+    });
+    assert.equal(n8nWorkflowSchema.safeParse(workflow).success, false);
+  });
+});
+
+describe("POST /api/n8n/webhook", () => {
+  const call = (secret?: string) =>
+    webhook(
+      new Request("http://localhost/api/n8n/webhook", {
+        method: "POST",
+        headers: secret ? { [N8N_SECRET_HEADER]: secret } : {},
+        body: JSON.stringify({}),
+      })
+    );
+
+  afterEach(() => {
+    delete process.env.N8N_WEBHOOK_SECRET;
+  });
+
+  it("is disabled without N8N_WEBHOOK_SECRET", async () => {
+    const response = await call("anything");
+    assert.equal(response.status, 503);
+  });
+
+  it("rejects a missing or wrong secret", async () => {
+    process.env.N8N_WEBHOOK_SECRET = "shared-secret";
+
+    for (const secret of [undefined, "wrong-secret", "Shared-Secret"]) {
+      const response = await call(secret);
+      assert.equal(response.status, 401);
+      assert.deepEqual(await response.json(), { error: "Invalid n8n secret" });
+    }
+  });
+
+  it("passes requests with the right secret on to /api/tweet", async () => {
+    process.env.N8N_WEBHOOK_SECRET = "shared-secret";
+
+    const response = await call("shared-secret");
+    assert.equal(response.status, 400);
+    assert.equal((await response.json()).error, "Invalid payload");
+  });
+});
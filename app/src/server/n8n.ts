@@ -0,0 +1,177 @@
+import { createHash, randomUUID, timingSafeEqual } from "crypto";
+import type { N8nNode, N8nWorkflow } from "./n8n-workflow-schema";
+import type { TweetBrief } from "./tweet-pipeline";
+
+export const N8N_SECRET_HEADER = "x-n8n-secret";
+export const WORKFLOW_FILENAME = "twitter-ai-orchestrator.json";
+
+const ENGAGEMENT_MODES: TweetBrief["engagementModes"] = [
+  "like",
+  "retweet",
+  "reply",
+  "dm",
+];
+
+/** n8n expression that is true when the agent response ran the given mode. */
+const modeCondition = (mode: TweetBrief["engagementModes"][number]) =>
+  mode === "dm"
+    ? "={{ ($json.plan?.dmRecipients ?? []).length > 0 }}"
+    : `={{ ($json.plan?.engagementTargets ?? []).some((target) => target.actions.includes("${mode}")) }}`;
+
+const MODE_LABELS: Record<TweetBrief["engagementModes"][number], string> = {
+  like: "Like",
+  retweet: "Retweet",
+  reply: "Reply",
+  dm: "DM",
+};
+
+const node = (
+  name: string,
+  type: string,
+  typeVersion: number,
+  position: [number, number],
+  parameters: Record<string, unknown>,
+  extra: Partial<N8nNode> = {}
+): N8nNode => ({
+  id: randomUUID(),
+  name,
+  type: `n8n-nodes-base.${type}`,
+  typeVersion,
+  position,
+  parameters,
+  ...extra,
+});
+
+/**
+ * Builds an importable n8n workflow: webhook and schedule triggers feed a
+ * brief into the agent's authenticated webhook, and one IF branch per
+ * engagement mode fans out on what the run did.
+ */
+export const buildN8nWorkflow = (params: {
+  appUrl: string;
+  brief: Partial<TweetBrief>;
+  cron: string;
+  requireApproval: boolean;
+}): N8nWorkflow => {
+  const { appUrl, brief, cron, requireApproval } = params;
+  const defaults = {
+    ...brief,
+    mode: requireApproval ? "preview" : "publish",
+  };
+
+  const webhook = node(
+    "Webhook",
+    "webhook",
+    2,
+    [0, 0],
+    {
+      httpMethod: "POST",
+      path: "twitter-ai-orchestrator",
+      responseMode: "onReceived",
+      options: {},
+    },
+    { webhookId: randomUUID() }
+  );
+  const schedule = node("Schedule", "scheduleTrigger", 1.2, [0, 240], {
+    rule: { interval: [{ field: "cronExpression", expression: cron }] },
+  });
+  const buildBrief = node("Build brief", "code", 2, [240, 120], {
+    mode: "runOnceForEachItem",
+    jsCode: [
+      `const defaults = ${JSON.stringify(defaults, null, 2)};`,
+      "return { json: { ...defaults, ...($json.body ?? {}) } };",
+    ].join("\n"),
+  });
+  const callAgent = node("Call agent", "httpRequest", 4.2, [480, 120], {
+    method: "POST",
+    url: `${appUrl.replace(/\/$/, "")}/api/n8n/webhook`,
+    sendHeaders: true,
+    headerParameters: {
+      parameters: [
+        {
+          name: N8N_SECRET_HEADER,
+          value: "={{ $env.N8N_WEBHOOK_SECRET }}",
+        },
+      ],
+    },
+    sendBody: true,
+    specifyBody: "json",
+    jsonBody: "={{ JSON.stringify($json) }}",
+    options: {},
+  });
+
+  const branches = ENGAGEMENT_MODES.flatMap((mode, index) => {
+    const y = index * 180 - 270;
+    return [
+      node(`If ${mode}`, "if", 2, [720, y], {
+        conditions: {
+          options: {
+            caseSensitive: true,
+            leftValue: "",
+            typeValidation: "loose",
+          },
+          conditions: [
+            {
+              id: randomUUID(),
+              leftValue: modeCondition(mode),
+              rightValue: "",
+              operator: {
+                type: "boolean",
+                operation: "true",
+                singleValue: true,
+              },
+            },
+          ],
+          combinator: "and",
+        },
+        options: {},
+      }),
+      node(`${MODE_LABELS[mode]} follow-up`, "noOp", 1, [960, y], {}),
+    ];
+  });
+
+  const to = (name: string) => ({
+    node: name,
+    type: "main" as const,
+    index: 0,
+  });
+
+  return {
+    name: "Twitter AI Orchestrator",
+    nodes: [webhook, schedule, buildBrief, callAgent, ...branches],
+    connections: {
+      [webhook.name]: { main: [[to(buildBrief.name)]] },
+      [schedule.name]: { main: [[to(buildBrief.name)]] },
+      [buildBrief.name]: { main: [[to(callAgent.name)]] },
+      [callAgent.name]: {
+        main: [ENGAGEMENT_MODES.map((mode) => to(`If ${mode}`))],
+      },
+      ...Object.fromEntries(
+        ENGAGEMENT_MODES.map((mode) => [
+          `If ${mode}`,
+          { main: [[to(`${MODE_LABELS[mode]} follow-up`)], []] },
+        ])
+      ),
+    },
+    active: false,
+    settings: { executionOrder: "v1" },
+    pinData: {},
+    meta: { templateCredsSetupCompleted: false },
+    tags: [],
+  };
+};
+
+const digest = (value: string) => createHash("sha256").update(value).digest();
+
+/** Checks the shared secret n8n sends with every call to the agent. */
+export const verifyN8nSecret = (provided: string | null) => {
+  const secret = process.env.N8N_WEBHOOK_SECRET;
+
+  if (!secret) {
+    return "unconfigured" as const;
+  }
+
+  return provided && timingSafeEqual(digest(provided), digest(secret))
+    ? ("ok" as const)
+    : ("invalid" as const);
+};
@@ -0,0 +1,128 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { POST as generate } from "@/app/api/plans/[id]/generate/route";
+import { actAs } from "./auth";
+import { getDraft } from "./drafts";
+import {
+  createPlan,
+  describePlan,
+  generatePlanDrafts,
+  getPlan,
+  planInputSchema,
+  planToIcs,
+  type PlanBrief,
+} from "./planner";
+import { listRuns } from "./runs";
+import { isolateDataDir } from "./test-helpers";
+
+isolateDataDir();
+
+const newPlan = (brief: Partial<PlanBrief> = {}) =>
+  createPlan(
+    planInputSchema.parse({
+      theme: "Customer onboarding",
+      startDate: "2026-11-02",
+      endDate: "2026-11-06",
+      cadence: { weekdays: [1, 3, 5], times: ["09:00"] },
+      brief: {
+        niche: "saas founders",
+        tone: "practical",
+        llm: { provider: "fixture" },
+        ...brief,
+      },
+    }),
+    []
+  );
+
+describe("generatePlanDrafts", () => {
+  it("drafts every item in the background with its own angle", async () => {
+    const plan = await newPlan();
+    assert.equal(plan.items.length, 3);
+
+    const work = generatePlanDrafts(plan, undefined);
+    const during = await describePlan(plan);
+    assert.equal(during.generating, true);
+    assert.ok(during.items.every((item) => item.status === "generating"));
+    await work;
+
+    const done = await describePlan((await getPlan(plan.id))!);
+    assert.equal(done.generating, false);
+    for (const item of done.items) {
+      const draft = await getDraft(item.draftId!);
+      assert.equal(item.status, "draft");
+      assert.equal(draft?.request.topic, item.topic);
+      assert.equal(draft?.request.angle, item.angle);
+    }
+    assert.equal((await listRuns()).length, 3);
+  });
+
+  it("only drafts the selected items", async () => {
+    const plan = await newPlan();
+    const [first] = plan.items;
+
+    await generatePlanDrafts(plan, [first.id]);
+
+    const { items } = await describePlan((await getPlan(plan.id))!);
+    assert.deepEqual(
+      items.map((item) => item.status),
+      ["draft", "planned", "planned"]
+    );
+  });
+});
+
+describe("POST /api/plans/[id]/generate", () => {
+  it("refuses a plan whose account no longer exists", async () => {
+    const plan = await newPlan({ accountId: "deleted-account" });
+    const request = new Request(
+      `http://localhost/api/plans/${plan.id}/generate`,
+      { method: "POST", body: JSON.stringify({}) }
+    );
+    actAs(request, { type: "user", id: "u1", name: "writer", role: "writer" });
+
+    const response = await generate(request, {
+      params: Promise.resolve({ id: plan.id }),
+    });
+
+    assert.equal(response.status, 404);
+    assert.equal((await response.json()).error, "Account not found");
+  });
+});
+
+describe("planToIcs", () => {
+  it("folds lines longer than 75 octets", () => {
+    const topic = `Überblick: ${"onboarding emails that convert ".repeat(4)}`;
+    const ics = planToIcs({ id: "plan", theme: "Onboarding" }, [
+      {
+        id: "item",
+        topic,
+        angle: "",
+        date: "2026-11-02",
+        time: "09:00",
+        status: "planned",
+      },
+    ]);
+
+    for (const line of ics.split("\r\n")) {
+      assert.ok(Buffer.byteLength(line) <= 75, line);
+    }
+    const unfolded = ics.replace(/\r\n /g, "");
+    assert.ok(unfolded.includes(`SUMMARY:[planned] ${topic}`));
+  });
+
+  it("escapes every kind of line break in text", () => {
+    const ics = planToIcs({ id: "plan", theme: "Onboarding" }, [
+      {
+        id: "item",
+        topic: "Day one\r\nDay two\rDay three",
+        angle: "Checklists\r\nwork",
+        date: "2026-11-02",
+        time: "09:00",
+        status: "planned",
+      },
+    ]);
+
+    assert.doesNotMatch(ics.replace(/\r\n/g, ""), /[\r\n]/);
+    assert.ok(ics.includes("SUMMARY:[planned] Day one\\nDay two\\nDay three"));
+    assert.ok(ics.includes("DESCRIPTION:Checklists\\nwork"));
+  });
+});
@@ -0,0 +1,465 @@
+import { randomUUID } from "crypto";
+import { z } from "zod";
+import { forEachLimited } from "@/utils/concurrency";
+import { toCsv } from "@/utils/csv";
+import { ensureOpenAi, ensureTwitterClient } from "./clients";
+import { createDraft, getDraft, type DraftStatus } from "./drafts";
+import { generateWithFallback, resolveTextGenerator } from "./llm";
+import { logEvent, type RunLog } from "./run-log";
+import { recordRun } from "./runs";
+import { createJsonStore } from "./store";
+import {
+  briefSchema,
+  buildTweetPlan,
+  resolveBriefContext,
+} from "./tweet-pipeline";
+
+/** Slots per plan; also caps the proposed backlog. */
+export const MAX_PLAN_ITEMS = 60;
+const MAX_PLAN_DAYS = 92;
+/** Plan items drafted at the same time. */
+const PLAN_DRAFT_CONCURRENCY = 3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const isoDate = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD")
+  .refine((value) => !Number.isNaN(Date.parse(value)), "Invalid date");
+
+/** Posting days and times, in UTC like cron schedules. */
+export const cadenceSchema = z.object({
+  /** 0 = Sunday. */
+  weekdays: z
+    .array(z.number().int().min(0).max(6))
+    .min(1)
+    .default([1, 2, 3, 4, 5]),
+  times: z
+    .array(z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use HH:MM"))
+    .min(1)
+    .max(6)
+    .default(["09:00"]),
+});
+
+/** Brief shared by every item; each item supplies the topic. */
+export const planBriefSchema = briefSchema.omit({ topic: true });
+
+export const planInputSchema = z
+  .object({
+    theme: z.string().trim().min(3),
+    startDate: isoDate,
+    endDate: isoDate,
+    cadence: cadenceSchema.prefault({}),
+    brief: planBriefSchema,
+  })
+  .refine((value) => value.endDate >= value.startDate, {
+    message: "endDate must not be before startDate",
+    path: ["endDate"],
+  })
+  .refine(
+    (value) =>
+      Date.parse(value.endDate) - Date.parse(value.startDate) <
+      MAX_PLAN_DAYS * DAY_MS,
+    { message: `Plans cover at most ${MAX_PLAN_DAYS} days`, path: ["endDate"] }
+  );
+
+export const planItemSchema = z.object({
+  /** Omit for new items. */
+  id: z.string().optional(),
+  topic: z.string().trim().min(3),
+  angle: z.string().trim().default(""),
+});
+
+/** Items in their new order; dates follow the order. */
+export const planUpdateSchema = z.object({
+  theme: z.string().trim().min(3).optional(),
+  items: z.array(planItemSchema).max(MAX_PLAN_ITEMS).optional(),
+});
+
+export const generateDraftsSchema = z.object({
+  /** Items to draft; every item without a draft when unset. */
+  itemIds: z.array(z.string()).optional(),
+});
+
+export type PlanBrief = z.infer<typeof planBriefSchema>;
+export type Cadence = z.infer<typeof cadenceSchema>;
+
+export interface PlanItem {
+  id: string;
+  topic: string;
+  angle: string;
+  /** Unset once the backlog outgrows the cadence's slots. */
+  date?: string;
+  time?: string;
+  draftId?: string;
+  /** Why the last drafting attempt failed. */
+  error?: string;
+}
+
+export interface ContentPlan {
+  id: string;
+  theme: string;
+  startDate: string;
+  endDate: string;
+  cadence: Cadence;
+  brief: PlanBrief;
+  items: PlanItem[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type PlanItemStatus = "planned" | "generating" | "failed" | DraftStatus;
+
+export interface PlanItemView extends PlanItem {
+  status: PlanItemStatus;
+  tweetUrl?: string;
+}
+
+const planStore = createJsonStore<ContentPlan>("plans");
+
+/** Plans with drafts being generated in this process. */
+const generating = new Map<string, Promise<void>>();
+/** Items queued or being drafted in this process. */
+const pendingItems = new Set<string>();
+
+/** Dates in the range on the cadence's weekdays, one slot per time. */
+export const planSlots = (
+  startDate: string,
+  endDate: string,
+  cadence: Cadence
+) => {
+  const slots: { date: string; time: string }[] = [];
+  const times = [...cadence.times].sort();
+
+  for (
+    let day = Date.parse(startDate);
+    day <= Date.parse(endDate) && slots.length < MAX_PLAN_ITEMS;
+    day += DAY_MS
+  ) {
+    if (cadence.weekdays.includes(new Date(day).getUTCDay())) {
+      const date = new Date(day).toISOString().slice(0, 10);
+      slots.push(...times.map((time) => ({ date, time })));
+    }
+  }
+
+  return slots.slice(0, MAX_PLAN_ITEMS);
+};
+
+const scheduleItems = (
+  items: Omit<PlanItem, "date" | "time">[],
+  slots: { date: string; time: string }[]
+): PlanItem[] =>
+  items.map((item, index) => ({
+    id: item.id,
+    topic: item.topic,
+    angle: item.angle,
+    draftId: item.draftId,
+    error: item.error,
+    ...slots[index],
+  }));
+
+const parseBacklog = (raw: string) => {
+  const start = raw.indexOf("{");
+  const end = raw.lastIndexOf("}");
+
+  try {
+    const parsed = JSON.parse(raw.slice(start, end + 1)) as {
+      topics?: unknown;
+    };
+    return Array.isArray(parsed.topics)
+      ? parsed.topics.flatMap((item) => {
+          const topic = planItemSchema.omit({ id: true }).safeParse(item);
+          return topic.success ? [topic.data] : [];
+        })
+      : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Creates a plan with a model-proposed backlog, one topic per cadence slot.
+ * An unusable proposal leaves an empty backlog to fill by hand.
+ */
+export const createPlan = async (
+  input: z.infer<typeof planInputSchema>,
+  log: RunLog
+) => {
+  const { theme, startDate, endDate, cadence, brief } = input;
+  const slots = planSlots(startDate, endDate, cadence);
+  let topics: ReturnType<typeof parseBacklog> = [];
+
+  if (slots.length === 0) {
+    logEvent(
+      log,
+      "planner",
+      "warning",
+      "The date range has no posting days for this cadence."
+    );
+  } else {
+    const context = await resolveBriefContext({ ...brief, topic: theme }, log);
+    const generator = resolveTextGenerator(brief.llm, log);
+    topics = parseBacklog(
+      await generateWithFallback(
+        generator,
+        {
+          kind: "topic-backlog",
+          theme,
+          niche: context.niche,
+          tone: context.tone,
+          count: slots.length,
+          voice: context.voice,
+        },
+        log
+      )
+    ).slice(0, slots.length);
+    logEvent(
+      log,
+      "planner",
+      topics.length ? "ok" : "warning",
+      topics.length
+        ? `Proposed ${topics.length} topic(s) for ${slots.length} slot(s).`
+        : `${generator.label} returned no usable backlog. Add topics by hand.`
+    );
+  }
+
+  const now = new Date().toISOString();
+  return planStore.put({
+    id: randomUUID(),
+    theme,
+    startDate,
+    endDate,
+    cadence,
+    brief,
+    items: scheduleItems(
+      topics.map((topic) => ({ ...topic, id: randomUUID() })),
+      slots
+    ),
+    createdAt: now,
+    updatedAt: now,
+  });
+};
+
+export const listPlans = async () =>
+  (await planStore.list()).sort((a, b) =>
+    b.startDate.localeCompare(a.startDate)
+  );
+
+export const getPlan = (id: string) => planStore.get(id);
+
+export const deletePlan = (id: string) => planStore.remove(id);
+
+/** Applies edits; items keep their drafts and take the slots in their new order. */
+export const updatePlan = (
+  id: string,
+  update: z.infer<typeof planUpdateSchema>
+) =>
+  planStore.update(id, (current) => {
+    const existing = new Map(current.items.map((item) => [item.id, item]));
+    const items = update.items
+      ? update.items.map((item) => ({
+          id: item.id && existing.has(item.id) ? item.id : randomUUID(),
+          topic: item.topic,
+          angle: item.angle,
+          draftId: item.id ? existing.get(item.id)?.draftId : undefined,
+          error: item.id ? existing.get(item.id)?.error : undefined,
+        }))
+      : current.items;
+
+    return {
+      ...current,
+      theme: update.theme ?? current.theme,
+      items: scheduleItems(
+        items,
+        planSlots(current.startDate, current.endDate, current.cadence)
+      ),
+      updatedAt: new Date().toISOString(),
+    };
+  });
+
+export const planInProgress = (id: string) => generating.has(id);
+
+const itemStatus = (item: PlanItem, draftStatus?: DraftStatus) => {
+  if (draftStatus) {
+    return draftStatus;
+  }
+  if (pendingItems.has(item.id)) {
+    return "generating";
+  }
+  return item.error ? "failed" : "planned";
+};
+
+/** Items with the status of their draft, for the calendar and exports. */
+export const describePlan = async (plan: ContentPlan) => {
+  const items: PlanItemView[] = [];
+
+  for (const item of plan.items) {
+    const draft = item.draftId ? await getDraft(item.draftId) : undefined;
+    items.push({
+      ...item,
+      status: itemStatus(item, draft?.status),
+      tweetUrl: draft?.tweetUrl,
+    });
+  }
+
+  return { ...plan, items, generating: generating.has(plan.id) };
+};
+
+const updateItem = (id: string, itemId: string, patch: Partial<PlanItem>) =>
+  planStore.update(id, (current) => ({
+    ...current,
+    items: current.items.map((candidate) =>
+      candidate.id === itemId ? { ...candidate, ...patch } : candidate
+    ),
+    updatedAt: new Date().toISOString(),
+  }));
+
+const draftItem = async (plan: ContentPlan, item: PlanItem) => {
+  const startedAt = Date.now();
+  const log: RunLog = [];
+  const input = {
+    ...plan.brief,
+    topic: item.topic,
+    angle: item.angle || undefined,
+  };
+
+  try {
+    const brief = briefSchema.parse(input);
+    const tweetPlan = await buildTweetPlan(
+      brief,
+      {
+        openai: ensureOpenAi(),
+        twitter: await ensureTwitterClient(brief.accountId),
+      },
+      log
+    );
+    const draft = await createDraft(brief, tweetPlan, log);
+    await recordRun({
+      kind: "draft",
+      input: { planId: plan.id, itemId: item.id, ...brief },
+      events: log,
+      startedAt,
+      draftId: draft.id,
+    });
+    await updateItem(plan.id, item.id, { draftId: draft.id, error: undefined });
+  } catch (error) {
+    await recordRun({
+      kind: "draft",
+      input: { planId: plan.id, itemId: item.id, ...input },
+      events: log,
+      startedAt,
+      error: (error as Error).message,
+    });
+    await updateItem(plan.id, item.id, { error: (error as Error).message });
+  } finally {
+    pendingItems.delete(item.id);
+  }
+};
+
+/**
+ * Drafts each selected item through the regular pipeline, at most
+ * `PLAN_DRAFT_CONCURRENCY` at a time, in the background, recording a run per
+ * item. Items that already have a draft are skipped. Resolves once the
+ * plan is done.
+ */
+export const generatePlanDrafts = (
+  plan: ContentPlan,
+  itemIds: string[] | undefined
+) => {
+  const running = generating.get(plan.id);
+  if (running) {
+    return running;
+  }
+
+  const selected = plan.items.filter(
+    (item) => !item.draftId && (!itemIds || itemIds.includes(item.id))
+  );
+  selected.forEach((item) => pendingItems.add(item.id));
+  const work = forEachLimited(selected, PLAN_DRAFT_CONCURRENCY, (item) =>
+    draftItem(plan, item)
+  ).finally(() => generating.delete(plan.id));
+  generating.set(plan.id, work);
+  return work;
+};
+
+export const planToCsv = (items: PlanItemView[]) =>
+  toCsv([
+    ["date", "time_utc", "topic", "angle", "status", "draft_id", "tweet_url"],
+    ...items.map((item) => [
+      item.date ?? "",
+      item.time ?? "",
+      item.topic,
+      item.angle,
+      item.status,
+      item.draftId ?? "",
+      item.tweetUrl ?? "",
+    ]),
+  ]);
+
+const icsText = (value: string) =>
+  value
+    .replace(/\r\n?/g, "\n")
+    .replace(/[\\;,]/g, (match) => `\\${match}`)
+    .replace(/\n/g, "\\n");
+
+/** Splits lines longer than 75 octets into continuation lines (RFC 5545). */
+const foldIcsLine = (line: string) => {
+  const parts: string[] = [];
+  let current = "";
+  let octets = 0;
+
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    if (octets + size > 75) {
+      parts.push(current);
+      // The leading space of a continuation line counts towards its limit.
+      current = " ";
+      octets = 1;
+    }
+    current += char;
+    octets += size;
+  }
+
+  return [...parts, current].join("\r\n");
+};
+
+const icsStamp = (date: Date) =>
+  date
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+
+/** One 15-minute event per scheduled item; unscheduled items are left out. */
+export const planToIcs = (
+  plan: Pick<ContentPlan, "id" | "theme">,
+  items: PlanItemView[]
+) => {
+  const stamp = icsStamp(new Date());
+  const events = items.flatMap((item) => {
+    if (!item.date || !item.time) {
+      return [];
+    }
+    const start = new Date(`${item.date}T${item.time}:00Z`);
+    return [
+      "BEGIN:VEVENT",
+      `UID:${item.id}@${plan.id}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${icsStamp(start)}`,
+      `DTEND:${icsStamp(new Date(start.getTime() + 15 * 60 * 1000))}`,
+      `SUMMARY:${icsText(`[${item.status}] ${item.topic}`)}`,
+      `DESCRIPTION:${icsText([item.angle, item.tweetUrl].filter(Boolean).join("\n"))}`,
+      "END:VEVENT",
+    ];
+  });
+
+  return [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Agentic Twitter Automation Studio//Content planner//EN",
+    "CALSCALE:GREGORIAN",
+    `X-WR-CALNAME:${icsText(plan.theme)}`,
+    ...events,
+    "END:VCALENDAR",
+  ]
+    .map(foldIcsLine)
+    .join("\r\n");
+};
@@ -0,0 +1,83 @@
+export interface PollingWorkerOptions<T> {
+  /** Names the worker in error logs: "<name> failed". */
+  name: string;
+  intervalMs: number;
+  /** One pass. A tick while the previous pass is still running is skipped. */
+  run: () => Promise<T>;
+  /** Runs once before the first pass, e.g. to recover interrupted work. */
+  beforeStart?: () => Promise<void>;
+}
+
+export interface PollingWorker<T> {
+  /**
+   * Runs one pass now; undefined when a pass is already running. Exposed so
+   * tests can drive the worker.
+   */
+  tick: () => Promise<T | undefined>;
+  start: () => void;
+  stop: () => void;
+}
+
+/** Runs `run` every `intervalMs`, one pass at a time, until stopped. */
+export const createPollingWorker = <T>({
+  name,
+  intervalMs,
+  run,
+  beforeStart,
+}: PollingWorkerOptions<T>): PollingWorker<T> => {
+  let timer: ReturnType<typeof setInterval> | undefined;
+  let running = false;
+
+  const tick = async () => {
+    if (running) {
+      return undefined;
+    }
+    running = true;
+
+    try {
+      return await run();
+    } finally {
+      running = false;
+    }
+  };
+
+  return {
+    tick,
+    start: () => {
+      if (timer) {
+        return;
+      }
+      const safeTick = () =>
+        tick().catch((error) => console.error(`${name} failed`, error));
+      void (beforeStart ? beforeStart().then(safeTick) : safeTick());
+      timer = setInterval(safeTick, intervalMs);
+    },
+    stop: () => {
+      if (timer) {
+        clearInterval(timer);
+        timer = undefined;
+      }
+    },
+  };
+};
+
+const globalForWorkers = globalThis as unknown as {
+  pollingWorkers?: Map<string, PollingWorker<unknown>>;
+};
+
+/**
+ * Starts the worker registered under `key`, creating it on first use. The
+ * registry lives on `globalThis`, so hot reloads in dev reuse the running
+ * worker instead of starting a second one.
+ */
+export const startPollingWorker = <W extends PollingWorker<unknown>>(
+  key: string,
+  create: () => W
+) => {
+  globalForWorkers.pollingWorkers ??= new Map();
+  const workers = globalForWorkers.pollingWorkers;
+  const worker = (workers.get(key) as W | undefined) ?? create();
+  workers.set(key, worker);
+  worker.start();
+  return worker;
+};
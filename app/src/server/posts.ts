@@ -0,0 +1,33 @@
+import type { HookStyle } from "@/utils/hook-styles";
+import { createJsonStore } from "./store";
+
+export type PostKind = "tweet" | "thread" | "reply";
+
+/** A tweet this app published, with the brief details analytics group by. */
+export interface PublishedPost {
+  /** Tweet id. */
+  id: string;
+  kind: PostKind;
+  text: string;
+  accountId?: string;
+  profileId?: string;
+  topic: string;
+  niche: string;
+  tone: string;
+  hookStyle?: HookStyle;
+  variantId?: string;
+  hasImage: boolean;
+  /** First tweet of the thread, or the tweet a reply answers. */
+  parentId?: string;
+  publishedAt: string;
+}
+
+const postStore = createJsonStore<PublishedPost>("posts");
+
+export const recordPost = (post: Omit<PublishedPost, "publishedAt">) =>
+  postStore.put({ ...post, publishedAt: new Date().toISOString() });
+
+export const listPosts = async () =>
+  (await postStore.list()).sort((a, b) =>
+    b.publishedAt.localeCompare(a.publishedAt)
+  );
@@ -0,0 +1,53 @@
+import { randomUUID } from "crypto";
+import { z } from "zod";
+import { createJsonStore } from "./store";
+
+const phraseList = z.array(z.string().trim().min(1)).default([]);
+
+export const brandProfileSchema = z.object({
+  name: z.string().trim().min(2),
+  voice: z.string().trim().min(10),
+  niche: z.string().trim().optional(),
+  tone: z.string().trim().optional(),
+  callToAction: z.string().trim().optional(),
+  bannedPhrases: phraseList,
+  requiredDisclosures: phraseList,
+  emojiPolicy: z.enum(["none", "sparing", "liberal"]).default("sparing"),
+  defaultHashtags: phraseList,
+  exampleTweets: z.array(z.string().trim().min(1)).max(10).default([]),
+});
+
+export type BrandProfileInput = z.infer<typeof brandProfileSchema>;
+
+export interface BrandProfile extends BrandProfileInput {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+const profileStore = createJsonStore<BrandProfile>("profiles");
+
+export const listProfiles = async () =>
+  (await profileStore.list()).sort((a, b) => a.name.localeCompare(b.name));
+
+export const getProfile = (id: string) => profileStore.get(id);
+
+export const createProfile = (input: BrandProfileInput) => {
+  const now = new Date().toISOString();
+  return profileStore.put({
+    ...input,
+    id: randomUUID(),
+    createdAt: now,
+    updatedAt: now,
+  });
+};
+
+export const updateProfile = (id: string, input: BrandProfileInput) =>
+  profileStore.update(id, (current) => ({
+    ...input,
+    id,
+    createdAt: current.createdAt,
+    updatedAt: new Date().toISOString(),
+  }));
+
+export const deleteProfile = (id: string) => profileStore.remove(id);
@@ -0,0 +1,174 @@
+import { z } from "zod";
+import type { RunEventError, RunStep } from "./run-log";
+import { createJsonStore } from "./store";
+import type { TweetPlan } from "./tweet-pipeline";
+
+export type PublishStepStatus = "ok" | "failed" | "skipped";
+export type PublicationStatus = "running" | "succeeded" | "partial" | "failed";
+
+/** What one side effect of a publication did, as last attempted. */
+export interface PublishStepOutcome {
+  /** Stable within a publication: `media:0`, `tweet`, `thread:1`, `like:<tweetId>`, `dm:<handle>`, ... */
+  id: string;
+  step: RunStep;
+  status: PublishStepStatus;
+  message: string;
+  /** Attempt of the publication that produced this outcome, from 1; unset for steps no attempt reached. */
+  attempt?: number;
+  at?: string;
+  tweetId?: string;
+  mediaId?: string;
+  userId?: string;
+  error?: RunEventError;
+}
+
+/** One tweet being published under an idempotency key, across retries. */
+export interface Publication {
+  /** The idempotency key. */
+  id: string;
+  accountId?: string;
+  /** The plan of the first attempt that got past the media uploads. */
+  plan: TweetPlan;
+  status: PublicationStatus;
+  attempts: number;
+  steps: PublishStepOutcome[];
+  tweetId?: string;
+  tweetUrl?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Draft approvals and scheduled jobs key their publications with these. */
+const RESERVED_KEY_PREFIXES = ["draft:", "job:"];
+
+export const idempotencyKeySchema = z
+  .string()
+  .trim()
+  .regex(/^[\w.:-]{8,200}$/, "8-200 letters, digits, `.`, `:`, `_` or `-`")
+  .refine(
+    (key) => !RESERVED_KEY_PREFIXES.some((prefix) => key.startsWith(prefix)),
+    "Keys starting with `draft:` or `job:` are reserved"
+  );
+
+const publicationStore = createJsonStore<Publication>("publications");
+
+/** Keys with an attempt running in this process. */
+const inFlight = new Set<string>();
+
+/** The `Idempotency-Key` header, or `idempotencyKey` in the body. */
+export const requestIdempotencyKey = (request: Request, body: unknown) =>
+  request.headers.get("idempotency-key") ??
+  (body as { idempotencyKey?: unknown } | null)?.idempotencyKey;
+
+export const getPublication = (key: string) => publicationStore.get(key);
+
+export const publicationInProgress = (key: string) => inFlight.has(key);
+
+/** Only media uploads can be redone with a different plan; they post nothing. */
+const hasLiveEffects = (publication: Publication) =>
+  publication.steps.some(
+    (outcome) => outcome.status === "ok" && outcome.step !== "media"
+  );
+
+/**
+ * Opens the next attempt of the publication under `key`. Returns undefined
+ * while another attempt under the same key is still running.
+ */
+export const startPublication = async (
+  key: string,
+  plan: TweetPlan,
+  accountId: string | undefined
+) => {
+  if (inFlight.has(key)) {
+    return undefined;
+  }
+  inFlight.add(key);
+
+  const now = new Date().toISOString();
+  const publication = await publicationStore
+    .upsert(key, (current): Publication => {
+      if (!current) {
+        return {
+          id: key,
+          accountId,
+          plan,
+          status: "running",
+          attempts: 1,
+          steps: [],
+          createdAt: now,
+          updatedAt: now,
+        };
+      }
+      const samePlan = JSON.stringify(current.plan) === JSON.stringify(plan);
+      const keepSteps = samePlan || hasLiveEffects(current);
+      return {
+        ...current,
+        plan: keepSteps ? current.plan : plan,
+        steps: keepSteps ? current.steps : [],
+        status: "running",
+        attempts: current.attempts + 1,
+        updatedAt: now,
+      };
+    })
+    .catch((error) => {
+      inFlight.delete(key);
+      throw error;
+    });
+
+  let steps = publication.steps;
+
+  return {
+    key,
+    attempt: publication.attempts,
+    plan: publication.plan,
+    /** The outcome of `id` if an earlier attempt (or this one) completed it. */
+    completed: (id: string) =>
+      steps.find((outcome) => outcome.id === id && outcome.status === "ok"),
+    record: async (outcome: Omit<PublishStepOutcome, "attempt" | "at">) => {
+      const recorded = {
+        ...outcome,
+        attempt: publication.attempts,
+        at: new Date().toISOString(),
+      };
+      steps = [...steps.filter((step) => step.id !== outcome.id), recorded];
+      await publicationStore.update(key, (current) => ({
+        ...current,
+        steps,
+        updatedAt: recorded.at,
+      }));
+      return recorded;
+    },
+    /**
+     * Closes the attempt and reports every step in `planned`, including the
+     * ones it never reached.
+     */
+    finish: async (
+      result: { tweetId?: string; tweetUrl?: string },
+      planned: { id: string; step: RunStep }[]
+    ): Promise<PublishStepOutcome[]> => {
+      const status: PublicationStatus = !result.tweetId
+        ? "failed"
+        : steps.some((step) => step.status === "failed")
+          ? "partial"
+          : "succeeded";
+      await publicationStore
+        .update(key, (current) => ({
+          ...current,
+          status,
+          tweetId: result.tweetId,
+          tweetUrl: result.tweetUrl,
+          updatedAt: new Date().toISOString(),
+        }))
+        .finally(() => inFlight.delete(key));
+      return planned.map(
+        ({ id, step }) =>
+          steps.find((outcome) => outcome.id === id) ?? {
+            id,
+            step,
+            status: "skipped",
+            message: "Not reached: an earlier step failed or the run stopped.",
+          }
+      );
+    },
+  };
+};
@@ -0,0 +1,28 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { endpointKey } from "./quota";
+
+const key = (method: string, path: string) =>
+  endpointKey(method, new URL(`https://api.twitter.com${path}`));
+
+describe("endpointKey", () => {
+  it("collapses numeric ids", () => {
+    assert.equal(key("post", "/2/users/123/likes"), "POST /2/users/:id/likes");
+    assert.equal(
+      key("DELETE", "/2/users/123/likes/456"),
+      "DELETE /2/users/:id/likes/:id"
+    );
+    assert.equal(key("POST", "/2/tweets"), "POST /2/tweets");
+  });
+
+  it("shares one key across username lookups", () => {
+    assert.equal(
+      key("GET", "/2/users/by/username/alice"),
+      "GET /2/users/by/username/:username"
+    );
+    assert.equal(
+      key("GET", "/2/users/by/username/bob_2024"),
+      "GET /2/users/by/username/:username"
+    );
+  });
+});
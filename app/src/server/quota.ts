@@ -0,0 +1,223 @@
+import {
+  ApiResponseError,
+  TwitterApiPluginResponseOverride,
+  type IGetHttpRequestArgs,
+  type ITwitterApiClientPlugin,
+  type TwitterRateLimit,
+} from "twitter-api-v2";
+import { createJsonStore } from "./store";
+
+/** Endpoints that count against the plan's monthly post cap. */
+const POST_ENDPOINTS = new Set(["POST /2/tweets"]);
+const DEFAULT_MAX_WAIT_MS = 60_000;
+const MAX_RATE_LIMIT_RETRIES = 2;
+
+export interface EndpointUsage {
+  /** `endpoint`, prefixed with the connected account id when there is one. */
+  id: string;
+  /** Endpoint key such as `POST /2/users/:id/likes`. */
+  endpoint: string;
+  /** Connected account whose tokens made the calls; unset for env credentials. */
+  accountId?: string;
+  limit?: number;
+  remaining?: number;
+  resetAt?: string;
+  /** Calls made in `month` (YYYY-MM, UTC). */
+  calls: number;
+  month: string;
+  updatedAt: string;
+}
+
+export class QuotaExceededError extends Error {
+  readonly code = "quota_exceeded";
+
+  constructor(
+    readonly endpoint: string,
+    readonly resetAt: Date,
+    readonly reason: "rate-limit" | "monthly-budget"
+  ) {
+    super(
+      reason === "monthly-budget"
+        ? `Monthly post budget exhausted; resets ${resetAt.toISOString()}.`
+        : `Rate limit for ${endpoint} exhausted; resets ${resetAt.toISOString()}.`
+    );
+    this.name = "QuotaExceededError";
+  }
+}
+
+const usageStore = createJsonStore<EndpointUsage>("quota");
+
+const monthOf = (date: Date) => date.toISOString().slice(0, 7);
+
+const startOfNextMonth = (date: Date) =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1));
+
+const monthlyPostBudget = () => {
+  const budget = Number(process.env.TWITTER_MONTHLY_POST_BUDGET);
+  return Number.isFinite(budget) && budget > 0 ? budget : undefined;
+};
+
+/**
+ * `POST https://api.twitter.com/2/users/123/likes` → `POST /2/users/:id/likes`;
+ * handle lookups share `GET /2/users/by/username/:username`.
+ */
+export const endpointKey = (method: string, url: URL) =>
+  `${method.toUpperCase()} ${url.pathname
+    .replace(/\/users\/by\/username\/[^/]+/, "/users/by/username/:username")
+    .replace(/(?<=.)\/\d+(?=\/|$)/g, "/:id")}`;
+
+const monthlyPosts = async (month: string) =>
+  (await usageStore.list())
+    .filter(
+      (usage) => POST_ENDPOINTS.has(usage.endpoint) && usage.month === month
+    )
+    .reduce((total, usage) => total + usage.calls, 0);
+
+/**
+ * Rate limits are per user token, so endpoints are reported for one account
+ * (env credentials when `accountId` is unset); the monthly post budget is
+ * shared by every account of the app.
+ */
+export const getQuotaSnapshot = async (
+  now = new Date(),
+  accountId?: string
+) => {
+  const month = monthOf(now);
+  const budget = monthlyPostBudget();
+  const used = await monthlyPosts(month);
+
+  return {
+    month,
+    monthlyPostBudget: budget,
+    monthlyPostsUsed: used,
+    monthlyPostsRemaining:
+      budget === undefined ? undefined : Math.max(budget - used, 0),
+    endpoints: (await usageStore.list())
+      .filter((usage) => usage.accountId === accountId)
+      .map((usage) =>
+        usage.month === month ? usage : { ...usage, calls: 0, month }
+      )
+      .sort((a, b) => a.endpoint.localeCompare(b.endpoint)),
+  };
+};
+
+export interface QuotaPluginOptions {
+  accountId?: string;
+  now?: () => Date;
+  sleep?: (ms: number) => Promise<void>;
+  maxWaitMs?: number;
+}
+
+/**
+ * twitter-api-v2 plugin that records `x-rate-limit-*` headers per endpoint,
+ * enforces `TWITTER_MONTHLY_POST_BUDGET`, waits out short rate-limit windows
+ * before a call and retries 429s after the reset. Windows longer than
+ * `maxWaitMs` fail fast with a `QuotaExceededError` carrying the reset time so
+ * callers can defer the work.
+ */
+export const createQuotaPlugin = ({
+  accountId,
+  now = () => new Date(),
+  sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms)),
+  maxWaitMs = Number(process.env.TWITTER_MAX_RATE_LIMIT_WAIT_MS) ||
+    DEFAULT_MAX_WAIT_MS,
+}: QuotaPluginOptions = {}): ITwitterApiClientPlugin => {
+  const retries = new WeakMap<IGetHttpRequestArgs, number>();
+  const retriedResponses = new WeakSet<object>();
+
+  const usageId = (endpoint: string) =>
+    accountId ? `${accountId} ${endpoint}` : endpoint;
+
+  const waitUntil = async (endpoint: string, resetAt: Date) => {
+    const delay = resetAt.getTime() - now().getTime();
+    if (delay <= 0) {
+      return;
+    }
+    if (delay > maxWaitMs) {
+      throw new QuotaExceededError(endpoint, resetAt, "rate-limit");
+    }
+    await sleep(delay);
+  };
+
+  const record = (
+    endpoint: string,
+    rateLimit: TwitterRateLimit | undefined,
+    countCall: boolean
+  ) => {
+    const current = now();
+    const month = monthOf(current);
+
+    return usageStore.upsert(usageId(endpoint), (usage) => ({
+      id: usageId(endpoint),
+      endpoint,
+      accountId,
+      month,
+      calls: (usage?.month === month ? usage.calls : 0) + (countCall ? 1 : 0),
+      limit: rateLimit?.limit ?? usage?.limit,
+      remaining: rateLimit?.remaining ?? usage?.remaining,
+      resetAt: rateLimit
+        ? new Date(rateLimit.reset * 1000).toISOString()
+        : usage?.resetAt,
+      updatedAt: current.toISOString(),
+    }));
+  };
+
+  return {
+    onBeforeRequest: async ({ url, params }) => {
+      const endpoint = endpointKey(params.method, url);
+      const budget = monthlyPostBudget();
+
+      if (
+        budget !== undefined &&
+        POST_ENDPOINTS.has(endpoint) &&
+        (await monthlyPosts(monthOf(now()))) >= budget
+      ) {
+        throw new QuotaExceededError(
+          endpoint,
+          startOfNextMonth(now()),
+          "monthly-budget"
+        );
+      }
+
+      const usage = await usageStore.get(usageId(endpoint));
+      if (usage?.remaining === 0 && usage.resetAt) {
+        await waitUntil(endpoint, new Date(usage.resetAt));
+      }
+    },
+
+    onAfterRequest: async ({ url, params, response }) => {
+      if (retriedResponses.has(response)) {
+        return;
+      }
+      await record(endpointKey(params.method, url), response.rateLimit, true);
+    },
+
+    onResponseError: async ({ url, params, client, error }) => {
+      const endpoint = endpointKey(params.method, url);
+      await record(endpoint, error.rateLimit, false);
+
+      const attempt = retries.get(params) ?? 0;
+      if (
+        !(error instanceof ApiResponseError) ||
+        !error.rateLimitError ||
+        attempt >= MAX_RATE_LIMIT_RETRIES
+      ) {
+        return;
+      }
+
+      retries.set(params, attempt + 1);
+      await waitUntil(
+        endpoint,
+        error.rateLimit
+          ? new Date(error.rateLimit.reset * 1000)
+          : new Date(now().getTime() + 1000)
+      );
+
+      const response = await client.send(params);
+      retriedResponses.add(response);
+      return new TwitterApiPluginResponseOverride(response);
+    },
+  };
+};
+
+export const twitterQuotaPlugin = createQuotaPlugin();
@@ -0,0 +1,122 @@
+export type RunStep =
+  | "request"
+  | "profile"
+  | "generate"
+  | "policy"
+  | "media"
+  | "engagement"
+  | "dm"
+  | "publish"
+  | "thread"
+  | "review"
+  | "schedule"
+  | "analytics"
+  | "planner"
+  | "mentions";
+
+export type RunEventStatus = "ok" | "info" | "skipped" | "warning" | "error";
+
+export interface RunEventError {
+  message: string;
+  /** HTTP status or provider error code when the failure carried one. */
+  code?: string | number;
+}
+
+export interface RunEvent {
+  step: RunStep;
+  status: RunEventStatus;
+  message: string;
+  at: string;
+  durationMs?: number;
+  tweetId?: string;
+  mediaId?: string;
+  userId?: string;
+  error?: RunEventError;
+}
+
+/** Ordered events of one run, appended to as the pipeline progresses. */
+export type RunLog = RunEvent[];
+
+export interface RunEventDetails {
+  durationMs?: number;
+  tweetId?: string;
+  mediaId?: string;
+  userId?: string;
+  error?: unknown;
+}
+
+export const errorDetails = (error: unknown): RunEventError => {
+  const { message, code } = (error ?? {}) as {
+    message?: unknown;
+    code?: unknown;
+  };
+
+  return {
+    message: typeof message === "string" ? message : String(error),
+    ...(typeof code === "string" || typeof code === "number" ? { code } : {}),
+  };
+};
+
+/** Copy streamed while a model writes it; `restart` starts a new completion. */
+export interface TextDelta {
+  kind: "tweet" | "thread" | "reply";
+  text: string;
+  restart?: boolean;
+}
+
+/** Live observers of a run, for callers that stream progress. */
+export interface RunProgress {
+  onEvent?: (event: RunEvent) => void;
+  onText?: (delta: TextDelta) => void;
+  /** Aborting stops the run before its next step. */
+  signal?: AbortSignal;
+}
+
+export class RunCancelledError extends Error {
+  constructor() {
+    super("Run cancelled");
+    this.name = "RunCancelledError";
+  }
+}
+
+const progressByLog = new WeakMap<RunLog, RunProgress>();
+
+/** Attaches observers to a log so every step can reach them without new parameters. */
+export const trackRun = (log: RunLog, progress: RunProgress) => {
+  progressByLog.set(log, progress);
+  return log;
+};
+
+export const runProgress = (log: RunLog): RunProgress =>
+  progressByLog.get(log) ?? {};
+
+/** Throws `RunCancelledError` between steps once the run's signal aborted. */
+export const throwIfCancelled = (log: RunLog) => {
+  if (runProgress(log).signal?.aborted) {
+    throw new RunCancelledError();
+  }
+};
+
+export const logEvent = (
+  log: RunLog,
+  step: RunStep,
+  status: RunEventStatus,
+  message: string,
+  details: RunEventDetails = {}
+) => {
+  const { error, ...ids } = details;
+  const event: RunEvent = {
+    step,
+    status,
+    message,
+    at: new Date().toISOString(),
+    ...ids,
+    ...(error === undefined ? {} : { error: errorDetails(error) }),
+  };
+
+  log.push(event);
+  progressByLog.get(log)?.onEvent?.(event);
+};
+
+/** Milliseconds since `started`, for `durationMs`. */
+export const since = (started: number) => Date.now() - started;
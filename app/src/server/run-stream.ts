@@ -0,0 +1,102 @@
+import {
+  trackRun,
+  type RunEvent,
+  type RunLog,
+  type TextDelta,
+} from "./run-log";
+
+export type RunStreamFormat = "sse" | "ndjson";
+
+export type RunStreamMessage<T = unknown> =
+  | { type: "event"; event: RunEvent }
+  | { type: "text"; delta: TextDelta }
+  | { type: "result"; result: T }
+  | { type: "error"; error: string };
+
+const CONTENT_TYPES: Record<RunStreamFormat, string> = {
+  sse: "text/event-stream",
+  ndjson: "application/x-ndjson",
+};
+
+/** `?stream=sse|ndjson`, else the `Accept` header; unset means a plain JSON response. */
+export const streamFormat = (request: Request): RunStreamFormat | undefined => {
+  const param = new URL(request.url).searchParams.get("stream");
+  if (param === "sse" || param === "ndjson") {
+    return param;
+  }
+
+  const accept = request.headers.get("accept") ?? "";
+  if (accept.includes(CONTENT_TYPES.sse)) {
+    return "sse";
+  }
+  return accept.includes(CONTENT_TYPES.ndjson) ? "ndjson" : undefined;
+};
+
+const encode = (format: RunStreamFormat, message: RunStreamMessage) =>
+  format === "sse"
+    ? `event: ${message.type}\ndata: ${JSON.stringify(message)}\n\n`
+    : `${JSON.stringify(message)}\n`;
+
+/**
+ * Runs `run` with a log that streams every event and text delta to the
+ * client, then its result. Disconnecting aborts the run's signal, so the
+ * pipeline stops before its next step.
+ */
+export const streamRun = <T>(
+  request: Request,
+  format: RunStreamFormat,
+  run: (log: RunLog) => Promise<T>
+) => {
+  const abort = new AbortController();
+  const encoder = new TextEncoder();
+  let closed = false;
+
+  if (request.signal.aborted) {
+    abort.abort();
+  }
+  request.signal.addEventListener("abort", () => abort.abort(), {
+    once: true,
+  });
+
+  const stream = new ReadableStream<Uint8Array>({
+    start: (sink) => {
+      const send = (message: RunStreamMessage<T>) => {
+        if (!closed) {
+          sink.enqueue(encoder.encode(encode(format, message)));
+        }
+      };
+      const log = trackRun([], {
+        signal: abort.signal,
+        onEvent: (event) => send({ type: "event", event }),
+        onText: (delta) => send({ type: "text", delta }),
+      });
+
+      run(log)
+        .then((result) => send({ type: "result", result }))
+        .catch((error) =>
+          send({
+            type: "error",
+            error: error instanceof Error ? error.message : "Run failed",
+          })
+        )
+        .finally(() => {
+          if (!closed) {
+            closed = true;
+            sink.close();
+          }
+        });
+    },
+    cancel: () => {
+      closed = true;
+      abort.abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "content-type": `${CONTENT_TYPES[format]}; charset=utf-8`,
+      "cache-control": "no-cache, no-transform",
+      "x-accel-buffering": "no",
+    },
+  });
+};
@@ -0,0 +1,69 @@
+import { randomUUID } from "crypto";
+import type { RunLog } from "./run-log";
+import { createJsonStore } from "./store";
+
+export type RunKind =
+  "tweet" | "draft" | "approval" | "job" | "mention-poll" | "mention-reply";
+export type RunStatus = "succeeded" | "partial" | "failed";
+
+export interface Run {
+  id: string;
+  kind: RunKind;
+  status: RunStatus;
+  input: unknown;
+  events: RunLog;
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  tweetId?: string;
+  tweetUrl?: string;
+  draftId?: string;
+  jobId?: string;
+  error?: string;
+}
+
+export interface RunRecord {
+  kind: RunKind;
+  input: unknown;
+  events: RunLog;
+  /** `Date.now()` when the run began. */
+  startedAt: number;
+  tweetId?: string;
+  tweetUrl?: string;
+  draftId?: string;
+  jobId?: string;
+  error?: string;
+}
+
+const runStore = createJsonStore<Run>("runs");
+
+export const recordRun = ({ startedAt, ...record }: RunRecord) => {
+  const finishedAt = Date.now();
+  const status: RunStatus = record.error
+    ? "failed"
+    : record.events.some((event) => event.status === "error")
+      ? "partial"
+      : "succeeded";
+
+  return runStore.put({
+    ...record,
+    id: randomUUID(),
+    status,
+    startedAt: new Date(startedAt).toISOString(),
+    finishedAt: new Date(finishedAt).toISOString(),
+    durationMs: finishedAt - startedAt,
+  });
+};
+
+export const listRuns = async (
+  filter: { kind?: RunKind; status?: RunStatus } = {}
+) =>
+  (await runStore.list())
+    .filter(
+      (run) =>
+        (!filter.kind || run.kind === filter.kind) &&
+        (!filter.status || run.status === filter.status)
+    )
+    .sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+
+export const getRun = (id: string) => runStore.get(id);
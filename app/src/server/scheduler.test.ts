@@ -0,0 +1,159 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  createJob,
+  createJobWorker,
+  getJob,
+  type JobOutcome,
+  type ScheduledJob,
+} from "./scheduler";
+import { isolateDataDir } from "./test-helpers";
+import { briefSchema } from "./tweet-pipeline";
+
+isolateDataDir();
+
+const brief = briefSchema.parse({
+  topic: "Scheduling tests",
+  niche: "developers",
+  tone: "plain",
+});
+
+/** A worker on a controllable clock whose jobs return scripted outcomes. */
+const driveWorker = (start: string, outcomes: Partial<JobOutcome>[]) => {
+  const clock = { now: new Date(start) };
+  const executed: ScheduledJob[] = [];
+  const worker = createJobWorker({
+    now: () => clock.now,
+    backoffMs: 1_000,
+    execute: async (job) => {
+      executed.push(job);
+      return { ok: true, log: [], ...outcomes.shift() };
+    },
+  });
+  return { clock, executed, worker };
+};
+
+describe("job worker", () => {
+  it("runs a job once it is due", async () => {
+    const job = await createJob(
+      brief,
+      { scheduledAt: "2026-05-01T12:00:00.000Z", maxAttempts: 3 },
+      new Date("2026-05-01T11:00:00.000Z")
+    );
+    const { clock, executed, worker } = driveWorker(
+      "2026-05-01T11:59:59.000Z",
+      [{ tweetUrl: "https://x.com/i/web/status/1" }]
+    );
+
+    assert.deepEqual(await worker.tick(), []);
+    assert.equal(executed.length, 0);
+
+    clock.now = new Date("2026-05-01T12:00:00.000Z");
+    const [processed] = await worker.tick();
+
+    assert.equal(executed.length, 1);
+    assert.equal(processed.id, job.id);
+    assert.equal(processed.status, "succeeded");
+    assert.equal(processed.runs[0].attempt, 1);
+    assert.equal(processed.runs[0].tweetUrl, "https://x.com/i/web/status/1");
+    assert.deepEqual(await worker.tick(), []);
+  });
+
+  it("retries failures with exponential backoff until maxAttempts", async () => {
+    const job = await createJob(
+      brief,
+      { scheduledAt: "2026-05-01T12:00:00.000Z", maxAttempts: 3 },
+      new Date("2026-05-01T11:00:00.000Z")
+    );
+    const { clock, executed, worker } = driveWorker(
+      "2026-05-01T12:00:00.000Z",
+      [
+        { ok: false, error: "boom 1" },
+        { ok: false, error: "boom 2" },
+        { ok: false, error: "boom 3" },
+      ]
+    );
+
+    let [current] = await worker.tick();
+    assert.equal(current.status, "pending");
+    assert.equal(current.attempts, 1);
+    assert.equal(current.runAt, "2026-05-01T12:00:01.000Z");
+
+    clock.now = new Date("2026-05-01T12:00:00.500Z");
+    assert.deepEqual(await worker.tick(), []);
+
+    clock.now = new Date(current.runAt);
+    [current] = await worker.tick();
+    assert.equal(current.attempts, 2);
+    assert.equal(current.runAt, "2026-05-01T12:00:03.000Z");
+
+    clock.now = new Date(current.runAt);
+    [current] = await worker.tick();
+    assert.equal(current.status, "failed");
+    assert.equal(current.attempts, 3);
+    assert.equal(current.lastError, "boom 3");
+    assert.equal(executed.length, 3);
+    assert.deepEqual(
+      (await getJob(job.id))?.runs.map((run) => run.attempt),
+      [1, 2, 3]
+    );
+  });
+
+  it("rolls a cron job over to its next UTC occurrence", async () => {
+    const job = await createJob(
+      brief,
+      { cron: "0 9 * * *", maxAttempts: 3 },
+      new Date("2026-03-01T10:00:00.000Z")
+    );
+    assert.equal(job.runAt, "2026-03-02T09:00:00.000Z");
+
+    const { clock, worker } = driveWorker("2026-03-02T09:00:00.000Z", [
+      { ok: false, error: "first try" },
+      {},
+    ]);
+
+    let [current] = await worker.tick();
+    assert.equal(current.runAt, "2026-03-02T09:00:01.000Z");
+    assert.equal(current.occurrenceAt, "2026-03-02T09:00:00.000Z");
+
+    clock.now = new Date(current.runAt);
+    [current] = await worker.tick();
+    assert.equal(current.status, "pending");
+    assert.equal(current.attempts, 0);
+    assert.equal(current.runAt, "2026-03-03T09:00:00.000Z");
+    assert.equal(current.occurrenceAt, "2026-03-03T09:00:00.000Z");
+  });
+
+  it("defers to the quota reset without spending an attempt", async () => {
+    await createJob(
+      brief,
+      { scheduledAt: "2026-05-01T12:00:00.000Z", maxAttempts: 1 },
+      new Date("2026-05-01T11:00:00.000Z")
+    );
+    const { clock, executed, worker } = driveWorker(
+      "2026-05-01T12:00:00.000Z",
+      [
+        {
+          ok: false,
+          error: "Monthly post budget reached",
+          retryAt: "2026-06-01T00:00:00.000Z",
+        },
+        {},
+      ]
+    );
+
+    let [current] = await worker.tick();
+    assert.equal(current.status, "pending");
+    assert.equal(current.attempts, 0);
+    assert.equal(current.runAt, "2026-06-01T00:00:00.000Z");
+
+    clock.now = new Date("2026-05-31T23:59:59.000Z");
+    assert.deepEqual(await worker.tick(), []);
+
+    clock.now = new Date(current.runAt);
+    [current] = await worker.tick();
+    assert.equal(current.status, "succeeded");
+    assert.equal(current.attempts, 1);
+    assert.equal(executed.length, 2);
+  });
+});
@@ -0,0 +1,411 @@
+import { randomUUID } from "crypto";
+import { z } from "zod";
+import { variantHookStyles, type HookStyle } from "@/utils/hook-styles";
+import { approvalRequired, withAccountDefaults } from "./accounts";
+import { ensureOpenAi, ensureTwitterClient } from "./clients";
+import { isValidCron, nextCronDate } from "./cron";
+import { createDraft } from "./drafts";
+import { createPollingWorker, startPollingWorker } from "./polling-worker";
+import { getPublication } from "./publications";
+import { logEvent, type RunLog } from "./run-log";
+import { recordRun } from "./runs";
+import { createJsonStore } from "./store";
+import {
+  buildTweetPlan,
+  publishTweetPlan,
+  type TweetBrief,
+} from "./tweet-pipeline";
+
+export type JobStatus =
+  "pending" | "running" | "succeeded" | "failed" | "cancelled";
+
+export interface JobRun {
+  startedAt: string;
+  finishedAt: string;
+  status: "succeeded" | "failed";
+  attempt: number;
+  tweetUrl?: string;
+  draftId?: string;
+  error?: string;
+  /** Quota reset time the job was deferred to. */
+  retryAt?: string;
+  runId?: string;
+  hookStyle?: HookStyle;
+  log: RunLog;
+}
+
+export interface ScheduledJob {
+  id: string;
+  brief: TweetBrief;
+  cron?: string;
+  runAt: string;
+  /** Fire time of the current occurrence; retries move `runAt` but keep this. */
+  occurrenceAt?: string;
+  status: JobStatus;
+  attempts: number;
+  maxAttempts: number;
+  lastError?: string;
+  runs: JobRun[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface JobOutcome {
+  ok: boolean;
+  tweetUrl?: string;
+  draftId?: string;
+  error?: string;
+  retryAt?: string;
+  runId?: string;
+  hookStyle?: HookStyle;
+  log: RunLog;
+}
+
+export const scheduleSchema = z
+  .object({
+    scheduledAt: z
+      .string()
+      .refine((value) => !Number.isNaN(Date.parse(value)), "Invalid date")
+      .optional(),
+    cron: z.string().refine(isValidCron, "Invalid cron expression").optional(),
+    maxAttempts: z.number().int().min(1).max(10).default(3),
+  })
+  .refine((value) => !(value.scheduledAt && value.cron), {
+    message: "Provide either scheduledAt or cron, not both",
+  });
+
+const jobStore = createJsonStore<ScheduledJob>("jobs");
+
+const DEFAULT_BACKOFF_MS = 60_000;
+const MAX_RUN_HISTORY = 20;
+
+export const createJob = async (
+  brief: TweetBrief,
+  schedule: z.infer<typeof scheduleSchema>,
+  now = new Date()
+) => {
+  const runAt = schedule.cron
+    ? nextCronDate(schedule.cron, now)
+    : new Date(schedule.scheduledAt ?? now);
+
+  if (!runAt) {
+    throw new Error("Cron expression never fires");
+  }
+
+  return jobStore.put({
+    id: randomUUID(),
+    brief,
+    cron: schedule.cron,
+    runAt: runAt.toISOString(),
+    occurrenceAt: runAt.toISOString(),
+    status: "pending",
+    attempts: 0,
+    maxAttempts: schedule.maxAttempts,
+    runs: [],
+    createdAt: now.toISOString(),
+    updatedAt: now.toISOString(),
+  });
+};
+
+export const listJobs = async () =>
+  (await jobStore.list()).sort((a, b) => a.runAt.localeCompare(b.runAt));
+
+export const getJob = (id: string) => jobStore.get(id);
+
+export const cancelJob = (id: string) =>
+  jobStore.update(id, (job) => ({
+    ...job,
+    status: "cancelled",
+    updatedAt: new Date().toISOString(),
+  }));
+
+/** Next `count` fire times for a job, for calendar rendering. */
+export const upcomingRuns = (job: ScheduledJob, count = 5) => {
+  if (job.status !== "pending") {
+    return [];
+  }
+
+  const runs = [job.runAt];
+
+  if (job.cron) {
+    let cursor: Date | null = new Date(job.runAt);
+    while (runs.length < count && cursor) {
+      cursor = nextCronDate(job.cron, cursor);
+      if (cursor) {
+        runs.push(cursor.toISOString());
+      }
+    }
+  }
+
+  return runs;
+};
+
+/**
+ * Jobs asking for several variants post one per slot instead, taking the hook
+ * style the job used least recently.
+ */
+const rotateHookStyle = (
+  job: ScheduledJob,
+  brief: TweetBrief,
+  log: RunLog
+): TweetBrief => {
+  const styles = [
+    ...new Set(variantHookStyles(brief.variants, brief.hookStyles)),
+  ].filter((style): style is HookStyle => Boolean(style));
+  if (styles.length < 2) {
+    return brief;
+  }
+
+  const lastUsed = (style: HookStyle) =>
+    job.runs.findLastIndex((run) => run.hookStyle === style);
+  const hookStyle = styles.reduce((next, style) =>
+    lastUsed(style) < lastUsed(next) ? style : next
+  );
+  logEvent(
+    log,
+    "schedule",
+    "info",
+    `Rotating variants: this slot uses the ${hookStyle} hook.`
+  );
+  return { ...brief, variants: 1, hookStyles: [hookStyle] };
+};
+
+const runJobPipeline = async (
+  job: ScheduledJob,
+  log: RunLog
+): Promise<JobOutcome> => {
+  const brief = rotateHookStyle(job, await withAccountDefaults(job.brief), log);
+  const twitter = await ensureTwitterClient(brief.accountId);
+  // One publication per occurrence, so a retry resumes the failed attempt.
+  const idempotencyKey = `job:${job.id}:${job.occurrenceAt ?? job.runAt}`;
+  const previous = await getPublication(idempotencyKey);
+  if (previous) {
+    logEvent(
+      log,
+      "schedule",
+      "info",
+      `Retrying publication ${idempotencyKey} with the plan of its first attempt.`
+    );
+  }
+  const plan =
+    previous?.plan ??
+    (await buildTweetPlan(brief, { openai: ensureOpenAi(), twitter }, log));
+
+  if (await approvalRequired(brief.accountId)) {
+    logEvent(
+      log,
+      "schedule",
+      "info",
+      "Approval required. Filed a draft instead of publishing."
+    );
+    const draft = await createDraft(brief, plan, log);
+    return { ok: true, draftId: draft.id, hookStyle: plan.hookStyle, log };
+  }
+
+  if (!twitter) {
+    logEvent(log, "publish", "error", "Twitter credentials missing.");
+    return { ok: false, error: "Twitter credentials missing", log };
+  }
+
+  const published = await publishTweetPlan(twitter, plan, log, brief, {
+    idempotencyKey,
+  });
+
+  // A live tweet counts as success even if later engagement steps failed.
+  // A thread that stopped part-way does not: the retry resumes it under the
+  // same idempotency key.
+  if (!published.tweetId || published.thread?.error) {
+    return {
+      ok: false,
+      error: published.error ?? "Tweet was not published",
+      retryAt: published.retryAt,
+      hookStyle: plan.hookStyle,
+      log,
+    };
+  }
+
+  return {
+    ok: true,
+    tweetUrl: published.tweetUrl,
+    hookStyle: plan.hookStyle,
+    log,
+  };
+};
+
+/**
+ * Runs the same generate-and-post pipeline as `POST /api/tweet` in publish
+ * mode and records it as a run. When approval is required (`REQUIRE_APPROVAL`
+ * or the account's setting) it files a draft instead of posting.
+ */
+export const executeJob = async (job: ScheduledJob): Promise<JobOutcome> => {
+  const startedAt = Date.now();
+  const log: RunLog = [];
+  let outcome: JobOutcome;
+
+  try {
+    outcome = await runJobPipeline(job, log);
+  } catch (error) {
+    logEvent(log, "schedule", "error", "Scheduled run crashed.", { error });
+    outcome = { ok: false, error: (error as Error).message, log };
+  }
+
+  const run = await recordRun({
+    kind: "job",
+    input: { jobId: job.id, brief: job.brief },
+    events: log,
+    startedAt,
+    jobId: job.id,
+    draftId: outcome.draftId,
+    tweetUrl: outcome.tweetUrl,
+    error: outcome.error,
+  });
+
+  return { ...outcome, runId: run.id };
+};
+
+export interface JobWorkerOptions {
+  now?: () => Date;
+  execute?: (job: ScheduledJob) => Promise<JobOutcome>;
+  pollIntervalMs?: number;
+  backoffMs?: number;
+}
+
+export const createJobWorker = ({
+  now = () => new Date(),
+  execute = executeJob,
+  pollIntervalMs = 30_000,
+  backoffMs = DEFAULT_BACKOFF_MS,
+}: JobWorkerOptions = {}) => {
+  const finish = (job: ScheduledJob, run: JobRun): ScheduledJob => {
+    const finishedAt = new Date(run.finishedAt);
+    const runs = [...job.runs, run].slice(-MAX_RUN_HISTORY);
+    const base = { ...job, runs, updatedAt: run.finishedAt };
+
+    if (job.status === "cancelled") {
+      return base;
+    }
+
+    // Quota deferrals wait for the reset without spending an attempt.
+    if (run.status === "failed" && run.retryAt) {
+      return {
+        ...base,
+        status: "pending",
+        attempts: run.attempt - 1,
+        lastError: run.error,
+        runAt: run.retryAt,
+      };
+    }
+
+    if (run.status === "failed" && run.attempt < job.maxAttempts) {
+      const delay = backoffMs * 2 ** (run.attempt - 1);
+      return {
+        ...base,
+        status: "pending",
+        attempts: run.attempt,
+        lastError: run.error,
+        runAt: new Date(finishedAt.getTime() + delay).toISOString(),
+      };
+    }
+
+    const next = job.cron ? nextCronDate(job.cron, finishedAt) : null;
+
+    if (next) {
+      return {
+        ...base,
+        status: "pending",
+        attempts: 0,
+        lastError: run.error,
+        runAt: next.toISOString(),
+        occurrenceAt: next.toISOString(),
+      };
+    }
+
+    return {
+      ...base,
+      status: run.status,
+      attempts: run.attempt,
+      lastError: run.error,
+    };
+  };
+
+  const runJob = async (job: ScheduledJob) => {
+    const attempt = job.attempts + 1;
+    const startedAt = now().toISOString();
+    let outcome: JobOutcome;
+
+    try {
+      outcome = await execute(job);
+    } catch (error) {
+      outcome = { ok: false, error: (error as Error).message, log: [] };
+    }
+
+    return jobStore.update(job.id, (current) =>
+      finish(current, {
+        startedAt,
+        finishedAt: now().toISOString(),
+        status: outcome.ok ? "succeeded" : "failed",
+        attempt,
+        tweetUrl: outcome.tweetUrl,
+        draftId: outcome.draftId,
+        error: outcome.error,
+        retryAt: outcome.retryAt,
+        runId: outcome.runId,
+        hookStyle: outcome.hookStyle,
+        log: outcome.log,
+      })
+    );
+  };
+
+  /** Runs every due job once. */
+  const runDue = async () => {
+    const current = now().toISOString();
+    const due = (await jobStore.list()).filter(
+      (job) => job.status === "pending" && job.runAt <= current
+    );
+    const processed: ScheduledJob[] = [];
+
+    for (const job of due) {
+      const claimed = await jobStore.update(job.id, (stored) =>
+        stored.status === "pending"
+          ? { ...stored, status: "running", updatedAt: current }
+          : stored
+      );
+      if (claimed?.status !== "running") {
+        continue;
+      }
+      const result = await runJob(claimed);
+      if (result) {
+        processed.push(result);
+      }
+    }
+
+    return processed;
+  };
+
+  const recoverInterrupted = async () => {
+    for (const job of await jobStore.list()) {
+      if (job.status === "running") {
+        await jobStore.update(job.id, (stored) => ({
+          ...stored,
+          status: "pending",
+        }));
+      }
+    }
+  };
+
+  const worker = createPollingWorker({
+    name: "Scheduled job tick",
+    intervalMs: pollIntervalMs,
+    run: runDue,
+    beforeStart: recoverInterrupted,
+  });
+
+  return {
+    ...worker,
+    /** A tick while the previous one is running processes nothing. */
+    tick: async () => (await worker.tick()) ?? [],
+  };
+};
+
+export const startJobWorker = () =>
+  startPollingWorker("jobWorker", createJobWorker);
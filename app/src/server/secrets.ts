@@ -0,0 +1,91 @@
+import { createCipheriv, createDecipheriv, randomBytes } from "crypto";
+
+const ALGORITHM = "aes-256-gcm";
+const VERSION = "v1";
+
+export class MasterKeyError extends Error {
+  readonly code = "master_key_invalid";
+
+  constructor(message: string) {
+    super(message);
+    this.name = "MasterKeyError";
+  }
+}
+
+/** 32-byte AES key from `CREDENTIALS_MASTER_KEY` (base64, e.g. `openssl rand -base64 32`). */
+const masterKey = () => {
+  const raw = process.env.CREDENTIALS_MASTER_KEY;
+
+  if (!raw) {
+    throw new MasterKeyError(
+      "CREDENTIALS_MASTER_KEY is not set; connected accounts are unavailable."
+    );
+  }
+
+  const key = Buffer.from(raw, "base64");
+  if (key.length !== 32) {
+    throw new MasterKeyError(
+      "CREDENTIALS_MASTER_KEY must be 32 bytes encoded as base64."
+    );
+  }
+
+  return key;
+};
+
+export const hasMasterKey = () => {
+  try {
+    masterKey();
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/** Encrypts `value` as `v1.<iv>.<tag>.<ciphertext>` (base64url parts). */
+export const encryptSecret = (value: string) => {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(ALGORITHM, masterKey(), iv);
+  const ciphertext = Buffer.concat([
+    cipher.update(value, "utf8"),
+    cipher.final(),
+  ]);
+
+  return [VERSION, iv, cipher.getAuthTag(), ciphertext]
+    .map((part) =>
+      typeof part === "string" ? part : part.toString("base64url")
+    )
+    .join(".");
+};
+
+export const decryptSecret = (sealed: string) => {
+  const [version, iv, tag, ciphertext] = sealed.split(".");
+
+  if (version !== VERSION || !iv || !tag || ciphertext === undefined) {
+    throw new Error("Unrecognized encrypted secret format");
+  }
+
+  const decipher = createDecipheriv(
+    ALGORITHM,
+    masterKey(),
+    Buffer.from(iv, "base64url")
+  );
+  decipher.setAuthTag(Buffer.from(tag, "base64url"));
+
+  try {
+    return Buffer.concat([
+      decipher.update(Buffer.from(ciphertext, "base64url")),
+      decipher.final(),
+    ]).toString("utf8");
+  } catch {
+    // GCM authentication fails when the secret was sealed with another key.
+    throw new MasterKeyError(
+      "Stored credentials could not be decrypted; CREDENTIALS_MASTER_KEY may have been rotated. Reconnect the account."
+    );
+  }
+};
+
+export const encryptJson = (value: unknown) =>
+  encryptSecret(JSON.stringify(value));
+
+export const decryptJson = <T>(sealed: string) =>
+  JSON.parse(decryptSecret(sealed)) as T;
@@ -0,0 +1,106 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+export const dataDir = () =>
+  process.env.DATA_DIR ?? path.join(process.cwd(), "data");
+
+const writeQueues = new Map<string, Promise<unknown>>();
+
+/**
+ * Minimal persistent collection backed by a JSON file in `DATA_DIR`.
+ * Writes to the same file are serialized so concurrent requests never
+ * clobber each other.
+ */
+export const createJsonStore = <T extends { id: string }>(name: string) => {
+  const file = () => path.join(dataDir(), `${name}.json`);
+
+  const readAll = async (): Promise<T[]> => {
+    try {
+      return JSON.parse(await fs.readFile(file(), "utf8")) as T[];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+  };
+
+  const writeAll = async (items: T[]) => {
+    const target = file();
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    const temp = `${target}.${process.pid}.tmp`;
+    await fs.writeFile(temp, JSON.stringify(items, null, 2));
+    await fs.rename(temp, target);
+  };
+
+  const mutate = <R>(fn: (items: T[]) => R | Promise<R>): Promise<R> => {
+    const key = file();
+    const run = (writeQueues.get(key) ?? Promise.resolve())
+      .catch(() => undefined)
+      .then(async () => {
+        const items = await readAll();
+        const result = await fn(items);
+        await writeAll(items);
+        return result;
+      });
+    writeQueues.set(key, run);
+    return run;
+  };
+
+  return {
+    list: readAll,
+    get: async (id: string) => (await readAll()).find((item) => item.id === id),
+    put: (item: T) =>
+      mutate((items) => {
+        const index = items.findIndex((existing) => existing.id === item.id);
+        if (index === -1) {
+          items.push(item);
+        } else {
+          items[index] = item;
+        }
+        return item;
+      }),
+    /**
+     * Adds `item` only if `allowed` accepts the current items. The check and
+     * the write happen in the same queued step, so no other write slips in.
+     */
+    insertIf: (item: T, allowed: (items: T[]) => boolean) =>
+      mutate((items) => {
+        if (!allowed(items)) {
+          return undefined;
+        }
+        items.push(item);
+        return item;
+      }),
+    update: (id: string, fn: (item: T) => T) =>
+      mutate((items) => {
+        const index = items.findIndex((item) => item.id === id);
+        if (index === -1) {
+          return undefined;
+        }
+        items[index] = fn(items[index]);
+        return items[index];
+      }),
+    /** Like `update`, but `fn` also creates the item when it is missing. */
+    upsert: (id: string, fn: (item: T | undefined) => T) =>
+      mutate((items) => {
+        const index = items.findIndex((item) => item.id === id);
+        const next = fn(index === -1 ? undefined : items[index]);
+        if (index === -1) {
+          items.push(next);
+        } else {
+          items[index] = next;
+        }
+        return next;
+      }),
+    remove: (id: string) =>
+      mutate((items) => {
+        const index = items.findIndex((item) => item.id === id);
+        if (index === -1) {
+          return false;
+        }
+        items.splice(index, 1);
+        return true;
+      }),
+  };
+};
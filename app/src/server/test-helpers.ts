@@ -0,0 +1,24 @@
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { after, beforeEach } from "node:test";
+
+/**
+ * Points every JSON store at a fresh temporary `DATA_DIR` before each test
+ * and removes it when the file's tests are done.
+ */
+export const isolateDataDir = () => {
+  const dirs: string[] = [];
+
+  beforeEach(async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), "tas-test-"));
+    dirs.push(dir);
+    process.env.DATA_DIR = dir;
+  });
+
+  after(async () => {
+    await Promise.all(
+      dirs.map((dir) => rm(dir, { recursive: true, force: true }))
+    );
+  });
+};
@@ -0,0 +1,326 @@
+import assert from "node:assert/strict";
+import { mkdir } from "fs/promises";
+import path from "path";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { POST as tweet } from "@/app/api/tweet/route";
+import { actAs } from "./auth";
+import { ensureTwitterClient } from "./clients";
+import { approveDraft, createDraft, getDraft } from "./drafts";
+import { listPosts } from "./posts";
+import type { PublishStepOutcome } from "./publications";
+import type { RunLog } from "./run-log";
+import { dataDir } from "./store";
+import { isolateDataDir } from "./test-helpers";
+import {
+  briefSchema,
+  buildTweetPlan,
+  publishTweetPlan,
+  type ThreadPublishState,
+} from "./tweet-pipeline";
+import { createMockTwitterServer } from "./twitter-mock";
+
+isolateDataDir();
+
+interface TweetResponse {
+  tweetUrl?: string;
+  thread?: ThreadPublishState;
+  dmSkipped: { handle: string }[];
+  idempotencyKey?: string;
+  steps?: PublishStepOutcome[];
+  error?: string;
+}
+
+const mock = createMockTwitterServer();
+
+const BRIEF = {
+  topic: "Onboarding emails",
+  niche: "saas founders",
+  tone: "practical",
+  llm: { provider: "fixture" },
+};
+
+before(async () => {
+  process.env.TWITTER_API_BASE_URL = await mock.listen();
+  process.env.TWITTER_APP_KEY = "app-key";
+  process.env.TWITTER_APP_SECRET = "app-secret";
+  process.env.TWITTER_ACCESS_TOKEN = "access-token";
+  process.env.TWITTER_ACCESS_SECRET = "access-secret";
+});
+
+beforeEach(() => mock.reset());
+
+after(() => mock.close());
+
+/** `POST /api/tweet` in publish mode as a publisher. */
+const publish = async (
+  brief: Record<string, unknown>,
+  headers: Record<string, string> = {}
+) => {
+  const request = new Request("http://localhost/api/tweet", {
+    method: "POST",
+    headers,
+    body: JSON.stringify({ ...BRIEF, mode: "publish", ...brief }),
+  });
+  actAs(request, {
+    type: "user",
+    id: "publisher",
+    name: "publisher",
+    role: "publisher",
+  });
+  const response = await tweet(request);
+  return {
+    status: response.status,
+    body: (await response.json()) as TweetResponse,
+  };
+};
+
+const stepStatus = (body: TweetResponse) =>
+  Object.fromEntries((body.steps ?? []).map((step) => [step.id, step.status]));
+
+const posts = () => mock.callsTo("POST /2/tweets").map((call) => call.body);
+
+describe("publishing against the mock Twitter API", () => {
+  it("likes, retweets and replies to the chosen target", async () => {
+    const { status, body } = await publish({
+      engagementModes: ["like", "retweet", "reply"],
+    });
+
+    assert.equal(status, 200);
+    assert.equal(body.error, undefined);
+    assert.deepEqual(stepStatus(body), {
+      tweet: "ok",
+      me: "ok",
+      "like:3001": "ok",
+      "retweet:3001": "ok",
+      "reply:3001": "ok",
+    });
+    assert.deepEqual(
+      mock.callsTo("POST /2/users/:id/likes").map((call) => call.path),
+      ["/2/users/1000/likes"]
+    );
+    assert.equal(
+      mock.callsTo("POST /2/users/:id/likes")[0].body.tweet_id,
+      "3001"
+    );
+    assert.equal(
+      mock.callsTo("POST /2/users/:id/retweets")[0].body.tweet_id,
+      "3001"
+    );
+    const [original, reply] = posts();
+    assert.equal(original.reply, undefined);
+    assert.deepEqual(reply.reply, { in_reply_to_tweet_id: "3001" });
+  });
+
+  it("sends templated DMs and honours opt-outs", async () => {
+    const { body } = await publish({
+      engagementModes: ["dm"],
+      dmTarget: "bob, carol",
+      dmMessage: "Hi {{name}}, loved your post",
+    });
+
+    const [dm] = mock.callsTo("POST /2/dm_conversations/with/:id/messages");
+    assert.equal(dm.path, "/2/dm_conversations/with/2002/messages");
+    assert.equal(dm.body.text, "Hi Bob Builder, loved your post");
+    assert.equal(
+      mock.callsTo("POST /2/dm_conversations/with/:id/messages").length,
+      1
+    );
+    // Carol replied "STOP" in the seeded DM events.
+    assert.deepEqual(
+      body.dmSkipped.map((skip) => skip.handle),
+      ["carol"]
+    );
+    assert.equal(stepStatus(body)["dm:bob"], "ok");
+  });
+
+  it("keeps sending DMs when a failed one cannot be recorded", async () => {
+    mock.fail({
+      endpoint: "POST /2/dm_conversations/with/:id/messages",
+      status: 500,
+      times: 1,
+    });
+    // Reads of the contact ledger still work, but every write fails.
+    await mkdir(path.join(dataDir(), `contacts.json.${process.pid}.tmp`));
+
+    const { body } = await publish({
+      engagementModes: ["dm"],
+      dmTarget: "alice, bob",
+      dmMessage: "Hi {{name}}",
+    });
+
+    assert.equal(stepStatus(body)["dm:alice"], "failed");
+    assert.equal(stepStatus(body)["dm:bob"], "ok");
+    assert.deepEqual(
+      mock
+        .callsTo("POST /2/dm_conversations/with/:id/messages")
+        .map((call) => [call.path, call.status]),
+      [
+        ["/2/dm_conversations/with/2001/messages", 500],
+        ["/2/dm_conversations/with/2002/messages", 201],
+      ]
+    );
+  });
+
+  it("chains every thread part to the previous tweet", async () => {
+    const { body } = await publish({ format: "thread", maxTweets: 3 });
+    const sent = posts();
+    const ids = body.thread!.tweetIds;
+
+    assert.equal(body.thread?.error, undefined);
+    assert.equal(sent.length, body.thread!.total);
+    assert.equal(ids.length, sent.length);
+    assert.equal(sent[0].reply, undefined);
+    sent
+      .slice(1)
+      .forEach((part, index) =>
+        assert.deepEqual(part.reply, { in_reply_to_tweet_id: ids[index] })
+      );
+  });
+
+  it("waits out a short 429 and retries the call", async () => {
+    mock.fail({
+      endpoint: "POST /2/users/:id/likes",
+      status: 429,
+      times: 1,
+      resetInSeconds: 1,
+    });
+
+    const { body } = await publish({ engagementModes: ["like"] });
+
+    assert.equal(stepStatus(body)["like:3001"], "ok");
+    assert.deepEqual(
+      mock.callsTo("POST /2/users/:id/likes").map((call) => call.status),
+      [429, 200]
+    );
+  });
+
+  it("defers a tweet behind a long rate-limit window without posting", async () => {
+    mock.fail({
+      endpoint: "POST /2/tweets",
+      status: 429,
+      times: 1,
+      resetInSeconds: 3600,
+    });
+    const twitter = await ensureTwitterClient();
+    const brief = briefSchema.parse(BRIEF);
+    const log: RunLog = [];
+    const plan = await buildTweetPlan(brief, { openai: null, twitter }, log);
+
+    const result = await publishTweetPlan(twitter!, plan, log, brief);
+
+    assert.equal(result.tweetId, undefined);
+    assert.ok(Date.parse(result.retryAt!) > Date.now() + 3_000_000);
+    assert.deepEqual(
+      mock.callsTo("POST /2/tweets").map((call) => call.status),
+      [429]
+    );
+  });
+
+  it("keeps going when one engagement action fails", async () => {
+    mock.fail({
+      endpoint: "POST /2/users/:id/retweets",
+      status: 500,
+      times: 1,
+    });
+
+    const { body } = await publish({
+      engagementModes: ["like", "retweet", "reply"],
+    });
+
+    assert.ok(body.tweetUrl);
+    assert.deepEqual(stepStatus(body), {
+      tweet: "ok",
+      me: "ok",
+      "like:3001": "ok",
+      "retweet:3001": "failed",
+      "reply:3001": "ok",
+    });
+  });
+
+  it("resumes a failed publication without posting twice", async () => {
+    mock.fail({ endpoint: "POST /2/users/:id/likes", status: 503, times: 1 });
+    const key = { "idempotency-key": "resume-test-0001" };
+
+    const first = await publish({ engagementModes: ["like"] }, key);
+    assert.equal(stepStatus(first.body)["like:3001"], "failed");
+
+    const second = await publish({ engagementModes: ["like"] }, key);
+
+    assert.equal(second.body.tweetUrl, first.body.tweetUrl);
+    assert.equal(stepStatus(second.body)["like:3001"], "ok");
+    assert.equal(posts().length, 1);
+    assert.deepEqual(
+      mock.callsTo("POST /2/users/:id/likes").map((call) => call.status),
+      [503, 200]
+    );
+  });
+
+  it("refuses client keys in the draft and job namespaces", async () => {
+    for (const key of ["draft:0123456789", "job:0123456789:2026-11-02"]) {
+      const { status, body } = await publish({}, { "idempotency-key": key });
+
+      assert.equal(status, 400);
+      assert.equal(body.error, "Invalid idempotency key");
+    }
+    assert.equal(posts().length, 0);
+  });
+
+  it("keeps a draft whose thread stopped part-way open for resuming", async () => {
+    mock.fail({ endpoint: "POST /2/tweets", status: 503, times: 1, after: 1 });
+    const twitter = await ensureTwitterClient();
+    const brief = briefSchema.parse({ ...BRIEF, format: "thread" });
+    const plan = await buildTweetPlan(brief, { openai: null, twitter }, []);
+    const draft = await createDraft(brief, plan, []);
+
+    const { draft: stopped } = await approveDraft(draft, {}, twitter, []);
+
+    assert.equal(stopped?.status, "approved");
+    assert.ok(stopped?.tweetId);
+    assert.equal(stopped?.thread?.tweetIds.length, 1);
+    assert.match(stopped?.thread?.error ?? "", /503|Service Unavailable/i);
+
+    const { draft: resumed } = await approveDraft(stopped!, {}, twitter, []);
+
+    assert.equal(resumed?.status, "published");
+    assert.equal(resumed?.thread?.error, undefined);
+    assert.equal(resumed?.tweetId, stopped?.tweetId);
+    assert.equal(resumed?.thread?.tweetIds.length, resumed?.thread?.total);
+    const statuses = mock.callsTo("POST /2/tweets").map((call) => call.status);
+    assert.deepEqual(statuses, [201, 503, ...plan.thread.map(() => 201)]);
+  });
+
+  it("leaves a draft alone while another approval is publishing it", async () => {
+    const twitter = await ensureTwitterClient();
+    const brief = briefSchema.parse(BRIEF);
+    const plan = await buildTweetPlan(brief, { openai: null, twitter }, []);
+    const draft = await createDraft(brief, plan, []);
+
+    const results = await Promise.all([
+      approveDraft(draft, {}, twitter, []),
+      approveDraft(draft, {}, twitter, []),
+    ]);
+
+    assert.deepEqual(results.map((result) => result.error).filter(Boolean), [
+      "This draft is already being published.",
+    ]);
+    const stored = await getDraft(draft.id);
+    assert.equal(stored?.status, "published");
+    assert.ok(stored?.tweetId);
+    assert.equal(posts().length, 1);
+  });
+
+  it("does not post again when the post ledger cannot be written", async () => {
+    // A directory where the ledger file belongs makes every write fail.
+    await mkdir(path.join(dataDir(), "posts.json"));
+    const key = { "idempotency-key": "ledger-test-0001" };
+
+    const first = await publish({}, key);
+    assert.equal(stepStatus(first.body).tweet, "ok");
+
+    const second = await publish({}, key);
+
+    assert.equal(second.body.tweetUrl, first.body.tweetUrl);
+    assert.equal(posts().length, 1);
+    await assert.rejects(listPosts());
+  });
+});
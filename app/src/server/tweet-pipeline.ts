@@ -0,0 +1,1644 @@
+import { randomUUID } from "crypto";
+import type OpenAI from "openai";
+import type { SendTweetV2Params, TwitterApi } from "twitter-api-v2";
+import { z } from "zod";
+import {
+  bioKeyword,
+  parseTemplate,
+  renderTemplate,
+  type TemplateValues,
+  type TemplateVariable,
+} from "@/utils/dm-template";
+import {
+  buildImagePrompt,
+  defaultImagePrompt,
+  IMAGE_ASPECT_RATIOS,
+  MAX_TWEET_IMAGES,
+} from "@/utils/image-options";
+import {
+  HOOK_STYLE_IDS,
+  MAX_VARIANTS,
+  variantHookStyles,
+  type HookStyle,
+} from "@/utils/hook-styles";
+import { splitIntoTweets } from "@/utils/tweet-length";
+import { ensureAltText } from "./alt-text";
+import {
+  dmSkipSchema,
+  logDmSkips,
+  normalizeHandle,
+  recordDm,
+  screenRecipients,
+  syncDmOptOuts,
+  type DmSkip,
+} from "./contacts";
+import {
+  blockingFindings,
+  checkText,
+  checkTweets,
+  extractMentions,
+  findingFeedback,
+  policyFindingSchema,
+  validatePlan,
+  type PolicyContext,
+  type PolicyFinding,
+} from "./content-policy";
+import {
+  alreadyEngaged,
+  recordEngagement,
+  selectEngagementTargets,
+  targetingSchema,
+} from "./engagement";
+import {
+  fallbackThread,
+  generateWithFallback,
+  llmSelectionSchema,
+  resolveTextGenerator,
+  type BrandVoice,
+  type TextGenerator,
+  type TweetBriefContext,
+} from "./llm";
+import {
+  getMediaAsset,
+  imageOptionsSchema,
+  markMediaUsed,
+  placeholderImage,
+  readMediaFile,
+  saveMediaAsset,
+  toPlanMedia,
+} from "./media";
+import { recordPost, type PostKind } from "./posts";
+import { getProfile } from "./profiles";
+import { startPublication, type PublishStepOutcome } from "./publications";
+import { QuotaExceededError } from "./quota";
+import {
+  errorDetails,
+  logEvent,
+  RunCancelledError,
+  since,
+  throwIfCancelled,
+  type RunLog,
+  type RunStep,
+} from "./run-log";
+
+export const tweetVariantSchema = z.object({
+  id: z.string(),
+  hookStyle: z.enum(HOOK_STYLE_IDS).optional(),
+  tweet: z.string().min(1),
+  thread: z.array(z.string().min(1)).default([]),
+  findings: z.array(policyFindingSchema).default([]),
+});
+
+export const tweetPlanSchema = z.object({
+  tweet: z.string().min(1),
+  thread: z.array(z.string().min(1)).default([]),
+  /** Hook of the copy in `tweet`/`thread`, kept for the variant stats. */
+  hookStyle: z.enum(HOOK_STYLE_IDS).optional(),
+  variantId: z.string().optional(),
+  /** Alternatives to compare in the preview; empty for a single variant. */
+  variants: z.array(tweetVariantSchema).default([]),
+  media: z
+    .array(
+      z.object({
+        /** Media library asset; plans from before the library carry data URLs. */
+        assetId: z.string().optional(),
+        source: z.enum(["openai", "mock", "upload"]),
+        url: z.string(),
+        altText: z.string().optional(),
+        uploadable: z.boolean(),
+      })
+    )
+    .max(MAX_TWEET_IMAGES)
+    .default([]),
+  engagementTargets: z
+    .array(
+      z.object({
+        tweetId: z.string(),
+        authorId: z.string().optional(),
+        authorHandle: z.string().optional(),
+        text: z.string(),
+        actions: z.array(z.enum(["like", "retweet", "reply"])),
+        reply: z.string().optional(),
+        score: z.number().optional(),
+        /** Why the targeting rules picked this tweet, for the preview. */
+        reasons: z.array(z.string()).default([]),
+      })
+    )
+    .default([]),
+  dmRecipients: z
+    .array(
+      z.object({
+        handle: z.string(),
+        userId: z.string().optional(),
+        message: z.string(),
+      })
+    )
+    .default([]),
+  /** Recipients left out by the contact ledger when the plan was built. */
+  dmSkipped: z.array(dmSkipSchema).default([]),
+  findings: z.array(policyFindingSchema).default([]),
+});
+
+export const briefSchema = z.object({
+  topic: z.string().min(3),
+  /** The take on the topic, e.g. from a content plan; kept out of `topic`. */
+  angle: z.string().optional(),
+  niche: z.string().min(3),
+  tone: z.string().min(3),
+  callToAction: z.string().optional(),
+  hashtags: z.array(z.string()).default([]),
+  engagementModes: z
+    .array(z.enum(["like", "retweet", "reply", "dm"]))
+    .default([]),
+  targeting: targetingSchema.optional(),
+  dmTarget: z.string().optional(),
+  dmMessage: z
+    .string()
+    .superRefine((value, ctx) => {
+      for (const message of parseTemplate(value).errors) {
+        ctx.addIssue({ code: "custom", message });
+      }
+    })
+    .optional(),
+  autoImage: z.boolean().default(false),
+  image: imageOptionsSchema.optional(),
+  format: z.enum(["single", "thread"]).default("single"),
+  maxTweets: z.number().int().min(2).max(25).default(5),
+  variants: z.number().int().min(1).max(MAX_VARIANTS).default(1),
+  /** Hooks for the variants, cycled in order; all of them when unset. */
+  hookStyles: z.array(z.enum(HOOK_STYLE_IDS)).optional(),
+  llm: llmSelectionSchema.optional(),
+  profileId: z.string().optional(),
+  accountId: z.string().optional(),
+});
+
+export const requestSchema = briefSchema.extend({
+  mode: z.enum(["preview", "publish"]).default("preview"),
+  plan: tweetPlanSchema.optional(),
+});
+
+export type TweetBrief = z.infer<typeof briefSchema>;
+export type TweetRequest = z.infer<typeof requestSchema>;
+export type TweetPlan = z.infer<typeof tweetPlanSchema>;
+export type TweetVariant = z.infer<typeof tweetVariantSchema>;
+export type EngagementTarget = TweetPlan["engagementTargets"][number];
+
+export interface ThreadPublishState {
+  tweetIds: string[];
+  total: number;
+  error?: string;
+}
+
+export interface PublishResult {
+  tweetId?: string;
+  tweetUrl?: string;
+  thread?: ThreadPublishState;
+  error?: string;
+  /** Set when the tweet was held back by a quota; retry after this time. */
+  retryAt?: string;
+  /** Recipients the contact ledger held back at send time. */
+  dmSkipped?: DmSkip[];
+  /** Key to retry with; steps that succeeded are not repeated. */
+  idempotencyKey?: string;
+  /** Outcome of every step of the publication, across its attempts. */
+  steps?: PublishStepOutcome[];
+  /** Another attempt under the same key was still running; nothing ran. */
+  inProgress?: boolean;
+}
+
+export const sanitizeHashtags = (tags: string[]) =>
+  tags
+    .map((tag) => tag.trim())
+    .filter(Boolean)
+    .map((tag) => {
+      const cleaned = tag.replace(/[^a-zA-Z0-9_]/g, "");
+      return cleaned ? `#${cleaned.replace(/^#+/, "")}` : "";
+    })
+    .filter(Boolean);
+
+const withDisclosures = (text: string, disclosures: string[]) => {
+  const missing = disclosures.filter(
+    (disclosure) => !text.toLowerCase().includes(disclosure.toLowerCase())
+  );
+  return [text, ...missing].filter(Boolean).join("\n\n");
+};
+
+/**
+ * Strips hashtags from every tweet but the last, appends the CTA, hashtag
+ * block and required disclosures to the last one and re-splits anything over
+ * the weighted limit.
+ */
+const composeThread = (
+  tweets: string[],
+  params: {
+    callToAction?: string;
+    hashtags: string[];
+    disclosures: string[];
+    maxTweets: number;
+  },
+  log: RunLog
+) => {
+  const { callToAction, hashtags, disclosures, maxTweets } = params;
+  const body = tweets
+    .map((tweet) => tweet.replace(/(^|\s)#\w+/g, "$1").trim())
+    .filter(Boolean);
+  const last = body.pop() ?? "";
+  const closing = withDisclosures(
+    [
+      last,
+      callToAction && !last.includes(callToAction) ? callToAction : "",
+      hashtags.join(" "),
+    ]
+      .filter(Boolean)
+      .join("\n\n"),
+    disclosures
+  );
+  const chunks = [...body, closing].flatMap((tweet) => splitIntoTweets(tweet));
+
+  if (chunks.length > maxTweets) {
+    logEvent(
+      log,
+      "generate",
+      "warning",
+      `Thread trimmed from ${chunks.length} to ${maxTweets} tweets to respect the limit.`
+    );
+    return [...chunks.slice(0, maxTweets - 1), chunks[chunks.length - 1]];
+  }
+
+  return chunks;
+};
+
+const parseThreadCompletion = (raw: string) => {
+  const start = raw.indexOf("{");
+  const end = raw.lastIndexOf("}");
+
+  try {
+    const parsed = JSON.parse(raw.slice(start, end + 1)) as {
+      tweets?: unknown;
+    };
+    return Array.isArray(parsed.tweets)
+      ? parsed.tweets.filter(
+          (tweet): tweet is string =>
+            typeof tweet === "string" && tweet.trim().length > 0
+        )
+      : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Runs `generate`, and when the result has content policy errors runs it once
+ * more with the findings as feedback. The second attempt is kept either way.
+ */
+export const generateChecked = async <T>(
+  label: string,
+  generate: (feedback?: string[]) => Promise<T>,
+  check: (value: T) => PolicyFinding[],
+  log: RunLog
+) => {
+  const first = await generate();
+  const errors = blockingFindings(check(first));
+
+  if (errors.length === 0) {
+    return first;
+  }
+
+  logEvent(
+    log,
+    "policy",
+    "warning",
+    `Content policy rejected the ${label} (${errors.map((finding) => finding.rule).join(", ")}). Regenerating once with feedback.`
+  );
+  return generate(findingFeedback(errors));
+};
+
+const loadFollowedHandles = async (twitter: TwitterApi | null, log: RunLog) => {
+  if (!twitter) {
+    logEvent(
+      log,
+      "policy",
+      "skipped",
+      "Twitter credentials missing. Mentions cannot be verified."
+    );
+    return undefined;
+  }
+
+  try {
+    const me = await twitter.readOnly.v2.me();
+    const following = await twitter.readOnly.v2.following(me.data.id, {
+      max_results: 1000,
+    });
+    return (following.data ?? []).map((user) => user.username.toLowerCase());
+  } catch (error) {
+    logEvent(log, "policy", "warning", "Could not load followed accounts.", {
+      error,
+    });
+    return undefined;
+  }
+};
+
+/** Runs the content policy over a whole plan and logs blocking findings. */
+const withFindings = async (
+  plan: TweetPlan,
+  bannedPhrases: string[],
+  twitter: TwitterApi | null,
+  log: RunLog
+): Promise<TweetPlan> => {
+  const texts = [
+    plan.tweet,
+    ...plan.thread,
+    ...plan.engagementTargets.map((target) => target.reply ?? ""),
+    ...plan.dmRecipients.map((recipient) => recipient.message),
+  ];
+  const context: PolicyContext = {
+    bannedPhrases,
+    followedHandles: texts.some((text) => extractMentions(text).length)
+      ? await loadFollowedHandles(twitter, log)
+      : [],
+  };
+  const findings = validatePlan(plan, context);
+  const errors = blockingFindings(findings);
+
+  errors.forEach((finding) =>
+    logEvent(
+      log,
+      "policy",
+      "error",
+      `Policy error (${finding.target}): ${finding.message}`
+    )
+  );
+  if (errors.length > 0) {
+    logEvent(
+      log,
+      "policy",
+      "info",
+      "Publishing is blocked until the policy errors are fixed."
+    );
+  }
+
+  return { ...plan, findings };
+};
+
+/**
+ * Re-runs the content policy on a plan that was edited or supplied by the
+ * caller, using the brand profile named in the brief.
+ */
+export const reviewTweetPlan = async (
+  request: TweetBrief,
+  plan: TweetPlan,
+  twitter: TwitterApi | null,
+  log: RunLog
+) => {
+  const profile = request.profileId
+    ? await getProfile(request.profileId)
+    : undefined;
+  return withFindings(plan, profile?.bannedPhrases ?? [], twitter, log);
+};
+
+/** Swaps the plan's copy for one of its variants; policy findings need a fresh review. */
+export const applyVariant = (
+  plan: TweetPlan,
+  variantId: string,
+  log: RunLog
+): TweetPlan => {
+  const variant = plan.variants.find((item) => item.id === variantId);
+  if (!variant) {
+    logEvent(
+      log,
+      "review",
+      "warning",
+      `Variant ${variantId} not found. Keeping ${plan.variantId ?? "the current copy"}.`
+    );
+    return plan;
+  }
+
+  if (variant.id !== plan.variantId) {
+    logEvent(
+      log,
+      "review",
+      "info",
+      `Picked variant ${variant.id}${variant.hookStyle ? ` (${variant.hookStyle} hook)` : ""}.`
+    );
+  }
+  return {
+    ...plan,
+    tweet: variant.tweet,
+    thread: variant.thread,
+    hookStyle: variant.hookStyle,
+    variantId: variant.id,
+  };
+};
+
+const resolveEngagementTargets = async (
+  request: TweetBrief,
+  twitter: TwitterApi | null,
+  generator: TextGenerator,
+  voice: BrandVoice | undefined,
+  log: RunLog
+): Promise<EngagementTarget[]> => {
+  const { topic, niche, tone, engagementModes } = request;
+  const actions = engagementModes.filter(
+    (mode): mode is EngagementTarget["actions"][number] => mode !== "dm"
+  );
+
+  if (actions.length === 0) {
+    return [];
+  }
+
+  if (!twitter) {
+    logEvent(
+      log,
+      "engagement",
+      "skipped",
+      "Twitter credentials missing. Engagement targets cannot be resolved."
+    );
+    return [];
+  }
+
+  const started = Date.now();
+
+  try {
+    const selection = await selectEngagementTargets(
+      twitter,
+      targetingSchema.parse(request.targeting ?? {}),
+      [topic, niche],
+      request.accountId
+    );
+    const rejected = Object.entries(selection.rejected)
+      .map(([reason, count]) => `${count} ${reason}`)
+      .join(", ");
+
+    if (selection.picked.length === 0) {
+      logEvent(
+        log,
+        "engagement",
+        "skipped",
+        `No tweets matched the targeting rules (${selection.considered} found${rejected ? `; ${rejected}` : ""}).`,
+        { durationMs: since(started) }
+      );
+      return [];
+    }
+
+    const targets: EngagementTarget[] = [];
+
+    for (const { tweet, author, score, reasons } of selection.picked) {
+      const reply = actions.includes("reply")
+        ? await generateChecked(
+            "reply",
+            (feedback) =>
+              generateWithFallback(
+                generator,
+                {
+                  kind: "reply",
+                  context: tweet.text,
+                  topic,
+                  tone,
+                  voice,
+                  feedback,
+                },
+                log
+              ),
+            (text) =>
+              checkText(text, "reply", 0, {
+                bannedPhrases: voice?.bannedPhrases ?? [],
+              }),
+            log
+          )
+        : undefined;
+
+      targets.push({
+        tweetId: tweet.id,
+        authorId: tweet.author_id,
+        authorHandle: author?.username,
+        text: tweet.text,
+        actions,
+        reply,
+        score,
+        reasons,
+      });
+    }
+
+    logEvent(
+      log,
+      "engagement",
+      "ok",
+      `Selected ${targets.length} of ${selection.considered} tweet(s) for ${actions.join(", ")}${rejected ? ` (dropped ${rejected})` : ""}.`,
+      {
+        tweetId: targets[0].tweetId,
+        userId: targets[0].authorId,
+        durationMs: since(started),
+      }
+    );
+
+    return targets;
+  } catch (error) {
+    logEvent(log, "engagement", "error", "Engagement search failed.", {
+      durationMs: since(started),
+      error,
+    });
+    return [];
+  }
+};
+
+const RECENT_TWEET_MAX_LENGTH = 100;
+
+/** Template values from the recipient's public profile and latest tweet. */
+const recipientValues = async (
+  twitter: TwitterApi | null,
+  handle: string,
+  variables: TemplateVariable[],
+  log: RunLog
+): Promise<{ userId?: string; values: TemplateValues }> => {
+  const values: TemplateValues = { handle };
+
+  if (!twitter) {
+    return { values };
+  }
+
+  try {
+    const user = await twitter.readOnly.v2.userByUsername(handle, {
+      "user.fields": ["name", "description"],
+    });
+    values.name = user.data?.name;
+    values.bio_keyword = bioKeyword(user.data?.description);
+
+    if (user.data && variables.includes("recent_tweet")) {
+      const timeline = await twitter.readOnly.v2.userTimeline(user.data.id, {
+        max_results: 5,
+        exclude: ["retweets", "replies"],
+      });
+      const text = timeline.tweets[0]?.text
+        .replace(/https?:\/\/\S+/g, "")
+        .trim();
+      values.recent_tweet =
+        text && text.length > RECENT_TWEET_MAX_LENGTH
+          ? `${text.slice(0, RECENT_TWEET_MAX_LENGTH - 1).trimEnd()}…`
+          : text;
+    }
+
+    return { userId: user.data?.id, values };
+  } catch (error) {
+    logEvent(log, "dm", "warning", `Could not resolve @${handle}.`, {
+      error,
+    });
+    return { values };
+  }
+};
+
+const resolveDmRecipients = async (
+  request: TweetBrief,
+  twitter: TwitterApi | null,
+  brand: string | undefined,
+  log: RunLog
+): Promise<Pick<TweetPlan, "dmRecipients" | "dmSkipped">> => {
+  const { engagementModes, dmTarget, dmMessage, accountId } = request;
+
+  if (!engagementModes.includes("dm") || !dmTarget || !dmMessage) {
+    return { dmRecipients: [], dmSkipped: [] };
+  }
+
+  const { allowed, skipped } = await screenRecipients(
+    accountId,
+    dmTarget
+      .split(",")
+      .map((handle) => ({ handle: handle.trim().replace(/^@/, "") }))
+      .filter(({ handle }) => handle)
+  );
+  const template = parseTemplate(dmMessage);
+
+  if (template.errors.length > 0) {
+    skipped.push(
+      ...allowed.map(({ handle }) => ({
+        handle,
+        reason: "invalid-template" as const,
+        detail: template.errors.join(" "),
+      }))
+    );
+    logDmSkips(skipped, log);
+    return { dmRecipients: [], dmSkipped: skipped };
+  }
+
+  const recipients: TweetPlan["dmRecipients"] = [];
+
+  for (const { handle } of allowed) {
+    const { userId, values } = await recipientValues(
+      twitter,
+      handle,
+      template.variables,
+      log
+    );
+    const rendered = renderTemplate(template, { ...values, brand });
+
+    // Fail closed: never send a message with unresolved placeholders.
+    if (!rendered.ok) {
+      skipped.push({
+        handle,
+        reason: "missing-variables",
+        detail: `Could not resolve ${rendered.missing
+          .map((name) => `{{${name}}}`)
+          .join(", ")}.`,
+      });
+      continue;
+    }
+
+    recipients.push({ handle, userId, message: rendered.text });
+  }
+
+  logDmSkips(skipped, log);
+  return { dmRecipients: recipients, dmSkipped: skipped };
+};
+
+export const resolveBriefContext = async (
+  request: TweetBrief,
+  log: RunLog
+): Promise<TweetBriefContext> => {
+  const { topic, angle, niche, tone, callToAction, hashtags, profileId } =
+    request;
+  const profile = profileId ? await getProfile(profileId) : undefined;
+
+  if (profileId && !profile) {
+    logEvent(
+      log,
+      "profile",
+      "warning",
+      `Brand profile ${profileId} not found. Generating without it.`
+    );
+  } else if (profile) {
+    logEvent(log, "profile", "ok", `Applying brand profile "${profile.name}".`);
+  }
+
+  return {
+    topic,
+    angle,
+    niche,
+    tone,
+    callToAction: callToAction || profile?.callToAction,
+    hashtags: sanitizeHashtags(
+      hashtags.length ? hashtags : (profile?.defaultHashtags ?? [])
+    ),
+    voice: profile && {
+      name: profile.name,
+      voice: profile.voice,
+      bannedPhrases: profile.bannedPhrases,
+      requiredDisclosures: profile.requiredDisclosures,
+      emojiPolicy: profile.emojiPolicy,
+      exampleTweets: profile.exampleTweets,
+    },
+  };
+};
+
+const generateSingleTweet = async (
+  generator: TextGenerator,
+  brief: TweetBriefContext,
+  hookStyle: HookStyle | undefined,
+  log: RunLog,
+  feedback?: string[]
+) => {
+  const { callToAction, hashtags, voice } = brief;
+  const content = await generateWithFallback(
+    generator,
+    { kind: "tweet", brief, hookStyle, feedback },
+    log
+  );
+
+  const segments = [content.trim()];
+  if (callToAction && !content.includes(callToAction)) {
+    segments.push(callToAction);
+  }
+  const hashtagBlock = hashtags.join(" ");
+  if (hashtagBlock && !content.includes("#")) {
+    segments.push(hashtagBlock);
+  }
+  return withDisclosures(
+    segments.filter(Boolean).join("\n\n"),
+    voice?.requiredDisclosures ?? []
+  );
+};
+
+const generateThread = async (
+  generator: TextGenerator,
+  brief: TweetBriefContext,
+  maxTweets: number,
+  hookStyle: HookStyle | undefined,
+  log: RunLog,
+  feedback?: string[]
+) => {
+  let tweets = parseThreadCompletion(
+    await generateWithFallback(
+      generator,
+      { kind: "thread", brief, maxTweets, hookStyle, feedback },
+      log
+    )
+  );
+
+  if (tweets.length === 0) {
+    logEvent(
+      log,
+      "generate",
+      "warning",
+      `${generator.label} returned no usable thread. Falling back to template thread.`
+    );
+    tweets = fallbackThread({ ...brief, hookStyle });
+  }
+
+  return composeThread(
+    tweets,
+    {
+      callToAction: brief.callToAction,
+      hashtags: brief.hashtags,
+      disclosures: brief.voice?.requiredDisclosures ?? [],
+      maxTweets,
+    },
+    log
+  );
+};
+
+export interface PipelineClients {
+  openai: OpenAI | null;
+  twitter: TwitterApi | null;
+  /** Overrides the generator resolved from `request.llm` and env. */
+  text?: TextGenerator;
+}
+
+const parseImageDecision = (raw: string) => {
+  const start = raw.indexOf("{");
+  const end = raw.lastIndexOf("}");
+
+  try {
+    const parsed = JSON.parse(raw.slice(start, end + 1)) as {
+      image?: unknown;
+      reason?: unknown;
+    };
+    return typeof parsed.image === "boolean"
+      ? {
+          image: parsed.image,
+          reason: typeof parsed.reason === "string" ? parsed.reason : "",
+        }
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+/** For `image.mode: "auto"`: asks the text model whether the tweet wants an image. */
+const imageWanted = async (
+  generator: TextGenerator,
+  request: TweetBrief,
+  tweet: string,
+  log: RunLog
+) => {
+  const decision = parseImageDecision(
+    await generateWithFallback(
+      generator,
+      {
+        kind: "image-decision",
+        tweet,
+        topic: request.topic,
+        niche: request.niche,
+      },
+      log
+    )
+  );
+
+  if (!decision) {
+    logEvent(
+      log,
+      "media",
+      "warning",
+      `${generator.label} gave no usable image decision. Skipping the image.`
+    );
+    return false;
+  }
+
+  logEvent(
+    log,
+    "media",
+    "info",
+    `${decision.image ? "Adding" : "Skipping"} an image: ${decision.reason || "no reason given"}`
+  );
+  return decision.image;
+};
+
+const generateImages = async (
+  openai: OpenAI,
+  prompt: string,
+  aspectRatio: keyof typeof IMAGE_ASPECT_RATIOS,
+  count: number
+) => {
+  const response = await openai.images.generate({
+    model: "gpt-image-1",
+    prompt,
+    size: IMAGE_ASPECT_RATIOS[aspectRatio].size,
+    n: count,
+  });
+
+  return (response.data ?? []).flatMap((image) =>
+    image.b64_json ? [Buffer.from(image.b64_json, "base64")] : []
+  );
+};
+
+/**
+ * Library assets named in `image.assetIds`, then freshly generated variants
+ * up to Twitter's four-image limit. Generated images are stored in the media
+ * library so the plan only carries their ids.
+ */
+const resolveMedia = async (
+  request: TweetBrief,
+  tweet: string,
+  openai: OpenAI | null,
+  generator: TextGenerator,
+  log: RunLog
+): Promise<TweetPlan["media"]> => {
+  const options = imageOptionsSchema.parse(request.image ?? {});
+  const mode = options.mode ?? (request.autoImage ? "always" : "off");
+  const media: TweetPlan["media"] = [];
+
+  for (const assetId of options.assetIds) {
+    const asset = await getMediaAsset(assetId);
+    if (asset) {
+      media.push(toPlanMedia(asset));
+    } else {
+      logEvent(
+        log,
+        "media",
+        "warning",
+        `Media asset ${assetId} not found. Continuing without it.`
+      );
+    }
+  }
+
+  const slots = MAX_TWEET_IMAGES - media.length;
+
+  if (mode === "off" || slots === 0) {
+    logEvent(
+      log,
+      "media",
+      "skipped",
+      mode === "off"
+        ? "Image generation is off for this brief."
+        : `Already attaching ${MAX_TWEET_IMAGES} library images.`
+    );
+    return media;
+  }
+
+  if (mode === "auto" && !(await imageWanted(generator, request, tweet, log))) {
+    return media;
+  }
+
+  const count = Math.min(options.variants, slots);
+  if (count < options.variants) {
+    logEvent(
+      log,
+      "media",
+      "info",
+      `Generating ${count} of ${options.variants} variants to stay within ${MAX_TWEET_IMAGES} images.`
+    );
+  }
+
+  const prompt = options.prompt || defaultImagePrompt(request);
+  const meta = {
+    prompt,
+    style: options.style,
+    aspectRatio: options.aspectRatio,
+  };
+  const started = Date.now();
+
+  try {
+    if (!openai) {
+      for (let variant = 0; variant < count; variant += 1) {
+        const image = placeholderImage(prompt, options.aspectRatio, variant);
+        const asset = await saveMediaAsset(image.data, {
+          ...meta,
+          source: "mock",
+          mimeType: "image/png",
+          width: image.width,
+          height: image.height,
+        });
+        media.push(toPlanMedia(asset));
+      }
+      logEvent(
+        log,
+        "media",
+        "info",
+        `OPENAI_API_KEY missing. Stored ${count} placeholder image(s) instead.`
+      );
+      return media;
+    }
+
+    const images = await generateImages(
+      openai,
+      buildImagePrompt(prompt, options.style),
+      options.aspectRatio,
+      count
+    );
+    for (const data of images) {
+      const asset = await saveMediaAsset(data, {
+        ...meta,
+        source: "openai",
+        mimeType: "image/png",
+      });
+      media.push(toPlanMedia(asset));
+    }
+    logEvent(
+      log,
+      "media",
+      "ok",
+      `Generated ${images.length} image(s) with the OpenAI image endpoint.`,
+      { durationMs: since(started) }
+    );
+  } catch (error) {
+    logEvent(
+      log,
+      "media",
+      "warning",
+      "Image generation failed. Continuing without generated media.",
+      { durationMs: since(started), error }
+    );
+  }
+
+  return media;
+};
+
+export const buildTweetPlan = async (
+  request: TweetBrief,
+  clients: PipelineClients,
+  log: RunLog
+): Promise<TweetPlan> => {
+  const { format, maxTweets } = request;
+  const generator = clients.text ?? resolveTextGenerator(request.llm, log);
+  const brief = await resolveBriefContext(request, log);
+
+  const bannedPhrases = brief.voice?.bannedPhrases ?? [];
+  const hookStyles = variantHookStyles(request.variants, request.hookStyles);
+  const variants: TweetVariant[] = [];
+
+  for (const [index, hookStyle] of hookStyles.entries()) {
+    const label = format === "thread" ? "thread" : "tweet";
+    const [tweet, ...thread] = await generateChecked(
+      hookStyle ? `${hookStyle} ${label}` : label,
+      (feedback) =>
+        format === "thread"
+          ? generateThread(
+              generator,
+              brief,
+              maxTweets,
+              hookStyle,
+              log,
+              feedback
+            )
+          : generateSingleTweet(
+              generator,
+              brief,
+              hookStyle,
+              log,
+              feedback
+            ).then((text) => [text]),
+      (tweets) => checkTweets(tweets, { bannedPhrases }),
+      log
+    );
+    variants.push({
+      id: `v${index + 1}`,
+      hookStyle,
+      tweet,
+      thread,
+      findings: checkTweets([tweet, ...thread], { bannedPhrases }),
+    });
+  }
+
+  const [{ tweet, thread, hookStyle, id }] = variants;
+  const compared = variants.length > 1;
+  if (compared) {
+    logEvent(
+      log,
+      "generate",
+      "info",
+      `Generated ${variants.length} variants (${hookStyles.join(", ")}). Previewing ${id}; pick another before approving.`
+    );
+  }
+
+  throwIfCancelled(log);
+  const media = await resolveMedia(
+    request,
+    tweet,
+    clients.openai,
+    generator,
+    log
+  );
+  for (const item of media) {
+    const asset = item.assetId ? await getMediaAsset(item.assetId) : undefined;
+    if (asset) {
+      item.altText = await ensureAltText(asset, clients.openai, generator, log);
+    }
+  }
+
+  throwIfCancelled(log);
+  const engagementTargets = await resolveEngagementTargets(
+    request,
+    clients.twitter,
+    generator,
+    brief.voice,
+    log
+  );
+  throwIfCancelled(log);
+  const dms = await resolveDmRecipients(
+    request,
+    clients.twitter,
+    brief.voice?.name,
+    log
+  );
+
+  return withFindings(
+    {
+      tweet,
+      thread,
+      hookStyle,
+      variantId: compared ? id : undefined,
+      variants: compared ? variants : [],
+      media,
+      engagementTargets,
+      ...dms,
+      findings: [],
+    },
+    bannedPhrases,
+    clients.twitter,
+    log
+  );
+};
+
+/** Bytes to upload for a plan media entry: a library asset or a legacy data URL. */
+const mediaFile = async (item: TweetPlan["media"][number]) => {
+  if (item.assetId) {
+    const asset = await getMediaAsset(item.assetId);
+    return asset
+      ? { data: await readMediaFile(asset), mimeType: asset.mimeType }
+      : null;
+  }
+
+  const inline = item.url.match(/^data:(image\/[\w+.-]+);base64,(.+)$/);
+  return inline
+    ? { data: Buffer.from(inline[2], "base64"), mimeType: inline[1] }
+    : null;
+};
+
+export interface PublishOptions {
+  /** Retrying with the same key resumes the publication instead of posting again. */
+  idempotencyKey?: string;
+}
+
+/** Output of one publishing side effect, logged and persisted by `once`. */
+interface StepEffect {
+  message: string;
+  /** Set when the step decided not to act, e.g. media that cannot be uploaded. */
+  skipped?: boolean;
+  tweetId?: string;
+  mediaId?: string;
+  userId?: string;
+  /**
+   * Ledger writes for the step. They run once its outcome is stored, so a
+   * failing write never makes a retry repeat the side effect.
+   */
+  afterwards?: () => Promise<unknown>;
+}
+
+const dmStepId = (handle: string) => `dm:${normalizeHandle(handle)}`;
+
+/** Engagement actions a target gets, with the reply text when it has one. */
+const targetActions = (target: EngagementTarget) =>
+  target.actions.filter((action) => action !== "reply" || target.reply);
+
+/** Every step publishing `plan` can take, in order, for the result report. */
+const plannedSteps = (plan: TweetPlan) => {
+  const steps: { id: string; step: RunStep }[] = [
+    ...plan.media
+      .slice(0, MAX_TWEET_IMAGES)
+      .map((_, index) => ({ id: `media:${index}`, step: "media" as const })),
+    { id: "tweet", step: "publish" },
+    ...plan.thread.map((_, index) => ({
+      id: `thread:${index + 1}`,
+      step: "thread" as const,
+    })),
+    ...(plan.engagementTargets.length > 0
+      ? [{ id: "me", step: "engagement" as const }]
+      : []),
+    ...plan.engagementTargets.flatMap((target) =>
+      targetActions(target).map((action) => ({
+        id: `${action}:${target.tweetId}`,
+        step: "engagement" as const,
+      }))
+    ),
+    ...plan.dmRecipients.map((recipient) => ({
+      id: dmStepId(recipient.handle),
+      step: "dm" as const,
+    })),
+  ];
+  return steps.filter(
+    (step, index) => steps.findIndex(({ id }) => id === step.id) === index
+  );
+};
+
+/**
+ * Publishes `plan` as discrete steps (media uploads, the tweet, thread
+ * replies, each engagement action and DM) and persists each step's outcome
+ * under the idempotency key. Calling it again with the same key skips every
+ * step that already succeeded, so a retry never posts, likes or messages
+ * twice; once the tweet is live, the plan it was posted with is kept.
+ */
+export const publishTweetPlan = async (
+  twitter: TwitterApi,
+  requested: TweetPlan,
+  log: RunLog,
+  brief: TweetBrief,
+  { idempotencyKey = randomUUID() }: PublishOptions = {}
+): Promise<PublishResult> => {
+  const { accountId } = brief;
+  const result: PublishResult = { idempotencyKey };
+
+  if (blockingFindings(requested.findings).length > 0) {
+    result.error = "Content policy errors block publishing.";
+    logEvent(
+      log,
+      "publish",
+      "error",
+      `${result.error} Edit the copy and review it again.`
+    );
+    return result;
+  }
+
+  const attempt = await startPublication(idempotencyKey, requested, accountId);
+  if (!attempt) {
+    result.inProgress = true;
+    result.error =
+      "Another request is already publishing with this idempotency key.";
+    logEvent(log, "publish", "error", result.error);
+    return result;
+  }
+  if (attempt.attempt > 1) {
+    logEvent(
+      log,
+      "publish",
+      "info",
+      `Resuming publication ${idempotencyKey} (attempt ${attempt.attempt}). Steps that already succeeded are not repeated.`
+    );
+  }
+
+  const { plan } = attempt;
+  const rwClient = twitter.readWrite;
+  const mediaIds: string[] = [];
+  const record = (
+    id: string,
+    kind: PostKind,
+    text: string,
+    parentId?: string
+  ) =>
+    recordPost({
+      id,
+      kind,
+      text,
+      accountId,
+      profileId: brief.profileId,
+      topic: brief.topic,
+      niche: brief.niche,
+      tone: brief.tone,
+      hookStyle: plan.hookStyle,
+      variantId: plan.variantId,
+      hasImage: kind === "tweet" && mediaIds.length > 0,
+      parentId,
+    });
+
+  /** The earlier outcome of step `id`, logged as skipped, if it succeeded. */
+  const alreadyDone = (id: string, step: RunStep) => {
+    const done = attempt.completed(id);
+    if (done) {
+      logEvent(
+        log,
+        step,
+        "skipped",
+        `Done in attempt ${done.attempt}: ${done.message}`,
+        { tweetId: done.tweetId, mediaId: done.mediaId, userId: done.userId }
+      );
+    }
+    return done;
+  };
+
+  /** Runs `effect` unless an earlier attempt already did, and persists its outcome. */
+  const once = async (
+    id: string,
+    step: RunStep,
+    effect: () => Promise<StepEffect>
+  ): Promise<StepEffect> => {
+    const done = alreadyDone(id, step);
+    if (done) {
+      return done;
+    }
+
+    throwIfCancelled(log);
+    const started = Date.now();
+    let ran: StepEffect;
+    try {
+      const { skipped, afterwards, ...outcome } = await effect();
+      await attempt.record({
+        id,
+        step,
+        status: skipped ? "skipped" : "ok",
+        ...outcome,
+      });
+      logEvent(log, step, skipped ? "warning" : "ok", outcome.message, {
+        tweetId: outcome.tweetId,
+        mediaId: outcome.mediaId,
+        userId: outcome.userId,
+        durationMs: since(started),
+      });
+      ran = { ...outcome, afterwards };
+    } catch (error) {
+      if (!(error instanceof RunCancelledError)) {
+        const details = errorDetails(error);
+        await attempt.record({
+          id,
+          step,
+          status: "failed",
+          message: details.message,
+          error: details,
+        });
+      }
+      throw error;
+    }
+
+    const { afterwards, ...outcome } = ran;
+    try {
+      await afterwards?.();
+    } catch (error) {
+      logEvent(
+        log,
+        step,
+        "error",
+        `${outcome.message} Could not record it in the ledger.`,
+        { tweetId: outcome.tweetId, userId: outcome.userId, error }
+      );
+    }
+    return outcome;
+  };
+
+  try {
+    for (const [index, item] of plan.media
+      .slice(0, MAX_TWEET_IMAGES)
+      .entries()) {
+      const uploaded = await once(`media:${index}`, "media", async () => {
+        const file = item.uploadable ? await mediaFile(item) : null;
+        if (!file) {
+          return {
+            skipped: true,
+            message: `Skipped ${item.url.startsWith("data:") ? "inline image" : item.url}: not a stored media asset.`,
+          };
+        }
+
+        const mediaId = await rwClient.v1.uploadMedia(file.data, {
+          mimeType: file.mimeType,
+        });
+        if (item.altText?.trim()) {
+          await rwClient.v1.createMediaMetadata(mediaId, {
+            alt_text: { text: item.altText.trim() },
+          });
+        } else {
+          logEvent(
+            log,
+            "policy",
+            "warning",
+            `Image ${mediaIds.length + 1} is posted without alt text.`,
+            { mediaId }
+          );
+        }
+        if (item.assetId) {
+          await markMediaUsed(item.assetId);
+        }
+        return {
+          mediaId,
+          message: item.altText?.trim()
+            ? "Uploaded media to Twitter with alt text."
+            : "Uploaded media to Twitter.",
+        };
+      });
+      if (uploaded.mediaId) {
+        mediaIds.push(uploaded.mediaId);
+      }
+    }
+
+    let mediaPayload: SendTweetV2Params["media"] | undefined;
+
+    if (mediaIds.length > 0) {
+      const limited = mediaIds.slice(0, 4);
+      if (limited.length === 1) {
+        mediaPayload = { media_ids: [limited[0]] };
+      } else if (limited.length === 2) {
+        mediaPayload = { media_ids: [limited[0], limited[1]] };
+      } else if (limited.length === 3) {
+        mediaPayload = {
+          media_ids: [limited[0], limited[1], limited[2]],
+        };
+      } else if (limited.length >= 4) {
+        mediaPayload = {
+          media_ids: [limited[0], limited[1], limited[2], limited[3]],
+        };
+      }
+    }
+
+    const posted = await once("tweet", "publish", async () => {
+      const tweetResponse = await rwClient.v2.tweet({
+        text: plan.tweet,
+        ...(mediaPayload ? { media: mediaPayload } : {}),
+      });
+      const tweetId = tweetResponse.data?.id;
+      if (!tweetId) {
+        throw new Error("Twitter did not return the id of the new tweet.");
+      }
+      return {
+        tweetId,
+        message: "Tweet published via Twitter API.",
+        afterwards: () => record(tweetId, "tweet", plan.tweet),
+      };
+    });
+    const tweetId = posted.tweetId as string;
+    result.tweetId = tweetId;
+    result.tweetUrl = `https://twitter.com/i/web/status/${tweetId}`;
+
+    if (plan.thread.length > 0) {
+      const thread: ThreadPublishState = {
+        tweetIds: [tweetId],
+        total: plan.thread.length + 1,
+      };
+      result.thread = thread;
+      const started = Date.now();
+
+      try {
+        for (const [index, text] of plan.thread.entries()) {
+          const previousId = thread.tweetIds[thread.tweetIds.length - 1];
+          const part = await once(`thread:${index + 1}`, "thread", async () => {
+            const reply = await rwClient.v2.tweet({
+              text,
+              reply: { in_reply_to_tweet_id: previousId },
+            });
+            return {
+              tweetId: reply.data.id,
+              message: `Posted thread tweet ${index + 2}/${thread.total}.`,
+              afterwards: () => record(reply.data.id, "thread", text, tweetId),
+            };
+          });
+          if (part.tweetId) {
+            thread.tweetIds.push(part.tweetId);
+          }
+        }
+        logEvent(
+          log,
+          "thread",
+          "ok",
+          `Thread published (${thread.total} tweets).`,
+          {
+            tweetId: thread.tweetIds[thread.tweetIds.length - 1],
+            durationMs: since(started),
+          }
+        );
+      } catch (error) {
+        if (error instanceof RunCancelledError) {
+          throw error;
+        }
+        thread.error = (error as Error).message;
+        // Reported so callers keep the publication open; retrying with the
+        // same idempotency key posts only the missing tweets.
+        result.error = `Thread stopped after ${thread.tweetIds.length}/${thread.total} tweets: ${thread.error}`;
+        logEvent(
+          log,
+          "thread",
+          "error",
+          `Thread stopped after ${thread.tweetIds.length}/${thread.total} tweets.`,
+          {
+            tweetId: thread.tweetIds[thread.tweetIds.length - 1],
+            durationMs: since(started),
+            error,
+          }
+        );
+      }
+    }
+
+    let myUserId: string | undefined;
+
+    if (plan.engagementTargets.length > 0) {
+      try {
+        const me = await once("me", "engagement", async () => ({
+          userId: (await rwClient.v2.me()).data.id,
+          message: "Looked up the posting account.",
+        }));
+        myUserId = me.userId;
+      } catch (error) {
+        if (error instanceof RunCancelledError) {
+          throw error;
+        }
+        logEvent(
+          log,
+          "engagement",
+          "error",
+          "Could not look up the posting account. Skipped likes, retweets and replies.",
+          { error }
+        );
+      }
+    }
+
+    for (const target of myUserId ? plan.engagementTargets : []) {
+      const userId = myUserId as string;
+      const ids = { tweetId: target.tweetId, userId: target.authorId };
+      const stepId = (action: string) => `${action}:${target.tweetId}`;
+      const actions = targetActions(target);
+
+      // Approved drafts and retried jobs can carry targets that another run
+      // engaged with in the meantime. A target this publication already
+      // started on is resumed instead.
+      const resumed = actions.some((action) =>
+        attempt.completed(stepId(action))
+      );
+      if (!resumed && (await alreadyEngaged(accountId, target))) {
+        const message = `Skipped tweet ${target.tweetId}: already engaged with it or its author recently.`;
+        logEvent(log, "engagement", "skipped", message, ids);
+        for (const action of actions) {
+          await attempt.record({
+            id: stepId(action),
+            step: "engagement",
+            status: "skipped",
+            message,
+            ...ids,
+          });
+        }
+        continue;
+      }
+
+      const effects: [string, () => Promise<StepEffect>][] = [];
+      if (target.actions.includes("like")) {
+        effects.push([
+          "like",
+          async () => {
+            await rwClient.v2.like(userId, target.tweetId);
+            return {
+              ...ids,
+              message: `Liked tweet ${target.tweetId}.`,
+              afterwards: () => recordEngagement(accountId, target, "like"),
+            };
+          },
+        ]);
+      }
+      if (target.actions.includes("retweet")) {
+        effects.push([
+          "retweet",
+          async () => {
+            await rwClient.v2.retweet(userId, target.tweetId);
+            return {
+              ...ids,
+              message: `Retweeted ${target.tweetId}.`,
+              afterwards: () => recordEngagement(accountId, target, "retweet"),
+            };
+          },
+        ]);
+      }
+      const replyText = target.reply;
+      if (target.actions.includes("reply") && replyText) {
+        effects.push([
+          "reply",
+          async () => {
+            const reply = await rwClient.v2.reply(replyText, target.tweetId);
+            return {
+              ...ids,
+              message: `Replied to ${target.tweetId}.`,
+              afterwards: async () => {
+                await recordEngagement(accountId, target, "reply");
+                await record(reply.data.id, "reply", replyText, target.tweetId);
+              },
+            };
+          },
+        ]);
+      }
+
+      for (const [action, effect] of effects) {
+        try {
+          await once(stepId(action), "engagement", effect);
+        } catch (error) {
+          if (error instanceof RunCancelledError) {
+            throw error;
+          }
+          logEvent(
+            log,
+            "engagement",
+            "error",
+            `Could not ${action} tweet ${target.tweetId}.`,
+            { ...ids, error }
+          );
+        }
+      }
+    }
+
+    const pendingRecipients = plan.dmRecipients.filter(
+      (recipient) => !alreadyDone(dmStepId(recipient.handle), "dm")
+    );
+
+    if (pendingRecipients.length > 0) {
+      try {
+        await syncDmOptOuts(twitter, accountId, log);
+      } catch (error) {
+        logEvent(
+          log,
+          "dm",
+          "warning",
+          "Could not read replies to check for opt-outs.",
+          { error }
+        );
+      }
+    }
+
+    // The ledger may have changed since the plan was built (opt-outs, other
+    // runs using up the daily cap), so screen again right before sending.
+    const { allowed, skipped } = await screenRecipients(
+      accountId,
+      pendingRecipients
+    );
+    logDmSkips(skipped, log);
+    result.dmSkipped = skipped;
+    for (const skip of skipped) {
+      await attempt.record({
+        id: dmStepId(skip.handle),
+        step: "dm",
+        status: "skipped",
+        message: skip.detail,
+      });
+    }
+
+    for (const recipient of allowed) {
+      let recipientId = recipient.userId;
+
+      try {
+        await once(dmStepId(recipient.handle), "dm", async () => {
+          recipientId ??= (await rwClient.v2.userByUsername(recipient.handle))
+            .data.id;
+
+          await rwClient.v2.sendDmToParticipant(recipientId, {
+            text: recipient.message,
+          });
+
+          const userId = recipientId;
+          return {
+            userId,
+            message: `Sent DM to @${recipient.handle}.`,
+            afterwards: () =>
+              recordDm(accountId, { ...recipient, userId }, "sent"),
+          };
+        });
+      } catch (error) {
+        if (error instanceof RunCancelledError) {
+          throw error;
+        }
+        logEvent(
+          log,
+          "dm",
+          "error",
+          `Failed to send DM to @${recipient.handle}.`,
+          { userId: recipientId, error }
+        );
+        // Best-effort like the ledger writes in `once`: the remaining
+        // recipients still get their DMs.
+        await recordDm(
+          accountId,
+          { ...recipient, userId: recipientId },
+          "failed",
+          (error as Error).message
+        ).catch((ledgerError) =>
+          logEvent(
+            log,
+            "dm",
+            "error",
+            `Could not record the failed DM to @${recipient.handle} in the ledger.`,
+            { userId: recipientId, error: ledgerError }
+          )
+        );
+      }
+    }
+  } catch (error) {
+    if (error instanceof RunCancelledError) {
+      result.error = error.message;
+      logEvent(
+        log,
+        "publish",
+        "skipped",
+        "Cancelled. The remaining steps were not run.",
+        { tweetId: result.tweetId }
+      );
+    } else {
+      result.error = (error as Error).message;
+      if (error instanceof QuotaExceededError && !result.tweetId) {
+        result.retryAt = error.resetAt.toISOString();
+      }
+      logEvent(log, "publish", "error", "Twitter automation failed.", {
+        tweetId: result.tweetId,
+        error,
+      });
+    }
+  } finally {
+    result.steps = await attempt.finish(result, plannedSteps(plan));
+  }
+
+  return result;
+};
@@ -0,0 +1,39 @@
+import { Agent } from "http";
+import net from "net";
+import tls from "tls";
+
+const agents = new Map<string, Agent>();
+
+/**
+ * twitter-api-v2 always sends requests to api.x.com and upload.x.com over
+ * `https.request`. When `TWITTER_API_BASE_URL` is set (e.g. the local mock
+ * server), this agent keeps those URLs, so quota keys and OAuth signatures
+ * stay unchanged, but opens the connection to the base URL instead.
+ */
+export const twitterHttpAgent = () => {
+  const baseUrl = process.env.TWITTER_API_BASE_URL;
+  if (!baseUrl) {
+    return undefined;
+  }
+
+  const existing = agents.get(baseUrl);
+  if (existing) {
+    return existing;
+  }
+
+  const target = new URL(baseUrl);
+  const secure = target.protocol === "https:";
+  const host = target.hostname;
+  const port = Number(target.port) || (secure ? 443 : 80);
+  const agent = new Agent({ keepAlive: true });
+
+  // `https.request` refuses agents that do not claim the https protocol.
+  Object.assign(agent, { protocol: "https:" });
+  agent.createConnection = () =>
+    secure
+      ? tls.connect({ host, port, servername: host })
+      : net.connect({ host, port });
+
+  agents.set(baseUrl, agent);
+  return agent;
+};
@@ -0,0 +1,954 @@
+import { createHash } from "crypto";
+import {
+  createServer,
+  type IncomingMessage,
+  type Server,
+  type ServerResponse,
+} from "http";
+import type { AddressInfo } from "net";
+
+export interface MockUser {
+  id: string;
+  username: string;
+  name: string;
+  description?: string;
+  followers: number;
+}
+
+export interface MockTweet {
+  id: string;
+  text: string;
+  authorId: string;
+  likes: number;
+  minutesAgo: number;
+  lang?: string;
+  /** Root of the conversation; the tweet itself when unset. */
+  conversationId?: string;
+}
+
+export interface MockDmEvent {
+  id: string;
+  senderId: string;
+  text: string;
+  minutesAgo: number;
+}
+
+export interface MockTwitterSeed {
+  me: MockUser;
+  users: MockUser[];
+  /** Returned by `GET /2/tweets/search/recent` whatever the query. */
+  searchTweets: MockTweet[];
+  /** Usernames `me` follows. */
+  following: string[];
+  dmEvents: MockDmEvent[];
+  /**
+   * Returned by `GET /2/users/:id/mentions`, newest last; honours `since_id`,
+   * `max_results` and `pagination_token`.
+   */
+  mentions: MockTweet[];
+}
+
+/** Makes the next `times` calls to `endpoint` (e.g. `POST /2/users/:id/likes`) fail. */
+export interface MockFailure {
+  endpoint: string;
+  status: number;
+  times: number;
+  /** Calls to let through before failing, e.g. to break a thread part-way. */
+  after?: number;
+  /** For 429s: seconds until the advertised rate-limit reset. */
+  resetInSeconds?: number;
+  message?: string;
+}
+
+export interface MockInteraction {
+  at: string;
+  endpoint: string;
+  path: string;
+  query: Record<string, string>;
+  body: Record<string, unknown>;
+  status: number;
+}
+
+interface MockRequest {
+  params: string[];
+  query: URLSearchParams;
+  body: Record<string, unknown>;
+}
+
+interface MockResponse {
+  status?: number;
+  body?: unknown;
+  /** Sent form-encoded instead of `body`, like the OAuth endpoints do. */
+  form?: Record<string, string>;
+}
+
+export interface MockTwitterOptions {
+  /** `expires_in` of issued OAuth 2.0 access tokens. */
+  accessTokenTtlSeconds?: number;
+}
+
+interface PostedTweet {
+  id: string;
+  text: string;
+  replyTo?: string;
+  mediaIds: string[];
+  createdAt: number;
+}
+
+const RATE_LIMIT = 900;
+
+export const DEFAULT_MOCK_SEED: MockTwitterSeed = {
+  me: {
+    id: "1000",
+    username: "mockbrand",
+    name: "Mock Brand",
+    followers: 1200,
+  },
+  users: [
+    {
+      id: "2001",
+      username: "alice",
+      name: "Alice Growth",
+      description: "Growth lead. Writing about #saas and onboarding.",
+      followers: 5400,
+    },
+    {
+      id: "2002",
+      username: "bob",
+      name: "Bob Builder",
+      description: "Indie hacker shipping in public.",
+      followers: 320,
+    },
+    {
+      id: "2003",
+      username: "carol",
+      name: "Carol",
+      description: "New here.",
+      followers: 40,
+    },
+    {
+      id: "2004",
+      username: "growthdeals4u",
+      name: "Growth Deals",
+      followers: 12,
+    },
+  ],
+  searchTweets: [
+    {
+      id: "3001",
+      text: "Onboarding emails doubled our activation. Here's the sequence.",
+      authorId: "2001",
+      likes: 180,
+      minutesAgo: 60,
+    },
+    {
+      id: "3002",
+      text: "Shipped a new pricing page today, feedback welcome",
+      authorId: "2002",
+      likes: 14,
+      minutesAgo: 180,
+    },
+    {
+      id: "3003",
+      text: "first post, hello world",
+      authorId: "2003",
+      likes: 1,
+      minutesAgo: 30,
+    },
+  ],
+  following: ["alice"],
+  dmEvents: [{ id: "4001", senderId: "2003", text: "STOP", minutesAgo: 10 }],
+  mentions: [
+    {
+      id: "3101",
+      text: "@mockbrand how do you handle onboarding for teams that use SSO?",
+      authorId: "2001",
+      likes: 3,
+      minutesAgo: 50,
+    },
+    {
+      id: "3102",
+      text: "@mockbrand love the new pricing page, super clear!",
+      authorId: "2002",
+      likes: 5,
+      minutesAgo: 40,
+    },
+    {
+      id: "3103",
+      text: "@mockbrand the CSV export has been broken for two days. Really frustrating.",
+      authorId: "2003",
+      likes: 0,
+      minutesAgo: 30,
+    },
+    {
+      id: "3104",
+      text: "@mockbrand Get 10k followers fast!! DM us for a cheap promo http://spam.example",
+      authorId: "2004",
+      likes: 0,
+      minutesAgo: 20,
+    },
+    {
+      id: "3105",
+      text: "@mockbrand also, is there an API for provisioning those seats?",
+      authorId: "2001",
+      likes: 1,
+      minutesAgo: 10,
+      conversationId: "3101",
+    },
+  ],
+};
+
+/** Stable numeric id for handles the seed does not know. */
+const idFor = (username: string) =>
+  String(
+    5000 +
+      (createHash("sha256").update(username.toLowerCase()).digest()[0] << 4)
+  );
+
+const ago = (minutes: number) =>
+  new Date(Date.now() - minutes * 60_000).toISOString();
+
+const userView = (user: MockUser) => ({
+  id: user.id,
+  username: user.username,
+  name: user.name,
+  description: user.description ?? "",
+  public_metrics: {
+    followers_count: user.followers,
+    following_count: 100,
+    tweet_count: 500,
+    listed_count: 3,
+  },
+});
+
+const readBody = async (request: IncomingMessage) => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of request) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+};
+
+/** Text fields of a multipart body; file parts are reduced to their size. */
+const parseMultipart = (raw: Buffer, boundary: string) => {
+  const fields: Record<string, unknown> = {};
+
+  for (const part of raw.toString("latin1").split(`--${boundary}`)) {
+    const [head, ...rest] = part.split("\r\n\r\n");
+    const name = head.match(/name="([^"]+)"/)?.[1];
+    if (!name) {
+      continue;
+    }
+    const value = rest.join("\r\n\r\n").replace(/\r\n$/, "");
+    fields[name] =
+      name === "media" ? { bytes: Buffer.byteLength(value, "latin1") } : value;
+  }
+
+  return fields;
+};
+
+const parseBody = (raw: Buffer, contentType = ""): Record<string, unknown> => {
+  if (raw.length === 0) {
+    return {};
+  }
+  if (contentType.includes("application/json")) {
+    return JSON.parse(raw.toString("utf8"));
+  }
+  const boundary = contentType.match(/boundary=(.+)$/)?.[1];
+  if (boundary) {
+    return parseMultipart(raw, boundary);
+  }
+  return Object.fromEntries(new URLSearchParams(raw.toString("utf8")));
+};
+
+/**
+ * Local stand-in for the v1.1, v2 and OAuth token endpoints the app calls,
+ * for offline end-to-end runs. Point the app at it with `TWITTER_API_BASE_URL`.
+ * It keeps posted tweets, likes, retweets, uploads and DMs in memory, records
+ * every call, and fails calls on demand. `/__mock/*` exposes the same
+ * controls over HTTP.
+ */
+export const createMockTwitterServer = (
+  seed: MockTwitterSeed = DEFAULT_MOCK_SEED,
+  { accessTokenTtlSeconds = 7200 }: MockTwitterOptions = {}
+) => {
+  const interactions: MockInteraction[] = [];
+  let failures: MockFailure[] = [];
+  let tweets = new Map<string, PostedTweet>();
+  let media = new Map<string, { bytes: number; altText?: string }>();
+  let nextId = 9000;
+  /** OAuth 1.0a request tokens, with the verifier once the user consented. */
+  const requestTokens = new Map<string, { verifier?: string }>();
+  /** OAuth 2.0 authorization codes with their PKCE challenge. */
+  const authorizationCodes = new Map<
+    string,
+    { challenge: string; redirectUri: string; scope: string }
+  >();
+  /** Live OAuth 2.0 refresh tokens and their scope. */
+  const refreshTokens = new Map<string, string>();
+
+  const users = new Map(
+    [seed.me, ...seed.users].map((user) => [user.username.toLowerCase(), user])
+  );
+  const userById = (id: string) =>
+    [...users.values()].find((user) => user.id === id);
+  const userByName = (username: string) =>
+    users.get(username.toLowerCase()) ?? {
+      id: idFor(username),
+      username,
+      name: username,
+      followers: 0,
+    };
+  const newId = () => String((nextId += 1));
+
+  const issueOAuth2Tokens = (scope: string) => {
+    const refreshToken = `refresh-${newId()}`;
+    refreshTokens.set(refreshToken, scope);
+    return {
+      token_type: "bearer",
+      expires_in: accessTokenTtlSeconds,
+      access_token: `access-${newId()}`,
+      refresh_token: refreshToken,
+      scope,
+    };
+  };
+
+  const oauth2Error = (description: string): MockResponse => ({
+    status: 400,
+    body: { error: "invalid_request", error_description: description },
+  });
+
+  const tweetView = (tweet: MockTweet) => ({
+    id: tweet.id,
+    text: tweet.text,
+    author_id: tweet.authorId,
+    created_at: ago(tweet.minutesAgo),
+    conversation_id: tweet.conversationId ?? tweet.id,
+    lang: tweet.lang ?? "en",
+    public_metrics: {
+      like_count: tweet.likes,
+      retweet_count: Math.floor(tweet.likes / 10),
+      reply_count: Math.floor(tweet.likes / 20),
+      quote_count: 0,
+      impression_count: tweet.likes * 40,
+      bookmark_count: Math.floor(tweet.likes / 15),
+    },
+  });
+
+  /** Posted tweets gain a little engagement every minute they are live. */
+  const postedView = (tweet: PostedTweet) => {
+    const minutes = Math.floor((Date.now() - tweet.createdAt) / 60_000);
+    return {
+      id: tweet.id,
+      text: tweet.text,
+      author_id: seed.me.id,
+      created_at: new Date(tweet.createdAt).toISOString(),
+      public_metrics: {
+        like_count: minutes,
+        retweet_count: Math.floor(minutes / 5),
+        reply_count: Math.floor(minutes / 10),
+        quote_count: 0,
+        impression_count: 25 + minutes * 30,
+        bookmark_count: Math.floor(minutes / 8),
+      },
+    };
+  };
+
+  const routes: {
+    method: string;
+    pattern: RegExp;
+    endpoint: string;
+    /** Public OAuth 2.0 clients call it without an Authorization header. */
+    anonymous?: boolean;
+    handle: (request: MockRequest) => MockResponse;
+  }[] = [
+    {
+      method: "POST",
+      pattern: /^\/oauth\/request_token$/,
+      endpoint: "POST /oauth/request_token",
+      handle: () => {
+        const token = `request-${newId()}`;
+        requestTokens.set(token, {});
+        return {
+          form: {
+            oauth_token: token,
+            oauth_token_secret: `${token}-secret`,
+            oauth_callback_confirmed: "true",
+          },
+        };
+      },
+    },
+    {
+      method: "POST",
+      pattern: /^\/oauth\/access_token$/,
+      endpoint: "POST /oauth/access_token",
+      handle: ({ body }) => {
+        const token = String(body.oauth_token);
+        const request = requestTokens.get(token);
+        if (!request?.verifier || request.verifier !== body.oauth_verifier) {
+          return {
+            status: 401,
+            body: {
+              errors: [{ code: 89, message: "Invalid or expired token." }],
+            },
+          };
+        }
+        requestTokens.delete(token);
+        return {
+          form: {
+            oauth_token: `${seed.me.id}-access-${newId()}`,
+            oauth_token_secret: `access-secret-${newId()}`,
+            user_id: seed.me.id,
+            screen_name: seed.me.username,
+          },
+        };
+      },
+    },
+    {
+      method: "POST",
+      pattern: /^\/2\/oauth2\/token$/,
+      endpoint: "POST /2/oauth2/token",
+      anonymous: true,
+      handle: ({ body }) => {
+        if (body.grant_type === "refresh_token") {
+          const token = String(body.refresh_token);
+          const scope = refreshTokens.get(token);
+          if (scope === undefined) {
+            return oauth2Error("Value passed for the token was invalid.");
+          }
+          refreshTokens.delete(token);
+          return { body: issueOAuth2Tokens(scope) };
+        }
+
+        const code = authorizationCodes.get(String(body.code));
+        if (body.grant_type !== "authorization_code" || !code) {
+          return oauth2Error(
+            "Value passed for the authorization code was invalid."
+          );
+        }
+        const challenge = createHash("sha256")
+          .update(String(body.code_verifier))
+          .digest("base64url");
+        if (challenge !== code.challenge) {
+          return oauth2Error(
+            "Value passed for the code verifier did not match."
+          );
+        }
+        if (body.redirect_uri !== code.redirectUri) {
+          return oauth2Error(
+            "Value passed for the redirect uri did not match."
+          );
+        }
+        authorizationCodes.delete(String(body.code));
+        return { body: issueOAuth2Tokens(code.scope) };
+      },
+    },
+    {
+      method: "GET",
+      pattern: /^\/2\/users\/me$/,
+      endpoint: "GET /2/users/me",
+      handle: () => ({ body: { data: userView(seed.me) } }),
+    },
+    {
+      method: "GET",
+      pattern: /^\/2\/users\/by\/username\/([^/]+)$/,
+      endpoint: "GET /2/users/by/username/:username",
+      handle: ({ params }) => ({
+        body: { data: userView(userByName(params[0])) },
+      }),
+    },
+    {
+      method: "GET",
+      pattern: /^\/2\/users\/(\d+)\/tweets$/,
+      endpoint: "GET /2/users/:id/tweets",
+      handle: ({ params }) => {
+        const authored = seed.searchTweets.filter(
+          (tweet) => tweet.authorId === params[0]
+        );
+        return {
+          body: {
+            data: authored.map(tweetView),
+            meta: { result_count: authored.length },
+          },
+        };
+      },
+    },
+    {
+      method: "GET",
+      pattern: /^\/2\/users\/(\d+)\/mentions$/,
+      endpoint: "GET /2/users/:id/mentions",
+      handle: ({ query }) => {
+        const sinceId = BigInt(query.get("since_id") ?? 0);
+        const newer = seed.mentions
+          .filter((tweet) => BigInt(tweet.id) > sinceId)
+          .reverse();
+        // The token is the offset of the page, newest first.
+        const offset = Number(query.get("pagination_token") ?? 0);
+        const size = Number(query.get("max_results") ?? 10);
+        const mentions = newer.slice(offset, offset + size);
+        const authors = new Set(mentions.map((tweet) => tweet.authorId));
+        return {
+          body: {
+            data: mentions.length ? mentions.map(tweetView) : undefined,
+            includes: {
+              users: [...authors].flatMap((id) => {
+                const user = userById(id);
+                return user ? [userView(user)] : [];
+              }),
+            },
+            meta: {
+              result_count: mentions.length,
+              newest_id: mentions[0]?.id,
+              oldest_id: mentions[mentions.length - 1]?.id,
+              next_token:
+                offset + size < newer.length
+                  ? String(offset + size)
+                  : undefined,
+            },
+          },
+        };
+      },
+    },
+    {
+      method: "GET",
+      pattern: /^\/2\/users\/(\d+)\/following$/,
+      endpoint: "GET /2/users/:id/following",
+      handle: () => {
+        const following = seed.following.map((name) =>
+          userView(userByName(name))
+        );
+        return {
+          body: { data: following, meta: { result_count: following.length } },
+        };
+      },
+    },
+    {
+      method: "GET",
+      pattern: /^\/2\/tweets\/search\/recent$/,
+      endpoint: "GET /2/tweets/search/recent",
+      handle: () => {
+        const authors = new Set(
+          seed.searchTweets.map((tweet) => tweet.authorId)
+        );
+        return {
+          body: {
+            data: seed.searchTweets.map(tweetView),
+            includes: {
+              users: [...authors].flatMap((id) => {
+                const user = userById(id);
+                return user ? [userView(user)] : [];
+              }),
+            },
+            meta: { result_count: seed.searchTweets.length },
+          },
+        };
+      },
+    },
+    {
+      method: "GET",
+      pattern: /^\/2\/tweets$/,
+      endpoint: "GET /2/tweets",
+      handle: ({ query }) => {
+        const ids = (query.get("ids") ?? "").split(",").filter(Boolean);
+        const found = ids.flatMap((id) => {
+          const tweet = tweets.get(id);
+          return tweet ? [postedView(tweet)] : [];
+        });
+        const missing = ids.filter((id) => !tweets.has(id));
+        return {
+          body: {
+            data: found.length ? found : undefined,
+            errors: missing.length
+              ? missing.map((id) => ({
+                  resource_id: id,
+                  resource_type: "tweet",
+                  title: "Not Found Error",
+                  detail: `Could not find tweet with ids: [${id}].`,
+                  type: "https://api.twitter.com/2/problems/resource-not-found",
+                }))
+              : undefined,
+          },
+        };
+      },
+    },
+    {
+      method: "POST",
+      pattern: /^\/2\/tweets$/,
+      endpoint: "POST /2/tweets",
+      handle: ({ body }) => {
+        const payload = body as {
+          text?: string;
+          reply?: { in_reply_to_tweet_id?: string };
+          media?: { media_ids?: string[] };
+        };
+        const tweet: PostedTweet = {
+          id: newId(),
+          text: payload.text ?? "",
+          replyTo: payload.reply?.in_reply_to_tweet_id,
+          mediaIds: payload.media?.media_ids ?? [],
+          createdAt: Date.now(),
+        };
+        const unknownMedia = tweet.mediaIds.find((id) => !media.has(id));
+        if (unknownMedia) {
+          return {
+            status: 400,
+            body: {
+              title: "Invalid Request",
+              detail: `Media id ${unknownMedia} was never uploaded.`,
+              status: 400,
+            },
+          };
+        }
+        tweets.set(tweet.id, tweet);
+        return {
+          status: 201,
+          body: { data: { id: tweet.id, text: tweet.text } },
+        };
+      },
+    },
+    {
+      method: "POST",
+      pattern: /^\/2\/users\/(\d+)\/likes$/,
+      endpoint: "POST /2/users/:id/likes",
+      handle: () => ({ body: { data: { liked: true } } }),
+    },
+    {
+      method: "POST",
+      pattern: /^\/2\/users\/(\d+)\/retweets$/,
+      endpoint: "POST /2/users/:id/retweets",
+      handle: () => ({ body: { data: { retweeted: true } } }),
+    },
+    {
+      method: "GET",
+      pattern: /^\/2\/dm_events$/,
+      endpoint: "GET /2/dm_events",
+      handle: () => {
+        const senders = new Set(seed.dmEvents.map((event) => event.senderId));
+        return {
+          body: {
+            data: seed.dmEvents.map((event) => ({
+              id: event.id,
+              event_type: "MessageCreate",
+              sender_id: event.senderId,
+              text: event.text,
+              created_at: ago(event.minutesAgo),
+            })),
+            includes: {
+              users: [...senders].flatMap((id) => {
+                const user = userById(id);
+                return user ? [userView(user)] : [];
+              }),
+            },
+            meta: { result_count: seed.dmEvents.length },
+          },
+        };
+      },
+    },
+    {
+      method: "POST",
+      pattern: /^\/2\/dm_conversations\/with\/(\d+)\/messages$/,
+      endpoint: "POST /2/dm_conversations/with/:id/messages",
+      handle: ({ params }) => ({
+        status: 201,
+        body: {
+          data: {
+            dm_conversation_id: `${seed.me.id}-${params[0]}`,
+            dm_event_id: newId(),
+          },
+        },
+      }),
+    },
+    {
+      method: "POST",
+      pattern: /^\/1\.1\/media\/upload\.json$/,
+      endpoint: "POST /1.1/media/upload.json",
+      handle: ({ body }) => {
+        switch (body.command) {
+          case "INIT": {
+            const id = newId();
+            media.set(id, { bytes: Number(body.total_bytes) || 0 });
+            return {
+              status: 202,
+              body: { media_id: Number(id), media_id_string: id },
+            };
+          }
+          case "APPEND":
+            return media.has(String(body.media_id))
+              ? { status: 204 }
+              : {
+                  status: 400,
+                  body: {
+                    errors: [{ code: 324, message: "Unknown media id." }],
+                  },
+                };
+          case "FINALIZE": {
+            const id = String(body.media_id);
+            const item = media.get(id);
+            return item
+              ? {
+                  status: 201,
+                  body: {
+                    media_id: Number(id),
+                    media_id_string: id,
+                    size: item.bytes,
+                  },
+                }
+              : {
+                  status: 400,
+                  body: {
+                    errors: [{ code: 324, message: "Unknown media id." }],
+                  },
+                };
+          }
+          default:
+            return {
+              status: 400,
+              body: {
+                errors: [
+                  { code: 38, message: "command parameter is missing." },
+                ],
+              },
+            };
+        }
+      },
+    },
+    {
+      method: "POST",
+      pattern: /^\/1\.1\/media\/metadata\/create\.json$/,
+      endpoint: "POST /1.1/media/metadata/create.json",
+      handle: ({ body }) => {
+        const payload = body as {
+          media_id?: string;
+          alt_text?: { text?: string };
+        };
+        const item = media.get(String(payload.media_id));
+        if (!item) {
+          return {
+            status: 400,
+            body: { errors: [{ code: 324, message: "Unknown media id." }] },
+          };
+        }
+        item.altText = payload.alt_text?.text;
+        return { status: 200 };
+      },
+    },
+  ];
+
+  const takeFailure = (endpoint: string) => {
+    const failure = failures.find((item) => item.endpoint === endpoint);
+    if (!failure) {
+      return undefined;
+    }
+    if (failure.after) {
+      failure.after -= 1;
+      return undefined;
+    }
+    failure.times -= 1;
+    failures = failures.filter((item) => item.times > 0);
+    return failure;
+  };
+
+  const send = (
+    response: ServerResponse,
+    status: number,
+    body: unknown,
+    headers: Record<string, string> = {}
+  ) => {
+    response.writeHead(status, {
+      ...(body === undefined ? {} : { "content-type": "application/json" }),
+      ...headers,
+    });
+    response.end(body === undefined ? undefined : JSON.stringify(body));
+  };
+
+  const control = (
+    method: string,
+    path: string,
+    body: Record<string, unknown>
+  ): MockResponse => {
+    if (method === "GET" && path === "/__mock/interactions") {
+      return { body: { interactions } };
+    }
+    if (method === "POST" && path === "/__mock/failures") {
+      fail(body as unknown as MockFailure);
+      return { status: 201, body: { failures } };
+    }
+    if (method === "POST" && path === "/__mock/reset") {
+      reset();
+      return { status: 204 };
+    }
+    return { status: 404, body: { error: "Unknown mock control" } };
+  };
+
+  const handle = async (request: IncomingMessage, response: ServerResponse) => {
+    const url = new URL(request.url ?? "/", "http://mock");
+    const method = request.method ?? "GET";
+    let body: Record<string, unknown>;
+
+    try {
+      body = parseBody(
+        await readBody(request),
+        request.headers["content-type"]
+      );
+    } catch {
+      send(response, 400, {
+        title: "Invalid Request",
+        detail: "Unreadable body.",
+      });
+      return;
+    }
+
+    if (url.pathname.startsWith("/__mock/")) {
+      const result = control(method, url.pathname, body);
+      send(response, result.status ?? 200, result.body);
+      return;
+    }
+
+    const route = routes.find(
+      (candidate) =>
+        candidate.method === method && candidate.pattern.test(url.pathname)
+    );
+    const endpoint = route?.endpoint ?? `${method} ${url.pathname}`;
+    const resetAt = Math.floor(Date.now() / 1000) + 900;
+    let status: number;
+    let payload: unknown;
+    let form: Record<string, string> | undefined;
+    let headers: Record<string, string> = {
+      "x-rate-limit-limit": String(RATE_LIMIT),
+      "x-rate-limit-remaining": String(RATE_LIMIT - 1),
+      "x-rate-limit-reset": String(resetAt),
+    };
+
+    const failure = route && takeFailure(endpoint);
+    if (!request.headers.authorization && !route?.anonymous) {
+      status = 401;
+      payload = { title: "Unauthorized", detail: "Unauthorized", status };
+    } else if (!route) {
+      status = 404;
+      payload = {
+        title: "Not Found",
+        detail: `No mock for ${endpoint}.`,
+        status,
+      };
+    } else if (failure) {
+      status = failure.status;
+      payload = {
+        title: status === 429 ? "Too Many Requests" : "Mock failure",
+        detail: failure.message ?? `Configured failure for ${endpoint}.`,
+        status,
+      };
+      if (status === 429) {
+        headers = {
+          ...headers,
+          "x-rate-limit-remaining": "0",
+          "x-rate-limit-reset": String(
+            Math.floor(Date.now() / 1000) + (failure.resetInSeconds ?? 1)
+          ),
+        };
+      }
+    } else {
+      const result = route.handle({
+        params: url.pathname.match(route.pattern)?.slice(1) ?? [],
+        query: url.searchParams,
+        body,
+      });
+      status = result.status ?? 200;
+      payload = result.body;
+      form = result.form;
+    }
+
+    interactions.push({
+      at: new Date().toISOString(),
+      endpoint,
+      path: url.pathname,
+      query: Object.fromEntries(url.searchParams),
+      body,
+      status,
+    });
+    if (form) {
+      response.writeHead(status, {
+        "content-type": "application/x-www-form-urlencoded",
+        ...headers,
+      });
+      response.end(new URLSearchParams(form).toString());
+      return;
+    }
+    send(response, status, payload, headers);
+  };
+
+  const server: Server = createServer((request, response) => {
+    handle(request, response).catch((error) =>
+      send(response, 500, { title: "Mock error", detail: String(error) })
+    );
+  });
+
+  const fail = (failure: MockFailure) => {
+    failures.push({ ...failure, times: failure.times || 1 });
+  };
+
+  const reset = () => {
+    interactions.length = 0;
+    failures = [];
+    tweets = new Map();
+    media = new Map();
+    requestTokens.clear();
+    authorizationCodes.clear();
+    refreshTokens.clear();
+  };
+
+  /**
+   * Plays the user approving the consent screen at `authUrl` (as returned by
+   * `generateAuthLink` or `generateOAuth2AuthLink`) and returns the query
+   * string Twitter appends to the callback URL.
+   */
+  const consent = (authUrl: string) => {
+    const query = new URL(authUrl).searchParams;
+    const requestToken = query.get("oauth_token");
+
+    if (requestToken) {
+      const request = requestTokens.get(requestToken);
+      if (!request) {
+        throw new Error(`Unknown request token ${requestToken}`);
+      }
+      request.verifier = `verifier-${newId()}`;
+      return new URLSearchParams({
+        oauth_token: requestToken,
+        oauth_verifier: request.verifier,
+      });
+    }
+
+    const code = `code-${newId()}`;
+    authorizationCodes.set(code, {
+      challenge: query.get("code_challenge") ?? "",
+      redirectUri: query.get("redirect_uri") ?? "",
+      scope: query.get("scope") ?? "",
+    });
+    return new URLSearchParams({ state: query.get("state") ?? "", code });
+  };
+
+  return {
+    server,
+    interactions,
+    fail,
+    reset,
+    consent,
+    /** Calls recorded for one endpoint, e.g. `POST /2/users/:id/likes`. */
+    callsTo: (endpoint: string) =>
+      interactions.filter((interaction) => interaction.endpoint === endpoint),
+    /** Starts listening; resolves to the base URL for `TWITTER_API_BASE_URL`. */
+    listen: (port = 0) =>
+      new Promise<string>((resolve) => {
+        server.listen(port, "127.0.0.1", () =>
+          resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}`)
+        );
+      }),
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        server.close((error) => (error ? reject(error) : resolve()));
+        // The app's keep-alive agent would otherwise hold the server open.
+        server.closeAllConnections();
+      }),
+  };
+};
+
+export type MockTwitterServer = ReturnType<typeof createMockTwitterServer>;
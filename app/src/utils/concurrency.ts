@@ -0,0 +1,16 @@
+/** Runs `work` over `items` with at most `limit` in flight. */
+export const forEachLimited = async <T>(
+  items: T[],
+  limit: number,
+  work: (item: T) => Promise<void>
+) => {
+  const queue = [...items];
+  const worker = async () => {
+    for (let item = queue.shift(); item; item = queue.shift()) {
+      await work(item);
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(limit, queue.length) }, worker)
+  );
+};
@@ -0,0 +1,39 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { parseCsv, toCsv } from "./csv";
+
+describe("toCsv", () => {
+  it("quotes cells with commas, quotes and line breaks", () => {
+    assert.equal(
+      toCsv([
+        ["topic", "tweet"],
+        ['Say "hi"', "one, two\nthree"],
+      ]),
+      'topic,tweet\r\n"Say ""hi""","one, two\nthree"'
+    );
+  });
+
+  it("keeps formula-like cells as text", () => {
+    const cells = [
+      '=HYPERLINK("http://evil.example")',
+      "+1 for onboarding",
+      "-5% churn",
+      "@mockbrand thanks",
+      "\tindented",
+    ];
+
+    const [row] = parseCsv(toCsv([cells]));
+
+    assert.deepEqual(
+      row,
+      cells.map((cell) => `'${cell}`)
+    );
+  });
+
+  it("leaves ordinary cells alone", () => {
+    assert.equal(
+      toCsv([["Plain text", "2026-11-02", "a=b"]]),
+      "Plain text,2026-11-02,a=b"
+    );
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Spreadsheets run cells starting with these as formulas, so exported
+ * copy like `=HYPERLINK(...)` or `@mention` is prefixed with `'` to stay text.
+ */
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+const csvCell = (raw: string) => {
+  const value = FORMULA_START.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+/** RFC 4180 CSV with CRLF line endings; formula-like cells are neutralized. */
+export const toCsv = (rows: string[][]) =>
+  rows.map((row) => row.map(csvCell).join(",")).join("\r\n");
+
+/**
+ * Parses RFC 4180 CSV: quoted cells may hold commas, quotes (`""`) and line
+ * breaks. Blank lines are dropped; a leading byte-order mark is ignored.
+ */
+export const parseCsv = (text: string) => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, "");
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.some((value) => value.trim() !== "")) {
+      rows.push(row);
+    }
+    row = [];
+    cell = "";
+  };
+
+  for (let index = 0; index < input.length; index += 1) {
+    const char = input[index];
+
+    if (quoted) {
+      if (char === '"' && input[index + 1] === '"') {
+        cell += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[index + 1] === "\n") {
+        index += 1;
+      }
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  endRow();
+
+  return rows;
+};
@@ -0,0 +1,216 @@
+/**
+ * DM templates, shared by the pipeline and the dashboard preview.
+ *
+ *   {{name}}                 required variable
+ *   {{name|there}}           variable with a default
+ *   {{#recent_tweet}}…{{/recent_tweet}}   section rendered when the variable resolves
+ *   {{^recent_tweet}}…{{/recent_tweet}}   section rendered when it does not
+ *
+ * Rendering fails closed: a required variable that resolves to nothing makes
+ * the whole render fail instead of producing a message with a hole in it.
+ */
+
+export const TEMPLATE_VARIABLES = [
+  "name",
+  "handle",
+  "bio_keyword",
+  "recent_tweet",
+  "brand",
+] as const;
+
+export type TemplateVariable = (typeof TEMPLATE_VARIABLES)[number];
+
+export type TemplateValues = Partial<Record<TemplateVariable, string>>;
+
+type TemplateNode =
+  | { type: "text"; value: string }
+  | { type: "variable"; name: TemplateVariable; fallback?: string }
+  | {
+      type: "section";
+      name: TemplateVariable;
+      inverted: boolean;
+      children: TemplateNode[];
+    };
+
+export interface ParsedTemplate {
+  nodes: TemplateNode[];
+  errors: string[];
+  /** Every variable the template references, in order of first use. */
+  variables: TemplateVariable[];
+}
+
+export type RenderResult =
+  { ok: true; text: string } | { ok: false; missing: TemplateVariable[] };
+
+const TAG_PATTERN = /{{\s*([#^/]?)\s*([\w.-]*)\s*(?:\|([^}]*))?}}/g;
+
+const isVariable = (name: string): name is TemplateVariable =>
+  (TEMPLATE_VARIABLES as readonly string[]).includes(name);
+
+export const parseTemplate = (source: string): ParsedTemplate => {
+  const root: TemplateNode[] = [];
+  const stack: {
+    name: TemplateVariable;
+    children: TemplateNode[];
+  }[] = [];
+  const errors: string[] = [];
+  const variables = new Set<TemplateVariable>();
+  const current = () => stack.at(-1)?.children ?? root;
+  let cursor = 0;
+
+  for (const match of source.matchAll(TAG_PATTERN)) {
+    const [tag, sigil, name, fallback] = match;
+    const index = match.index ?? 0;
+
+    if (index > cursor) {
+      current().push({ type: "text", value: source.slice(cursor, index) });
+    }
+    cursor = index + tag.length;
+
+    if (!isVariable(name)) {
+      errors.push(
+        name
+          ? `Unknown variable "${name}". Use ${TEMPLATE_VARIABLES.join(", ")}.`
+          : `Empty tag "${tag}".`
+      );
+      continue;
+    }
+    variables.add(name);
+
+    if (sigil === "/") {
+      const open = stack.pop();
+      if (open?.name !== name) {
+        errors.push(
+          open
+            ? `"{{/${name}}}" closes "{{#${open.name}}}".`
+            : `"{{/${name}}}" has no opening section.`
+        );
+      }
+      continue;
+    }
+
+    if (sigil === "#" || sigil === "^") {
+      if (fallback !== undefined) {
+        errors.push(`Section "{{${sigil}${name}}}" cannot have a default.`);
+      }
+      const section: TemplateNode = {
+        type: "section",
+        name,
+        inverted: sigil === "^",
+        children: [],
+      };
+      current().push(section);
+      stack.push({ name, children: section.children });
+      continue;
+    }
+
+    current().push({
+      type: "variable",
+      name,
+      fallback: fallback?.trim(),
+    });
+  }
+
+  if (cursor < source.length) {
+    current().push({ type: "text", value: source.slice(cursor) });
+  }
+
+  for (const open of stack) {
+    errors.push(`Section "{{#${open.name}}}" is never closed.`);
+  }
+
+  if (/{{|}}/.test(source.replace(TAG_PATTERN, ""))) {
+    errors.push("Unbalanced braces: every tag needs both {{ and }}.");
+  }
+
+  return { nodes: root, errors, variables: [...variables] };
+};
+
+const resolved = (values: TemplateValues, name: TemplateVariable) => {
+  const value = values[name]?.trim();
+  return value ? value : undefined;
+};
+
+export const renderTemplate = (
+  template: string | ParsedTemplate,
+  values: TemplateValues
+): RenderResult => {
+  const parsed =
+    typeof template === "string" ? parseTemplate(template) : template;
+  const missing = new Set<TemplateVariable>();
+
+  const render = (nodes: TemplateNode[]): string =>
+    nodes
+      .map((node) => {
+        if (node.type === "text") {
+          return node.value;
+        }
+        const value = resolved(values, node.name);
+        if (node.type === "section") {
+          return Boolean(value) !== node.inverted ? render(node.children) : "";
+        }
+        if (value === undefined && node.fallback === undefined) {
+          missing.add(node.name);
+        }
+        return value ?? node.fallback ?? "";
+      })
+      .join("");
+
+  const text = render(parsed.nodes)
+    .replace(/[ \t]{2,}/g, " ")
+    .trim();
+
+  return missing.size > 0
+    ? { ok: false, missing: [...missing] }
+    : { ok: true, text };
+};
+
+const STOPWORDS = new Set([
+  "about",
+  "and",
+  "building",
+  "from",
+  "here",
+  "into",
+  "just",
+  "love",
+  "lover",
+  "more",
+  "opinions",
+  "own",
+  "that",
+  "the",
+  "their",
+  "these",
+  "things",
+  "this",
+  "views",
+  "what",
+  "with",
+  "your",
+]);
+
+/** First hashtag in a bio, else its longest meaningful word. */
+export const bioKeyword = (bio?: string) => {
+  if (!bio) {
+    return undefined;
+  }
+
+  const hashtag = bio.match(/#(\w{3,})/);
+  if (hashtag) {
+    return hashtag[1];
+  }
+
+  const words = (bio.match(/[\p{L}][\p{L}\p{N}-]{3,}/gu) ?? []).filter(
+    (word) => !STOPWORDS.has(word.toLowerCase())
+  );
+  return words.sort((a, b) => b.length - a.length)[0];
+};
+
+export const SAMPLE_RECIPIENT: TemplateValues = {
+  name: "Ada",
+  handle: "ada_builds",
+  bio_keyword: "automation",
+  recent_tweet: "Shipped our new onboarding flow today",
+  brand: "Acme",
+};
@@ -0,0 +1,49 @@
+/** Opening hooks tweet variants are written in, shared by the pipeline and the dashboard. */
+
+export const HOOK_STYLES = {
+  question: {
+    label: "Question",
+    instruction:
+      "Open with a pointed question the audience will want answered.",
+  },
+  stat: {
+    label: "Stat",
+    instruction:
+      "Open with a concrete number or statistic. Never invent precise figures; use a rough, clearly hedged one if you have no source.",
+  },
+  contrarian: {
+    label: "Contrarian",
+    instruction:
+      "Open by challenging a common belief in the niche, then back it up.",
+  },
+  list: {
+    label: "List",
+    instruction: "Structure the tweet as a short list of 3 crisp points.",
+  },
+} as const;
+
+export type HookStyle = keyof typeof HOOK_STYLES;
+
+export const HOOK_STYLE_IDS = Object.keys(HOOK_STYLES) as [
+  HookStyle,
+  ...HookStyle[],
+];
+
+export const MAX_VARIANTS = 4;
+
+/**
+ * Hook style for each of `count` variants: the chosen styles in order,
+ * cycling when there are more variants than styles. A single variant with no
+ * styles chosen stays untagged.
+ */
+export const variantHookStyles = (
+  count: number,
+  styles?: HookStyle[]
+): (HookStyle | undefined)[] => {
+  const pool = styles?.length
+    ? styles
+    : count > 1
+      ? HOOK_STYLE_IDS
+      : [undefined];
+  return Array.from({ length: count }, (_, index) => pool[index % pool.length]);
+};
@@ -0,0 +1,60 @@
+/** Image style presets and aspect ratios, shared by the pipeline and the dashboard. */
+
+export const IMAGE_STYLES = {
+  cinematic: {
+    label: "Cinematic",
+    prompt: "cinematic, high-contrast illustration with dramatic lighting",
+  },
+  illustration: {
+    label: "Flat illustration",
+    prompt: "clean flat vector illustration, bold shapes, limited palette",
+  },
+  photo: {
+    label: "Photo",
+    prompt:
+      "realistic editorial photograph, natural light, shallow depth of field",
+  },
+  render: {
+    label: "3D render",
+    prompt: "soft 3D render, studio lighting, glossy materials",
+  },
+  minimal: {
+    label: "Minimal",
+    prompt:
+      "minimalist composition, lots of negative space, two or three colors",
+  },
+} as const;
+
+export type ImageStyle = keyof typeof IMAGE_STYLES;
+
+export const IMAGE_STYLE_IDS = Object.keys(IMAGE_STYLES) as [
+  ImageStyle,
+  ...ImageStyle[],
+];
+
+/** Ratios map onto the sizes the OpenAI image endpoint supports. */
+export const IMAGE_ASPECT_RATIOS = {
+  "1:1": { label: "Square", size: "1024x1024" },
+  "3:2": { label: "Landscape", size: "1536x1024" },
+  "2:3": { label: "Portrait", size: "1024x1536" },
+} as const;
+
+export type ImageAspectRatio = keyof typeof IMAGE_ASPECT_RATIOS;
+
+export const IMAGE_ASPECT_RATIO_IDS = Object.keys(IMAGE_ASPECT_RATIOS) as [
+  ImageAspectRatio,
+  ...ImageAspectRatio[],
+];
+
+export const MAX_TWEET_IMAGES = 4;
+
+/** Prompt used when the brief does not supply one. */
+export const defaultImagePrompt = (brief: {
+  topic: string;
+  niche: string;
+  tone: string;
+}) =>
+  `An image about "${brief.topic}" for a Twitter post targeting ${brief.niche}. The tone should feel ${brief.tone}.`;
+
+export const buildImagePrompt = (prompt: string, style: ImageStyle) =>
+  `${prompt.trim()}\n\nStyle: ${IMAGE_STYLES[style].prompt}. No text or logos in the image.`;
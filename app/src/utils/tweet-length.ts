@@ -0,0 +1,99 @@
+/**
+ * Weighted tweet length following twitter-text v3: Latin and common
+ * punctuation count 1, everything else (CJK, emoji) counts 2, and every URL
+ * counts as 23 regardless of its real length.
+ */
+
+export const TWEET_MAX_LENGTH = 280;
+export const URL_LENGTH = 23;
+
+const URL_PATTERN = /\b(?:https?:\/\/|www\.)[^\s]+/gi;
+const EMOJI_PATTERN = /\p{Extended_Pictographic}/u;
+
+const LIGHT_RANGES: [number, number][] = [
+  [0, 4351],
+  [8192, 8205],
+  [8208, 8223],
+  [8242, 8247],
+];
+
+const codePointWeight = (codePoint: number) =>
+  LIGHT_RANGES.some(([start, end]) => codePoint >= start && codePoint <= end)
+    ? 1
+    : 2;
+
+const segmenter =
+  typeof Intl !== "undefined" && "Segmenter" in Intl
+    ? new Intl.Segmenter(undefined, { granularity: "grapheme" })
+    : null;
+
+const textWeight = (text: string) => {
+  const graphemes = segmenter
+    ? Array.from(segmenter.segment(text), (part) => part.segment)
+    : Array.from(text);
+
+  return graphemes.reduce((total, grapheme) => {
+    if (EMOJI_PATTERN.test(grapheme)) {
+      return total + 2;
+    }
+    let weight = 0;
+    for (const char of grapheme) {
+      weight += codePointWeight(char.codePointAt(0) ?? 0);
+    }
+    return total + weight;
+  }, 0);
+};
+
+export const weightedLength = (text: string) => {
+  const normalized = text.normalize("NFC");
+  const urls = normalized.match(URL_PATTERN) ?? [];
+  const withoutUrls = normalized.replace(URL_PATTERN, "");
+  return textWeight(withoutUrls) + urls.length * URL_LENGTH;
+};
+
+export const fitsInTweet = (text: string) =>
+  weightedLength(text) <= TWEET_MAX_LENGTH;
+
+/**
+ * Splits text into tweet-sized chunks on word boundaries, keeping line breaks
+ * inside each chunk. Text that already fits is returned as a single chunk.
+ */
+export const splitIntoTweets = (text: string, max = TWEET_MAX_LENGTH) => {
+  const trimmed = text.trim();
+  if (weightedLength(trimmed) <= max) {
+    return trimmed ? [trimmed] : [];
+  }
+
+  const chunks: string[] = [];
+  let current = "";
+
+  for (const part of trimmed.split(/(\s+)/)) {
+    if (!part) {
+      continue;
+    }
+    if (weightedLength((current + part).trim()) <= max) {
+      current += part;
+      continue;
+    }
+    if (current.trim()) {
+      chunks.push(current.trim());
+    }
+    current = /^\s+$/.test(part) ? "" : part;
+
+    while (weightedLength(current) > max) {
+      const chars = Array.from(current);
+      let end = chars.length;
+      while (end > 1 && weightedLength(chars.slice(0, end).join("")) > max) {
+        end -= 1;
+      }
+      chunks.push(chars.slice(0, end).join(""));
+      current = chars.slice(end).join("");
+    }
+  }
+
+  if (current.trim()) {
+    chunks.push(current.trim());
+  }
+
+  return chunks;
+};